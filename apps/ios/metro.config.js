@@ -1,7 +1,12 @@
+const path = require("path");
 const { getDefaultConfig } = require("expo/metro-config");
 
 const config = getDefaultConfig(__dirname);
 
+// Shared SDK lives outside the app root (packages/core)
+const corePackage = path.resolve(__dirname, "../../packages/core");
+config.watchFolders = [...(config.watchFolders ?? []), corePackage];
+
 // Ensure Buffer is available globally
 global.Buffer = require("buffer").Buffer;
 
@@ -10,6 +15,8 @@ config.resolver = {
   ...config.resolver,
   // sourceExts: [...config.resolver.sourceExts, 'cjs'],
   unstable_conditionNames: ["react-native", "browser", "require"],
+  // packages/core has no node_modules of its own — resolve its imports from the app
+  nodeModulesPaths: [path.resolve(__dirname, "node_modules")],
   extraNodeModules: {
     ...config.resolver.extraNodeModules,
     "@noble/ed25519": require.resolve("@noble/ed25519"),
@@ -17,6 +24,7 @@ config.resolver = {
     crypto: require.resolve("crypto-browserify"),
     stream: require.resolve("web-streams-polyfill"),
     buffer: require.resolve("buffer"),
+    "@quickscope/core": corePackage,
   },
 };
 
@@ -15,10 +15,12 @@ import Toast from "react-native-toast-message";
 
 import { toastConfig } from "@/src/ui/toast/toastConfig";
 
+import { AppProviders } from "@/src/app/AppProviders";
 import { loadEnv } from "@/src/config/env";
-import { AuthSessionProvider } from "@/src/features/auth/AuthSessionProvider";
-import { PrivyWalletProvider } from "@/src/features/wallet/PrivyWalletProvider";
+import { useStreamSessionSync } from "@/src/features/streaming/useStreamSessionSync";
+import { useOrderStatusToasts } from "@/src/features/trade/useOrderStatusToasts";
 import { RpcClient } from "@/src/lib/api/rpcClient";
+import { StreamClient } from "@/src/lib/api/streamClient";
 import {
   parseQuickscopeDeepLink,
   type ParsedDeepLinkTarget,
@@ -59,9 +61,27 @@ const WalletDetailScreen = React.lazy(() =>
 const SettingsScreen = React.lazy(() =>
   import("@/src/screens/SettingsScreen").then((m) => ({ default: m.SettingsScreen }))
 );
+const SwapScreen = React.lazy(() =>
+  import("@/src/screens/SwapScreen").then((m) => ({ default: m.SwapScreen }))
+);
 const TransferScreen = React.lazy(() =>
   import("@/src/screens/TransferScreen").then((m) => ({ default: m.TransferScreen }))
 );
+const WalletManagerScreen = React.lazy(() =>
+  import("@/src/screens/WalletManagerScreen").then((m) => ({ default: m.WalletManagerScreen }))
+);
+const ReclaimRentScreen = React.lazy(() =>
+  import("@/src/screens/ReclaimRentScreen").then((m) => ({ default: m.ReclaimRentScreen }))
+);
+const HiddenTokensScreen = React.lazy(() =>
+  import("@/src/screens/HiddenTokensScreen").then((m) => ({ default: m.HiddenTokensScreen }))
+);
+const DcaPlansScreen = React.lazy(() =>
+  import("@/src/screens/DcaPlansScreen").then((m) => ({ default: m.DcaPlansScreen }))
+);
+const PublishedWatchlistScreen = React.lazy(() =>
+  import("@/src/screens/PublishedWatchlistScreen").then((m) => ({ default: m.PublishedWatchlistScreen }))
+);
 import { qsColors } from "@/src/theme/tokens";
 import { useWidgetUpdater } from "@/src/features/widgets/useWidgetUpdater";
 import { AuthRouteGate } from "@/src/ui/AuthRouteGate";
@@ -111,9 +131,12 @@ function navigateToTarget(
       navigationRef.navigate("MainTabs", { screen: "Scope", params: target.params });
       return;
     case "Trade":
-      navigationRef.navigate("TokenDetail", {
-        tokenAddress: target.params?.tokenAddress ?? "",
-      });
+      // Pair links (input/output mints) open the swap screen; token links open the token
+      if (target.params?.tokenAddress) {
+        navigationRef.navigate("TokenDetail", { tokenAddress: target.params.tokenAddress });
+      } else {
+        navigationRef.navigate("Swap", target.params);
+      }
       return;
     case "Portfolio":
       navigationRef.navigate("MainTabs", { screen: "Portfolio", params: target.params });
@@ -127,6 +150,9 @@ function navigateToTarget(
     case "TokenDetail":
       navigationRef.navigate("TokenDetail", target.params);
       return;
+    case "PublishedWatchlist":
+      navigationRef.navigate("PublishedWatchlist", target.params);
+      return;
     case "Dev":
       navigationRef.navigate("MainTabs", { screen: "Dev" });
       return;
@@ -136,6 +162,8 @@ function navigateToTarget(
 /** Runs hooks that need AuthSessionProvider context */
 function AppEffects({ rpcClient }: { rpcClient: RpcClient }) {
   useWidgetUpdater(rpcClient);
+  useStreamSessionSync();
+  useOrderStatusToasts();
   return null;
 }
 
@@ -292,6 +320,7 @@ function MainTabsNavigator({
 export default function App() {
   const env = useMemo(() => loadEnv(), []);
   const rpcClient = useMemo(() => new RpcClient(env), [env]);
+  const streamClient = useMemo(() => new StreamClient(env), [env]);
   const navigationRef = useRef(createNavigationContainerRef<RootStack>()).current;
   const pendingDeepLinkRef = useRef<ReturnType<typeof parseQuickscopeDeepLink> | null>(
     null
@@ -335,134 +364,227 @@ export default function App() {
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <PrivyWalletProvider env={env}>
-        <AuthSessionProvider rpcClient={rpcClient}>
-          <AppEffects rpcClient={rpcClient} />
-          <NavigationContainer
-            ref={navigationRef}
-            theme={navigationTheme}
-            onReady={() => {
-              const pendingDeepLink = pendingDeepLinkRef.current;
-              if (!pendingDeepLink) {
-                return;
-              }
+      <AppProviders env={env} rpcClient={rpcClient} streamClient={streamClient}>
+        <AppEffects rpcClient={rpcClient} />
+        <NavigationContainer
+          ref={navigationRef}
+          theme={navigationTheme}
+          onReady={() => {
+            const pendingDeepLink = pendingDeepLinkRef.current;
+            if (!pendingDeepLink) {
+              return;
+            }
 
-              pendingDeepLinkRef.current = null;
-              navigateToTarget(navigationRef, pendingDeepLink);
+            pendingDeepLinkRef.current = null;
+            navigateToTarget(navigationRef, pendingDeepLink);
+          }}
+        >
+          <Stack.Navigator
+            initialRouteName="MainTabs"
+            screenOptions={{
+              headerStyle: {
+                backgroundColor: qsColors.layer0,
+              },
+              headerShadowVisible: false,
+              headerTintColor: qsColors.textPrimary,
+              contentStyle: { backgroundColor: qsColors.layer0 },
             }}
           >
-            <Stack.Navigator
-              initialRouteName="MainTabs"
-              screenOptions={{
-                headerStyle: {
-                  backgroundColor: qsColors.layer0,
-                },
-                headerShadowVisible: false,
-                headerTintColor: qsColors.textPrimary,
-                contentStyle: { backgroundColor: qsColors.layer0 },
-              }}
-            >
-              <Stack.Screen
-                name="MainTabs"
-                options={{ headerShown: false }}
-                children={() => (
-                  <MainTabsNavigator
-                    rpcClient={rpcClient}
-                    wsHost={env.wsHost}
-                    onOpenDrawer={openDrawer}
-                  />
-                )}
-              />
-              <Stack.Screen
-                name="TokenDetail"
-                options={{ headerShown: false }}
-                children={({ route }) => (
-                  <RouteErrorBoundary routeName="Token Detail">
+            <Stack.Screen
+              name="MainTabs"
+              options={{ headerShown: false }}
+              children={() => (
+                <MainTabsNavigator
+                  rpcClient={rpcClient}
+                  wsHost={env.wsHost}
+                  onOpenDrawer={openDrawer}
+                />
+              )}
+            />
+            <Stack.Screen
+              name="TokenDetail"
+              options={{ headerShown: false }}
+              children={({ route }) => (
+                <RouteErrorBoundary routeName="Token Detail">
+                  <Suspense fallback={<LazyFallback />}>
+                    <TokenDetailScreen
+                      rpcClient={rpcClient}
+                      solanaRpcEndpoint={env.solanaRpcEndpoint}
+                      params={route.params}
+                    />
+                  </Suspense>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="WalletDetail"
+              options={{ headerShown: false }}
+              children={({ route }) => (
+                <RouteErrorBoundary routeName="Wallet Detail">
+                  <Suspense fallback={<LazyFallback />}>
+                    <WalletDetailScreen rpcClient={rpcClient} params={route.params} />
+                  </Suspense>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Rewards"
+              options={{ title: "Rewards", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="Rewards">
+                  <AuthRouteGate
+                    featureName="Rewards"
+                    subtitle="Connect to view earnings and claim rewards."
+                  >
+                    <Suspense fallback={<LazyFallback />}>
+                      <RewardsScreen rpcClient={rpcClient} />
+                    </Suspense>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Deposit"
+              options={{ title: "Deposit", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="Deposit">
+                  <AuthRouteGate
+                    featureName="Deposit"
+                    subtitle="Connect to view your deposit address."
+                  >
+                    <Suspense fallback={<LazyFallback />}>
+                      <DepositScreen />
+                    </Suspense>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Settings"
+              options={{ title: "Settings", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="Settings">
+                  <Suspense fallback={<LazyFallback />}>
+                    <SettingsScreen rpcClient={rpcClient} />
+                  </Suspense>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Wallets"
+              options={{ title: "Wallets", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="Wallets">
+                  <AuthRouteGate
+                    featureName="Wallets"
+                    subtitle="Connect to manage your trading wallets."
+                  >
+                    <Suspense fallback={<LazyFallback />}>
+                      <WalletManagerScreen rpcClient={rpcClient} />
+                    </Suspense>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Transfer"
+              options={{ title: "Transfer", headerBackButtonDisplayMode: "minimal" }}
+              children={({ route, navigation }) => (
+                <RouteErrorBoundary routeName="Transfer">
+                  <AuthRouteGate
+                    featureName="Transfer"
+                    subtitle="Connect to transfer SOL between wallets."
+                  >
+                    <Suspense fallback={<LazyFallback />}>
+                      <TransferScreen
+                        rpcClient={rpcClient}
+                        params={route.params}
+                        onGoBack={() => navigation.goBack()}
+                      />
+                    </Suspense>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="Swap"
+              options={{ title: "Swap", headerBackButtonDisplayMode: "minimal" }}
+              children={({ route }) => (
+                <RouteErrorBoundary routeName="Swap">
+                  <AuthRouteGate
+                    featureName="Swap"
+                    subtitle="Connect to swap tokens from your wallet."
+                  >
+                    <Suspense fallback={<LazyFallback />}>
+                      <SwapScreen rpcClient={rpcClient} params={route.params} />
+                    </Suspense>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="ReclaimRent"
+              options={{ title: "Reclaim SOL", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="ReclaimRent">
+                  <AuthRouteGate
+                    featureName="Reclaim SOL"
+                    subtitle="Connect to close empty token accounts and recover rent."
+                  >
                     <Suspense fallback={<LazyFallback />}>
-                      <TokenDetailScreen rpcClient={rpcClient} params={route.params} />
+                      <ReclaimRentScreen rpcClient={rpcClient} />
                     </Suspense>
-                  </RouteErrorBoundary>
-                )}
-              />
-              <Stack.Screen
-                name="WalletDetail"
-                options={{ headerShown: false }}
-                children={({ route }) => (
-                  <RouteErrorBoundary routeName="Wallet Detail">
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="HiddenTokens"
+              options={{ title: "Hidden Tokens", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="Hidden Tokens">
+                  <AuthRouteGate
+                    featureName="Hidden Tokens"
+                    subtitle="Connect to manage tokens hidden from your lists."
+                  >
                     <Suspense fallback={<LazyFallback />}>
-                      <WalletDetailScreen rpcClient={rpcClient} params={route.params} />
+                      <HiddenTokensScreen />
                     </Suspense>
-                  </RouteErrorBoundary>
-                )}
-              />
-              <Stack.Screen
-                name="Rewards"
-                options={{ title: "Rewards", headerBackButtonDisplayMode: "minimal" }}
-                children={() => (
-                  <RouteErrorBoundary routeName="Rewards">
-                    <AuthRouteGate
-                      featureName="Rewards"
-                      subtitle="Connect to view earnings and claim rewards."
-                    >
-                      <Suspense fallback={<LazyFallback />}>
-                        <RewardsScreen rpcClient={rpcClient} />
-                      </Suspense>
-                    </AuthRouteGate>
-                  </RouteErrorBoundary>
-                )}
-              />
-              <Stack.Screen
-                name="Deposit"
-                options={{ title: "Deposit", headerBackButtonDisplayMode: "minimal" }}
-                children={() => (
-                  <RouteErrorBoundary routeName="Deposit">
-                    <AuthRouteGate
-                      featureName="Deposit"
-                      subtitle="Connect to view your deposit address."
-                    >
-                      <Suspense fallback={<LazyFallback />}>
-                        <DepositScreen />
-                      </Suspense>
-                    </AuthRouteGate>
-                  </RouteErrorBoundary>
-                )}
-              />
-              <Stack.Screen
-                name="Settings"
-                options={{ title: "Settings", headerBackButtonDisplayMode: "minimal" }}
-                children={() => (
-                  <RouteErrorBoundary routeName="Settings">
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="DcaPlans"
+              options={{ title: "DCA Plans", headerBackButtonDisplayMode: "minimal" }}
+              children={() => (
+                <RouteErrorBoundary routeName="DCA Plans">
+                  <AuthRouteGate
+                    featureName="DCA Plans"
+                    subtitle="Connect to manage scheduled buys and sells."
+                  >
                     <Suspense fallback={<LazyFallback />}>
-                      <SettingsScreen rpcClient={rpcClient} />
+                      <DcaPlansScreen />
                     </Suspense>
-                  </RouteErrorBoundary>
-                )}
-              />
-              <Stack.Screen
-                name="Transfer"
-                options={{ title: "Transfer", headerBackButtonDisplayMode: "minimal" }}
-                children={({ route, navigation }) => (
-                  <RouteErrorBoundary routeName="Transfer">
-                    <AuthRouteGate
-                      featureName="Transfer"
-                      subtitle="Connect to transfer SOL between wallets."
-                    >
-                      <Suspense fallback={<LazyFallback />}>
-                        <TransferScreen
-                          rpcClient={rpcClient}
-                          params={route.params}
-                          onGoBack={() => navigation.goBack()}
-                        />
-                      </Suspense>
-                    </AuthRouteGate>
-                  </RouteErrorBoundary>
-                )}
-              />
-            </Stack.Navigator>
-            <SlideOutDrawer visible={drawerVisible} onClose={closeDrawer} rpcClient={rpcClient} />
-          </NavigationContainer>
-        </AuthSessionProvider>
-      </PrivyWalletProvider>
+                  </AuthRouteGate>
+                </RouteErrorBoundary>
+              )}
+            />
+            <Stack.Screen
+              name="PublishedWatchlist"
+              options={{ title: "Shared List", headerBackButtonDisplayMode: "minimal" }}
+              children={({ route }) => (
+                <RouteErrorBoundary routeName="Shared List">
+                  <Suspense fallback={<LazyFallback />}>
+                    <PublishedWatchlistScreen rpcClient={rpcClient} params={route.params} />
+                  </Suspense>
+                </RouteErrorBoundary>
+              )}
+            />
+          </Stack.Navigator>
+          <SlideOutDrawer visible={drawerVisible} onClose={closeDrawer} rpcClient={rpcClient} />
+        </NavigationContainer>
+      </AppProviders>
       <Toast config={toastConfig} />
     </GestureHandlerRootView>
   );
@@ -0,0 +1,38 @@
+import type { PropsWithChildren, ReactElement, ReactNode } from "react";
+
+import type { AppEnv } from "@/src/config/env";
+import { AuthSessionProvider } from "@/src/features/auth/AuthSessionProvider";
+import { DashboardSyncProvider } from "@/src/features/dashboard/DashboardSyncProvider";
+import { StreamClientProvider } from "@/src/features/streaming/StreamClientProvider";
+import { HiddenTokensProvider } from "@/src/features/token/HiddenTokensProvider";
+import { DcaPlansProvider } from "@/src/features/trade/DcaPlansProvider";
+import { ExitLaddersProvider } from "@/src/features/trade/ExitLaddersProvider";
+import { TrailingStopsProvider } from "@/src/features/trade/TrailingStopsProvider";
+import { PrivyWalletProvider } from "@/src/features/wallet/PrivyWalletProvider";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { StreamClient } from "@/src/lib/api/streamClient";
+
+type AppProvidersProps = PropsWithChildren<{
+  env: AppEnv;
+  rpcClient: RpcClient;
+  streamClient: StreamClient;
+}>;
+
+/**
+ * App-wide providers, outermost first — each may use the ones above it.
+ * A feature that needs app-wide state adds one line here.
+ */
+export function AppProviders({ env, rpcClient, streamClient, children }: AppProvidersProps) {
+  const providers: ((node: ReactNode) => ReactElement)[] = [
+    (node) => <PrivyWalletProvider env={env}>{node}</PrivyWalletProvider>,
+    (node) => <AuthSessionProvider rpcClient={rpcClient}>{node}</AuthSessionProvider>,
+    (node) => <StreamClientProvider streamClient={streamClient}>{node}</StreamClientProvider>,
+    (node) => <HiddenTokensProvider rpcClient={rpcClient}>{node}</HiddenTokensProvider>,
+    (node) => <ExitLaddersProvider rpcClient={rpcClient}>{node}</ExitLaddersProvider>,
+    (node) => <TrailingStopsProvider rpcClient={rpcClient}>{node}</TrailingStopsProvider>,
+    (node) => <DcaPlansProvider rpcClient={rpcClient}>{node}</DcaPlansProvider>,
+    (node) => <DashboardSyncProvider rpcClient={rpcClient}>{node}</DashboardSyncProvider>,
+  ];
+
+  return <>{providers.reduceRight<ReactNode>((node, wrap) => wrap(node), children)}</>;
+}
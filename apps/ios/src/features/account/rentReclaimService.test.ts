@@ -0,0 +1,96 @@
+import {
+  buildReclaimPlan,
+  executeMultiWalletReclaim,
+  mapMultiWalletReclaimable,
+  reclaimResultMessage,
+} from "@/src/features/account/rentReclaimService";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+
+const rawAccounts = [
+  { address: "ta1", mint: "mintA", ui_amount: 0, rent_lamports: 2_039_280 },
+  { token_account: "ta2", mint: "mintB", amount: "12.5", lamports: "2039280", symbol: "DUST" },
+  { mint: "no-address", rent_lamports: 1 },
+];
+
+describe("mapMultiWalletReclaimable", () => {
+  it("normalizes owner-keyed and array responses", () => {
+    const keyed = mapMultiWalletReclaimable({ wallets: { W1: { accounts: rawAccounts } } });
+    const listed = mapMultiWalletReclaimable([{ owner: "W1", accounts: rawAccounts }]);
+
+    expect(keyed).toEqual(listed);
+    expect(keyed.W1.totalRentLamports).toBe(4_078_560);
+    expect(keyed.W1.accounts).toEqual([
+      { address: "ta1", mint: "mintA", uiAmount: 0, rentLamports: 2_039_280, symbol: undefined, imageUri: undefined },
+      { address: "ta2", mint: "mintB", uiAmount: 12.5, rentLamports: 2_039_280, symbol: "DUST", imageUri: undefined },
+    ]);
+  });
+});
+
+describe("buildReclaimPlan", () => {
+  it("keeps only selected accounts and drops wallets with nothing selected", () => {
+    const infos = mapMultiWalletReclaimable({
+      W1: { accounts: rawAccounts },
+      W2: { accounts: [{ address: "ta3", mint: "mintC", rent_lamports: 1 }] },
+    });
+
+    const plan = buildReclaimPlan(
+      [
+        { public_key: "W1", name: "One" },
+        { public_key: "W2", name: "Two" },
+      ],
+      infos,
+      new Set(["ta2"])
+    );
+
+    expect(plan).toEqual([
+      { wallet: { public_key: "W1", name: "One" }, accounts: [infos.W1.accounts[1]] },
+    ]);
+  });
+});
+
+describe("executeMultiWalletReclaim", () => {
+  it("buckets per-wallet results and summarizes them", async () => {
+    const call = jest.fn(async (_method: string, params: unknown[]) => {
+      if (params[0] === "W2") throw new Error("Blockhash expired");
+      return { signature: "sig1" };
+    });
+    const rpcClient = { call } as unknown as RpcClient;
+    const infos = mapMultiWalletReclaimable({
+      W1: { accounts: rawAccounts },
+      W2: { accounts: [{ address: "ta3", mint: "mintC", rent_lamports: 1 }] },
+    });
+
+    const result = await executeMultiWalletReclaim({
+      rpcClient,
+      plan: buildReclaimPlan(
+        [
+          { public_key: "W1", name: "One" },
+          { public_key: "W2", name: "Two" },
+        ],
+        infos,
+        new Set(["ta1", "ta2", "ta3"])
+      ),
+    });
+
+    expect(call).toHaveBeenCalledWith("tx/reclaimRent", ["W1", ["ta1", "ta2"]]);
+    expect(result.success).toEqual([
+      {
+        success: true,
+        walletPublicKey: "W1",
+        walletName: "One",
+        closedAccounts: 2,
+        reclaimedLamports: 4_078_560,
+        signatures: ["sig1"],
+        error: undefined,
+      },
+    ]);
+    expect(result.failed.map((r) => [r.walletPublicKey, r.error])).toEqual([
+      ["W2", "Blockhash expired"],
+    ]);
+    expect(reclaimResultMessage(result)).toEqual({
+      title: "Partial reclaim",
+      message: "0.0041 SOL reclaimed — 1 succeeded, 1 failed (2 wallets).",
+      type: "warning",
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Token account rent reclaim — closes leftover token accounts across the
+ * user's wallets and returns their rent to the owning wallet.
+ *
+ * Pattern: one public/getMultiWalletReclaimableTokenAccountInfo query for the
+ * overview, then one tx/reclaimRent per wallet via Promise.allSettled, with
+ * results bucketed like BatchTradeResult.
+ */
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { LAMPORTS_PER_SOL } from "@/src/features/account/walletService";
+import type { SelectedWallet, SkippedWallet } from "@/src/features/trade/multiWalletTradeService";
+import { toNumber } from "@quickscope/core";
+
+// ── Types ──
+
+export type ReclaimableTokenAccount = {
+  /** Token account address (what gets closed) */
+  address: string;
+  mint: string;
+  /** Token balance still held — non-zero balances are burned on close */
+  uiAmount: number;
+  rentLamports: number;
+  symbol?: string;
+  imageUri?: string;
+};
+
+export type WalletReclaimInfo = {
+  wallet: string;
+  accounts: ReclaimableTokenAccount[];
+  totalRentLamports: number;
+};
+
+export type WalletReclaimPlan = {
+  wallet: SelectedWallet;
+  accounts: ReclaimableTokenAccount[];
+};
+
+export type WalletReclaimResult = {
+  success: boolean;
+  walletPublicKey: string;
+  walletName?: string;
+  closedAccounts: number;
+  reclaimedLamports: number;
+  signatures: string[];
+  error?: string;
+};
+
+export type BatchReclaimResult = {
+  success: WalletReclaimResult[];
+  failed: WalletReclaimResult[];
+  skipped: SkippedWallet[];
+};
+
+type RawReclaimableAccount = {
+  address?: string;
+  pubkey?: string;
+  token_account?: string;
+  mint?: string;
+  ui_amount?: number | string;
+  amount?: number | string;
+  rent_lamports?: number | string;
+  lamports?: number | string;
+  symbol?: string;
+  image_uri?: string;
+  token_info?: { symbol?: string; image_uri?: string };
+};
+
+type RawReclaimableInfo = {
+  owner?: string;
+  wallet?: string;
+  accounts?: RawReclaimableAccount[];
+  token_accounts?: RawReclaimableAccount[];
+};
+
+type RawMultiWalletReclaimableInfo =
+  | RawReclaimableInfo[]
+  | { wallets?: RawReclaimableInfo[] | Record<string, RawReclaimableInfo> }
+  | Record<string, RawReclaimableInfo>;
+
+type RawReclaimResult = {
+  signature?: string;
+  signatures?: string[];
+  closed_accounts?: number;
+  reclaimed_lamports?: number | string;
+  error?: string;
+};
+
+// ── Helpers ──
+
+export function lamportsToSol(lamports: number): number {
+  return lamports / LAMPORTS_PER_SOL;
+}
+
+export function mapReclaimableAccount(raw: RawReclaimableAccount): ReclaimableTokenAccount | null {
+  const address = raw.address ?? raw.token_account ?? raw.pubkey;
+  if (!address) return null;
+
+  return {
+    address,
+    mint: raw.mint ?? "",
+    uiAmount: toNumber(raw.ui_amount ?? raw.amount),
+    rentLamports: toNumber(raw.rent_lamports ?? raw.lamports),
+    symbol: raw.symbol ?? raw.token_info?.symbol,
+    imageUri: raw.image_uri ?? raw.token_info?.image_uri,
+  };
+}
+
+function mapReclaimableInfo(wallet: string, raw: RawReclaimableInfo): WalletReclaimInfo {
+  const accounts = (raw.accounts ?? raw.token_accounts ?? [])
+    .map(mapReclaimableAccount)
+    .filter((account): account is ReclaimableTokenAccount => account !== null);
+
+  return {
+    wallet,
+    accounts,
+    totalRentLamports: accounts.reduce((sum, a) => sum + a.rentLamports, 0),
+  };
+}
+
+/**
+ * Normalize the multi-wallet response into a per-wallet map. The server has
+ * returned both an owner-keyed object and an array of `{ owner, accounts }`.
+ */
+export function mapMultiWalletReclaimable(
+  raw: RawMultiWalletReclaimableInfo | null | undefined
+): Record<string, WalletReclaimInfo> {
+  const result: Record<string, WalletReclaimInfo> = {};
+  if (!raw) return result;
+
+  const container = !Array.isArray(raw) && "wallets" in raw ? raw.wallets : raw;
+  if (!container) return result;
+
+  if (Array.isArray(container)) {
+    for (const entry of container) {
+      const wallet = entry.owner ?? entry.wallet;
+      if (wallet) result[wallet] = mapReclaimableInfo(wallet, entry);
+    }
+    return result;
+  }
+
+  for (const [wallet, entry] of Object.entries(container as Record<string, RawReclaimableInfo>)) {
+    result[wallet] = mapReclaimableInfo(wallet, entry ?? {});
+  }
+  return result;
+}
+
+export function sumRentLamports(accounts: ReclaimableTokenAccount[]): number {
+  return accounts.reduce((sum, a) => sum + a.rentLamports, 0);
+}
+
+/** Accounts that still hold tokens — closing them burns the remaining balance. */
+export function accountsWithBalance(accounts: ReclaimableTokenAccount[]): ReclaimableTokenAccount[] {
+  return accounts.filter((a) => a.uiAmount > 0);
+}
+
+/**
+ * Build the per-wallet run from the selected token account addresses. Wallets
+ * with nothing selected are left out; wallet order follows `wallets`.
+ */
+export function buildReclaimPlan(
+  wallets: SelectedWallet[],
+  infos: Record<string, WalletReclaimInfo>,
+  selectedAccounts: ReadonlySet<string>
+): WalletReclaimPlan[] {
+  const plan: WalletReclaimPlan[] = [];
+  for (const wallet of wallets) {
+    const accounts = (infos[wallet.public_key]?.accounts ?? []).filter((a) =>
+      selectedAccounts.has(a.address)
+    );
+    if (accounts.length > 0) plan.push({ wallet, accounts });
+  }
+  return plan;
+}
+
+// ── API ──
+
+export async function fetchMultiWalletReclaimable(
+  rpcClient: RpcClient,
+  walletKeys: string[]
+): Promise<Record<string, WalletReclaimInfo>> {
+  if (walletKeys.length === 0) return {};
+
+  const result = await rpcClient.call<RawMultiWalletReclaimableInfo>(
+    "public/getMultiWalletReclaimableTokenAccountInfo",
+    [walletKeys]
+  );
+
+  if (__DEV__) {
+    console.log(
+      "[rentReclaimService] getMultiWalletReclaimableTokenAccountInfo raw:",
+      JSON.stringify(result).slice(0, 500)
+    );
+  }
+
+  return mapMultiWalletReclaimable(result);
+}
+
+/**
+ * Close the selected token accounts of one wallet. Accounts that still hold
+ * tokens have the balance burned (see docs/data-sources.md).
+ */
+export async function reclaimRent(
+  rpcClient: RpcClient,
+  userAccount: string,
+  tokenAccounts: string[]
+): Promise<RawReclaimResult> {
+  const result = await rpcClient.call<RawReclaimResult | string>("tx/reclaimRent", [
+    userAccount,
+    tokenAccounts,
+  ]);
+  return typeof result === "string" ? { signature: result } : result ?? {};
+}
+
+// ── Batch execution ──
+
+export async function executeMultiWalletReclaim({
+  rpcClient,
+  plan,
+}: {
+  rpcClient: RpcClient;
+  plan: WalletReclaimPlan[];
+}): Promise<BatchReclaimResult> {
+  if (plan.length === 0) {
+    throw new Error("No token accounts selected.");
+  }
+
+  const success: WalletReclaimResult[] = [];
+  const failed: WalletReclaimResult[] = [];
+
+  await Promise.allSettled(
+    plan.map(async ({ wallet, accounts }) => {
+      const expectedLamports = sumRentLamports(accounts);
+
+      try {
+        const result = await reclaimRent(
+          rpcClient,
+          wallet.public_key,
+          accounts.map((a) => a.address)
+        );
+        const signatures = result.signatures ?? (result.signature ? [result.signature] : []);
+
+        const walletResult: WalletReclaimResult = {
+          success: !result.error,
+          walletPublicKey: wallet.public_key,
+          walletName: wallet.name,
+          closedAccounts: result.closed_accounts ?? (result.error ? 0 : accounts.length),
+          reclaimedLamports:
+            result.reclaimed_lamports !== undefined
+              ? toNumber(result.reclaimed_lamports)
+              : result.error
+                ? 0
+                : expectedLamports,
+          signatures,
+          error: result.error,
+        };
+
+        if (walletResult.success) {
+          success.push(walletResult);
+        } else {
+          failed.push(walletResult);
+        }
+      } catch (err) {
+        failed.push({
+          success: false,
+          walletPublicKey: wallet.public_key,
+          walletName: wallet.name,
+          closedAccounts: 0,
+          reclaimedLamports: 0,
+          signatures: [],
+          error: err instanceof Error ? err.message : "Reclaim failed",
+        });
+      }
+    })
+  );
+
+  return { success, failed, skipped: [] };
+}
+
+// ── Batch result toast helper ──
+
+export function reclaimResultMessage(result: BatchReclaimResult): {
+  title: string;
+  message: string;
+  type: "success" | "warning" | "error";
+} {
+  const total = result.success.length + result.failed.length + result.skipped.length;
+  const reclaimedSol = lamportsToSol(
+    result.success.reduce((sum, r) => sum + r.reclaimedLamports, 0)
+  );
+  const closed = result.success.reduce((sum, r) => sum + r.closedAccounts, 0);
+
+  if (result.success.length === total) {
+    return {
+      title: "Rent reclaimed",
+      message: `${reclaimedSol.toFixed(4)} SOL from ${closed} account${closed === 1 ? "" : "s"}.`,
+      type: "success",
+    };
+  }
+
+  if (result.success.length === 0) {
+    return {
+      title: "Reclaim failed",
+      message: `All ${total} wallet${total > 1 ? "s" : ""} failed.`,
+      type: "error",
+    };
+  }
+
+  const parts: string[] = [`${result.success.length} succeeded`];
+  if (result.failed.length > 0) parts.push(`${result.failed.length} failed`);
+  if (result.skipped.length > 0) parts.push(`${result.skipped.length} skipped`);
+
+  return {
+    title: "Partial reclaim",
+    message: `${reclaimedSol.toFixed(4)} SOL reclaimed — ${parts.join(", ")} (${total} wallets).`,
+    type: "warning",
+  };
+}
@@ -134,6 +134,7 @@ export function validateTradeSettings(s: AccountTradeSettings): string | null {
   if (s.quick_sell_bps > 10000) return "Quick sell percentage exceeds max 100%";
   if (s.stealth_buy_variance > 50) return "Buy variance exceeds max 50%";
   if (s.stealth_sell_variance > 50) return "Sell variance exceeds max 50%";
+  if (s.split_deviation > 50) return "Split deviation exceeds max 50%";
   return null;
 }
 
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  fetchMultiWalletReclaimable,
+  type WalletReclaimInfo,
+} from "@/src/features/account/rentReclaimService";
+import { fetchActiveWallets, type UserWalletInfo } from "@/src/features/account/walletService";
+
+/**
+ * Reclaimable token accounts for every active wallet, loaded in one
+ * public/getMultiWalletReclaimableTokenAccountInfo call.
+ */
+export function useReclaimableAccounts(rpcClient: RpcClient) {
+  const [wallets, setWallets] = useState<UserWalletInfo[]>([]);
+  const [infos, setInfos] = useState<Record<string, WalletReclaimInfo>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const active = await fetchActiveWallets(rpcClient);
+      const reclaimable = await fetchMultiWalletReclaimable(
+        rpcClient,
+        active.wallets.map((w) => w.public_key)
+      );
+
+      if (!mountedRef.current) return;
+
+      setWallets(active.wallets);
+      setInfos(reclaimable);
+      setError(null);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to load token accounts");
+      }
+    } finally {
+      if (mountedRef.current) setIsLoading(false);
+    }
+  }, [rpcClient]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    void refresh();
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [refresh]);
+
+  return { wallets, infos, isLoading, error, refresh };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  archiveWallet,
+  deleteWallet,
+  fetchActiveWallets,
+  fetchArchivedWallets,
+  fetchWalletSolBalances,
+  generateWallet,
+  importWallet,
+  renameWallet,
+  selectWallets,
+  setPrimaryWallet,
+  unarchiveWallet,
+  unselectWallets,
+  type UserWalletInfo,
+  type WalletGroup,
+  type WalletWithBalance,
+} from "@/src/features/account/walletService";
+
+/**
+ * Active + archived wallets and groups for the wallet manager.
+ *
+ * Every mutation refetches the full list afterwards — the server owns
+ * primary/selected/archived state, so nothing is patched locally except the
+ * optimistic selection toggle.
+ */
+export function useWalletManager(rpcClient: RpcClient) {
+  const [wallets, setWallets] = useState<WalletWithBalance[]>([]);
+  const [archivedWallets, setArchivedWallets] = useState<UserWalletInfo[]>([]);
+  const [groups, setGroups] = useState<WalletGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [active, archived] = await Promise.all([
+        fetchActiveWallets(rpcClient),
+        fetchArchivedWallets(rpcClient).catch(() => [] as UserWalletInfo[]),
+      ]);
+      const balances = await fetchWalletSolBalances(
+        rpcClient,
+        active.wallets.map((w) => w.public_key)
+      ).catch(() => ({}) as Record<string, number>);
+
+      if (!mountedRef.current) return;
+
+      setWallets(active.wallets.map((w) => ({ ...w, solBalance: balances[w.public_key] ?? 0 })));
+      setGroups(active.groups ?? []);
+      setArchivedWallets(archived);
+      setError(null);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to load wallets");
+      }
+    } finally {
+      if (mountedRef.current) setIsLoading(false);
+    }
+  }, [rpcClient]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    void refresh();
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [refresh]);
+
+  /** Run a mutation, then reload. Errors propagate so the screen can toast them. */
+  const mutate = useCallback(
+    async <T,>(action: () => Promise<T>): Promise<T> => {
+      try {
+        return await action();
+      } finally {
+        void refresh();
+      }
+    },
+    [refresh]
+  );
+
+  const setSelected = useCallback(
+    async (walletKeys: string[], selected: boolean) => {
+      if (walletKeys.length === 0) return;
+      const keys = new Set(walletKeys);
+      setWallets((prev) => prev.map((w) => (keys.has(w.public_key) ? { ...w, selected } : w)));
+      await mutate(() =>
+        selected ? selectWallets(rpcClient, walletKeys) : unselectWallets(rpcClient, walletKeys)
+      );
+    },
+    [rpcClient, mutate]
+  );
+
+  return {
+    wallets,
+    archivedWallets,
+    groups,
+    isLoading,
+    error,
+    refresh,
+    setSelected,
+    generate: (name: string) => mutate(() => generateWallet(rpcClient, name)),
+    importKey: (name: string, privateKey: string) =>
+      mutate(() => importWallet(rpcClient, { name, privateKey })),
+    rename: (wallet: string, name: string) => mutate(() => renameWallet(rpcClient, wallet, name)),
+    setPrimary: (wallet: string) => mutate(() => setPrimaryWallet(rpcClient, wallet)),
+    archive: (wallet: string) => mutate(() => archiveWallet(rpcClient, wallet)),
+    unarchive: (wallet: string) => mutate(() => unarchiveWallet(rpcClient, wallet)),
+    remove: (wallet: string) => mutate(() => deleteWallet(rpcClient, wallet)),
+  };
+}
@@ -0,0 +1,49 @@
+import {
+  groupWallets,
+  type UserWalletInfo,
+  type WalletGroup,
+} from "@/src/features/account/walletService";
+
+function wallet(publicKey: string, groupIds: number[] = []): UserWalletInfo {
+  return {
+    public_key: publicKey,
+    name: publicKey,
+    source: "generated",
+    is_primary: false,
+    selected: false,
+    created_at: 1_700_000_000,
+    group_ids: groupIds,
+  };
+}
+
+function group(id: number, name: string): WalletGroup {
+  return { id, name, color: "#7766F7", created_at: 1_700_000_000 };
+}
+
+describe("groupWallets", () => {
+  it("buckets wallets by group in group order, ungrouped last", () => {
+    const sections = groupWallets(
+      [wallet("A", [2]), wallet("B"), wallet("C", [1, 2])],
+      [group(1, "Snipers"), group(2, "Main")]
+    );
+
+    expect(sections.map((s) => [s.group?.name ?? null, s.wallets.map((w) => w.public_key)])).toEqual([
+      ["Snipers", ["C"]],
+      ["Main", ["A", "C"]],
+      [null, ["B"]],
+    ]);
+  });
+
+  it("keeps empty groups and treats unknown group ids as ungrouped", () => {
+    const sections = groupWallets([wallet("A", [99])], [group(1, "Empty")]);
+
+    expect(sections).toEqual([
+      { group: group(1, "Empty"), wallets: [] },
+      { group: null, wallets: [wallet("A", [99])] },
+    ]);
+  });
+
+  it("omits the ungrouped section when every wallet has a group", () => {
+    expect(groupWallets([wallet("A", [1])], [group(1, "Main")])).toHaveLength(1);
+  });
+});
@@ -29,6 +29,12 @@ type ActiveWalletsResponse = {
   groups: WalletGroup[];
 };
 
+/** Wallets bucketed by group for display. Ungrouped wallets come last with `group: null`. */
+export type WalletGroupSection<T extends UserWalletInfo = UserWalletInfo> = {
+  group: WalletGroup | null;
+  wallets: T[];
+};
+
 type SolBalanceEntry = {
   account: string;
   balance: number;
@@ -68,6 +74,13 @@ export async function fetchActiveWallets(
   return { wallets: [], groups: [] };
 }
 
+export async function fetchArchivedWallets(
+  rpcClient: RpcClient
+): Promise<UserWalletInfo[]> {
+  const result = await rpcClient.call<UserWalletInfo[]>("tx/getArchivedWallets", []);
+  return Array.isArray(result) ? result : [];
+}
+
 export async function fetchWalletSolBalances(
   rpcClient: RpcClient,
   walletKeys: string[]
@@ -106,6 +119,55 @@ export async function unselectWallets(
   await rpcClient.call("tx/unselectWallets", [walletKeys]);
 }
 
+// ── Wallet lifecycle ──
+
+export async function generateWallet(
+  rpcClient: RpcClient,
+  name: string
+): Promise<UserWalletInfo> {
+  return rpcClient.call<UserWalletInfo>("tx/generateWallet", [name]);
+}
+
+export async function importWallet(
+  rpcClient: RpcClient,
+  params: { name: string; privateKey: string }
+): Promise<void> {
+  await rpcClient.call("tx/importWallet", [params.name, params.privateKey]);
+}
+
+/** Returns the wallet's base58 private key. Callers must re-authenticate first. */
+export async function exportWallet(
+  rpcClient: RpcClient,
+  userAccountKey: string
+): Promise<string> {
+  const privateKey = await rpcClient.call<string>("tx/exportWallet", [userAccountKey]);
+  return privateKey ?? "";
+}
+
+export async function renameWallet(
+  rpcClient: RpcClient,
+  wallet: string,
+  name: string
+): Promise<void> {
+  await rpcClient.call("tx/renameWallet", [wallet, name]);
+}
+
+export async function setPrimaryWallet(rpcClient: RpcClient, wallet: string): Promise<void> {
+  await rpcClient.call("tx/setPrimaryWallet", [wallet]);
+}
+
+export async function archiveWallet(rpcClient: RpcClient, wallet: string): Promise<void> {
+  await rpcClient.call("tx/archiveWallet", [wallet]);
+}
+
+export async function unarchiveWallet(rpcClient: RpcClient, wallet: string): Promise<void> {
+  await rpcClient.call("tx/unarchiveWallet", [wallet]);
+}
+
+export async function deleteWallet(rpcClient: RpcClient, wallet: string): Promise<void> {
+  await rpcClient.call("tx/deleteWallet", [wallet]);
+}
+
 // ── Transfer ──
 
 export async function transferSol(
@@ -145,6 +207,31 @@ export function truncateAddress(address: string): string {
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
 }
 
+/**
+ * Bucket wallets by `group_ids`, in group order. A wallet in several groups
+ * appears under each of them; groups with no wallets are kept so they still
+ * show up in the manager.
+ */
+export function groupWallets<T extends UserWalletInfo>(
+  wallets: T[],
+  groups: WalletGroup[]
+): WalletGroupSection<T>[] {
+  const knownIds = new Set(groups.map((group) => group.id));
+  const sections: WalletGroupSection<T>[] = groups.map((group) => ({
+    group,
+    wallets: wallets.filter((wallet) => (wallet.group_ids ?? []).includes(group.id)),
+  }));
+
+  const ungrouped = wallets.filter(
+    (wallet) => !(wallet.group_ids ?? []).some((id) => knownIds.has(id))
+  );
+  if (ungrouped.length > 0) {
+    sections.push({ group: null, wallets: ungrouped });
+  }
+
+  return sections;
+}
+
 export function isValidSolanaAddress(address: string): boolean {
   return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
 }
@@ -0,0 +1,80 @@
+import {
+  describeTokenAlertCondition,
+  mapTokenAlert,
+  validateTokenAlertCondition,
+} from "@/src/features/alerts/tokenAlertService";
+
+describe("mapTokenAlert", () => {
+  it("normalises ids, numeric strings and millisecond timestamps", () => {
+    expect(
+      mapTokenAlert({
+        alert_id: "42",
+        mint: "MintA",
+        condition: { metric: "market_cap", direction: "below", value: "250000" },
+        symbol: "BONK",
+        image_uri: "",
+        created_at: 1_700_000_000_000,
+        triggered_at: null,
+      })
+    ).toEqual({
+      id: 42,
+      mint: "MintA",
+      condition: { metric: "market_cap", direction: "below", value: 250_000 },
+      symbol: "BONK",
+      name: undefined,
+      imageUri: undefined,
+      createdAt: 1_700_000_000,
+      triggeredAt: undefined,
+    });
+  });
+
+  it("drops rows without an id or with an unknown metric", () => {
+    expect(
+      mapTokenAlert({ mint: "MintA", condition: { metric: "price", direction: "above", value: 1 } })
+    ).toBeNull();
+    expect(
+      mapTokenAlert({
+        id: 1,
+        mint: "MintA",
+        condition: { metric: "volume" as never, direction: "above", value: 1 },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("validateTokenAlertCondition", () => {
+  it("requires a positive threshold for market cap and price", () => {
+    expect(
+      validateTokenAlertCondition({ metric: "price", direction: "above", value: 0 })
+    ).toBe("Threshold must be greater than 0");
+    expect(
+      validateTokenAlertCondition({ metric: "one_hour_change", direction: "below", value: -20 })
+    ).toBeNull();
+  });
+
+  it("rejects thresholds the current value already meets", () => {
+    const condition = { metric: "market_cap", direction: "above", value: 1_000_000 } as const;
+
+    expect(validateTokenAlertCondition(condition, 2_000_000)).toBe(
+      "Threshold is already below the current value"
+    );
+    expect(validateTokenAlertCondition(condition, 500_000)).toBeNull();
+    expect(validateTokenAlertCondition({ ...condition, direction: "below" }, 500_000)).toBe(
+      "Threshold is already above the current value"
+    );
+  });
+});
+
+describe("describeTokenAlertCondition", () => {
+  it("formats each metric in its own unit", () => {
+    expect(
+      describeTokenAlertCondition({ metric: "market_cap", direction: "above", value: 1_200_000 })
+    ).toBe("MC above $1.20M");
+    expect(
+      describeTokenAlertCondition({ metric: "price", direction: "below", value: 0.0000123456 })
+    ).toBe("Price below $0.0000123");
+    expect(
+      describeTokenAlertCondition({ metric: "one_hour_change", direction: "below", value: -20 })
+    ).toBe("1h below -20.0%");
+  });
+});
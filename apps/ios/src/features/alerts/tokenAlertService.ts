@@ -0,0 +1,166 @@
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { formatCompactUsd, formatPercent } from "@/src/lib/format";
+import { toNumber } from "@quickscope/core";
+
+// ── Types ──
+
+export type TokenAlertMetric = "market_cap" | "price" | "one_hour_change";
+
+export type TokenAlertDirection = "above" | "below";
+
+export type TokenAlertCondition = {
+  metric: TokenAlertMetric;
+  direction: TokenAlertDirection;
+  /** USD for market_cap / price, percent for one_hour_change */
+  value: number;
+};
+
+export type TokenAlert = {
+  id: number;
+  mint: string;
+  condition: TokenAlertCondition;
+  symbol?: string;
+  name?: string;
+  imageUri?: string;
+  /** Unix seconds */
+  createdAt?: number;
+  /** Unix seconds — set once the alert has fired */
+  triggeredAt?: number;
+};
+
+type RawTokenAlert = {
+  id?: string | number;
+  alert_id?: string | number;
+  mint?: string;
+  condition?: Partial<Omit<TokenAlertCondition, "value">> & { value?: number | string };
+  symbol?: string;
+  name?: string;
+  image_uri?: string;
+  created_at?: number | string;
+  triggered_at?: number | string | null;
+};
+
+export const TOKEN_ALERT_METRIC_OPTIONS: { value: TokenAlertMetric; label: string }[] = [
+  { value: "market_cap", label: "Market Cap" },
+  { value: "price", label: "Price" },
+  { value: "one_hour_change", label: "1h Change" },
+];
+
+const METRIC_SHORT_LABELS: Record<TokenAlertMetric, string> = {
+  market_cap: "MC",
+  price: "Price",
+  one_hour_change: "1h",
+};
+
+function toOptionalSeconds(value: unknown): number | undefined {
+  const parsed = toNumber(value);
+  if (parsed <= 0) return undefined;
+  return parsed > 10_000_000_000 ? Math.floor(parsed / 1000) : parsed;
+}
+
+function isAlertMetric(value: unknown): value is TokenAlertMetric {
+  return value === "market_cap" || value === "price" || value === "one_hour_change";
+}
+
+// ── Helpers ──
+
+/** Normalise a server alert row. Null when it lacks an id, mint or a known metric. */
+export function mapTokenAlert(raw: RawTokenAlert): TokenAlert | null {
+  const id = Number(raw.id ?? raw.alert_id);
+  const metric = raw.condition?.metric;
+
+  if (!Number.isInteger(id) || !raw.mint || !isAlertMetric(metric)) {
+    return null;
+  }
+
+  return {
+    id,
+    mint: raw.mint,
+    condition: {
+      metric,
+      direction: raw.condition?.direction === "below" ? "below" : "above",
+      value: toNumber(raw.condition?.value),
+    },
+    symbol: raw.symbol || undefined,
+    name: raw.name || undefined,
+    imageUri: raw.image_uri || undefined,
+    createdAt: toOptionalSeconds(raw.created_at),
+    triggeredAt: toOptionalSeconds(raw.triggered_at),
+  };
+}
+
+/**
+ * Check a condition before sending it. `currentValue` is the live value of
+ * the metric; when known, a threshold that is already met is rejected since
+ * the alert would fire immediately.
+ */
+export function validateTokenAlertCondition(
+  condition: TokenAlertCondition,
+  currentValue?: number
+): string | null {
+  if (!Number.isFinite(condition.value)) {
+    return "Enter a threshold";
+  }
+
+  if (condition.metric !== "one_hour_change" && condition.value <= 0) {
+    return "Threshold must be greater than 0";
+  }
+
+  if (currentValue !== undefined && Number.isFinite(currentValue) && currentValue !== 0) {
+    if (condition.direction === "above" && currentValue >= condition.value) {
+      return "Threshold is already below the current value";
+    }
+    if (condition.direction === "below" && currentValue <= condition.value) {
+      return "Threshold is already above the current value";
+    }
+  }
+
+  return null;
+}
+
+/** Format a value in the metric's unit — USD for market cap / price, percent for 1h change. */
+export function formatTokenAlertValue(metric: TokenAlertMetric, value: number): string {
+  if (metric === "one_hour_change") return formatPercent(value);
+  // Memecoin prices sit well below a cent — keep significant digits
+  if (metric === "price" && value > 0 && value < 0.01) {
+    return `$${Number(value.toPrecision(3))}`;
+  }
+  return formatCompactUsd(value);
+}
+
+/** e.g. "MC above $1.20M", "1h below -20.0%" */
+export function describeTokenAlertCondition(condition: TokenAlertCondition): string {
+  const value = formatTokenAlertValue(condition.metric, condition.value);
+
+  return `${METRIC_SHORT_LABELS[condition.metric]} ${condition.direction} ${value}`;
+}
+
+// ── API ──
+
+export async function fetchTokenAlerts(rpcClient: RpcClient): Promise<TokenAlert[]> {
+  const rows = await rpcClient.call<RawTokenAlert[]>("private/getTokenAlerts", []);
+  return (rows ?? [])
+    .map(mapTokenAlert)
+    .filter((alert): alert is TokenAlert => alert !== null);
+}
+
+export async function createTokenAlert(
+  rpcClient: RpcClient,
+  mint: string,
+  condition: TokenAlertCondition
+): Promise<TokenAlert> {
+  const params = { mint, condition };
+  const raw = await rpcClient.call<RawTokenAlert>("private/createTokenAlert", Object.values(params));
+
+  // Fall back to what we sent if the response omits the condition
+  const alert = mapTokenAlert({ mint, condition, ...raw });
+  if (!alert) {
+    throw new Error("Alert was not created");
+  }
+  return alert;
+}
+
+export async function deleteTokenAlert(rpcClient: RpcClient, alertId: number): Promise<boolean> {
+  const params = { alertId };
+  return rpcClient.call<boolean>("private/deleteTokenAlert", Object.values(params));
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  deleteTokenAlert,
+  fetchTokenAlerts,
+  type TokenAlert,
+} from "@/src/features/alerts/tokenAlertService";
+
+/**
+ * The signed-in account's token alerts.
+ *
+ * - Fetched via private/getTokenAlerts while `enabled`
+ * - Optimistic delete, restored by a refetch on failure
+ */
+export function useTokenAlerts(rpcClient: RpcClient, enabled: boolean) {
+  const [alerts, setAlerts] = useState<TokenAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!enabled) {
+      setAlerts([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const result = await fetchTokenAlerts(rpcClient);
+      if (mountedRef.current) {
+        setAlerts(result);
+        setError(null);
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to load alerts");
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [rpcClient, enabled]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    setIsLoading(enabled);
+    void fetchAlerts();
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [fetchAlerts, enabled]);
+
+  const removeAlert = useCallback(
+    async (alertId: number) => {
+      setAlerts((prev) => prev.filter((alert) => alert.id !== alertId));
+
+      try {
+        await deleteTokenAlert(rpcClient, alertId);
+      } catch (err) {
+        void fetchAlerts();
+        throw err;
+      }
+    },
+    [rpcClient, fetchAlerts]
+  );
+
+  return {
+    alerts,
+    isLoading,
+    error,
+    refresh: fetchAlerts,
+    removeAlert,
+  };
+}
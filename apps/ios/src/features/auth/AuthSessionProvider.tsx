@@ -51,11 +51,12 @@ type AuthSessionContextValue = {
   primaryAccountAddress?: string;
   hasValidAccessToken: boolean;
   hasValidRefreshToken: boolean;
-  authenticateFromWallet: () => Promise<void>;
+  /** Resolves true once a fresh session is persisted */
+  authenticateFromWallet: () => Promise<boolean>;
   authenticateWithExternalSigner: (
     walletAddress: string,
     signMessage: (challenge: string) => Promise<string>
-  ) => Promise<void>;
+  ) => Promise<boolean>;
   refreshSession: () => Promise<void>;
   clearSession: () => Promise<void>;
   logout: () => Promise<void>;
@@ -165,9 +166,11 @@ export function AuthSessionProvider({
         const solution = await signMessage(challenge);
         const nextTokens = await submitAuthSolution(rpcClient, challenge, solution);
         await persistSession(nextTokens, walletToAuth);
+        return true;
       } catch (error) {
         setStatus("error");
         setErrorText(String(error));
+        return false;
       }
     },
     [persistSession, rpcClient]
@@ -177,16 +180,15 @@ export function AuthSessionProvider({
     if (!embeddedWalletAddress) {
       setStatus("error");
       setErrorText("No connected wallet address available.");
-      return;
+      return false;
     }
 
     // Phantom-connected: sign via deep link
     if (isPhantomConnected) {
-      await authenticateWithExternalSigner(embeddedWalletAddress, async (challenge) => {
+      return authenticateWithExternalSigner(embeddedWalletAddress, async (challenge) => {
         const { signature } = await phantomSignMessage(challenge);
         return signature;
       });
-      return;
     }
 
     // Privy-embedded wallet
@@ -194,10 +196,10 @@ export function AuthSessionProvider({
     if (!embeddedWallet) {
       setStatus("error");
       setErrorText("Embedded wallet not available.");
-      return;
+      return false;
     }
 
-    await authenticateWithExternalSigner(embeddedWalletAddress, async (challenge) => {
+    return authenticateWithExternalSigner(embeddedWalletAddress, async (challenge) => {
       const provider = await embeddedWallet.getProvider();
       // Privy Expo SDK expects message as base64-encoded bytes (per docs).
       // Encode challenge UTF-8 bytes to base64 so Privy signs the correct bytes.
@@ -0,0 +1,24 @@
+/**
+ * Device owner check — Face ID / Touch ID with passcode fallback — for
+ * sensitive actions like private key export. Independent of the auth
+ * session, so a cancelled prompt never changes session status.
+ */
+
+import * as LocalAuthentication from "expo-local-authentication";
+
+/**
+ * Prompt the device owner. Resolves false when the prompt is cancelled or
+ * fails; throws when the device has no passcode or biometrics to check.
+ */
+export async function confirmDeviceOwner(promptMessage: string): Promise<boolean> {
+  const level = await LocalAuthentication.getEnrolledLevelAsync();
+  if (level === LocalAuthentication.SecurityLevel.NONE) {
+    throw new Error("Set a device passcode to continue.");
+  }
+
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel: "Cancel",
+  });
+  return result.success;
+}
@@ -0,0 +1,137 @@
+import {
+  PropsWithChildren,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { AppState, type AppStateStatus } from "react-native";
+
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import {
+  getStoredDashboardSync,
+  setStoredDashboardSync,
+} from "@/src/features/dashboard/dashboardSyncStorage";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { fetchDashboards, importDashboards, type DashboardImport } from "@quickscope/core/dashboard";
+
+/** Foregrounding more often than this reuses the last import. */
+const FOREGROUND_SYNC_INTERVAL_MS = 60_000;
+
+type DashboardSyncContextValue = {
+  /** Latest import, or null before the first sync */
+  dashboardImport: DashboardImport | null;
+  /** Unix ms of the latest import */
+  syncedAt: number | null;
+  isSyncing: boolean;
+  error: string | null;
+  sync: () => Promise<void>;
+};
+
+const DashboardSyncContext = createContext<DashboardSyncContextValue | null>(null);
+
+/**
+ * Imports the supported parts of the user's desktop dashboards — Scope table
+ * filters and sorts, and the token watchlist layout.
+ *
+ * - The last import is restored from the device at launch
+ * - Re-synced via private/getDashboards on sign-in and when the app returns to the foreground
+ * - Signing out clears it
+ */
+export function DashboardSyncProvider({
+  rpcClient,
+  children,
+}: PropsWithChildren<{ rpcClient: RpcClient }>) {
+  const { status } = useAuthSession();
+  const enabled = status === "authenticated" || status === "refreshing";
+
+  const [dashboardImport, setDashboardImport] = useState<DashboardImport | null>(null);
+  const [syncedAt, setSyncedAt] = useState<number | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  const syncedAtRef = useRef<number | null>(null);
+
+  const sync = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    if (!enabled) return;
+
+    setIsSyncing(true);
+    try {
+      const result = importDashboards(await fetchDashboards(rpcClient));
+      if (requestId !== requestRef.current) return;
+      const now = Date.now();
+      syncedAtRef.current = now;
+      setDashboardImport(result);
+      setSyncedAt(now);
+      setError(null);
+      void setStoredDashboardSync({ result, syncedAt: now });
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to sync desktop settings");
+    } finally {
+      if (requestId === requestRef.current) setIsSyncing(false);
+    }
+  }, [rpcClient, enabled]);
+
+  // ── Restore, then sync once signed in ──
+  useEffect(() => {
+    if (!enabled) {
+      ++requestRef.current;
+      syncedAtRef.current = null;
+      setDashboardImport(null);
+      setSyncedAt(null);
+      setIsSyncing(false);
+      if (status === "unauthenticated") void setStoredDashboardSync(null);
+      return;
+    }
+
+    let cancelled = false;
+    void getStoredDashboardSync().then((stored) => {
+      if (cancelled || !stored || syncedAtRef.current !== null) return;
+      setDashboardImport(stored.result);
+      setSyncedAt(stored.syncedAt);
+    });
+    void sync();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, status, sync]);
+
+  // ── Foreground re-sync ──
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleAppState = (nextState: AppStateStatus) => {
+      if (nextState !== "active") return;
+      const last = syncedAtRef.current;
+      if (last === null || Date.now() - last >= FOREGROUND_SYNC_INTERVAL_MS) {
+        void sync();
+      }
+    };
+
+    const subscription = AppState.addEventListener("change", handleAppState);
+    return () => subscription.remove();
+  }, [enabled, sync]);
+
+  const value = useMemo<DashboardSyncContextValue>(
+    () => ({ dashboardImport, syncedAt, isSyncing, error, sync }),
+    [dashboardImport, syncedAt, isSyncing, error, sync]
+  );
+
+  return <DashboardSyncContext.Provider value={value}>{children}</DashboardSyncContext.Provider>;
+}
+
+export function useDashboardSync(): DashboardSyncContextValue {
+  const context = useContext(DashboardSyncContext);
+  if (!context) {
+    throw new Error("useDashboardSync must be used inside DashboardSyncProvider");
+  }
+
+  return context;
+}
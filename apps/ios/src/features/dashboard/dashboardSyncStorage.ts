@@ -0,0 +1,39 @@
+/**
+ * Last desktop dashboard import, so desktop filters apply at launch and
+ * offline before the next sync lands.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { DashboardImport } from "@quickscope/core/dashboard";
+
+const STORAGE_KEY = "qs_dashboard_sync_v1";
+
+export type StoredDashboardSync = {
+  result: DashboardImport;
+  /** Unix ms */
+  syncedAt: number;
+};
+
+export async function getStoredDashboardSync(): Promise<StoredDashboardSync | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<StoredDashboardSync>;
+    if (!parsed?.result || typeof parsed.syncedAt !== "number") return null;
+    return { result: parsed.result, syncedAt: parsed.syncedAt };
+  } catch {
+    return null;
+  }
+}
+
+export async function setStoredDashboardSync(sync: StoredDashboardSync | null): Promise<void> {
+  try {
+    if (sync) {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(sync));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // silent
+  }
+}
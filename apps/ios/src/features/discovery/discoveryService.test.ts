@@ -0,0 +1,68 @@
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { fetchDiscoveryTokens, withTrendingWindow } from "@/src/features/discovery/discoveryService";
+
+const NOW = 1_770_000_000;
+const WEEK = 7 * 86400;
+
+describe("withTrendingWindow", () => {
+  it("adds a mint_ts floor one week back", () => {
+    expect(withTrendingWindow(undefined, NOW)).toEqual([
+      { column: "mint_ts", min: NOW - WEEK, max: undefined },
+    ]);
+  });
+
+  it("keeps a tighter user age filter and other columns", () => {
+    const filters = [
+      { column: "market_cap_sol", min: 10 },
+      { column: "mint_ts", min: NOW - 3600, max: NOW - 60 },
+    ];
+    expect(withTrendingWindow(filters, NOW)).toEqual([
+      { column: "market_cap_sol", min: 10 },
+      { column: "mint_ts", min: NOW - 3600, max: NOW - 60 },
+    ]);
+  });
+});
+
+describe("fetchDiscoveryTokens", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW * 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("filters trending by mint_ts on the server and pages by offset", async () => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      table: { rows: [{ mint: "a", mint_ts: 0 }, { mint: "b", mint_ts: 0 }] },
+    });
+    const rpcClient = { call } as unknown as RpcClient;
+
+    const result = await fetchDiscoveryTokens(rpcClient, "trending", 2, undefined, new Set(["b"]), 50);
+
+    expect(call).toHaveBeenCalledWith("public/filterTokensTable", [
+      {
+        filter: expect.objectContaining({
+          row_limit: 2,
+          row_offset: 50,
+          numeric_filters: [{ column: "mint_ts", min: NOW - WEEK, max: undefined }],
+        }),
+      },
+    ]);
+    // Rows are no longer trimmed client-side; paging follows the raw page
+    expect(result.rows.map((row) => row.mint)).toEqual(["a"]);
+    expect(result).toMatchObject({ nextOffset: 52, hasMore: true });
+  });
+
+  it("leaves other tabs without a time window", async () => {
+    const call = jest.fn().mockResolvedValue({ sol_price_usd: 100, table: { rows: [] } });
+    const rpcClient = { call } as unknown as RpcClient;
+
+    const result = await fetchDiscoveryTokens(rpcClient, "gainers");
+
+    expect(call.mock.calls[0][1][0].filter).not.toHaveProperty("numeric_filters");
+    expect(call.mock.calls[0][1][0].filter).not.toHaveProperty("row_offset");
+    expect(result.hasMore).toBe(false);
+  });
+});
@@ -3,7 +3,9 @@ import {
   buildNumericFilters,
   buildStringFilters,
   type ScopeFilters,
-} from "@/src/features/scope/scopeService";
+} from "@quickscope/core/scope";
+import { toNumber, toOptionalInteger } from "@quickscope/core";
+import { withoutHiddenTokens } from "@/src/features/token/hiddenTokenService";
 
 export type DiscoveryTabId = "trending" | "scan-feed" | "gainers";
 
@@ -61,8 +63,19 @@ type DiscoveryResult = {
   tab: DiscoveryTabId;
   fetchedAtMs: number;
   rows: DiscoveryToken[];
+  /** Offset of the page after this one */
+  nextOffset: number;
+  /** The server filled the page, so another may follow */
+  hasMore: boolean;
 };
 
+type NumericFilter = NonNullable<ReturnType<typeof buildNumericFilters>>[number];
+
+/** Trending only lists tokens minted within this window. */
+const TRENDING_WINDOW_SEC = 7 * 86400;
+
+export const DISCOVERY_PAGE_SIZE = 25;
+
 const tabSorts: Record<DiscoveryTabId, DiscoverySort> = {
   trending: {
     sortColumn: "one_hour_volume_sol",
@@ -78,27 +91,37 @@ const tabSorts: Record<DiscoveryTabId, DiscoverySort> = {
   },
 };
 
-function toNumber(value: unknown): number {
-  const numeric = Number(value);
-  return Number.isFinite(numeric) ? numeric : 0;
-}
-
-function toOptionalInteger(value: unknown): number | undefined {
-  const numeric = Number(value);
-  if (!Number.isInteger(numeric) || numeric < 0) {
-    return undefined;
-  }
-  return numeric;
+/**
+ * Add the trending window as a server-side `mint_ts` floor, so every page is
+ * full instead of being trimmed after the fact. A tighter age filter the user
+ * set is kept.
+ */
+export function withTrendingWindow(
+  numericFilters: NumericFilter[] | undefined,
+  nowSeconds: number,
+): NumericFilter[] {
+  const floor = nowSeconds - TRENDING_WINDOW_SEC;
+  const others = (numericFilters ?? []).filter((f) => f.column !== "mint_ts");
+  const age = numericFilters?.find((f) => f.column === "mint_ts");
+
+  return [...others, { column: "mint_ts", min: Math.max(floor, age?.min ?? floor), max: age?.max }];
 }
 
 export async function fetchDiscoveryTokens(
   rpcClient: RpcClient,
   tab: DiscoveryTabId,
-  limit = 25,
+  limit = DISCOVERY_PAGE_SIZE,
   filters?: ScopeFilters,
+  /** Mints the user has hidden — dropped from the rows */
+  hiddenMints?: ReadonlySet<string>,
+  offset = 0,
 ): Promise<DiscoveryResult> {
   const sort = tabSorts[tab];
-  const numeric_filters = buildNumericFilters(filters);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const numeric_filters =
+    tab === "trending"
+      ? withTrendingWindow(buildNumericFilters(filters), nowSeconds)
+      : buildNumericFilters(filters);
   const string_filters = buildStringFilters([], filters);
 
   const response = await rpcClient.call<DiscoveryTableResponse>("public/filterTokensTable", [
@@ -107,6 +130,7 @@ export async function fetchDiscoveryTokens(
         sort_column: sort.sortColumn,
         sort_order: !sort.sortOrderDescending,
         row_limit: limit,
+        ...(offset > 0 ? { row_offset: offset } : null),
         ...(numeric_filters ? { numeric_filters } : null),
         ...(string_filters ? { string_filters } : null),
       },
@@ -114,9 +138,9 @@ export async function fetchDiscoveryTokens(
   ]);
 
   const solPriceUsd = toNumber(response.sol_price_usd);
-  const nowSeconds = Math.floor(Date.now() / 1000);
+  const rawRows = response.table?.rows ?? [];
 
-  let mappedRows = (response.table?.rows ?? []).map((row) => {
+  const mappedRows = rawRows.map((row) => {
     const tokenDecimals = toOptionalInteger(row.decimals);
 
     return {
@@ -139,16 +163,11 @@ export async function fetchDiscoveryTokens(
     };
   });
 
-  if (tab === "trending") {
-    const sevenDaysAgo = nowSeconds - 7 * 86400;
-    mappedRows = mappedRows.filter(
-      (row) => row.mintedAtSeconds > 0 && row.mintedAtSeconds >= sevenDaysAgo,
-    );
-  }
-
   return {
     tab,
     fetchedAtMs: Date.now(),
-    rows: mappedRows,
+    rows: withoutHiddenTokens(mappedRows, hiddenMints),
+    nextOffset: offset + rawRows.length,
+    hasMore: rawRows.length >= limit,
   };
 }
@@ -1,8 +1,9 @@
 /**
  * Hook that fetches carousel card data based on the user's
  * preferred discovery card source (watchlist, recent, holdings).
+ * Hidden tokens are left out whatever the source.
  */
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
 import {
@@ -11,12 +12,14 @@ import {
 } from "@/src/features/discovery/discoveryCardsPreference";
 import {
   fetchAccountTokenHoldings,
-} from "@/src/features/portfolio/portfolioService";
+} from "@quickscope/core/portfolio";
 import { getRecentSearches } from "@/src/features/search/recentSearchesStorage";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import { withoutHiddenTokens } from "@/src/features/token/hiddenTokenService";
 import {
   fetchTokenWatchlists,
   fetchWatchlistTokens,
-} from "@/src/features/watchlist/tokenWatchlistService";
+} from "@quickscope/core/watchlist";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 
 export type CarouselCardItem = {
@@ -42,6 +45,7 @@ const CAROUSEL_EMPTY: Record<DiscoveryCardSource, string> = {
 export function useDiscoveryCards(rpcClient: RpcClient) {
   const { source, loaded: prefLoaded } = useDiscoveryCardSource();
   const { walletAddress, primaryAccountAddress } = useAuthSession();
+  const { hiddenMints } = useHiddenTokens();
   const [cards, setCards] = useState<CarouselCardItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const seqRef = useRef(0);
@@ -121,8 +125,10 @@ export function useDiscoveryCards(rpcClient: RpcClient) {
     void fetchCards();
   }, [fetchCards, prefLoaded]);
 
+  const visibleCards = useMemo(() => withoutHiddenTokens(cards, hiddenMints), [cards, hiddenMints]);
+
   return {
-    cards,
+    cards: visibleCards,
     isLoading,
     source,
     label: CAROUSEL_LABEL[source],
@@ -0,0 +1,89 @@
+/**
+ * Trade history export — builds the tax CSV/JSON from @quickscope/core, writes
+ * it to the cache directory and hands the file to the iOS share sheet
+ * (Files, Mail, AirDrop, accounting apps).
+ */
+
+import { Share } from "react-native";
+import { File, Paths } from "expo-file-system";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  fetchTaxExport,
+  renderTaxExport,
+  taxExportFileName,
+  type TaxExportFormat,
+  type TaxExportOptions,
+} from "@quickscope/core/portfolio";
+
+// ── Types ──
+
+export type TradeExportRangeId = "30d" | "90d" | "ytd" | "last_year" | "all";
+
+export type TradeExportResult = {
+  fileUri: string;
+  recordCount: number;
+  truncated: boolean;
+  /** Records written with empty USD columns because no SOL price was found */
+  missingUsdPriceCount: number;
+};
+
+export const TRADE_EXPORT_RANGES: { id: TradeExportRangeId; label: string }[] = [
+  { id: "30d", label: "30D" },
+  { id: "90d", label: "90D" },
+  { id: "ytd", label: "YTD" },
+  { id: "last_year", label: "Last year" },
+  { id: "all", label: "All time" },
+];
+
+// ── Helpers ──
+
+/** Resolve a range preset to inclusive unix-second bounds, in UTC. */
+export function resolveTradeExportRange(
+  id: TradeExportRangeId,
+  nowMs = Date.now()
+): { fromTs: number; toTs: number } {
+  const nowTs = Math.floor(nowMs / 1000);
+  const year = new Date(nowMs).getUTCFullYear();
+  const yearStartTs = (y: number) => Date.UTC(y, 0, 1) / 1000;
+
+  switch (id) {
+    case "30d":
+      return { fromTs: nowTs - 30 * 86_400, toTs: nowTs };
+    case "90d":
+      return { fromTs: nowTs - 90 * 86_400, toTs: nowTs };
+    case "ytd":
+      return { fromTs: yearStartTs(year), toTs: nowTs };
+    case "last_year":
+      return { fromTs: yearStartTs(year - 1), toTs: yearStartTs(year) - 1 };
+    case "all":
+      return { fromTs: 0, toTs: nowTs };
+  }
+}
+
+// ── Export ──
+
+export async function exportTradeHistory(
+  rpcClient: RpcClient,
+  options: TaxExportOptions,
+  format: TaxExportFormat
+): Promise<TradeExportResult> {
+  const taxExport = await fetchTaxExport(rpcClient, options);
+
+  const file = new File(Paths.cache, taxExportFileName(options, format));
+  file.create({ overwrite: true });
+  file.write(renderTaxExport(taxExport, format));
+
+  return {
+    fileUri: file.uri,
+    recordCount: taxExport.records.length,
+    truncated: taxExport.truncated,
+    missingUsdPriceCount: taxExport.missingUsdPriceCount,
+  };
+}
+
+/** Present the share sheet; resolves false when the user dismisses it. */
+export async function shareTradeExport(fileUri: string): Promise<boolean> {
+  const result = await Share.share({ url: fileUri });
+  return result.action === Share.sharedAction;
+}
@@ -0,0 +1,27 @@
+/**
+ * Device copy of the Scope filter presets, so they load offline and before
+ * sign-in. The signed-in copy lives in a backend dashboard slot.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { parseScopePresets, type ScopeFilterPreset } from "@quickscope/core/scope";
+
+const STORAGE_KEY = "qs_scope_presets_v1";
+
+export async function getStoredScopePresets(): Promise<ScopeFilterPreset[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return parseScopePresets(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+export async function setStoredScopePresets(presets: ScopeFilterPreset[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // silent
+  }
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import {
+  getStoredScopePresets,
+  setStoredScopePresets,
+} from "@/src/features/scope/scopePresetsStorage";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  fetchDashboardsAtSlots,
+  setDashboard,
+  type DashboardV2,
+} from "@quickscope/core/dashboard";
+import {
+  SCOPE_PRESETS_DASHBOARD_SLOT,
+  dashboardWithPresets,
+  presetsFromDashboard,
+  removeScopePreset,
+  upsertScopePreset,
+  type ScopeFilterPreset,
+  type ScopeFilters,
+  type ScopeTabId,
+} from "@quickscope/core/scope";
+
+type PresetEdit = (presets: ScopeFilterPreset[]) => ScopeFilterPreset[];
+
+async function fetchPresetsDashboard(rpcClient: RpcClient): Promise<DashboardV2 | null> {
+  const [dashboard] = await fetchDashboardsAtSlots(rpcClient, [SCOPE_PRESETS_DASHBOARD_SLOT]);
+  return dashboard ?? null;
+}
+
+/**
+ * Named Scope filter presets, shared with the desktop terminal.
+ *
+ * - Read from the device first, then replaced by the backend dashboard copy once signed in
+ * - Edits apply locally at once and are written through `private/setDashboard`
+ * - A rejected write (stale nonce) re-reads the dashboard and re-applies the edit once
+ */
+export function useScopePresets(rpcClient: RpcClient) {
+  const { status } = useAuthSession();
+  const isAuthenticated = status === "authenticated";
+
+  const [presets, setPresets] = useState<ScopeFilterPreset[]>([]);
+  const presetsRef = useRef<ScopeFilterPreset[]>([]);
+  const dashboardRef = useRef<DashboardV2 | null>(null);
+
+  const applyLocal = useCallback((next: ScopeFilterPreset[]) => {
+    presetsRef.current = next;
+    setPresets(next);
+    void setStoredScopePresets(next);
+  }, []);
+
+  // ── Load: device copy, then the backend copy ──
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const stored = await getStoredScopePresets();
+      if (cancelled) return;
+      presetsRef.current = stored;
+      setPresets(stored);
+
+      if (!isAuthenticated) return;
+
+      try {
+        const dashboard = await fetchPresetsDashboard(rpcClient);
+        if (cancelled) return;
+        dashboardRef.current = dashboard;
+
+        if (dashboard) {
+          applyLocal(presetsFromDashboard(dashboard));
+        } else if (stored.length > 0) {
+          // First sign-in on this device — upload presets saved while signed out
+          dashboardRef.current = await setDashboard(rpcClient, dashboardWithPresets(stored));
+        }
+      } catch {
+        // Keep the device copy; the next edit retries the sync
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rpcClient, isAuthenticated, applyLocal]);
+
+  const commit = useCallback(
+    async (edit: PresetEdit) => {
+      applyLocal(edit(presetsRef.current));
+      if (!isAuthenticated) return;
+
+      try {
+        dashboardRef.current = await setDashboard(
+          rpcClient,
+          dashboardWithPresets(presetsRef.current, dashboardRef.current)
+        );
+      } catch {
+        const latest = await fetchPresetsDashboard(rpcClient);
+        const merged = edit(presetsFromDashboard(latest));
+        dashboardRef.current = await setDashboard(rpcClient, dashboardWithPresets(merged, latest));
+        applyLocal(merged);
+      }
+    },
+    [rpcClient, isAuthenticated, applyLocal]
+  );
+
+  const savePreset = useCallback(
+    (tab: ScopeTabId, name: string, filters: ScopeFilters) =>
+      commit((current) =>
+        upsertScopePreset(current, {
+          id: `${tab}-${Date.now().toString(36)}`,
+          name,
+          tab,
+          filters,
+          updatedAt: Date.now(),
+        })
+      ),
+    [commit]
+  );
+
+  const deletePreset = useCallback(
+    (id: string) => commit((current) => removeScopePreset(current, id)),
+    [commit]
+  );
+
+  return { presets, savePreset, deletePreset };
+}
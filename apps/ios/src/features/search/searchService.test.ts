@@ -1,5 +1,10 @@
 import type { RpcClient } from "@/src/lib/api/rpcClient";
-import { fetchSearchTokens } from "@/src/features/search/searchService";
+import {
+  fetchSearchTokens,
+  mergeSearchResults,
+  searchTokens,
+  type SearchToken,
+} from "@/src/features/search/searchService";
 
 describe("fetchSearchTokens", () => {
   it("calls filterTokensTable with search baseline sorting", async () => {
@@ -70,3 +75,105 @@ describe("fetchSearchTokens", () => {
     });
   });
 });
+
+describe("searchTokens", () => {
+  it("calls public/search with the term, limit and abort signal", async () => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      tokens: [
+        {
+          mint: "MintOld111",
+          symbol: "OLD",
+          name: "Old Token",
+          mint_ts: 1_600_000_000,
+          market_cap_sol: 10,
+          one_hour_tx_count: 0,
+          one_hour_volume_sol: 0,
+          one_hour_change: 0,
+          telegram_mentions_1h: 0,
+        },
+      ],
+    });
+    const controller = new AbortController();
+
+    const rpcClient = { call } as unknown as RpcClient;
+    const result = await searchTokens(rpcClient, "old", { limit: 25, signal: controller.signal });
+
+    expect(call).toHaveBeenCalledWith("public/search", ["old", { limit: 25 }], {
+      signal: controller.signal,
+    });
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]).toMatchObject({ mint: "MintOld111", marketCapUsd: 1000 });
+  });
+});
+
+describe("mergeSearchResults", () => {
+  function token(mint: string, symbol: string, oneHourVolumeUsd = 0): SearchToken {
+    return {
+      mint,
+      symbol,
+      name: `${symbol} token`,
+      mintedAtSeconds: 0,
+      marketCapUsd: 0,
+      oneHourTxCount: 0,
+      oneHourVolumeUsd,
+      oneHourChangePercent: 0,
+      scanMentionsOneHour: 0,
+    };
+  }
+
+  it("dedupes by mint, preferring the server row", () => {
+    const local = token("MintA", "BONK", 10);
+    const remote = { ...token("MintA", "BONK", 99), marketCapUsd: 5 };
+
+    const merged = mergeSearchResults({
+      query: "bonk",
+      localRows: [local],
+      remoteRows: [remote],
+      limit: 10,
+    });
+
+    expect(merged).toEqual([remote]);
+  });
+
+  it("keeps unmatched server rows but drops unmatched local rows", () => {
+    const merged = mergeSearchResults({
+      query: "bonk",
+      localRows: [token("MintA", "BONK"), token("MintB", "WIF")],
+      remoteRows: [token("MintC", "BNK")],
+      limit: 10,
+    });
+
+    expect(merged.map((row) => row.mint)).toEqual(["MintA", "MintC"]);
+  });
+
+  it("ranks recent searches above equally relevant tokens", () => {
+    const merged = mergeSearchResults({
+      query: "bo",
+      localRows: [token("MintA", "BOME", 1_000), token("MintB", "BONK", 10)],
+      remoteRows: [],
+      recentSearches: [{ mint: "MintB", symbol: "BONK", name: "Bonk", timestamp: 1 }],
+      limit: 10,
+    });
+
+    expect(merged.map((row) => row.mint)).toEqual(["MintB", "MintA"]);
+  });
+
+  it("drops hidden mints before applying the limit", () => {
+    const merged = mergeSearchResults({
+      query: "bo",
+      localRows: [token("MintA", "BONK", 1_000), token("MintB", "BOME", 10)],
+      remoteRows: [token("MintC", "BOOK")],
+      hiddenMints: new Set(["MintA", "MintC"]),
+      limit: 1,
+    });
+
+    expect(merged.map((row) => row.mint)).toEqual(["MintB"]);
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(
+      mergeSearchResults({ query: "  ", localRows: [token("MintA", "A")], remoteRows: [], limit: 10 })
+    ).toEqual([]);
+  });
+});
@@ -1,4 +1,6 @@
 import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RecentSearchEntry } from "@/src/features/search/recentSearchesStorage";
+import { toNumber, toOptionalInteger } from "@quickscope/core";
 
 type SearchTokenRow = {
   mint: string;
@@ -23,6 +25,12 @@ type SearchTableResponse = {
   };
 };
 
+/** public/search — token matches, plus a wallet overview when the term is an address. */
+type SearchResponse = {
+  sol_price_usd?: number;
+  tokens?: SearchTokenRow[];
+};
+
 export type SearchToken = {
   mint: string;
   symbol: string;
@@ -44,20 +52,30 @@ export type SearchResult = {
   rows: SearchToken[];
 };
 
-function toNumber(value: unknown): number {
-  const numeric = Number(value);
-  return Number.isFinite(numeric) ? numeric : 0;
-}
+function mapSearchTokenRow(row: SearchTokenRow, solPriceUsd: number): SearchToken {
+  const tokenDecimals = toOptionalInteger(row.decimals);
 
-function toOptionalInteger(value: unknown): number | undefined {
-  const numeric = Number(value);
-  if (!Number.isInteger(numeric) || numeric < 0) {
-    return undefined;
-  }
-
-  return numeric;
+  return {
+    mint: row.mint,
+    symbol: row.symbol,
+    name: row.name,
+    imageUri: row.image_uri,
+    platform: row.platform,
+    exchange: row.exchange,
+    mintedAtSeconds: toNumber(row.mint_ts),
+    marketCapUsd: toNumber(row.market_cap_sol) * solPriceUsd,
+    oneHourTxCount: toNumber(row.one_hour_tx_count),
+    oneHourVolumeUsd: toNumber(row.one_hour_volume_sol) * solPriceUsd,
+    oneHourChangePercent: toNumber(row.one_hour_change) * 100,
+    scanMentionsOneHour: toNumber(row.telegram_mentions_1h),
+    ...(tokenDecimals !== undefined ? { tokenDecimals } : null),
+  };
 }
 
+/**
+ * Local search index — top tokens by 1h volume from the last 30 days.
+ * Backs the trending list and instant results while `searchTokens` runs.
+ */
 export async function fetchSearchTokens(rpcClient: RpcClient): Promise<SearchResult> {
   const thirtyDaysAgo = Math.floor(Date.now() / 1000) - 30 * 86400;
   const response = await rpcClient.call<SearchTableResponse>("public/filterTokensTable", [
@@ -75,24 +93,109 @@ export async function fetchSearchTokens(rpcClient: RpcClient): Promise<SearchRes
 
   return {
     fetchedAtMs: Date.now(),
-    rows: (response.table?.rows ?? []).map((row) => {
-      const tokenDecimals = toOptionalInteger(row.decimals);
-
-      return {
-        mint: row.mint,
-        symbol: row.symbol,
-        name: row.name,
-        imageUri: row.image_uri,
-        platform: row.platform,
-        exchange: row.exchange,
-        mintedAtSeconds: toNumber(row.mint_ts),
-        marketCapUsd: toNumber(row.market_cap_sol) * solPriceUsd,
-        oneHourTxCount: toNumber(row.one_hour_tx_count),
-        oneHourVolumeUsd: toNumber(row.one_hour_volume_sol) * solPriceUsd,
-        oneHourChangePercent: toNumber(row.one_hour_change) * 100,
-        scanMentionsOneHour: toNumber(row.telegram_mentions_1h),
-        ...(tokenDecimals !== undefined ? { tokenDecimals } : null),
-      };
-    }),
+    rows: (response.table?.rows ?? []).map((row) => mapSearchTokenRow(row, solPriceUsd)),
+  };
+}
+
+/** Server-side search across all tokens by mint, symbol or name. */
+export async function searchTokens(
+  rpcClient: RpcClient,
+  searchTerm: string,
+  options?: { limit?: number; signal?: AbortSignal }
+): Promise<SearchResult> {
+  const { limit = 50, signal } = options ?? {};
+  const response = await rpcClient.call<SearchResponse>(
+    "public/search",
+    [searchTerm, { limit }],
+    { signal }
+  );
+
+  const solPriceUsd = toNumber(response.sol_price_usd);
+
+  return {
+    fetchedAtMs: Date.now(),
+    rows: (response.tokens ?? [])
+      .filter((row) => Boolean(row?.mint))
+      .map((row) => mapSearchTokenRow(row, solPriceUsd)),
   };
 }
+
+// ── Ranking ──
+
+/** Relevance of a token for a lower-cased query; 0 means no match. */
+export function tokenRelevance(
+  token: Pick<SearchToken, "mint" | "symbol" | "name">,
+  normalizedQuery: string
+): number {
+  const mint = token.mint.toLowerCase();
+  const symbol = (token.symbol || "").toLowerCase();
+  const name = (token.name || "").toLowerCase();
+
+  if (mint === normalizedQuery) return 1000;
+  if (symbol === normalizedQuery) return 900;
+  if (symbol.startsWith(normalizedQuery)) return 800;
+  if (name.startsWith(normalizedQuery)) return 700;
+  if (mint.includes(normalizedQuery)) return 600;
+  if (symbol.includes(normalizedQuery)) return 500;
+  if (name.includes(normalizedQuery)) return 400;
+  return 0;
+}
+
+/** Server matches we can't explain locally (fuzzy/alias hits) still rank above nothing. */
+const REMOTE_MATCH_RELEVANCE = 100;
+/** Tokens the user opened before rank just above equally relevant ones. */
+const RECENT_SEARCH_BOOST = 50;
+
+/**
+ * Merge the local index and server results into one ranked list.
+ *
+ * - Deduplicated by mint; the server row wins since it is fresher
+ * - Local rows must match the query; server rows are kept regardless
+ * - Recently opened tokens get a small boost; ties break on 1h volume
+ * - Hidden mints are dropped before the limit is applied
+ */
+export function mergeSearchResults({
+  query,
+  localRows,
+  remoteRows,
+  recentSearches = [],
+  hiddenMints,
+  limit,
+}: {
+  query: string;
+  localRows: SearchToken[];
+  remoteRows: SearchToken[];
+  recentSearches?: RecentSearchEntry[];
+  hiddenMints?: ReadonlySet<string>;
+  limit: number;
+}): SearchToken[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) return [];
+
+  const recentMints = new Set(recentSearches.map((entry) => entry.mint));
+  const scored = new Map<string, { token: SearchToken; relevance: number }>();
+
+  for (const token of localRows) {
+    const relevance = tokenRelevance(token, normalizedQuery);
+    if (relevance > 0) scored.set(token.mint, { token, relevance });
+  }
+
+  for (const token of remoteRows) {
+    const relevance = Math.max(tokenRelevance(token, normalizedQuery), REMOTE_MATCH_RELEVANCE);
+    scored.set(token.mint, { token, relevance });
+  }
+
+  return [...scored.values()]
+    .filter((entry) => !hiddenMints?.has(entry.token.mint))
+    .map((entry) =>
+      recentMints.has(entry.token.mint)
+        ? { ...entry, relevance: entry.relevance + RECENT_SEARCH_BOOST }
+        : entry
+    )
+    .sort((a, b) => {
+      if (b.relevance !== a.relevance) return b.relevance - a.relevance;
+      return b.token.oneHourVolumeUsd - a.token.oneHourVolumeUsd;
+    })
+    .slice(0, limit)
+    .map((entry) => entry.token);
+}
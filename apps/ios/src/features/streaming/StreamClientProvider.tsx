@@ -0,0 +1,46 @@
+import { PropsWithChildren, createContext, useContext, useEffect } from "react";
+
+import { AppState, type AppStateStatus } from "react-native";
+
+import type { StreamClient } from "@/src/lib/api/streamClient";
+
+const StreamClientContext = createContext<StreamClient | null>(null);
+
+/**
+ * Provides the app-wide StreamClient and ties its socket to the app lifecycle:
+ * the connection is suspended when the app backgrounds and resumed (with all
+ * active subscriptions re-sent) when it returns to the foreground.
+ */
+export function StreamClientProvider({
+  streamClient,
+  children,
+}: PropsWithChildren<{ streamClient: StreamClient }>) {
+  useEffect(() => {
+    const handleAppState = (nextState: AppStateStatus) => {
+      if (nextState === "active") {
+        streamClient.resume();
+      } else if (nextState === "background") {
+        streamClient.suspend();
+      }
+    };
+
+    const subscription = AppState.addEventListener("change", handleAppState);
+    return () => {
+      subscription.remove();
+      streamClient.close();
+    };
+  }, [streamClient]);
+
+  return (
+    <StreamClientContext.Provider value={streamClient}>{children}</StreamClientContext.Provider>
+  );
+}
+
+export function useStreamClient(): StreamClient {
+  const context = useContext(StreamClientContext);
+  if (!context) {
+    throw new Error("useStreamClient must be used inside StreamClientProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from "react";
+
+import { useAuthSessionSafe } from "@/src/features/auth/AuthSessionProvider";
+import { useStreamClient } from "@/src/features/streaming/StreamClientProvider";
+
+/**
+ * Reconnect the shared stream when the signed-in wallet changes.
+ *
+ * Authenticated channels (`tx/*`) are authorized by the session cookie sent
+ * with the WebSocket handshake, so a socket opened before login — or under a
+ * previous wallet — has to be re-established. Token refreshes keep the same
+ * session and do not reconnect.
+ */
+export function useStreamSessionSync() {
+  const streamClient = useStreamClient();
+  const { status, primaryAccountAddress } = useAuthSessionSafe();
+  const sessionKey = status === "authenticated" ? primaryAccountAddress ?? null : null;
+  const previousKeyRef = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    // Ignore the transient states in between (refreshing, authenticating)
+    if (status !== "authenticated" && status !== "unauthenticated") return;
+
+    const previousKey = previousKeyRef.current;
+    previousKeyRef.current = sessionKey;
+    if (previousKey === undefined || previousKey === sessionKey) return;
+
+    streamClient.reconnect();
+  }, [streamClient, status, sessionKey]);
+}
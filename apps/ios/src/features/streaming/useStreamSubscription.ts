@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { useStreamClient } from "@/src/features/streaming/StreamClientProvider";
+import type { StreamStatus } from "@/src/lib/api/streamClient";
+
+/**
+ * Subscribe a component to a streaming channel for as long as it is mounted
+ * and `enabled` is true.
+ *
+ * - `params` are compared by value, so inline arrays don't resubscribe on render
+ * - `onMessage` is held in a ref; it can close over fresh state freely
+ * - Returns the shared connection status for "live" indicators
+ *
+ * Handlers fire per message — components receiving high-frequency channels
+ * should buffer in a ref and flush on an interval rather than setState per event.
+ */
+export function useStreamSubscription<T = unknown>(
+  channel: string,
+  params: unknown[],
+  onMessage: (payload: T) => void,
+  enabled = true,
+): { status: StreamStatus } {
+  const streamClient = useStreamClient();
+  const onMessageRef = useRef(onMessage);
+  const [status, setStatus] = useState<StreamStatus>(() => streamClient.getStatus());
+
+  onMessageRef.current = onMessage;
+
+  const paramsKey = JSON.stringify(params);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableParams = useMemo(() => params, [paramsKey]);
+
+  useEffect(() => {
+    setStatus(streamClient.getStatus());
+    return streamClient.onStatusChange(setStatus);
+  }, [streamClient]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return streamClient.subscribe<T>(channel, stableParams, (payload) => {
+      onMessageRef.current(payload);
+    });
+  }, [streamClient, channel, stableParams, enabled]);
+
+  return { status };
+}
@@ -0,0 +1,143 @@
+import {
+  PropsWithChildren,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import {
+  fetchHiddenTokens,
+  hideToken,
+  unhideToken,
+  type HiddenToken,
+} from "@/src/features/token/hiddenTokenService";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+
+type HiddenTokensContextValue = {
+  hiddenTokens: HiddenToken[];
+  hiddenMints: ReadonlySet<string>;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  hide: (token: HiddenToken) => Promise<void>;
+  unhide: (mint: string) => Promise<void>;
+};
+
+const EMPTY_MINTS: ReadonlySet<string> = new Set();
+
+const HiddenTokensContext = createContext<HiddenTokensContextValue | null>(null);
+
+/**
+ * The signed-in account's hidden (spam / rugged) tokens, shared by every list
+ * that filters them out.
+ *
+ * - Fetched via private/getHiddenTokens while the session is authenticated
+ * - Optimistic hide / unhide, restored by a refetch on failure
+ */
+export function HiddenTokensProvider({
+  rpcClient,
+  children,
+}: PropsWithChildren<{ rpcClient: RpcClient }>) {
+  const { status } = useAuthSession();
+  // Keep the list through token refreshes; only a signed-out session clears it
+  const enabled = status === "authenticated" || status === "refreshing";
+
+  const [hiddenTokens, setHiddenTokens] = useState<HiddenToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestRef.current;
+
+    if (!enabled) {
+      setHiddenTokens([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await fetchHiddenTokens(rpcClient);
+      if (requestId !== requestRef.current) return;
+      setHiddenTokens(result);
+      setError(null);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to load hidden tokens");
+    } finally {
+      if (requestId === requestRef.current) setIsLoading(false);
+    }
+  }, [rpcClient, enabled]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const hide = useCallback(
+    async (token: HiddenToken) => {
+      setHiddenTokens((prev) =>
+        prev.some((t) => t.mint === token.mint)
+          ? prev
+          : [
+              {
+                mint: token.mint,
+                symbol: token.symbol,
+                name: token.name,
+                imageUri: token.imageUri,
+                hiddenAt: Math.floor(Date.now() / 1000),
+              },
+              ...prev,
+            ]
+      );
+
+      try {
+        await hideToken(rpcClient, token.mint);
+      } catch (err) {
+        void refresh();
+        throw err;
+      }
+    },
+    [rpcClient, refresh]
+  );
+
+  const unhide = useCallback(
+    async (mint: string) => {
+      setHiddenTokens((prev) => prev.filter((t) => t.mint !== mint));
+
+      try {
+        await unhideToken(rpcClient, mint);
+      } catch (err) {
+        void refresh();
+        throw err;
+      }
+    },
+    [rpcClient, refresh]
+  );
+
+  const hiddenMints = useMemo<ReadonlySet<string>>(
+    () => (hiddenTokens.length > 0 ? new Set(hiddenTokens.map((t) => t.mint)) : EMPTY_MINTS),
+    [hiddenTokens]
+  );
+
+  const value = useMemo<HiddenTokensContextValue>(
+    () => ({ hiddenTokens, hiddenMints, isLoading, error, refresh, hide, unhide }),
+    [hiddenTokens, hiddenMints, isLoading, error, refresh, hide, unhide]
+  );
+
+  return <HiddenTokensContext.Provider value={value}>{children}</HiddenTokensContext.Provider>;
+}
+
+export function useHiddenTokens(): HiddenTokensContextValue {
+  const context = useContext(HiddenTokensContext);
+  if (!context) {
+    throw new Error("useHiddenTokens must be used inside HiddenTokensProvider");
+  }
+
+  return context;
+}
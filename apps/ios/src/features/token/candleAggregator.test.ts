@@ -0,0 +1,164 @@
+import {
+  candleBucketStart,
+  createCandleSeries,
+  foldTradesIntoCandles,
+  tradeFromActivityRow,
+  type CandleTrade,
+} from "@/src/features/token/candleAggregator";
+import type { TokenCandle } from "@quickscope/core/token";
+
+const RESOLUTION = 60;
+
+function candle(ts: number, ohlc: [number, number, number, number], volume = 10): TokenCandle {
+  const [open, high, low, close] = ohlc;
+  return {
+    ts,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    quote_asset_price_usd: 150,
+    volume_base: volume,
+  };
+}
+
+function trade(ts: number, priceQuote: number, signature?: string, volumeBase = 1): CandleTrade {
+  return { ts, priceQuote, quoteUsd: 150, volumeBase, signature };
+}
+
+function ohlc(c: TokenCandle) {
+  return [Number(c.open), Number(c.high), Number(c.low), Number(c.close)];
+}
+
+describe("candleBucketStart", () => {
+  it("floors timestamps to the resolution", () => {
+    expect(candleBucketStart(1_000_059, 60)).toBe(1_000_020);
+    expect(candleBucketStart(1_000_020, 60)).toBe(1_000_020);
+  });
+});
+
+describe("foldTradesIntoCandles", () => {
+  const seed = [candle(600, [1, 2, 0.5, 1.5]), candle(660, [1.5, 1.8, 1.4, 1.6])];
+
+  it("updates the open candle in place", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(670, 2.2),
+      trade(680, 1.2),
+    ]);
+
+    expect(series.candles).toHaveLength(2);
+    expect(ohlc(series.candles[1])).toEqual([1.5, 2.2, 1.2, 1.2]);
+    expect(series.candles[1].volume_base).toBe(12);
+  });
+
+  it("rolls over to a new candle at the bucket boundary", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(719, 1.7),
+      trade(720, 1.9),
+      trade(750, 2.1),
+    ]);
+
+    expect(series.candles.map((c) => c.ts)).toEqual([600, 660, 720]);
+    expect(Number(series.candles[1].close)).toBe(1.7);
+    expect(ohlc(series.candles[2])).toEqual([1.9, 2.1, 1.9, 2.1]);
+    expect(series.candles[2].quote_asset_price_usd).toBe(150);
+  });
+
+  it("keeps open/close ordered when trades arrive out of order", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(750, 2.0),
+      trade(730, 1.0),
+      trade(740, 3.0),
+    ]);
+
+    const live = series.candles[2];
+    // open from the earliest trade, close from the latest, high/low from all
+    expect(ohlc(live)).toEqual([1.0, 3.0, 1.0, 2.0]);
+  });
+
+  it("folds a late trade into its closed bucket without moving its close", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(730, 2.0),
+      trade(630, 3.0),
+    ]);
+
+    expect(ohlc(series.candles[0])).toEqual([1, 3, 0.5, 1.5]);
+    expect(series.candles[0].volume_base).toBe(11);
+    expect(Number(series.candles[2].close)).toBe(2.0);
+  });
+
+  it("inserts a missing bucket in order", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(800, 2.0),
+      trade(725, 1.7),
+    ]);
+
+    expect(series.candles.map((c) => c.ts)).toEqual([600, 660, 720, 780]);
+  });
+
+  it("ignores duplicate signatures and trades before the first candle", () => {
+    const series = foldTradesIntoCandles(createCandleSeries(seed, RESOLUTION), [
+      trade(670, 1.7, "sig1"),
+      trade(670, 1.7, "sig1"),
+      trade(500, 9.0),
+    ]);
+
+    expect(series.candles).toHaveLength(2);
+    expect(series.candles[1].volume_base).toBe(11);
+    expect(Number(series.candles[0].high)).toBe(2);
+  });
+
+  it("starts a series from scratch when nothing was loaded", () => {
+    const series = foldTradesIntoCandles(createCandleSeries([], RESOLUTION), [trade(610, 1.1)]);
+    expect(series.candles).toEqual([
+      {
+        ts: 600,
+        open: "1.1",
+        high: "1.1",
+        low: "1.1",
+        close: "1.1",
+        quote_asset_price_usd: 150,
+        volume_base: 1,
+      },
+    ]);
+  });
+});
+
+describe("tradeFromActivityRow", () => {
+  it("derives price from amounts when the row has none", () => {
+    expect(
+      tradeFromActivityRow({
+        amount_base: 1_000,
+        amount_quote: 2,
+        index: "1",
+        maker: "Maker111",
+        mint: "MintA",
+        quote_asset_price_usd: 150,
+        signature: "sig1",
+        ts: 1_700_000_000_000,
+        type: "buy",
+      })
+    ).toEqual({
+      ts: 1_700_000_000,
+      priceQuote: 0.002,
+      quoteUsd: 150,
+      volumeBase: 1_000,
+      signature: "sig1",
+    });
+  });
+
+  it("returns null without a usable price", () => {
+    expect(
+      tradeFromActivityRow({
+        amount_base: 0,
+        amount_quote: 0,
+        index: "1",
+        maker: "Maker111",
+        mint: "MintA",
+        signature: "sig1",
+        ts: 1_700_000_000,
+        type: "buy",
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Candle aggregator — folds live trades into OHLCV candles.
+ *
+ * Operates on the raw `TokenCandle` shape returned by public/getTokenCandles
+ * so the result feeds `buildCandleChartSeries` / `buildChartSeries` for both
+ * market-cap and price modes without a separate conversion path.
+ */
+import type { TokenCandle } from "@quickscope/core/token";
+import type { TokenActivityRow } from "@/src/features/token/tokenInsightsService";
+import { toNumber } from "@quickscope/core";
+
+// ── Types ──
+
+export type CandleTrade = {
+  /** Unix seconds */
+  ts: number;
+  /** Token price in the quote asset (SOL) — same unit as candle OHLC */
+  priceQuote: number;
+  /** Quote asset USD price at the time of the trade (0 if unknown) */
+  quoteUsd: number;
+  volumeBase: number;
+  signature?: string;
+};
+
+export type CandleSeries = {
+  resolutionSeconds: number;
+  /** Ascending by bucket start */
+  candles: TokenCandle[];
+  /**
+   * Earliest/latest trade folded into each bucket. Decides whether an
+   * out-of-order trade may move a candle's open or close. Buckets loaded from
+   * the server are seeded as "closed" except the newest, which is still open.
+   */
+  tradeBounds: Record<number, { firstTs: number; lastTs: number }>;
+  /** Recently folded signatures — stream resends must not double count volume */
+  recentSignatures: string[];
+};
+
+/** Oldest candles are dropped past this count */
+const MAX_CANDLES = 1_000;
+const MAX_RECENT_SIGNATURES = 256;
+
+// ── Helpers ──
+
+export function candleBucketStart(ts: number, resolutionSeconds: number): number {
+  return Math.floor(ts / resolutionSeconds) * resolutionSeconds;
+}
+
+export function createCandleSeries(candles: TokenCandle[], resolutionSeconds: number): CandleSeries {
+  const sorted = [...candles].sort((a, b) => toNumber(a.ts) - toNumber(b.ts));
+  const tradeBounds: CandleSeries["tradeBounds"] = {};
+
+  sorted.forEach((candle, index) => {
+    const bucket = toNumber(candle.ts);
+    const isLast = index === sorted.length - 1;
+    tradeBounds[bucket] = {
+      firstTs: bucket,
+      lastTs: isLast ? bucket : bucket + resolutionSeconds - 1,
+    };
+  });
+
+  return { resolutionSeconds, candles: sorted, tradeBounds, recentSignatures: [] };
+}
+
+/** Map a trade stream / activity row into a candle trade. Null if it has no usable price. */
+export function tradeFromActivityRow(row: TokenActivityRow): CandleTrade | null {
+  const amountBase = toNumber(row.amount_base);
+  const amountQuote = toNumber(row.amount_quote);
+  const priceQuote = toNumber(row.price) || (amountBase > 0 ? amountQuote / amountBase : 0);
+  const rawTs = toNumber(row.ts);
+  const ts = rawTs > 10_000_000_000 ? Math.floor(rawTs / 1000) : rawTs;
+
+  if (priceQuote <= 0 || ts <= 0) return null;
+
+  return {
+    ts,
+    priceQuote,
+    quoteUsd: toNumber(row.quote_asset_price_usd),
+    volumeBase: amountBase,
+    signature: row.signature || undefined,
+  };
+}
+
+// ── Aggregation ──
+
+function foldTrade(series: CandleSeries, trade: CandleTrade): CandleSeries {
+  if (trade.signature && series.recentSignatures.includes(trade.signature)) {
+    return series;
+  }
+
+  const { resolutionSeconds, candles } = series;
+  const bucket = candleBucketStart(trade.ts, resolutionSeconds);
+  const firstBucket = candles.length > 0 ? toNumber(candles[0].ts) : bucket;
+
+  // Older than anything loaded — outside the visible range
+  if (bucket < firstBucket) return series;
+
+  const recentSignatures = trade.signature
+    ? [...series.recentSignatures, trade.signature].slice(-MAX_RECENT_SIGNATURES)
+    : series.recentSignatures;
+
+  const index = candles.findIndex((candle) => toNumber(candle.ts) === bucket);
+
+  if (index === -1) {
+    // New bucket: rollover past the last candle, or a gap filled out of order
+    const price = String(trade.priceQuote);
+    const previous = [...candles].reverse().find((candle) => toNumber(candle.ts) < bucket);
+    const candle: TokenCandle = {
+      ts: bucket,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      quote_asset_price_usd: trade.quoteUsd || toNumber(previous?.quote_asset_price_usd),
+      volume_base: trade.volumeBase,
+    };
+
+    const insertAt = candles.findIndex((existing) => toNumber(existing.ts) > bucket);
+    const nextCandles =
+      insertAt === -1
+        ? [...candles, candle]
+        : [...candles.slice(0, insertAt), candle, ...candles.slice(insertAt)];
+
+    return {
+      resolutionSeconds,
+      candles: nextCandles.slice(-MAX_CANDLES),
+      tradeBounds: { ...series.tradeBounds, [bucket]: { firstTs: trade.ts, lastTs: trade.ts } },
+      recentSignatures,
+    };
+  }
+
+  const current = candles[index];
+  const bounds = series.tradeBounds[bucket] ?? { firstTs: bucket, lastTs: bucket };
+  const isEarliest = trade.ts < bounds.firstTs;
+  const isLatest = trade.ts >= bounds.lastTs;
+
+  const updated: TokenCandle = {
+    ...current,
+    open: isEarliest ? String(trade.priceQuote) : current.open,
+    high: String(Math.max(toNumber(current.high ?? current.close), trade.priceQuote)),
+    low: String(Math.min(toNumber(current.low ?? current.close) || trade.priceQuote, trade.priceQuote)),
+    close: isLatest ? String(trade.priceQuote) : current.close,
+    quote_asset_price_usd:
+      isLatest && trade.quoteUsd > 0 ? trade.quoteUsd : current.quote_asset_price_usd,
+    volume_base: toNumber(current.volume_base) + trade.volumeBase,
+  };
+
+  return {
+    resolutionSeconds,
+    candles: [...candles.slice(0, index), updated, ...candles.slice(index + 1)],
+    tradeBounds: {
+      ...series.tradeBounds,
+      [bucket]: {
+        firstTs: Math.min(bounds.firstTs, trade.ts),
+        lastTs: Math.max(bounds.lastTs, trade.ts),
+      },
+    },
+    recentSignatures,
+  };
+}
+
+/**
+ * Fold trades into the series at its resolution.
+ *
+ * - Trades in the open bucket update high/low/close/volume
+ * - A trade past the last bucket rolls over into a new candle
+ * - Out-of-order trades update high/low/volume of their own bucket, and only
+ *   move open/close if they are earlier/later than what that bucket has seen
+ * - Duplicate signatures and trades older than the first candle are ignored
+ */
+export function foldTradesIntoCandles(series: CandleSeries, trades: CandleTrade[]): CandleSeries {
+  return trades.reduce(foldTrade, series);
+}
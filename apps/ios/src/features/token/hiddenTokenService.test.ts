@@ -0,0 +1,56 @@
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  fetchHiddenTokens,
+  mapHiddenToken,
+  withoutHiddenTokens,
+} from "@/src/features/token/hiddenTokenService";
+
+describe("mapHiddenToken", () => {
+  it("normalises empty strings and millisecond timestamps", () => {
+    expect(
+      mapHiddenToken({ mint: "MintA", symbol: "RUG", name: "", hidden_at: 1_700_000_000_000 })
+    ).toEqual({
+      mint: "MintA",
+      symbol: "RUG",
+      name: undefined,
+      imageUri: undefined,
+      hiddenAt: 1_700_000_000,
+    });
+  });
+
+  it("drops rows without a mint", () => {
+    expect(mapHiddenToken({ symbol: "RUG" })).toBeNull();
+  });
+});
+
+describe("fetchHiddenTokens", () => {
+  it("follows limit/offset pages until a short page", async () => {
+    const call = jest
+      .fn()
+      .mockResolvedValueOnce([{ mint: "MintA" }, { mint: "MintB" }])
+      .mockResolvedValueOnce([{ mint: "MintC" }]);
+
+    const rpcClient = { call } as unknown as RpcClient;
+    const tokens = await fetchHiddenTokens(rpcClient, 2);
+
+    expect(call).toHaveBeenNthCalledWith(1, "private/getHiddenTokens", [2, 0]);
+    expect(call).toHaveBeenNthCalledWith(2, "private/getHiddenTokens", [2, 2]);
+    expect(tokens.map((t) => t.mint)).toEqual(["MintA", "MintB", "MintC"]);
+  });
+});
+
+describe("withoutHiddenTokens", () => {
+  const rows = [{ mint: "MintA" }, { mint: "MintB" }, { mint: "MintC" }];
+
+  it("removes hidden mints", () => {
+    expect(withoutHiddenTokens(rows, new Set(["MintB"]))).toEqual([
+      { mint: "MintA" },
+      { mint: "MintC" },
+    ]);
+  });
+
+  it("returns the same array when nothing is hidden", () => {
+    expect(withoutHiddenTokens(rows, new Set())).toBe(rows);
+    expect(withoutHiddenTokens(rows)).toBe(rows);
+  });
+});
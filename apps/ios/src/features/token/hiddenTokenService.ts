@@ -0,0 +1,86 @@
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { toNumber } from "@quickscope/core";
+
+// ── Types ──
+
+export type HiddenToken = {
+  mint: string;
+  symbol?: string;
+  name?: string;
+  imageUri?: string;
+  /** Unix seconds */
+  hiddenAt?: number;
+};
+
+type RawHiddenTokenRow = {
+  mint?: string;
+  symbol?: string;
+  name?: string;
+  image_uri?: string;
+  hidden_at?: number | string;
+  created_at?: number | string;
+};
+
+/** Server default page size for private/getHiddenTokens */
+export const HIDDEN_TOKENS_PAGE_SIZE = 500;
+
+// ── Helpers ──
+
+/** Normalise a server row. Null when it lacks a mint. */
+export function mapHiddenToken(raw: RawHiddenTokenRow): HiddenToken | null {
+  if (!raw.mint) return null;
+
+  const hiddenAt = toNumber(raw.hidden_at ?? raw.created_at);
+  return {
+    mint: raw.mint,
+    symbol: raw.symbol || undefined,
+    name: raw.name || undefined,
+    imageUri: raw.image_uri || undefined,
+    hiddenAt: hiddenAt > 10_000_000_000 ? Math.floor(hiddenAt / 1000) : hiddenAt || undefined,
+  };
+}
+
+/** Drop rows whose mint the user has hidden. Returns `rows` untouched when nothing is hidden. */
+export function withoutHiddenTokens<T extends { mint: string }>(
+  rows: T[],
+  hiddenMints?: ReadonlySet<string>
+): T[] {
+  if (!hiddenMints || hiddenMints.size === 0) return rows;
+  return rows.filter((row) => !hiddenMints.has(row.mint));
+}
+
+// ── API ──
+
+/** All hidden tokens, following limit/offset pages until a short page. */
+export async function fetchHiddenTokens(
+  rpcClient: RpcClient,
+  limit = HIDDEN_TOKENS_PAGE_SIZE
+): Promise<HiddenToken[]> {
+  const tokens: HiddenToken[] = [];
+
+  for (let offset = 0; ; offset += limit) {
+    const params = { limit, offset };
+    const rows = await rpcClient.call<RawHiddenTokenRow[]>(
+      "private/getHiddenTokens",
+      Object.values(params)
+    );
+    const page = rows ?? [];
+
+    for (const row of page) {
+      const token = mapHiddenToken(row);
+      if (token) tokens.push(token);
+    }
+
+    if (page.length < limit) return tokens;
+  }
+}
+
+export async function hideToken(rpcClient: RpcClient, mint: string): Promise<boolean> {
+  const params = { mint };
+  return rpcClient.call<boolean>("private/hideToken", Object.values(params));
+}
+
+export async function unhideToken(rpcClient: RpcClient, mint: string): Promise<boolean> {
+  const params = { mint };
+  return rpcClient.call<boolean>("private/unhideToken", Object.values(params));
+}
@@ -0,0 +1,71 @@
+import {
+  bucketHolders,
+  computeHolderConcentration,
+  giniCoefficient,
+} from "@/src/features/token/holderDistribution";
+import type { TokenHolder } from "@/src/features/token/tokenInsightsService";
+
+function holder(owner: string, balance: number, labels?: string[]): TokenHolder {
+  return { owner, balance, labels };
+}
+
+describe("giniCoefficient", () => {
+  it("is 0 for even balances and approaches 1 for a single whale", () => {
+    expect(giniCoefficient([5, 5, 5, 5])).toBe(0);
+    expect(giniCoefficient([0, 0, 0, 100])).toBeCloseTo(0.75);
+    expect(giniCoefficient([])).toBe(0);
+  });
+});
+
+describe("bucketHolders", () => {
+  it("groups holders by share of supply, largest first", () => {
+    const buckets = bucketHolders(
+      [holder("a", 100), holder("b", 20), holder("c", 5), holder("d", 0.5)],
+      1000
+    );
+
+    expect(buckets.map((b) => [b.label, b.holderCount])).toEqual([
+      [">5%", 1],
+      ["1–5%", 1],
+      ["0.1–1%", 1],
+      ["<0.1%", 1],
+    ]);
+    expect(buckets[0].supplyPct).toBeCloseTo(10);
+  });
+});
+
+describe("computeHolderConcentration", () => {
+  const holders = [
+    holder("dev", 300, ["Dev"]),
+    holder("sniper", 200, ["sniper", "bot"]),
+    holder("whale", 100, ["whale"]),
+    ...Array.from({ length: 30 }, (_, i) => holder(`h${i}`, 10)),
+  ];
+
+  it("measures top-N and labeled group shares against the real supply", () => {
+    const stats = computeHolderConcentration(holders, 2000);
+
+    expect(stats.top10Pct).toBeCloseTo(((300 + 200 + 100 + 7 * 10) / 2000) * 100);
+    expect(stats.top25Pct).toBeCloseTo(((600 + 22 * 10) / 2000) * 100);
+    expect(stats.labelGroups.find((g) => g.label === "dev")).toEqual({
+      label: "dev",
+      holderCount: 1,
+      supplyPct: 15,
+    });
+    expect(stats.labelGroups.find((g) => g.label === "bot")?.supplyPct).toBe(10);
+    // The sniper/bot wallet counts once; whales are not a risk group
+    expect(stats.labeledPct).toBe(25);
+  });
+
+  it("prefers server buckets and falls back to loaded balances for supply", () => {
+    const stats = computeHolderConcentration(holders, 0, [
+      { min_pct: 0, max_pct: 1, holder_count: 900 },
+      { min_pct: 1, holder_count: 40, balance: 450 },
+    ]);
+
+    expect(stats.buckets).toEqual([
+      { label: ">1%", minPct: 1, maxPct: undefined, holderCount: 40, supplyPct: 50 },
+      { label: "<1%", minPct: 0, maxPct: 1, holderCount: 900, supplyPct: undefined },
+    ]);
+  });
+});
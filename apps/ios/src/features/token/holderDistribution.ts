@@ -0,0 +1,147 @@
+import type {
+  HolderDistributionBucket,
+  TokenHolder,
+} from "@/src/features/token/tokenInsightsService";
+import { LABEL_COLORS } from "@/src/ui/HolderRow";
+
+/** Labels that mark a launch as insider-heavy: every label HolderRow colors except whales, which are only large. */
+export const HOLDER_LABEL_GROUPS: readonly string[] = Object.keys(LABEL_COLORS).filter(
+  (label) => label !== "whale"
+);
+
+export type HolderBucket = {
+  label: string;
+  minPct: number;
+  maxPct?: number;
+  holderCount: number;
+  /** Share of supply held by the bucket, when known */
+  supplyPct?: number;
+};
+
+export type LabelGroupShare = {
+  label: string;
+  holderCount: number;
+  supplyPct: number;
+};
+
+export type HolderConcentration = {
+  top10Pct: number;
+  top25Pct: number;
+  /**
+   * Gini over the holders passed in — the loaded top holders, not every
+   * holder. 0 when balances are even, approaching 1 when one wallet holds everything
+   */
+  giniScore: number;
+  labelGroups: LabelGroupShare[];
+  /** Held by any labeled wallet, each wallet counted once */
+  labeledPct: number;
+  buckets: HolderBucket[];
+};
+
+/** Bucket bounds (% of supply) used when the server sends no buckets. */
+const DEFAULT_BUCKET_BOUNDS = [5, 1, 0.1];
+
+// ── Helpers ──
+
+function formatBucketLabel(minPct: number, maxPct?: number): string {
+  if (maxPct === undefined) return `>${minPct}%`;
+  if (minPct === 0) return `<${maxPct}%`;
+  return `${minPct}–${maxPct}%`;
+}
+
+function pctOf(balance: number, totalSupply: number): number {
+  return totalSupply > 0 ? (balance / totalSupply) * 100 : 0;
+}
+
+function sumBalances(holders: TokenHolder[]): number {
+  return holders.reduce((acc, h) => acc + h.balance, 0);
+}
+
+/** Gini coefficient of the balances; negative and empty balances count as zero. */
+export function giniCoefficient(balances: number[]): number {
+  const sorted = balances.map((b) => Math.max(0, b)).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((acc, b) => acc + b, 0);
+  if (n < 2 || total === 0) return 0;
+
+  const weighted = sorted.reduce((acc, b, i) => acc + (i + 1) * b, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/** Group holders into holding-size buckets, largest first. */
+export function bucketHolders(holders: TokenHolder[], totalSupply: number): HolderBucket[] {
+  const bounds = [undefined, ...DEFAULT_BUCKET_BOUNDS, 0];
+  const buckets: HolderBucket[] = [];
+
+  for (let i = 1; i < bounds.length; i++) {
+    const minPct = bounds[i] as number;
+    const maxPct = bounds[i - 1];
+    const members = holders.filter((h) => {
+      const pct = pctOf(h.balance, totalSupply);
+      return pct >= minPct && (maxPct === undefined || pct < maxPct);
+    });
+    buckets.push({
+      label: formatBucketLabel(minPct, maxPct),
+      minPct,
+      maxPct,
+      holderCount: members.length,
+      supplyPct: pctOf(sumBalances(members), totalSupply),
+    });
+  }
+
+  return buckets;
+}
+
+/** Map server buckets, largest first. */
+export function mapDistributionBuckets(
+  raw: HolderDistributionBucket[],
+  totalSupply: number
+): HolderBucket[] {
+  return raw
+    .filter((b) => Number.isFinite(b.min_pct) && Number.isFinite(b.holder_count))
+    .map((b) => ({
+      label: formatBucketLabel(b.min_pct, b.max_pct),
+      minPct: b.min_pct,
+      maxPct: b.max_pct,
+      holderCount: b.holder_count,
+      supplyPct: b.balance !== undefined && totalSupply > 0 ? pctOf(b.balance, totalSupply) : undefined,
+    }))
+    .sort((a, b) => b.minPct - a.minPct);
+}
+
+// ── Concentration ──
+
+/**
+ * Concentration metrics over the loaded holders. `totalSupply` should be the
+ * real supply; without one, the loaded balances stand in and every share
+ * reads as a share of those holders only.
+ */
+export function computeHolderConcentration(
+  holders: TokenHolder[],
+  totalSupply: number,
+  serverBuckets?: HolderDistributionBucket[]
+): HolderConcentration {
+  const supply = totalSupply > 0 ? totalSupply : sumBalances(holders);
+  const ranked = [...holders].sort((a, b) => b.balance - a.balance);
+
+  const labelGroups = HOLDER_LABEL_GROUPS.map((label) => {
+    const members = holders.filter((h) => h.labels?.some((l) => l.toLowerCase() === label));
+    return { label, holderCount: members.length, supplyPct: pctOf(sumBalances(members), supply) };
+  });
+
+  const labeled = holders.filter((h) =>
+    h.labels?.some((l) => HOLDER_LABEL_GROUPS.includes(l.toLowerCase()))
+  );
+
+  return {
+    top10Pct: pctOf(sumBalances(ranked.slice(0, 10)), supply),
+    top25Pct: pctOf(sumBalances(ranked.slice(0, 25)), supply),
+    giniScore: giniCoefficient(holders.map((h) => h.balance)),
+    labelGroups,
+    labeledPct: pctOf(sumBalances(labeled), supply),
+    buckets:
+      serverBuckets && serverBuckets.length > 0
+        ? mapDistributionBuckets(serverBuckets, supply)
+        : bucketHolders(holders, supply),
+  };
+}
@@ -0,0 +1,52 @@
+import {
+  extractTokenTrades,
+  mergeTradesBySignature,
+  type TokenActivityRow,
+} from "@/src/features/token/tokenInsightsService";
+
+function trade(signature: string, ts = 1_700_000_000): TokenActivityRow {
+  return {
+    amount_base: 1_000,
+    amount_quote: 0.5,
+    index: `${ts}`,
+    maker: "Maker111",
+    mint: "MintA",
+    signature,
+    ts,
+    type: "buy",
+  };
+}
+
+describe("extractTokenTrades", () => {
+  it("accepts a single trade, a batch, or a wrapped batch", () => {
+    expect(extractTokenTrades(trade("sig1"))).toEqual([trade("sig1")]);
+    expect(extractTokenTrades([trade("sig1"), trade("sig2")])).toHaveLength(2);
+    expect(extractTokenTrades({ trades: [trade("sig3")] })).toEqual([trade("sig3")]);
+    expect(extractTokenTrades({})).toEqual([]);
+    expect(extractTokenTrades(null)).toEqual([]);
+  });
+});
+
+describe("mergeTradesBySignature", () => {
+  it("prepends new trades and drops signatures already in the snapshot", () => {
+    const snapshot = [trade("sig2"), trade("sig1")];
+    const merged = mergeTradesBySignature([trade("sig3"), trade("sig2")], snapshot, 10);
+
+    expect(merged.map((row) => row.signature)).toEqual(["sig3", "sig2", "sig1"]);
+  });
+
+  it("caps the result at the limit, keeping the newest rows", () => {
+    const merged = mergeTradesBySignature(
+      [trade("sig4"), trade("sig3")],
+      [trade("sig2"), trade("sig1")],
+      3
+    );
+
+    expect(merged.map((row) => row.signature)).toEqual(["sig4", "sig3", "sig2"]);
+  });
+
+  it("keeps rows that have no signature", () => {
+    const merged = mergeTradesBySignature([trade("")], [trade("")], 10);
+    expect(merged).toHaveLength(2);
+  });
+});
@@ -1,5 +1,5 @@
 import type { RpcClient } from "@/src/lib/api/rpcClient";
-import type { LiveTokenInfo } from "@/src/features/token/tokenService";
+import type { LiveTokenInfo } from "@quickscope/core/token";
 
 export type TokenActivityRow = {
   amount_base: number;
@@ -75,6 +75,33 @@ export async function fetchTokenHolders(
   ]);
 }
 
+/** One holding-size bucket; bounds are percentages of supply. */
+export type HolderDistributionBucket = {
+  min_pct: number;
+  max_pct?: number;
+  holder_count: number;
+  /** Raw balance held by the bucket */
+  balance?: number;
+};
+
+export type HolderDistributionResponse = {
+  /** Raw units, like holder balances */
+  total_supply?: number;
+  holder_count?: number;
+  buckets?: HolderDistributionBucket[];
+};
+
+export async function fetchTokenHolderDistribution(
+  rpcClient: RpcClient,
+  mint: string
+): Promise<HolderDistributionResponse> {
+  const distribution = await rpcClient.call<HolderDistributionResponse>(
+    "public/getTokenHolderDistribution",
+    [mint]
+  );
+  return distribution ?? {};
+}
+
 export type TokenTrader = {
   trader: string;
   bought_usd: number;
@@ -109,3 +136,42 @@ export async function fetchTokenTraders(
     { limit, offset, sort_column: sortColumn, sort_order: false },
   ]);
 }
+
+// ── Live trades (public/tokenTrade) ──
+
+/**
+ * Payload of a `public/tokenTrade` stream message. The server pushes either a
+ * single trade row or a batch; both share the filterAllTransactionsTable row shape.
+ */
+export type TokenTradeUpdate = TokenActivityRow | TokenActivityRow[] | { trades?: TokenActivityRow[] };
+
+export function extractTokenTrades(update: TokenTradeUpdate | null | undefined): TokenActivityRow[] {
+  if (!update) return [];
+  if (Array.isArray(update)) return update;
+  if ("signature" in update) return [update];
+  return update.trades ?? [];
+}
+
+/**
+ * Prepend `incoming` trades to `existing`, newest first, dropping any whose
+ * signature is already present. Rows without a signature are always kept.
+ */
+export function mergeTradesBySignature<T extends { signature: string }>(
+  incoming: T[],
+  existing: T[],
+  limit: number
+): T[] {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  for (const row of [...incoming, ...existing]) {
+    if (row.signature) {
+      if (seen.has(row.signature)) continue;
+      seen.add(row.signature);
+    }
+    merged.push(row);
+    if (merged.length >= limit) break;
+  }
+
+  return merged;
+}
@@ -0,0 +1,48 @@
+import { useCallback } from "react";
+
+import { Alert } from "react-native";
+
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import type { HiddenToken } from "@/src/features/token/hiddenTokenService";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+
+/** Confirm-then-hide flow shared by token rows and the token page. */
+export function useHideToken() {
+  const { status } = useAuthSession();
+  const { hide } = useHiddenTokens();
+
+  return useCallback(
+    (token: HiddenToken) => {
+      if (status !== "authenticated") {
+        toast.info("Hide token", "Connect to hide tokens.");
+        return;
+      }
+
+      const label = token.symbol ? `$${token.symbol}` : "this token";
+      Alert.alert(
+        "Hide Token",
+        `Hide ${label} from Discovery, Scope and Search? You can unhide it in Settings.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Hide",
+            style: "destructive",
+            onPress: () => {
+              hide(token)
+                .then(() => {
+                  haptics.success();
+                  toast.success("Token hidden", label);
+                })
+                .catch(() => {
+                  toast.error("Hide token", "Failed to hide token");
+                });
+            },
+          },
+        ]
+      );
+    },
+    [status, hide]
+  );
+}
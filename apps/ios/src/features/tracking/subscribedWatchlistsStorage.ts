@@ -0,0 +1,83 @@
+/**
+ * Persists the published watchlists the user has subscribed to.
+ *
+ * The backend records subscriptions but has no endpoint to list them, so the
+ * ids are mirrored locally and the Tracking list drawer reads them from here.
+ * The cached name lets the drawer render before the list itself is fetched.
+ * Entries are kept per account (its primary account address), so another
+ * sign-in on the same device doesn't see them; without one nothing is stored.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { PublishedWatchlistRouteParams } from "@/src/navigation/types";
+
+const STORAGE_KEY_PREFIX = "qs_subscribed_watchlists_v2";
+
+export type PublishedWatchlistKind = PublishedWatchlistRouteParams["kind"];
+
+export type SubscribedWatchlist = {
+  kind: PublishedWatchlistKind;
+  publishedId: number;
+  name: string;
+};
+
+/** Share link for a published list, e.g. `quickscope://list/wallet/42`. */
+export function buildPublishedWatchlistLink(kind: PublishedWatchlistKind, publishedId: number): string {
+  return `quickscope://list/${kind}/${publishedId}`;
+}
+
+function storageKey(accountAddress: string): string {
+  return `${STORAGE_KEY_PREFIX}:${accountAddress}`;
+}
+
+export async function getSubscribedWatchlists(
+  accountAddress: string | undefined
+): Promise<SubscribedWatchlist[]> {
+  if (!accountAddress) return [];
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(accountAddress));
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed as SubscribedWatchlist[];
+  } catch {
+    return [];
+  }
+}
+
+async function writeSubscribedWatchlists(
+  accountAddress: string | undefined,
+  entries: SubscribedWatchlist[]
+): Promise<void> {
+  if (!accountAddress) return;
+  try {
+    await AsyncStorage.setItem(storageKey(accountAddress), JSON.stringify(entries));
+  } catch {
+    // silent — the subscription itself already succeeded server-side
+  }
+}
+
+/** Add or rename a subscription. */
+export async function addSubscribedWatchlist(
+  accountAddress: string | undefined,
+  entry: SubscribedWatchlist
+): Promise<SubscribedWatchlist[]> {
+  const current = await getSubscribedWatchlists(accountAddress);
+  const updated = [
+    ...current.filter((e) => !(e.kind === entry.kind && e.publishedId === entry.publishedId)),
+    entry,
+  ];
+  await writeSubscribedWatchlists(accountAddress, updated);
+  return updated;
+}
+
+export async function removeSubscribedWatchlist(
+  accountAddress: string | undefined,
+  kind: PublishedWatchlistKind,
+  publishedId: number
+): Promise<SubscribedWatchlist[]> {
+  const current = await getSubscribedWatchlists(accountAddress);
+  const updated = current.filter((e) => !(e.kind === kind && e.publishedId === publishedId));
+  await writeSubscribedWatchlists(accountAddress, updated);
+  return updated;
+}
@@ -71,6 +71,32 @@ export async function createWalletWatchlist(
   return rpcClient.call<number>("private/createWalletWatchlist", Object.values(params));
 }
 
+export async function updateWalletWatchlistName(
+  rpcClient: RpcClient,
+  watchlistId: number,
+  name: string
+): Promise<boolean> {
+  const params = { watchlistId, name };
+  return rpcClient.call<boolean>("private/updateWalletWatchlistName", Object.values(params));
+}
+
+export async function updateWalletWatchlistDescription(
+  rpcClient: RpcClient,
+  watchlistId: number,
+  description: string
+): Promise<boolean> {
+  const params = { watchlistId, description };
+  return rpcClient.call<boolean>("private/updateWalletWatchlistDescription", Object.values(params));
+}
+
+export async function deleteWalletWatchlist(
+  rpcClient: RpcClient,
+  watchlistId: number
+): Promise<boolean> {
+  const params = { watchlistId };
+  return rpcClient.call<boolean>("private/deleteWalletWatchlist", Object.values(params));
+}
+
 export async function addWalletToWatchlist(
   rpcClient: RpcClient,
   params: {
@@ -91,6 +117,16 @@ export async function addWalletToWatchlist(
   return rpcClient.call<boolean>("private/addToWalletWatchlist", Object.values(payload));
 }
 
+/** Bulk import — wallets are added unnamed and can be labelled afterwards. */
+export async function multiAddToWalletWatchlist(
+  rpcClient: RpcClient,
+  watchlistId: number,
+  publicKeys: string[]
+): Promise<boolean> {
+  const params = { watchlistId, wallets: publicKeys };
+  return rpcClient.call<boolean>("private/multiAddToWalletWatchlist", Object.values(params));
+}
+
 export async function removeWalletFromWatchlist(
   rpcClient: RpcClient,
   watchlistId: number,
@@ -100,6 +136,25 @@ export async function removeWalletFromWatchlist(
   return rpcClient.call<boolean>("private/removeWalletFromWatchlist", Object.values(params));
 }
 
+/** Name, emoji and description are per wallet, so edits show in every list that tracks it. */
+export async function updateTrackedWallet(
+  rpcClient: RpcClient,
+  params: {
+    publicKey: string;
+    name: string;
+    description?: string;
+    emoji: string;
+  }
+): Promise<boolean> {
+  const payload = {
+    wallet: params.publicKey,
+    name: params.name,
+    description: params.description ?? "",
+    emoji: params.emoji,
+  };
+  return rpcClient.call<boolean>("private/updateTrackedWallet", Object.values(payload));
+}
+
 export async function fetchWalletWatchlist(
   rpcClient: RpcClient,
   watchlistId: number
@@ -108,6 +163,49 @@ export async function fetchWalletWatchlist(
   return rpcClient.call<WalletWatchlistResponse>("private/getWalletWatchlist", Object.values(params));
 }
 
+// ── Publishing ──
+
+/** Publish a list so others can preview and subscribe. Returns the published list id used in share links. */
+export async function publishWalletWatchlist(
+  rpcClient: RpcClient,
+  watchlistId: number
+): Promise<number> {
+  const params = { watchlistId };
+  return rpcClient.call<number>("private/publishWalletWatchlist", Object.values(params));
+}
+
+export async function unpublishWalletWatchlist(
+  rpcClient: RpcClient,
+  watchlistId: number
+): Promise<boolean> {
+  const params = { watchlistId };
+  return rpcClient.call<boolean>("private/deletePublishedWalletWatchlist", Object.values(params));
+}
+
+export async function subscribeToWalletWatchlist(
+  rpcClient: RpcClient,
+  publishedId: number
+): Promise<boolean> {
+  const params = { watchlistId: publishedId };
+  return rpcClient.call<boolean>("private/subscribeToPublishedWalletWatchlist", Object.values(params));
+}
+
+export async function unsubscribeFromWalletWatchlist(
+  rpcClient: RpcClient,
+  publishedId: number
+): Promise<boolean> {
+  const params = { watchlistId: publishedId };
+  return rpcClient.call<boolean>("private/unsubscribeFromPublishedWalletWatchlist", Object.values(params));
+}
+
+/** Public — readable without a session, so shared links preview before sign-in. */
+export async function fetchPublishedWalletWatchlist(
+  rpcClient: RpcClient,
+  publishedId: number
+): Promise<WalletWatchlistResponse> {
+  return rpcClient.call<WalletWatchlistResponse>("public/getPublishedWalletWatchlist", [publishedId]);
+}
+
 export async function fetchWalletActivity(
   rpcClient: RpcClient,
   addresses: string[],
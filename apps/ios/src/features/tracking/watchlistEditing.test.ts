@@ -0,0 +1,39 @@
+import {
+  applyListOrder,
+  moveListId,
+  parseWalletImport,
+} from "@/src/features/tracking/watchlistEditing";
+
+const WALLET_A = "So11111111111111111111111111111111111111112";
+const WALLET_B = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const WALLET_C = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+describe("parseWalletImport", () => {
+  it("splits pasted lines and separates invalid and duplicate entries", () => {
+    const text = `${WALLET_A}\n\n  ${WALLET_B}, not-a-wallet\r\n${WALLET_A}\n${WALLET_C}\n0xdeadbeef`;
+
+    expect(parseWalletImport(text, [WALLET_C])).toEqual({
+      valid: [WALLET_A, WALLET_B],
+      invalid: ["not-a-wallet", "0xdeadbeef"],
+      duplicates: [WALLET_A, WALLET_C],
+    });
+  });
+
+  it("returns nothing for blank input", () => {
+    expect(parseWalletImport(" \n\t")).toEqual({ valid: [], invalid: [], duplicates: [] });
+  });
+});
+
+describe("list ordering", () => {
+  const items = ["1", "2", "3", "4"].map((id) => ({ id }));
+
+  it("applies the saved order and keeps new lists after it", () => {
+    expect(applyListOrder(items, ["3", "gone", "1"]).map((i) => i.id)).toEqual(["3", "1", "2", "4"]);
+  });
+
+  it("moves an id one step and ignores moves past the edges", () => {
+    expect(moveListId(["1", "2", "3"], "2", -1)).toEqual(["2", "1", "3"]);
+    expect(moveListId(["1", "2", "3"], "3", 1)).toEqual(["1", "2", "3"]);
+    expect(moveListId(["1", "2", "3"], "9", 1)).toEqual(["1", "2", "3"]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Pure helpers for the Tracking list-management mode: parsing pasted wallet
+ * addresses for bulk import, and applying the user's list order.
+ */
+import { isValidSolanaAddress } from "@/src/features/account/walletService";
+
+// ── Bulk import ──
+
+export type WalletImportParseResult = {
+  /** New, valid addresses in paste order */
+  valid: string[];
+  /** Lines that are not Solana addresses */
+  invalid: string[];
+  /** Valid addresses already in the list or repeated in the paste */
+  duplicates: string[];
+};
+
+/**
+ * Split pasted text into addresses — one per line; commas and spaces also
+ * separate, so exports from spreadsheets and chat messages paste cleanly.
+ */
+export function parseWalletImport(text: string, existing: Iterable<string> = []): WalletImportParseResult {
+  const seen = new Set(existing);
+  const result: WalletImportParseResult = { valid: [], invalid: [], duplicates: [] };
+
+  for (const entry of text.split(/[\s,]+/)) {
+    if (!entry) continue;
+    if (!isValidSolanaAddress(entry)) {
+      result.invalid.push(entry);
+    } else if (seen.has(entry)) {
+      result.duplicates.push(entry);
+    } else {
+      seen.add(entry);
+      result.valid.push(entry);
+    }
+  }
+
+  return result;
+}
+
+// ── Ordering ──
+
+/**
+ * Sort items by a saved id order. Ids missing from the order (new lists) keep
+ * their server order after the saved ones; stale ids are ignored.
+ */
+export function applyListOrder<T extends { id: string }>(items: T[], order: string[]): T[] {
+  const rank = new Map(order.map((id, i) => [id, i]));
+  return items
+    .map((item, i) => ({ item, key: rank.get(item.id) ?? order.length + i }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+}
+
+/** Move `id` one step up (-1) or down (1) within `ids`; no-op at the edges. */
+export function moveListId(ids: string[], id: string, direction: -1 | 1): string[] {
+  const from = ids.indexOf(id);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= ids.length) return ids;
+
+  const next = [...ids];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
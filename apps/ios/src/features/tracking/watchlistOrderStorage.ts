@@ -0,0 +1,35 @@
+/**
+ * Persists the user's order of token and wallet lists in the Tracking drawer.
+ * The backend always returns lists by id, so the order is local to the device.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const STORAGE_KEY = "qs_watchlist_order_v1";
+
+export type WatchlistOrderKind = "token" | "wallet";
+
+type WatchlistOrder = Partial<Record<WatchlistOrderKind, string[]>>;
+
+async function readOrder(): Promise<WatchlistOrder> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? (parsed as WatchlistOrder) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function getWatchlistOrder(kind: WatchlistOrderKind): Promise<string[]> {
+  return (await readOrder())[kind] ?? [];
+}
+
+export async function setWatchlistOrder(kind: WatchlistOrderKind, ids: string[]): Promise<void> {
+  const current = await readOrder();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ ...current, [kind]: ids }));
+  } catch {
+    // silent
+  }
+}
@@ -0,0 +1,253 @@
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo, useRef } from "react";
+
+import { fetchLiveTokenInfos, liveMarketCapUsd, type LiveTokenInfo } from "@quickscope/core/token";
+import { DEFAULT_ACCOUNT_TRADE_SETTINGS, fetchAccountTradeSettings } from "@/src/features/account/settingsService";
+import { fetchWalletSolBalances } from "@/src/features/account/walletService";
+import {
+  cancelDcaPlan,
+  dcaSliceAmount,
+  hasDcaGuards,
+  isDcaGuardHolding,
+  nextDcaStep,
+  pauseDcaPlan,
+  recordDcaSlice,
+  resumeDcaPlan,
+  skipDcaSlices,
+  type DcaPlan,
+  type DcaSliceRecord,
+  type DcaWalletResult,
+} from "@/src/features/trade/dcaSchedule";
+import { getStoredDcaPlans, setStoredDcaPlans } from "@/src/features/trade/dcaPlanStorage";
+import {
+  executeMultiWalletBuy,
+  executeMultiWalletSell,
+  getStealthSettings,
+  type BatchTradeResult,
+} from "@/src/features/trade/multiWalletTradeService";
+import { usePersistedStore, useStoreTask } from "@/src/hooks/usePersistedStore";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { toast } from "@/src/lib/toast";
+
+/** How often due slices are checked while the app is open. */
+const TICK_INTERVAL_MS = 15_000;
+
+const DCA_PLAN_STORAGE = { load: getStoredDcaPlans, save: setStoredDcaPlans };
+
+type DcaPlansContextValue = {
+  plans: DcaPlan[];
+  addPlan: (plan: DcaPlan) => void;
+  pausePlan: (id: string) => void;
+  resumePlan: (id: string) => void;
+  cancelPlan: (id: string) => void;
+  /** Remove a finished or cancelled plan and its slice log */
+  removePlan: (id: string) => void;
+};
+
+const DcaPlansContext = createContext<DcaPlansContextValue | null>(null);
+
+function sliceFromBatch(batch: BatchTradeResult): Pick<DcaSliceRecord, "status" | "results"> {
+  const results: DcaWalletResult[] = [
+    ...[...batch.success, ...batch.failed].map((r) => ({
+      walletPublicKey: r.walletPublicKey,
+      walletName: r.walletName,
+      result: r.executionResult && { ...r.executionResult, raw: null },
+      error: r.error,
+    })),
+    ...batch.skipped.map((s) => ({
+      walletPublicKey: s.walletPublicKey,
+      walletName: s.walletName,
+      error: "Skipped — insufficient balance",
+    })),
+  ];
+  return { status: batch.success.length > 0 ? "executed" : "failed", results };
+}
+
+/**
+ * DCA / TWAP plan store and runner.
+ *
+ * - Plans persist on device with every slice's execution results
+ * - Due slices run every 15s and on return to the foreground, through the
+ *   multi-wallet buy/sell paths (tx/swap, tx/swapBalancePercentage)
+ * - Missed slots follow each plan's catch-up policy (see dcaSchedule.ts)
+ * - Price-guarded plans hold their due slice while market cap is out of range
+ */
+export function DcaPlansProvider({
+  rpcClient,
+  children,
+}: PropsWithChildren<{ rpcClient: RpcClient }>) {
+  const {
+    items: plans,
+    setItems: setPlans,
+    itemsRef: plansRef,
+    isLoaded,
+    add: addPlan,
+  } = usePersistedStore(DCA_PLAN_STORAGE);
+  const runningRef = useRef(new Set<string>());
+
+  const updatePlan = useCallback((id: string, update: (plan: DcaPlan) => DcaPlan) => {
+    // Keep the ref current too, so a tick before the next render sees the recorded slice
+    plansRef.current = plansRef.current.map((plan) => (plan.id === id ? update(plan) : plan));
+    setPlans((prev) => prev.map((plan) => (plan.id === id ? update(plan) : plan)));
+  }, [plansRef, setPlans]);
+
+  const executeSlice = useCallback(
+    async (plan: DcaPlan, amount: number): Promise<Pick<DcaSliceRecord, "status" | "results" | "error">> => {
+      // Stealth settings and balances are best-effort, as for one-off batch trades
+      let stealthSettings;
+      try {
+        const { account_trade_settings } = await fetchAccountTradeSettings(rpcClient);
+        stealthSettings = getStealthSettings(account_trade_settings);
+      } catch {
+        // Proceed without stealth
+      }
+
+      try {
+        if (plan.side === "buy") {
+          let walletSolBalances: Record<string, number> | undefined;
+          try {
+            walletSolBalances = await fetchWalletSolBalances(
+              rpcClient,
+              plan.wallets.map((w) => w.public_key)
+            );
+          } catch {
+            // Proceed without balance check
+          }
+          return sliceFromBatch(
+            await executeMultiWalletBuy({
+              rpcClient,
+              selectedWallets: plan.wallets,
+              totalLamports: amount,
+              tokenAddress: plan.mint,
+              executionPreset: plan.executionPreset,
+              walletSolBalances,
+              // The plan total is what its wallets spend together, so every
+              // slice is split across them whatever the account's batch mode
+              stealthSettings: {
+                ...(stealthSettings ?? getStealthSettings(DEFAULT_ACCOUNT_TRADE_SETTINGS)),
+                mode: "split",
+              },
+            })
+          );
+        }
+        return sliceFromBatch(
+          await executeMultiWalletSell({
+            rpcClient,
+            selectedWallets: plan.wallets,
+            percentageBps: amount,
+            tokenAddress: plan.mint,
+            executionPreset: plan.executionPreset,
+            stealthSettings,
+          })
+        );
+      } catch (err) {
+        return {
+          status: "failed",
+          results: [],
+          error: err instanceof Error ? err.message : "Slice failed",
+        };
+      }
+    },
+    [rpcClient]
+  );
+
+  const tick = useCallback(async () => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const due = plansRef.current.filter(
+      (plan) => !runningRef.current.has(plan.id) && nextDcaStep(plan, nowSeconds).type === "run"
+    );
+    if (due.length === 0) return;
+
+    // Claim the plans before any await so an overlapping tick (interval and
+    // foreground resume) can't run the same slice twice
+    for (const plan of due) runningRef.current.add(plan.id);
+
+    // One market cap lookup per tick for every guarded plan
+    let infos: Record<string, LiveTokenInfo> = {};
+    const guardedMints = [...new Set(due.filter(hasDcaGuards).map((plan) => plan.mint))];
+    if (guardedMints.length > 0) {
+      try {
+        infos = await fetchLiveTokenInfos(rpcClient, guardedMints);
+      } catch {
+        // Unknown market cap holds guarded plans until the next tick
+      }
+    }
+
+    await Promise.all(
+      due.map(async ({ id }) => {
+        try {
+          // Re-read after the await; the plan may have been paused or cancelled meanwhile
+          const plan = plansRef.current.find((p) => p.id === id);
+          if (!plan) return;
+
+          if (isDcaGuardHolding(plan, liveMarketCapUsd(infos[plan.mint]))) {
+            if (!plan.heldByGuard) updatePlan(plan.id, (p) => ({ ...p, heldByGuard: true }));
+            return;
+          }
+
+          const step = nextDcaStep(plan, nowSeconds);
+          if (step.type !== "run") return;
+
+          const amount = dcaSliceAmount(skipDcaSlices(plan, step.skip, nowSeconds));
+          const slice = await executeSlice(plan, amount);
+          const settledAt = Math.floor(Date.now() / 1000);
+
+          const record = (base: DcaPlan) =>
+            recordDcaSlice(skipDcaSlices(base, step.skip, nowSeconds), { ...slice, amount }, step.slotAt, settledAt);
+
+          updatePlan(plan.id, (latest) => {
+            const recorded = record(latest);
+            // Keep a pause or cancel made while the slice was in flight
+            return latest.status !== "active" && recorded.status !== "completed"
+              ? { ...recorded, status: latest.status, pausedReason: latest.pausedReason }
+              : recorded;
+          });
+
+          const outcome = record(plan);
+          const label = `${plan.side === "buy" ? "DCA buy" : "DCA sell"} ${plan.tokenSymbol ?? ""}`.trim();
+          if (outcome.status === "completed") {
+            toast.success(`${label} complete`);
+          } else if (outcome.pausedReason === "failures") {
+            toast.warn(`${label} paused`, "Several slices failed in a row. Resume when ready.");
+          } else if (slice.status === "failed") {
+            toast.error(`${label} slice failed`, slice.error ?? slice.results.find((r) => r.error)?.error);
+          }
+        } finally {
+          runningRef.current.delete(id);
+        }
+      })
+    );
+  }, [rpcClient, executeSlice, updatePlan, plansRef]);
+
+  const hasActive = plans.some((plan) => plan.status === "active");
+
+  useStoreTask(tick, TICK_INTERVAL_MS, isLoaded && hasActive, { onForeground: true });
+
+  const pausePlan = useCallback((id: string) => updatePlan(id, pauseDcaPlan), [updatePlan]);
+
+  const resumePlan = useCallback(
+    (id: string) => updatePlan(id, (plan) => resumeDcaPlan(plan, Math.floor(Date.now() / 1000))),
+    [updatePlan]
+  );
+
+  const cancelPlan = useCallback((id: string) => updatePlan(id, cancelDcaPlan), [updatePlan]);
+
+  const removePlan = useCallback((id: string) => {
+    setPlans((prev) => prev.filter((plan) => plan.id !== id || plan.status === "active" || plan.status === "paused"));
+  }, [setPlans]);
+
+  const value = useMemo<DcaPlansContextValue>(
+    () => ({ plans, addPlan, pausePlan, resumePlan, cancelPlan, removePlan }),
+    [plans, addPlan, pausePlan, resumePlan, cancelPlan, removePlan]
+  );
+
+  return <DcaPlansContext.Provider value={value}>{children}</DcaPlansContext.Provider>;
+}
+
+export function useDcaPlans(): DcaPlansContextValue {
+  const context = useContext(DcaPlansContext);
+  if (!context) {
+    throw new Error("useDcaPlans must be used inside DcaPlansProvider");
+  }
+
+  return context;
+}
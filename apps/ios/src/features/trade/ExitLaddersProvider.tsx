@@ -0,0 +1,198 @@
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo, useRef } from "react";
+
+import {
+  cancelTriggerOrder,
+  createTriggerOrder,
+  exitLadderCancellations,
+  exitLadderStopLossResize,
+  getTriggerOrders,
+  isExitLadderSettled,
+  isTerminalOrderStatus,
+  replaceExitLadderStopLoss,
+  resizedStopLossParams,
+  type ExitLadder,
+  type OrderStatus,
+} from "@quickscope/core/trade";
+import { getStoredExitLadders, setStoredExitLadders } from "@/src/features/trade/exitLadderStorage";
+import { useOrderStatusChanges } from "@/src/features/trade/useOrderStatusChanges";
+import { usePersistedStore, useStoreTask } from "@/src/hooks/usePersistedStore";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { toast } from "@/src/lib/toast";
+
+/** Fallback polling while the order status stream isn't connected. */
+const POLL_INTERVAL_MS = 15_000;
+
+const EXIT_LADDER_STORAGE = { load: getStoredExitLadders, save: setStoredExitLadders };
+
+type ExitLaddersContextValue = {
+  ladders: ExitLadder[];
+  addLadder: (ladder: ExitLadder) => void;
+};
+
+const ExitLaddersContext = createContext<ExitLaddersContextValue | null>(null);
+
+/**
+ * Placed TP/SL exit ladders and their one-cancels-the-others rule.
+ *
+ * - Ladders persist on device until every order is done or they expire
+ * - Order statuses come from tx/orderStatusChanges, with tx/getTriggerOrders
+ *   on load and every 15s while the stream is unavailable
+ * - A filled stop-loss cancels the ladder's open take-profits; take-profits
+ *   that sold the whole position cancel the stop-loss
+ * - Take-profits that sold part of it re-place the stop-loss at the remaining
+ *   size (new order first, then the old one is cancelled)
+ */
+export function ExitLaddersProvider({
+  rpcClient,
+  children,
+}: PropsWithChildren<{ rpcClient: RpcClient }>) {
+  const {
+    items: ladders,
+    setItems: setLadders,
+    itemsRef: laddersRef,
+    isLoaded,
+    add: addLadder,
+  } = usePersistedStore(EXIT_LADDER_STORAGE);
+  // Latest known status per ladder order; terminal statuses are never overwritten
+  const statusRef = useRef<Record<string, OrderStatus>>({});
+  const cancellingRef = useRef(new Set<string>());
+  // Ladders whose stop-loss is being re-placed
+  const resizingRef = useRef(new Set<string>());
+
+  const recordStatus = useCallback((uuid: string, status: OrderStatus) => {
+    const current = statusRef.current[uuid];
+    if (current && isTerminalOrderStatus(current) && !isTerminalOrderStatus(status)) return;
+    statusRef.current[uuid] = status;
+  }, []);
+
+  /** Shrink an open stop-loss to what the filled take-profits left of the position. */
+  const resizeStopLoss = useCallback(
+    async (ladder: ExitLadder) => {
+      const sellPercent = exitLadderStopLossResize(ladder, statusRef.current);
+      const stopLoss = ladder.orders.find((order) => order.kind === "stop_loss");
+      if (sellPercent === null || !stopLoss || resizingRef.current.has(ladder.id)) return;
+      const params = resizedStopLossParams(ladder, sellPercent);
+      if (!params) return;
+
+      resizingRef.current.add(ladder.id);
+      try {
+        // Place the smaller stop first so the position is never left without one
+        let replacement;
+        try {
+          replacement = await createTriggerOrder(rpcClient, params);
+        } catch {
+          return; // Retried on the next status change or poll
+        }
+
+        try {
+          await cancelTriggerOrder(rpcClient, stopLoss.uuid);
+        } catch {
+          // The old stop may have just fired — keep it and drop the replacement
+          await cancelTriggerOrder(rpcClient, replacement.uuid).catch(() => undefined);
+          return;
+        }
+
+        recordStatus(stopLoss.uuid, "cancelled");
+        const next = replaceExitLadderStopLoss(ladder, { uuid: replacement.uuid, sellPercent });
+        laddersRef.current = laddersRef.current.map((l) => (l.id === ladder.id ? next : l));
+        setLadders((prev) => prev.map((l) => (l.id === ladder.id ? next : l)));
+        toast.info("Stop-loss resized", `Now covers the remaining ${Math.round(sellPercent)}% of the position.`);
+      } finally {
+        resizingRef.current.delete(ladder.id);
+      }
+    },
+    [rpcClient, recordStatus, laddersRef, setLadders]
+  );
+
+  const reconcile = useCallback(async () => {
+    for (const { id } of laddersRef.current) {
+      const current = laddersRef.current.find((l) => l.id === id);
+      if (current) await resizeStopLoss(current);
+      // Re-read; a resize swaps the ladder's stop-loss
+      const ladder = laddersRef.current.find((l) => l.id === id);
+      if (!ladder) continue;
+
+      const toCancel = exitLadderCancellations(ladder, statusRef.current).filter(
+        (uuid) => !cancellingRef.current.has(uuid)
+      );
+      if (toCancel.length === 0) continue;
+
+      toCancel.forEach((uuid) => cancellingRef.current.add(uuid));
+      const results = await Promise.allSettled(
+        toCancel.map((uuid) => cancelTriggerOrder(rpcClient, uuid))
+      );
+      let cancelledCount = 0;
+      results.forEach((result, i) => {
+        cancellingRef.current.delete(toCancel[i]);
+        // Failed cancels stay open and are retried on the next status change or poll
+        if (result.status === "fulfilled") {
+          recordStatus(toCancel[i], "cancelled");
+          cancelledCount += 1;
+        }
+      });
+
+      if (cancelledCount > 0) {
+        const stopLossFilled = ladder.orders.some(
+          (order) => order.kind === "stop_loss" && statusRef.current[order.uuid] === "filled"
+        );
+        toast.info(
+          stopLossFilled ? "Stop-loss filled" : "Take-profits filled",
+          stopLossFilled
+            ? `Cancelled ${cancelledCount} remaining take-profit${cancelledCount === 1 ? "" : "s"}.`
+            : "Cancelled the ladder's stop-loss."
+        );
+      }
+    }
+
+    setLadders((prev) => {
+      const next = prev.filter((ladder) => !isExitLadderSettled(ladder, statusRef.current));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [rpcClient, recordStatus, resizeStopLoss, laddersRef, setLadders]);
+
+  const ladderOrderIds = useMemo(
+    () => new Set(ladders.flatMap((ladder) => ladder.orders.map((order) => order.uuid))),
+    [ladders]
+  );
+
+  const { isLive } = useOrderStatusChanges((update) => {
+    if (!ladderOrderIds.has(update.uuid)) return;
+    recordStatus(update.uuid, update.status);
+    void reconcile();
+  }, ladders.length > 0);
+
+  const poll = useCallback(async () => {
+    const wallets = [...new Set(laddersRef.current.map((ladder) => ladder.walletAddress))];
+    await Promise.all(
+      wallets.map(async (walletAddress) => {
+        try {
+          const orders = await getTriggerOrders(rpcClient, { walletAddress });
+          orders.forEach((order) => recordStatus(order.uuid, order.status));
+        } catch {
+          // Keep the last known statuses; the next poll retries
+        }
+      })
+    );
+    await reconcile();
+  }, [rpcClient, recordStatus, reconcile, laddersRef]);
+
+  // Catch up on fills that happened while the app was closed, then poll
+  // only while the stream is down
+  useStoreTask(poll, POLL_INTERVAL_MS, isLoaded && ladders.length > 0, { repeat: !isLive });
+
+  const value = useMemo<ExitLaddersContextValue>(
+    () => ({ ladders, addLadder }),
+    [ladders, addLadder]
+  );
+
+  return <ExitLaddersContext.Provider value={value}>{children}</ExitLaddersContext.Provider>;
+}
+
+export function useExitLadders(): ExitLaddersContextValue {
+  const context = useContext(ExitLaddersContext);
+  if (!context) {
+    throw new Error("useExitLadders must be used inside ExitLaddersProvider");
+  }
+
+  return context;
+}
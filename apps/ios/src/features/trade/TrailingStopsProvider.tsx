@@ -0,0 +1,248 @@
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo, useRef } from "react";
+
+import { fetchLiveTokenInfos } from "@quickscope/core/token";
+import {
+  advanceTrailingStop,
+  cancelTriggerOrder,
+  createTriggerOrder,
+  getTriggerOrders,
+  isTerminalOrderStatus,
+  trailingStopOrderParams,
+  type TrailingStopOrder,
+  type TrailingStopState,
+} from "@quickscope/core/trade";
+import { getStoredTrailingStops, setStoredTrailingStops } from "@/src/features/trade/trailingStopStorage";
+import { useOrderStatusChanges } from "@/src/features/trade/useOrderStatusChanges";
+import { usePersistedStore, useStoreTask } from "@/src/hooks/usePersistedStore";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { toast } from "@/src/lib/toast";
+
+/** How often prices are sampled for re-pricing. */
+const PRICE_POLL_INTERVAL_MS = 10_000;
+
+const TRAILING_STOP_STORAGE = { load: getStoredTrailingStops, save: setStoredTrailingStops };
+
+type TrailingStopsContextValue = {
+  trailingStops: TrailingStopOrder[];
+  /** Trailing state by underlying order uuid, for order lists */
+  trailingByOrderId: ReadonlyMap<string, TrailingStopState>;
+  addTrailingStop: (stop: TrailingStopOrder) => void;
+};
+
+const TrailingStopsContext = createContext<TrailingStopsContextValue | null>(null);
+
+/**
+ * Client-managed trailing stops.
+ *
+ * - Persisted on device; managed only while the app runs
+ * - Prices sampled via public/getLiveTokenInfos every 10s; each new high
+ *   past the step places a higher stop-loss, then cancels the old one
+ * - A stop is dropped once its order fills, is cancelled elsewhere, or expires
+ */
+export function TrailingStopsProvider({
+  rpcClient,
+  children,
+}: PropsWithChildren<{ rpcClient: RpcClient }>) {
+  const {
+    items: trailingStops,
+    setItems: setTrailingStops,
+    itemsRef: stopsRef,
+    isLoaded,
+    add: addTrailingStop,
+  } = usePersistedStore(TRAILING_STOP_STORAGE);
+  // Orders superseded by a re-price, by order uuid → stop id. Their "cancelled"
+  // updates aren't the user's; a "filled" one means the old stop fired first
+  const replacedIdsRef = useRef(new Map<string, string>());
+  const busyRef = useRef(new Set<string>());
+  // Stops whose re-create failure was already announced
+  const failedRef = useRef(new Set<string>());
+  // Superseded orders whose cancel failed, by order uuid → stop id; retried each tick
+  const staleOrdersRef = useRef(new Map<string, string>());
+
+  const updateStop = useCallback((id: string, patch: Partial<TrailingStopOrder>) => {
+    setTrailingStops((prev) => prev.map((stop) => (stop.id === id ? { ...stop, ...patch } : stop)));
+  }, [setTrailingStops]);
+
+  const removeStop = useCallback((id: string) => {
+    setTrailingStops((prev) => prev.filter((stop) => stop.id !== id));
+  }, [setTrailingStops]);
+
+  /** Create the underlying stop-loss for a stop that has no live order. */
+  const placeOrder = useCallback(
+    async (stop: TrailingStopOrder) => {
+      try {
+        const order = await createTriggerOrder(rpcClient, trailingStopOrderParams(stop));
+        updateStop(stop.id, { orderId: order.uuid });
+        failedRef.current.delete(stop.id);
+      } catch (err) {
+        // Left pending; the next price tick retries
+        if (failedRef.current.has(stop.id)) return;
+        failedRef.current.add(stop.id);
+        toast.error(
+          "Trailing stop not re-placed",
+          err instanceof Error ? err.message : "Retrying shortly."
+        );
+      }
+    },
+    [rpcClient, updateStop]
+  );
+
+  /** The position was sold by a superseded order: pull the live one and stop trailing. */
+  const dropFilledStop = useCallback(
+    async (stopId: string) => {
+      const current = stopsRef.current.find((s) => s.id === stopId)?.orderId;
+      removeStop(stopId);
+      if (!current) return;
+      replacedIdsRef.current.set(current, stopId);
+      await cancelTriggerOrder(rpcClient, current).catch(() => undefined);
+    },
+    [rpcClient, removeStop, stopsRef]
+  );
+
+  /**
+   * Cancel an order superseded by a re-price. If it fired before the cancel
+   * landed, the position is gone — pull the replacement and stop trailing.
+   */
+  const retireOrder = useCallback(
+    async (stopId: string, previousId: string) => {
+      try {
+        await cancelTriggerOrder(rpcClient, previousId);
+        staleOrdersRef.current.delete(previousId);
+        return;
+      } catch {
+        // Check below whether it's already settled
+      }
+
+      const stop = stopsRef.current.find((s) => s.id === stopId);
+      try {
+        const orders = stop
+          ? await getTriggerOrders(rpcClient, { walletAddress: stop.walletAddress, mint: stop.mint })
+          : [];
+        const previous = orders.find((order) => order.uuid === previousId);
+        if (previous && !isTerminalOrderStatus(previous.status)) {
+          staleOrdersRef.current.set(previousId, stopId);
+          return;
+        }
+        staleOrdersRef.current.delete(previousId);
+        if (previous?.status === "filled") await dropFilledStop(stopId);
+      } catch {
+        staleOrdersRef.current.set(previousId, stopId);
+      }
+    },
+    [rpcClient, dropFilledStop, stopsRef]
+  );
+
+  /** Place the stop-loss at the new trigger, then cancel the old one — never leaving the position unprotected. */
+  const reprice = useCallback(
+    async (stop: TrailingStopOrder, state: TrailingStopState) => {
+      if (!stop.orderId) return;
+      const previousId = stop.orderId;
+
+      let order;
+      try {
+        order = await createTriggerOrder(rpcClient, trailingStopOrderParams({ ...stop, state }));
+        failedRef.current.delete(stop.id);
+      } catch (err) {
+        // The old stop stays live at its lower trigger; the next tick retries
+        if (!failedRef.current.has(stop.id)) {
+          failedRef.current.add(stop.id);
+          toast.error(
+            "Trailing stop not re-priced",
+            err instanceof Error ? err.message : "Retrying shortly."
+          );
+        }
+        return;
+      }
+
+      replacedIdsRef.current.set(previousId, stop.id);
+      stopsRef.current = stopsRef.current.map((s) => (s.id === stop.id ? { ...s, orderId: order.uuid, state } : s));
+      updateStop(stop.id, { orderId: order.uuid, state });
+      await retireOrder(stop.id, previousId);
+    },
+    [rpcClient, updateStop, retireOrder, stopsRef]
+  );
+
+  const tick = useCallback(async () => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const live = stopsRef.current.filter((stop) => stop.expiresAt > nowSeconds);
+    if (live.length !== stopsRef.current.length) {
+      setTrailingStops((prev) => prev.filter((stop) => stop.expiresAt > nowSeconds));
+    }
+    if (live.length === 0) return;
+
+    for (const [orderId, stopId] of staleOrdersRef.current) {
+      void retireOrder(stopId, orderId);
+    }
+
+    let infos;
+    try {
+      infos = await fetchLiveTokenInfos(rpcClient, [...new Set(live.map((stop) => stop.mint))]);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      live.map(async (stop) => {
+        if (busyRef.current.has(stop.id)) return;
+        busyRef.current.add(stop.id);
+        try {
+          if (!stop.orderId) {
+            await placeOrder(stop);
+            return;
+          }
+
+          const price = Number(infos[stop.mint]?.token_price_info?.price_usd);
+          const { state, actions } = advanceTrailingStop(stop.state, [price]);
+          if (state === stop.state) return;
+
+          if (actions.some((action) => action.type === "reprice")) {
+            await reprice(stop, state);
+          } else {
+            updateStop(stop.id, { state });
+          }
+        } finally {
+          busyRef.current.delete(stop.id);
+        }
+      })
+    );
+  }, [rpcClient, placeOrder, reprice, retireOrder, updateStop, setTrailingStops, stopsRef]);
+
+  const hasStops = trailingStops.length > 0;
+
+  useOrderStatusChanges((update) => {
+    if (!isTerminalOrderStatus(update.status)) return;
+    const replacedFor = replacedIdsRef.current.get(update.uuid);
+    if (replacedFor !== undefined) {
+      if (update.status === "filled") void dropFilledStop(replacedFor);
+      return;
+    }
+    const stop = stopsRef.current.find((s) => s.orderId === update.uuid);
+    if (stop) removeStop(stop.id);
+  }, hasStops);
+
+  useStoreTask(tick, PRICE_POLL_INTERVAL_MS, isLoaded && hasStops);
+
+  const trailingByOrderId = useMemo(() => {
+    const map = new Map<string, TrailingStopState>();
+    for (const stop of trailingStops) {
+      if (stop.orderId) map.set(stop.orderId, stop.state);
+    }
+    return map;
+  }, [trailingStops]);
+
+  const value = useMemo<TrailingStopsContextValue>(
+    () => ({ trailingStops, trailingByOrderId, addTrailingStop }),
+    [trailingStops, trailingByOrderId, addTrailingStop]
+  );
+
+  return <TrailingStopsContext.Provider value={value}>{children}</TrailingStopsContext.Provider>;
+}
+
+export function useTrailingStops(): TrailingStopsContextValue {
+  const context = useContext(TrailingStopsContext);
+  if (!context) {
+    throw new Error("useTrailingStops must be used inside TrailingStopsProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,28 @@
+/**
+ * Device store for DCA / TWAP plans, including each slice's execution
+ * results. Plans run only while the app is open, so this is the source of
+ * truth for their progress.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { parseDcaPlans, type DcaPlan } from "@/src/features/trade/dcaSchedule";
+
+const STORAGE_KEY = "qs_dca_plans_v1";
+
+export async function getStoredDcaPlans(): Promise<DcaPlan[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return parseDcaPlans(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+export async function setStoredDcaPlans(plans: DcaPlan[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+  } catch {
+    // silent
+  }
+}
@@ -0,0 +1,202 @@
+import { liveMarketCapUsd, type LiveTokenInfo } from "@quickscope/core/token";
+import {
+  MAX_CONSECUTIVE_DCA_FAILURES,
+  cancelDcaPlan,
+  createDcaPlan,
+  dcaSliceAmount,
+  isDcaGuardHolding,
+  nextDcaStep,
+  parseDcaPlans,
+  pauseDcaPlan,
+  recordDcaSlice,
+  resumeDcaPlan,
+  skipDcaSlices,
+  validateDcaPlan,
+  type CreateDcaPlanParams,
+  type DcaPlan,
+} from "@/src/features/trade/dcaSchedule";
+
+const T0 = 1_700_000_000;
+const ONE_SOL = 1_000_000_000;
+
+const BUY: CreateDcaPlanParams = {
+  side: "buy",
+  mint: "MintA",
+  wallets: [{ public_key: "w1", name: "Main" }],
+  totalAmount: ONE_SOL,
+  sliceCount: 3,
+  intervalSeconds: 600,
+  catchUp: "shift",
+  executionPreset: { priority_fee_lamports: 100_000, jito_tip_lamports: 0, slippage_bps: 1500 },
+};
+
+const executed = { status: "executed" as const, amount: 1, results: [] };
+const failed = { status: "failed" as const, amount: 1, results: [], error: "slippage" };
+
+/** Run every due slice of `plan` at `now` the way the runner does. */
+function step(plan: DcaPlan, now: number, outcome: Parameters<typeof recordDcaSlice>[1] = executed): DcaPlan {
+  const next = nextDcaStep(plan, now);
+  if (next.type !== "run") return plan;
+  return recordDcaSlice(skipDcaSlices(plan, next.skip, now), outcome, next.slotAt, now);
+}
+
+describe("validateDcaPlan", () => {
+  it("rejects plans that can't be sliced or guarded sensibly", () => {
+    expect(validateDcaPlan(BUY)).toBeNull();
+    expect(validateDcaPlan({ ...BUY, sliceCount: 1 })).toMatch(/at least 2/);
+    expect(validateDcaPlan({ ...BUY, intervalSeconds: 30 })).toMatch(/1 minute/);
+    expect(validateDcaPlan({ ...BUY, side: "sell", totalAmount: 12_000 })).toMatch(/100%/);
+    expect(validateDcaPlan({ ...BUY, minMarketCapUsd: 5, maxMarketCapUsd: 5 })).toMatch(/below/);
+    expect(() => createDcaPlan({ ...BUY, wallets: [] }, "p", T0)).toThrow("Select at least one");
+  });
+});
+
+describe("dcaSliceAmount", () => {
+  it("splits a buy total exactly across slices", () => {
+    let plan = createDcaPlan(BUY, "p", T0);
+    const amounts: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      amounts.push(dcaSliceAmount(plan));
+      plan = recordDcaSlice(plan, executed, plan.nextSliceAt, plan.nextSliceAt);
+    }
+
+    expect(amounts).toEqual([333_333_333, 333_333_333, 333_333_334]);
+  });
+
+  it("sizes sells against the balance left by executed slices", () => {
+    let plan = createDcaPlan({ ...BUY, side: "sell", totalAmount: 10_000, sliceCount: 4 }, "p", T0);
+    const bps: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      bps.push(dcaSliceAmount(plan));
+      plan = recordDcaSlice(plan, executed, plan.nextSliceAt, plan.nextSliceAt);
+    }
+    // 1/4, then 1/3 of what's left, 1/2, and the rest
+    expect(bps).toEqual([2_500, 3_333, 5_000, 10_000]);
+
+    // Half the position over 2 slices: 25% now, then 25% of the original = 1/3 of the 75% left
+    const half = createDcaPlan({ ...BUY, side: "sell", totalAmount: 5_000, sliceCount: 2 }, "h", T0);
+    expect(dcaSliceAmount(half)).toBe(2_500);
+    expect(dcaSliceAmount(recordDcaSlice(half, executed, T0, T0))).toBe(3_333);
+    // A failed slice sold nothing, so the next one is sized as if it were first
+    expect(dcaSliceAmount(recordDcaSlice(half, failed, T0, T0))).toBe(2_500);
+  });
+});
+
+describe("nextDcaStep", () => {
+  it("runs the first slice immediately and then keeps the interval grid", () => {
+    let plan = createDcaPlan(BUY, "p", T0);
+    expect(nextDcaStep(plan, T0)).toEqual({ type: "run", slotAt: T0, skip: 0 });
+
+    plan = step(plan, T0 + 5);
+    expect(plan.nextSliceAt).toBe(T0 + 600);
+    expect(nextDcaStep(plan, T0 + 300)).toEqual({ type: "wait", dueAt: T0 + 600 });
+
+    // A tick a few seconds late doesn't drift the schedule
+    plan = step(plan, T0 + 612);
+    expect(plan.nextSliceAt).toBe(T0 + 1_200);
+  });
+
+  it("shift: runs one overdue slice and re-anchors the rest at now", () => {
+    let plan = step(createDcaPlan({ ...BUY, sliceCount: 5 }, "p", T0), T0);
+    // Backgrounded for ~3 intervals
+    const back = T0 + 600 * 3 + 45;
+    expect(nextDcaStep(plan, back)).toEqual({ type: "run", slotAt: back, skip: 0 });
+
+    plan = step(plan, back);
+    expect(plan.slices.map((s) => s.status)).toEqual(["executed", "executed"]);
+    expect(plan.nextSliceAt).toBe(back + 600);
+    expect(nextDcaStep(plan, back + 1)).toEqual({ type: "wait", dueAt: back + 600 });
+  });
+
+  it("skip: records the missed slots and runs only the latest", () => {
+    let plan = step(createDcaPlan({ ...BUY, sliceCount: 5, catchUp: "skip" }, "p", T0), T0);
+    const back = T0 + 600 * 3 + 45;
+    expect(nextDcaStep(plan, back)).toEqual({ type: "run", slotAt: T0 + 1_800, skip: 2 });
+
+    plan = step(plan, back);
+    expect(plan.slices.map((s) => [s.status, s.scheduledAt])).toEqual([
+      ["executed", T0],
+      ["skipped", T0 + 600],
+      ["skipped", T0 + 1_200],
+      ["executed", T0 + 1_800],
+    ]);
+    // Original end time is kept
+    expect(plan.nextSliceAt).toBe(T0 + 2_400);
+  });
+
+  it("skip: always leaves the final slice to run", () => {
+    const plan = step(createDcaPlan({ ...BUY, catchUp: "skip" }, "p", T0), T0);
+    const after = step(plan, T0 + 600 * 10);
+
+    expect(after.slices.map((s) => s.status)).toEqual(["executed", "skipped", "executed"]);
+    expect(after.status).toBe("completed");
+    expect(nextDcaStep(after, T0 + 600 * 11)).toEqual({ type: "idle" });
+  });
+});
+
+describe("recordDcaSlice", () => {
+  it("pauses the plan after repeated failures", () => {
+    let plan = createDcaPlan({ ...BUY, sliceCount: 10 }, "p", T0);
+    for (let i = 0; i < MAX_CONSECUTIVE_DCA_FAILURES; i++) {
+      expect(plan.status).toBe("active");
+      plan = step(plan, plan.nextSliceAt, failed);
+    }
+
+    expect(plan.status).toBe("paused");
+    expect(plan.pausedReason).toBe("failures");
+  });
+});
+
+describe("controls", () => {
+  it("pause holds the schedule and resume never skips the paused time", () => {
+    const running = step(createDcaPlan({ ...BUY, catchUp: "skip" }, "p", T0), T0);
+    const paused = pauseDcaPlan(running);
+    expect(nextDcaStep(paused, T0 + 5_000)).toEqual({ type: "idle" });
+
+    const resumed = resumeDcaPlan(paused, T0 + 5_000);
+    expect(resumed.nextSliceAt).toBe(T0 + 5_000);
+    expect(nextDcaStep(resumed, T0 + 5_000)).toEqual({ type: "run", slotAt: T0 + 5_000, skip: 0 });
+  });
+
+  it("cancel is final", () => {
+    const cancelled = cancelDcaPlan(createDcaPlan(BUY, "p", T0));
+    expect(cancelled.status).toBe("cancelled");
+    expect(resumeDcaPlan(cancelled, T0)).toBe(cancelled);
+    expect(nextDcaStep(cancelled, T0)).toEqual({ type: "idle" });
+  });
+});
+
+describe("isDcaGuardHolding", () => {
+  it("holds outside the market cap band and when market cap is unknown", () => {
+    const plan = createDcaPlan({ ...BUY, maxMarketCapUsd: 1_000_000, minMarketCapUsd: 100_000 }, "p", T0);
+
+    expect(isDcaGuardHolding(plan, 500_000)).toBe(false);
+    expect(isDcaGuardHolding(plan, 1_500_000)).toBe(true);
+    expect(isDcaGuardHolding(plan, 50_000)).toBe(true);
+    expect(isDcaGuardHolding(plan, undefined)).toBe(true);
+    expect(isDcaGuardHolding(createDcaPlan(BUY, "q", T0), undefined)).toBe(false);
+  });
+
+  it("compares guards against market cap in whole tokens, not base units", () => {
+    // 1B supply at 6 decimals, $0.0005 each → $500K market cap
+    const info: LiveTokenInfo = {
+      mint_info: { supply: 1_000_000_000_000_000, decimals: 6 },
+      token_price_info: { price_usd: 0.0005 },
+    };
+    expect(liveMarketCapUsd(info)).toBeCloseTo(500_000);
+
+    const capped = createDcaPlan({ ...BUY, maxMarketCapUsd: 1_000_000 }, "p", T0);
+    const floored = createDcaPlan({ ...BUY, minMarketCapUsd: 1_000_000 }, "q", T0);
+    expect(isDcaGuardHolding(capped, liveMarketCapUsd(info))).toBe(false);
+    expect(isDcaGuardHolding(floored, liveMarketCapUsd(info))).toBe(true);
+    expect(isDcaGuardHolding(capped, liveMarketCapUsd({ token_price_info: { price_usd: 1 } }))).toBe(true);
+  });
+});
+
+describe("parseDcaPlans", () => {
+  it("round-trips plans and drops malformed entries", () => {
+    const plan = step(createDcaPlan(BUY, "p", T0), T0);
+    expect(parseDcaPlans(JSON.parse(JSON.stringify([plan, { id: "x" }, 3])))).toEqual([plan]);
+    expect(parseDcaPlans(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * DCA / TWAP plans — one large buy or sell dripped out as equal slices on a
+ * fixed interval across the selected wallets.
+ *
+ * Pure scheduling so it can be tested with explicit clocks; the runner in
+ * DcaPlansProvider does the RPC work.
+ *
+ * Catch-up policy: a plan never fires more than one slice per step, so a
+ * backgrounded app or a price guard can't cause a burst on return. For the
+ * slots it missed, the plan's `catchUp` decides:
+ * - "shift" — run the overdue slice now and push the rest of the schedule
+ *   back; the full amount is traded, finishing later
+ * - "skip"  — record the missed slots as skipped and run only the latest;
+ *   the schedule keeps its end time and the skipped amounts are not traded
+ */
+import type { SwapExecutionResult } from "@quickscope/core/trade";
+import type { ExecutionPreset } from "@/src/features/account/settingsService";
+import type { SelectedWallet } from "@/src/features/trade/multiWalletTradeService";
+
+// ── Types ──
+
+export type DcaSide = "buy" | "sell";
+
+export type DcaCatchUpPolicy = "shift" | "skip";
+
+export type DcaPlanStatus = "active" | "paused" | "completed" | "cancelled";
+
+export type DcaWalletResult = {
+  walletPublicKey: string;
+  walletName?: string;
+  /** Stored without `raw` to keep the plan store small */
+  result?: SwapExecutionResult;
+  error?: string;
+};
+
+export type DcaSliceRecord = {
+  index: number;
+  status: "executed" | "failed" | "skipped";
+  /** Unix seconds the slice was due */
+  scheduledAt: number;
+  /** Unix seconds it ran or was skipped */
+  settledAt: number;
+  /** Lamports (buy) or bps of each wallet's current balance (sell) */
+  amount: number;
+  results: DcaWalletResult[];
+  error?: string;
+};
+
+export type DcaPlan = {
+  id: string;
+  side: DcaSide;
+  mint: string;
+  tokenSymbol?: string;
+  wallets: SelectedWallet[];
+  /** Buy: total SOL in lamports, split across the wallets. Sell: share of each wallet's position to sell, in bps */
+  totalAmount: number;
+  sliceCount: number;
+  intervalSeconds: number;
+  /** Hold slices while market cap is above this */
+  maxMarketCapUsd?: number;
+  /** Hold slices while market cap is below this */
+  minMarketCapUsd?: number;
+  catchUp: DcaCatchUpPolicy;
+  executionPreset: ExecutionPreset;
+  status: DcaPlanStatus;
+  /** Why an active plan was paused by the runner rather than the user */
+  pausedReason?: "failures";
+  /** True while the due slice is held by a price guard */
+  heldByGuard?: boolean;
+  /** Unix seconds */
+  createdAt: number;
+  /** Unix seconds the next slice is due */
+  nextSliceAt: number;
+  slices: DcaSliceRecord[];
+};
+
+export type CreateDcaPlanParams = Pick<
+  DcaPlan,
+  | "side"
+  | "mint"
+  | "tokenSymbol"
+  | "wallets"
+  | "totalAmount"
+  | "sliceCount"
+  | "intervalSeconds"
+  | "maxMarketCapUsd"
+  | "minMarketCapUsd"
+  | "catchUp"
+  | "executionPreset"
+>;
+
+export type DcaStep =
+  | { type: "idle" }
+  | { type: "wait"; dueAt: number }
+  /** Run one slice for slot `slotAt`, after recording `skip` missed slots */
+  | { type: "run"; slotAt: number; skip: number };
+
+export const DCA_INTERVAL_PRESETS = [
+  { label: "1m", seconds: 60 },
+  { label: "5m", seconds: 300 },
+  { label: "15m", seconds: 900 },
+  { label: "1h", seconds: 3_600 },
+  { label: "4h", seconds: 14_400 },
+] as const;
+
+export const MAX_DCA_SLICES = 100;
+
+/** Consecutive failed slices after which the runner pauses the plan. */
+export const MAX_CONSECUTIVE_DCA_FAILURES = 3;
+
+// ── Creation ──
+
+/** First problem with new plan params, as a user-facing message, or null. */
+export function validateDcaPlan(params: CreateDcaPlanParams): string | null {
+  if (params.wallets.length === 0) return "Select at least one wallet.";
+  if (!(params.totalAmount > 0)) return "Enter a total amount.";
+  if (params.side === "sell" && params.totalAmount > 10_000) {
+    return "You can sell at most 100% of the position.";
+  }
+  if (!Number.isInteger(params.sliceCount) || params.sliceCount < 2) {
+    return "Use at least 2 slices.";
+  }
+  if (params.sliceCount > MAX_DCA_SLICES) return `Use at most ${MAX_DCA_SLICES} slices.`;
+  if (params.side === "buy" && params.totalAmount / params.sliceCount < 1) {
+    return "Each slice must be at least 1 lamport.";
+  }
+  if (!(params.intervalSeconds >= 60)) return "The interval must be at least 1 minute.";
+  if (
+    params.maxMarketCapUsd !== undefined &&
+    params.minMarketCapUsd !== undefined &&
+    params.minMarketCapUsd >= params.maxMarketCapUsd
+  ) {
+    return "The lower market cap guard must be below the upper one.";
+  }
+  return null;
+}
+
+/** A new active plan whose first slice is due immediately. Throws on invalid params. */
+export function createDcaPlan(params: CreateDcaPlanParams, id: string, nowSeconds: number): DcaPlan {
+  const invalid = validateDcaPlan(params);
+  if (invalid) throw new Error(invalid);
+
+  return {
+    ...params,
+    id,
+    status: "active",
+    createdAt: nowSeconds,
+    nextSliceAt: nowSeconds,
+    slices: [],
+  };
+}
+
+// ── Sizing ──
+
+/**
+ * Amount for the next slice. Buys split the lamport total exactly. Sells use
+ * swap-by-percentage on whatever each wallet holds, so each slice sells
+ * `1/sliceCount` of the original share of the position, sized against the
+ * balance left after the slices that actually executed.
+ */
+export function dcaSliceAmount(plan: DcaPlan): number {
+  const index = plan.slices.length;
+  const n = plan.sliceCount;
+
+  if (plan.side === "buy") {
+    return Math.floor((plan.totalAmount * (index + 1)) / n) - Math.floor((plan.totalAmount * index) / n);
+  }
+
+  const share = plan.totalAmount / 10_000;
+  const executed = plan.slices.filter((slice) => slice.status === "executed").length;
+  const fraction = share / (n - share * executed);
+  return Math.min(10_000, Math.max(1, Math.round(fraction * 10_000)));
+}
+
+// ── Scheduling ──
+
+export function remainingDcaSlices(plan: DcaPlan): number {
+  return plan.sliceCount - plan.slices.length;
+}
+
+/** What the runner should do for `plan` at `nowSeconds`. */
+export function nextDcaStep(plan: DcaPlan, nowSeconds: number): DcaStep {
+  if (plan.status !== "active" || remainingDcaSlices(plan) <= 0) return { type: "idle" };
+  if (nowSeconds < plan.nextSliceAt) return { type: "wait", dueAt: plan.nextSliceAt };
+
+  const missed = Math.floor((nowSeconds - plan.nextSliceAt) / plan.intervalSeconds);
+  if (plan.catchUp === "skip") {
+    const skip = Math.min(missed, remainingDcaSlices(plan) - 1);
+    return { type: "run", slotAt: plan.nextSliceAt + skip * plan.intervalSeconds, skip };
+  }
+  // Shift: on time keeps the grid; a missed slot re-anchors the schedule at now
+  return { type: "run", slotAt: missed > 0 ? nowSeconds : plan.nextSliceAt, skip: 0 };
+}
+
+/** Record `count` missed slots as skipped, starting at the plan's due slot. */
+export function skipDcaSlices(plan: DcaPlan, count: number, nowSeconds: number): DcaPlan {
+  if (count <= 0) return plan;
+  const skipped: DcaSliceRecord[] = Array.from({ length: count }, (_, i) => ({
+    index: plan.slices.length + i,
+    status: "skipped",
+    scheduledAt: plan.nextSliceAt + i * plan.intervalSeconds,
+    settledAt: nowSeconds,
+    amount: 0,
+    results: [],
+  }));
+  return {
+    ...plan,
+    nextSliceAt: plan.nextSliceAt + count * plan.intervalSeconds,
+    slices: [...plan.slices, ...skipped],
+  };
+}
+
+/**
+ * Append the outcome of the slice run for `slotAt` and schedule the next.
+ * Completes the plan after its last slice and pauses it after
+ * MAX_CONSECUTIVE_DCA_FAILURES failures in a row.
+ */
+export function recordDcaSlice(
+  plan: DcaPlan,
+  slice: Pick<DcaSliceRecord, "status" | "amount" | "results" | "error">,
+  slotAt: number,
+  nowSeconds: number
+): DcaPlan {
+  const slices: DcaSliceRecord[] = [
+    ...plan.slices,
+    { ...slice, index: plan.slices.length, scheduledAt: slotAt, settledAt: nowSeconds },
+  ];
+
+  const recent = slices.slice(-MAX_CONSECUTIVE_DCA_FAILURES);
+  const failing =
+    recent.length === MAX_CONSECUTIVE_DCA_FAILURES && recent.every((s) => s.status === "failed");
+
+  const next: DcaPlan = {
+    ...plan,
+    heldByGuard: false,
+    nextSliceAt: slotAt + plan.intervalSeconds,
+    slices,
+  };
+  if (slices.length >= plan.sliceCount) return { ...next, status: "completed" };
+  if (failing) return { ...next, status: "paused", pausedReason: "failures" };
+  return next;
+}
+
+// ── Controls ──
+
+export function pauseDcaPlan(plan: DcaPlan): DcaPlan {
+  if (plan.status !== "active") return plan;
+  return { ...plan, status: "paused", pausedReason: undefined, heldByGuard: false };
+}
+
+/** Resume a paused plan; a slice already due runs right away, with nothing skipped for the pause. */
+export function resumeDcaPlan(plan: DcaPlan, nowSeconds: number): DcaPlan {
+  if (plan.status !== "paused") return plan;
+  return {
+    ...plan,
+    status: "active",
+    pausedReason: undefined,
+    nextSliceAt: Math.max(plan.nextSliceAt, nowSeconds),
+  };
+}
+
+export function cancelDcaPlan(plan: DcaPlan): DcaPlan {
+  if (plan.status === "completed" || plan.status === "cancelled") return plan;
+  return { ...plan, status: "cancelled", heldByGuard: false };
+}
+
+// ── Price guards ──
+
+export function hasDcaGuards(plan: DcaPlan): boolean {
+  return plan.maxMarketCapUsd !== undefined || plan.minMarketCapUsd !== undefined;
+}
+
+/** True when a guard holds the slice. An unknown market cap holds a guarded plan. */
+export function isDcaGuardHolding(plan: DcaPlan, marketCapUsd: number | undefined): boolean {
+  if (!hasDcaGuards(plan)) return false;
+  if (marketCapUsd === undefined || !Number.isFinite(marketCapUsd)) return true;
+  if (plan.maxMarketCapUsd !== undefined && marketCapUsd > plan.maxMarketCapUsd) return true;
+  if (plan.minMarketCapUsd !== undefined && marketCapUsd < plan.minMarketCapUsd) return true;
+  return false;
+}
+
+// ── Persistence ──
+
+/** Parse stored plans, dropping entries that don't look like plans. */
+export function parseDcaPlans(raw: unknown): DcaPlan[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((entry): entry is DcaPlan => {
+    if (!entry || typeof entry !== "object") return false;
+    const plan = entry as Partial<DcaPlan>;
+    return (
+      typeof plan.id === "string" &&
+      (plan.side === "buy" || plan.side === "sell") &&
+      typeof plan.mint === "string" &&
+      Array.isArray(plan.wallets) &&
+      typeof plan.totalAmount === "number" &&
+      typeof plan.sliceCount === "number" &&
+      typeof plan.intervalSeconds === "number" &&
+      typeof plan.nextSliceAt === "number" &&
+      typeof plan.status === "string" &&
+      !!plan.executionPreset &&
+      Array.isArray(plan.slices)
+    );
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Device copy of placed exit ladders. The server only knows the individual
+ * trigger orders, so the grouping that drives OCO cancels lives here.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { parseExitLadders, type ExitLadder } from "@quickscope/core/trade";
+
+const STORAGE_KEY = "qs_exit_ladders_v1";
+
+export async function getStoredExitLadders(): Promise<ExitLadder[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return parseExitLadders(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+export async function setStoredExitLadders(ladders: ExitLadder[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(ladders));
+  } catch {
+    // silent
+  }
+}
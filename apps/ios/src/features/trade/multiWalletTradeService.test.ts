@@ -0,0 +1,66 @@
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { ExecutionPreset } from "@/src/features/account/settingsService";
+import { executeMultiWalletBuy, type StealthSettings } from "@/src/features/trade/multiWalletTradeService";
+
+const PRESET = {
+  slippage_bps: 100,
+  priority_fee_lamports: 0,
+  jito_tip_lamports: 0,
+} as ExecutionPreset;
+
+const STEALTH: StealthSettings = {
+  mode: "exact",
+  buyVariance: 0,
+  sellVariance: 0,
+  ignore100Sell: false,
+  buyDelayMs: 0,
+  sellDelayMs: 0,
+  instaThreshold: 0,
+  splitDeviation: 0,
+};
+
+function createRpc() {
+  const call = jest.fn().mockResolvedValue({ execution_result: { status: "success", signature: "sig" } });
+  return { rpcClient: { call } as unknown as RpcClient, call };
+}
+
+/** Lamports sent to tx/swap, per wallet. */
+function swapAmounts(call: jest.Mock): Record<string, number> {
+  return Object.fromEntries(call.mock.calls.map(([, params]) => [params[0], params[3]]));
+}
+
+describe("executeMultiWalletBuy", () => {
+  it("buys the exact lamport amount in every wallet", async () => {
+    const { rpcClient, call } = createRpc();
+
+    await executeMultiWalletBuy({
+      rpcClient,
+      selectedWallets: [{ public_key: "a", name: "A" }],
+      totalLamports: 2_010_000_000,
+      tokenAddress: "Mint",
+      executionPreset: PRESET,
+    });
+
+    expect(swapAmounts(call)).toEqual({ a: 2_010_000_000 });
+  });
+
+  it("splits the lamport total without losing any to rounding", async () => {
+    const { rpcClient, call } = createRpc();
+
+    await executeMultiWalletBuy({
+      rpcClient,
+      selectedWallets: [
+        { public_key: "a", name: "A" },
+        { public_key: "b", name: "B" },
+        { public_key: "c", name: "C" },
+      ],
+      totalLamports: 2_010_000_000,
+      tokenAddress: "Mint",
+      executionPreset: PRESET,
+      stealthSettings: { ...STEALTH, mode: "split" },
+    });
+
+    const amounts = Object.values(swapAmounts(call));
+    expect(amounts.reduce((sum, v) => sum + v, 0)).toBe(2_010_000_000);
+  });
+});
@@ -3,6 +3,8 @@
  *
  * Pattern: loop through selected wallets and call tx/swap (buy) or
  * tx/swapBalancePercentage (sell) individually via Promise.allSettled.
+ * In "split" batch mode a buy's total is divided across the wallets
+ * (see splitAllocation.ts); in "exact" mode every wallet buys the full amount.
  * Mirrors web's poly-terminal-frontend/src/lib/multi-wallet-trade.ts.
  */
 
@@ -11,8 +13,12 @@ import { SOL_MINT } from "@/src/lib/constants";
 import type { AccountTradeSettings, ExecutionPreset } from "@/src/features/account/settingsService";
 import type { UserWalletInfo } from "@/src/features/account/walletService";
 import { LAMPORTS_PER_SOL, RENT_EXEMPTION_LAMPORTS } from "@/src/features/account/walletService";
-import { requestSwapExecution, type SwapExecutionResult } from "./tradeExecutionService";
-import { requestSwapByPercentage } from "./tradeExecutionService";
+import {
+  requestSwapByPercentage,
+  requestSwapExecution,
+  type SwapExecutionResult,
+} from "@quickscope/core/trade";
+import { splitBuyAmount } from "@/src/features/trade/splitAllocation";
 
 // ── Types ──
 
@@ -64,18 +70,22 @@ export function getStealthSettings(settings: AccountTradeSettings): StealthSetti
   };
 }
 
-export function applyVariance(amount: number, variancePercent: number): number {
+export function applyVariance(
+  amount: number,
+  variancePercent: number,
+  random: () => number = Math.random
+): number {
   if (variancePercent <= 0) return amount;
   const minMultiplier = 1 - variancePercent / 100;
   const maxMultiplier = 1 + variancePercent / 100;
-  const randomMultiplier = minMultiplier + Math.random() * (maxMultiplier - minMultiplier);
+  const randomMultiplier = minMultiplier + random() * (maxMultiplier - minMultiplier);
   return amount * randomMultiplier;
 }
 
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -90,49 +100,91 @@ function delay(ms: number): Promise<void> {
 export async function executeMultiWalletBuy({
   rpcClient,
   selectedWallets,
-  totalSolAmount,
+  totalLamports,
   tokenAddress,
   executionPreset,
   walletSolBalances,
   stealthSettings,
+  random = Math.random,
 }: {
   rpcClient: RpcClient;
   selectedWallets: SelectedWallet[];
-  totalSolAmount: number;
+  /** Exact mode buys this per wallet; split mode divides it across them */
+  totalLamports: number;
   tokenAddress: string;
   executionPreset: ExecutionPreset;
   walletSolBalances?: Record<string, number>;
   stealthSettings?: StealthSettings;
+  random?: () => number;
 }): Promise<BatchTradeResult> {
   if (selectedWallets.length === 0) {
     throw new Error("No wallets selected for trading.");
   }
 
-  const feeSol =
-    (executionPreset.priority_fee_lamports + executionPreset.jito_tip_lamports) / LAMPORTS_PER_SOL;
-  const rentBuffer = RENT_EXEMPTION_LAMPORTS / LAMPORTS_PER_SOL;
-  const requiredSol = totalSolAmount + feeSol + rentBuffer;
+  const feeLamports =
+    executionPreset.priority_fee_lamports + executionPreset.jito_tip_lamports;
+  const amountAtomic = Math.max(1, Math.round(totalLamports));
+  const totalSolAmount = amountAtomic / LAMPORTS_PER_SOL;
 
-  // Filter wallets with insufficient balance
   const skipped: SkippedWallet[] = [];
-  const walletsToTrade = selectedWallets.filter((wallet) => {
-    if (!walletSolBalances) return true;
-    const balance = walletSolBalances[wallet.public_key] ?? 0;
-    if (balance < requiredSol) {
+  let walletsToTrade: SelectedWallet[];
+  let splitAmounts: Record<string, number> | undefined;
+
+  if (stealthSettings?.mode === "split") {
+    // Divide the total; wallets that can't cover their share pass it on
+    const allocation = splitBuyAmount({
+      totalLamports: amountAtomic,
+      walletPublicKeys: selectedWallets.map((w) => w.public_key),
+      deviationPercent: stealthSettings.splitDeviation,
+      capacityLamports: walletSolBalances
+        ? Object.fromEntries(
+            selectedWallets.map((w) => [
+              w.public_key,
+              Math.round((walletSolBalances[w.public_key] ?? 0) * LAMPORTS_PER_SOL) -
+                feeLamports -
+                RENT_EXEMPTION_LAMPORTS,
+            ])
+          )
+        : undefined,
+      random,
+    });
+
+    if (allocation.shortfallLamports > 0) {
+      const coverableSol = (amountAtomic - allocation.shortfallLamports) / LAMPORTS_PER_SOL;
+      throw new Error(
+        `Selected wallets can only cover ${coverableSol.toFixed(4)} of ${totalSolAmount} SOL after fees.`
+      );
+    }
+
+    splitAmounts = allocation.amountsLamports;
+    walletsToTrade = selectedWallets.filter((wallet) => {
+      if (allocation.amountsLamports[wallet.public_key] > 0) return true;
       skipped.push({ walletPublicKey: wallet.public_key, walletName: wallet.name });
       return false;
-    }
-    return true;
-  });
+    });
+  } else {
+    const requiredSol =
+      totalSolAmount + (feeLamports + RENT_EXEMPTION_LAMPORTS) / LAMPORTS_PER_SOL;
+
+    // Filter wallets with insufficient balance
+    walletsToTrade = selectedWallets.filter((wallet) => {
+      if (!walletSolBalances) return true;
+      const balance = walletSolBalances[wallet.public_key] ?? 0;
+      if (balance < requiredSol) {
+        skipped.push({ walletPublicKey: wallet.public_key, walletName: wallet.name });
+        return false;
+      }
+      return true;
+    });
+  }
 
   // Apply stealth settings
   const usesStealth = stealthSettings && walletsToTrade.length > 1;
   const hasVariance =
     usesStealth && stealthSettings.buyVariance > 0 && stealthSettings.mode === "exact";
   const hasDelays = usesStealth && stealthSettings.buyDelayMs > 0;
-  const orderedWallets = hasDelays ? shuffleArray(walletsToTrade) : walletsToTrade;
+  const orderedWallets = hasDelays ? shuffleArray(walletsToTrade, random) : walletsToTrade;
 
-  const amountAtomic = Math.max(1, Math.floor(totalSolAmount * LAMPORTS_PER_SOL));
   const success: WalletTradeResult[] = [];
   const failed: WalletTradeResult[] = [];
 
@@ -140,15 +192,15 @@ export async function executeMultiWalletBuy({
     orderedWallets.map(async (wallet, index) => {
       // Staggered delay
       if (hasDelays && index >= (stealthSettings.instaThreshold ?? 0)) {
-        await delay(Math.random() * stealthSettings.buyDelayMs);
+        await delay(random() * stealthSettings.buyDelayMs);
       }
 
-      // Apply variance
-      let walletAmountAtomic = amountAtomic;
+      // Split share, or the full amount with optional variance
+      let walletAmountAtomic = splitAmounts?.[wallet.public_key] ?? amountAtomic;
       if (hasVariance) {
         walletAmountAtomic = Math.max(
           1,
-          Math.floor(applyVariance(totalSolAmount, stealthSettings.buyVariance) * LAMPORTS_PER_SOL)
+          Math.round(applyVariance(amountAtomic, stealthSettings.buyVariance, random))
         );
       }
 
@@ -0,0 +1,128 @@
+import { splitBuyAmount } from "@/src/features/trade/splitAllocation";
+
+/** Deterministic LCG in [0, 1) so deviations are reproducible. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+const sum = (amounts: Record<string, number>) =>
+  Object.values(amounts).reduce((acc, v) => acc + v, 0);
+
+const WALLETS = ["a", "b", "c", "d", "e"];
+const ONE_SOL = 1_000_000_000;
+
+describe("splitBuyAmount", () => {
+  it("splits evenly without deviation and keeps the exact total", () => {
+    const { amountsLamports, shortfallLamports } = splitBuyAmount({
+      totalLamports: ONE_SOL,
+      walletPublicKeys: ["a", "b", "c"],
+      deviationPercent: 0,
+    });
+
+    expect(sum(amountsLamports)).toBe(ONE_SOL);
+    expect(shortfallLamports).toBe(0);
+    expect(Object.values(amountsLamports).sort()).toEqual([333_333_333, 333_333_333, 333_333_334]);
+  });
+
+  it("keeps every share within the deviation bound", () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const { amountsLamports } = splitBuyAmount({
+        totalLamports: 3 * ONE_SOL + 7,
+        walletPublicKeys: WALLETS,
+        deviationPercent: 20,
+        random: seededRandom(seed),
+      });
+
+      const even = (3 * ONE_SOL + 7) / WALLETS.length;
+      expect(sum(amountsLamports)).toBe(3 * ONE_SOL + 7);
+      for (const amount of Object.values(amountsLamports)) {
+        expect(Number.isInteger(amount)).toBe(true);
+        expect(Math.abs(amount - even)).toBeLessThanOrEqual(even * 0.2 + 1);
+      }
+    }
+  });
+
+  it("is deterministic for a given RNG and varies across seeds", () => {
+    const run = (seed: number) =>
+      splitBuyAmount({
+        totalLamports: ONE_SOL,
+        walletPublicKeys: WALLETS,
+        deviationPercent: 30,
+        random: seededRandom(seed),
+      }).amountsLamports;
+
+    expect(run(42)).toEqual(run(42));
+    expect(run(42)).not.toEqual(run(43));
+    expect(new Set(Object.values(run(42))).size).toBeGreaterThan(1);
+  });
+
+  it("clamps deviation to the settings maximum", () => {
+    const { amountsLamports } = splitBuyAmount({
+      totalLamports: 4 * ONE_SOL,
+      walletPublicKeys: ["a", "b", "c", "d"],
+      deviationPercent: 400,
+      random: seededRandom(7),
+    });
+
+    expect(sum(amountsLamports)).toBe(4 * ONE_SOL);
+    for (const amount of Object.values(amountsLamports)) {
+      expect(amount).toBeGreaterThanOrEqual(ONE_SOL * 0.5 - 1);
+      expect(amount).toBeLessThanOrEqual(ONE_SOL * 1.5 + 1);
+    }
+  });
+
+  it("moves shares a wallet can't cover onto the others", () => {
+    const { amountsLamports, shortfallLamports } = splitBuyAmount({
+      totalLamports: 3 * ONE_SOL,
+      walletPublicKeys: ["a", "b", "c"],
+      deviationPercent: 10,
+      capacityLamports: { a: 100_000_000, b: 5 * ONE_SOL, c: 5 * ONE_SOL },
+      random: seededRandom(3),
+    });
+
+    expect(amountsLamports.a).toBe(100_000_000);
+    expect(amountsLamports.b + amountsLamports.c).toBe(2_900_000_000);
+    expect(shortfallLamports).toBe(0);
+  });
+
+  it("cascades when rebalancing overflows another wallet", () => {
+    const { amountsLamports, shortfallLamports } = splitBuyAmount({
+      totalLamports: 3 * ONE_SOL,
+      walletPublicKeys: ["a", "b", "c"],
+      deviationPercent: 0,
+      capacityLamports: { a: 0, b: 1_200_000_000, c: 5 * ONE_SOL },
+    });
+
+    expect(amountsLamports).toEqual({ a: 0, b: 1_200_000_000, c: 1_800_000_000 });
+    expect(shortfallLamports).toBe(0);
+  });
+
+  it("reports a shortfall when the wallets can't cover the total together", () => {
+    const { amountsLamports, shortfallLamports } = splitBuyAmount({
+      totalLamports: ONE_SOL,
+      walletPublicKeys: ["a", "b"],
+      deviationPercent: 15,
+      capacityLamports: { a: 300_000_000, b: -5 },
+      random: seededRandom(11),
+    });
+
+    expect(amountsLamports).toEqual({ a: 300_000_000, b: 0 });
+    expect(shortfallLamports).toBe(700_000_000);
+  });
+
+  it("fills every lamport when the total is smaller than the wallet count", () => {
+    const { amountsLamports } = splitBuyAmount({
+      totalLamports: 3,
+      walletPublicKeys: WALLETS,
+      deviationPercent: 25,
+      random: seededRandom(5),
+    });
+
+    expect(sum(amountsLamports)).toBe(3);
+    expect(Object.values(amountsLamports).every((v) => v === 0 || v === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Split-mode sizing for multi-wallet buys — divides one total across the
+ * selected wallets instead of every wallet buying the full amount.
+ *
+ * Pure and lamport-exact so it can be tested with a seeded RNG.
+ */
+
+/** Matches the limit `validateTradeSettings` enforces on `split_deviation`. */
+export const MAX_SPLIT_DEVIATION_PERCENT = 50;
+
+export type SplitAllocation = {
+  /** Lamports per wallet, keyed by public key; 0 for wallets left out */
+  amountsLamports: Record<string, number>;
+  /** Lamports the wallets couldn't cover between them; 0 when fully allocated */
+  shortfallLamports: number;
+};
+
+/**
+ * Per-wallet multipliers around 1, each within ±`deviation` and summing to
+ * exactly `count`. Offsets are centered, then scaled back inside the bound if
+ * centering pushed one past it.
+ */
+function deviationWeights(count: number, deviation: number, random: () => number): number[] {
+  if (deviation <= 0) return new Array<number>(count).fill(1);
+
+  const offsets = Array.from({ length: count }, () => deviation * (2 * random() - 1));
+  const mean = offsets.reduce((acc, o) => acc + o, 0) / count;
+  const centered = offsets.map((o) => o - mean);
+  const widest = Math.max(...centered.map(Math.abs));
+  const scale = widest > deviation ? deviation / widest : 1;
+  return centered.map((o) => 1 + o * scale);
+}
+
+/**
+ * Divide `totalLamports` across `walletPublicKeys`. Each wallet's share is the
+ * even split moved by up to ±`deviationPercent`, and the shares always sum to
+ * the total after rounding.
+ *
+ * With `capacityLamports`, a wallet is never given more than it can spend. Its
+ * excess moves onto the other wallets in proportion to their shares, so those
+ * wallets may end up outside the deviation bound. Wallets with no capacity get
+ * 0. Anything no wallet can take is returned as `shortfallLamports`.
+ */
+export function splitBuyAmount({
+  totalLamports,
+  walletPublicKeys,
+  deviationPercent,
+  capacityLamports,
+  random = Math.random,
+}: {
+  totalLamports: number;
+  walletPublicKeys: string[];
+  deviationPercent: number;
+  capacityLamports?: Record<string, number>;
+  random?: () => number;
+}): SplitAllocation {
+  const total = Math.max(0, Math.floor(totalLamports));
+  const deviation =
+    Math.min(MAX_SPLIT_DEVIATION_PERCENT, Math.max(0, deviationPercent || 0)) / 100;
+  const weights = deviationWeights(walletPublicKeys.length, deviation, random);
+
+  const wallets = walletPublicKeys.map((key, i) => ({
+    key,
+    weight: weights[i],
+    capacity: capacityLamports
+      ? Math.max(0, Math.floor(capacityLamports[key] ?? 0))
+      : Number.POSITIVE_INFINITY,
+    share: 0,
+  }));
+
+  // Fill wallets in proportion to weight; any wallet whose share would exceed
+  // its capacity is pinned at capacity and the rest is re-spread over the others
+  let remaining = total;
+  let open = wallets.filter((w) => w.capacity > 0);
+  while (open.length > 0 && remaining > 0) {
+    const weightSum = open.reduce((acc, w) => acc + w.weight, 0);
+    const pinned = open.filter((w) => (remaining * w.weight) / weightSum > w.capacity);
+    if (pinned.length === 0) {
+      for (const w of open) w.share = (remaining * w.weight) / weightSum;
+      remaining = 0;
+      break;
+    }
+    for (const w of pinned) {
+      w.share = w.capacity;
+      remaining -= w.capacity;
+    }
+    open = open.filter((w) => !pinned.includes(w));
+  }
+
+  // Largest-remainder rounding: floor every share, then hand the leftover
+  // lamports to the biggest fractional parts. A share with a fractional part
+  // is below its (whole-lamport) capacity, so the extra lamport always fits.
+  const allocated = total - remaining;
+  const floors = wallets.map((w) => Math.floor(w.share));
+  let leftover = allocated - floors.reduce((acc, f) => acc + f, 0);
+  const byFraction = wallets
+    .map((w, i) => ({ i, fraction: w.share - floors[i] }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { i } of byFraction) {
+    if (leftover <= 0) break;
+    if (floors[i] + 1 > wallets[i].capacity) continue;
+    floors[i] += 1;
+    leftover -= 1;
+  }
+  // Float error can round a share up past its true value; take those back
+  for (const { i } of [...byFraction].reverse()) {
+    if (leftover >= 0) break;
+    if (floors[i] === 0) continue;
+    floors[i] -= 1;
+    leftover += 1;
+  }
+
+  const amountsLamports: Record<string, number> = {};
+  wallets.forEach((w, i) => {
+    amountsLamports[w.key] = floors[i];
+  });
+
+  return { amountsLamports, shortfallLamports: total - allocated + leftover };
+}
@@ -0,0 +1,27 @@
+/**
+ * Device copy of client-managed trailing stops — the peak and trail settings
+ * behind each underlying stop-loss order.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { parseTrailingStopOrders, type TrailingStopOrder } from "@quickscope/core/trade";
+
+const STORAGE_KEY = "qs_trailing_stops_v1";
+
+export async function getStoredTrailingStops(): Promise<TrailingStopOrder[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return parseTrailingStopOrders(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+export async function setStoredTrailingStops(stops: TrailingStopOrder[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stops));
+  } catch {
+    // silent
+  }
+}
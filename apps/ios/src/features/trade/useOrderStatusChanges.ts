@@ -0,0 +1,34 @@
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import { useStreamSubscription } from "@/src/features/streaming/useStreamSubscription";
+import {
+  ORDER_STATUS_CHANNEL,
+  extractOrderStatusUpdates,
+  type TriggerOrderStatusUpdate,
+} from "@quickscope/core/trade";
+
+/**
+ * Listen for trigger order status transitions on the authenticated
+ * `tx/orderStatusChanges` channel. Every caller shares one server
+ * subscription through the StreamClient; the channel is only joined while
+ * the session is authenticated.
+ *
+ * `isLive` is true while updates are flowing — lists can relax polling then.
+ */
+export function useOrderStatusChanges(
+  onUpdate: (update: TriggerOrderStatusUpdate) => void,
+  enabled = true,
+): { isLive: boolean } {
+  const { status: authStatus } = useAuthSession();
+  const isAuthenticated = authStatus === "authenticated" || authStatus === "refreshing";
+
+  const { status } = useStreamSubscription<unknown>(
+    ORDER_STATUS_CHANNEL,
+    [],
+    (payload) => {
+      extractOrderStatusUpdates(payload).forEach(onUpdate);
+    },
+    enabled && isAuthenticated,
+  );
+
+  return { isLive: enabled && isAuthenticated && status === "open" };
+}
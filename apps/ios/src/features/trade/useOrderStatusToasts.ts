@@ -0,0 +1,48 @@
+import { useRef } from "react";
+
+import { toast } from "@/src/lib/toast";
+import {
+  orderTypeLabel,
+  type TriggerOrderStatusUpdate,
+} from "@quickscope/core/trade";
+import { useOrderStatusChanges } from "@/src/features/trade/useOrderStatusChanges";
+
+function formatSignature(signature: string): string {
+  if (signature.length <= 12) return signature;
+  return `${signature.slice(0, 6)}...${signature.slice(-4)}`;
+}
+
+/**
+ * App-wide toasts for trigger order outcomes. Mounted once (AppEffects) so a
+ * fill is announced exactly once no matter how many order lists are open.
+ */
+export function useOrderStatusToasts() {
+  // uuid:status pairs already announced — the server may resend on resubscribe
+  const announcedRef = useRef(new Set<string>());
+
+  useOrderStatusChanges((update: TriggerOrderStatusUpdate) => {
+    const key = `${update.uuid}:${update.status}`;
+    if (announcedRef.current.has(key)) return;
+
+    const label = update.orderType ? orderTypeLabel(update.orderType) : "Order";
+
+    switch (update.status) {
+      case "filled":
+        toast.success(
+          `${label} filled`,
+          update.signature ? `Tx ${formatSignature(update.signature)}` : undefined
+        );
+        break;
+      case "failed":
+        toast.error(`${label} failed`, "The order could not be executed.");
+        break;
+      case "expired":
+        toast.info(`${label} expired`);
+        break;
+      default:
+        return;
+    }
+
+    announcedRef.current.add(key);
+  });
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  applyOrderStatusUpdate,
+  cancelTriggerOrder,
+  getTriggerOrders,
+  isTerminalOrderStatus,
+  type TriggerOrder,
+} from "@quickscope/core/trade";
+import { useOrderStatusChanges } from "@/src/features/trade/useOrderStatusChanges";
+
+/** Fallback polling while the order status stream isn't connected. */
+const POLL_INTERVAL_MS = 10_000;
+
+type UseTriggerOrdersParams = {
+  walletAddress: string | null | undefined;
+  /** Restrict to a single token mint */
+  mint?: string;
+};
+
+/**
+ * Trigger order list for a wallet, shared by every order list in the app.
+ *
+ * - Initial fetch via tx/getTriggerOrders; the list is cleared and refetched
+ *   when wallet/mint change, and responses for a previous wallet are dropped
+ * - Status transitions applied in place from tx/orderStatusChanges, ignoring
+ *   updates (including replays) addressed to another wallet
+ * - Polls every 10s only while the stream is unavailable
+ * - Optimistic cancel with refetch
+ */
+export function useTriggerOrders(
+  rpcClient: RpcClient,
+  { walletAddress, mint }: UseTriggerOrdersParams
+) {
+  const [orders, setOrders] = useState<TriggerOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingIds, setCancellingIds] = useState<Set<string>>(new Set());
+  const mountedRef = useRef(true);
+  const requestRef = useRef(0);
+  const ordersRef = useRef<TriggerOrder[]>([]);
+
+  ordersRef.current = orders;
+
+  const fetchOrders = useCallback(async () => {
+    if (!walletAddress) {
+      setIsLoading(false);
+      return;
+    }
+
+    const requestId = ++requestRef.current;
+    const isCurrent = () => mountedRef.current && requestId === requestRef.current;
+
+    try {
+      const result = await getTriggerOrders(rpcClient, {
+        walletAddress,
+        ...(mint ? { mint } : {}),
+      });
+
+      if (isCurrent()) {
+        setOrders(result);
+        setError(null);
+      }
+    } catch (err) {
+      if (isCurrent()) {
+        setError(err instanceof Error ? err.message : "Failed to load orders");
+      }
+    } finally {
+      if (isCurrent()) {
+        setIsLoading(false);
+      }
+    }
+  }, [rpcClient, walletAddress, mint]);
+
+  const { isLive } = useOrderStatusChanges((update) => {
+    if (!walletAddress) return;
+    if (update.userAccount && update.userAccount !== walletAddress) return;
+    if (mint && update.mint && update.mint !== mint) return;
+
+    if (!ordersRef.current.some((order) => order.uuid === update.uuid)) {
+      // A new open order we haven't listed yet (created elsewhere) — pull the
+      // fresh list, but only when it's addressed to this wallet
+      if (update.userAccount === walletAddress && !isTerminalOrderStatus(update.status)) {
+        void fetchOrders();
+      }
+      return;
+    }
+
+    setOrders((prev) => applyOrderStatusUpdate(prev, update));
+  });
+
+  // Initial load — drop the previous wallet's orders first
+  useEffect(() => {
+    mountedRef.current = true;
+    ordersRef.current = [];
+    setOrders([]);
+    setError(null);
+    setIsLoading(true);
+    void fetchOrders();
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [fetchOrders]);
+
+  // Fallback polling
+  useEffect(() => {
+    if (isLive) return;
+
+    const interval = setInterval(() => {
+      void fetchOrders();
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [fetchOrders, isLive]);
+
+  const cancelOrder = useCallback(
+    async (orderId: string) => {
+      // Optimistic removal
+      setCancellingIds((prev) => new Set(prev).add(orderId));
+      setOrders((prev) => prev.filter((o) => o.uuid !== orderId));
+
+      try {
+        await cancelTriggerOrder(rpcClient, orderId);
+        // Refetch to get updated state
+        void fetchOrders();
+      } catch {
+        // Revert optimistic removal on failure — refetch will restore
+        void fetchOrders();
+      } finally {
+        setCancellingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(orderId);
+          return next;
+        });
+      }
+    },
+    [rpcClient, fetchOrders]
+  );
+
+  return {
+    orders,
+    isLoading,
+    error,
+    cancellingIds,
+    isLive,
+    refresh: fetchOrders,
+    cancelOrder,
+  };
+}
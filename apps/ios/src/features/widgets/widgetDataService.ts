@@ -1,14 +1,15 @@
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import {
-  fetchTraderOverview,
-  fetchTraderPositions,
+  computeCombinedPnl,
+  fetchMultiWalletPortfolio,
   quoteToUsd,
   type Position,
-} from "@/src/features/portfolio/portfolioService";
+} from "@quickscope/core/portfolio";
+import { fetchActiveWallets } from "@/src/features/account/walletService";
 import {
   fetchTokenWatchlists,
   fetchWatchlistTokens,
-} from "@/src/features/watchlist/tokenWatchlistService";
+} from "@quickscope/core/watchlist";
 import {
   fetchWalletWatchlists,
   fetchWalletWatchlist,
@@ -54,32 +55,29 @@ function timeAgo(date: Date): string {
 
 export async function updatePortfolioWidget(
   rpcClient: RpcClient,
-  account: string
+  accounts: string[]
 ): Promise<void> {
   try {
-    const [overview, positionsResp] = await Promise.all([
-      fetchTraderOverview(rpcClient, account),
-      fetchTraderPositions(rpcClient, account, {
-        limit: 3,
-        sort_column: "position_value_quote",
-        include_zero_balances: false,
-      }),
-    ]);
-
-    const totalValueUsd = overview.holdings?.value_usd ?? 0;
-    const solPrice = positionsResp.sol_price_usd ?? overview.sol_price_usd ?? 0;
-
-    // Compute total PnL from positions
-    let totalPnl = 0;
-    let unrealizedPnl = 0;
-    for (const pos of positionsResp.positions) {
-      totalPnl += quoteToUsd(pos.total_pnl_quote, pos.token_info, solPrice);
-      unrealizedPnl += quoteToUsd(pos.unrealized_pnl_quote, pos.token_info, solPrice);
-    }
+    // Same combined source as the Portfolio "All wallets" view; a single
+    // account goes through it too so both paths report identical numbers.
+    const portfolio = await fetchMultiWalletPortfolio(rpcClient, accounts, {
+      limit: 20,
+      sort_column: "position_value_quote",
+      include_zero_balances: false,
+    });
+
+    const totalValueUsd = portfolio.overview.holdings?.value_usd ?? 0;
+    const solPrice = portfolio.solPriceUsd;
+    const positions = portfolio.positions;
+
+    const { totalPnlUsd: totalPnl, unrealizedPnlUsd: unrealizedPnl } = computeCombinedPnl(
+      positions,
+      solPrice
+    );
 
     const pnlPercent = totalValueUsd > 0 ? (totalPnl / totalValueUsd) * 100 : 0;
 
-    const topHoldings = positionsResp.positions.slice(0, 3).map((pos: Position) => {
+    const topHoldings = positions.slice(0, 3).map((pos: Position) => {
       const valueUsd = quoteToUsd(pos.position_value_quote, pos.token_info, solPrice);
       const pnl = pos.total_pnl_change_proportion * 100;
       return {
@@ -304,12 +302,25 @@ export async function updateChatPulseWidget(
 
 // ── Update all widgets ──
 
+/** Every active wallet when the list loads, otherwise just the primary account. */
+async function resolvePortfolioAccounts(rpcClient: RpcClient, account: string): Promise<string[]> {
+  try {
+    const { wallets } = await fetchActiveWallets(rpcClient);
+    const keys = wallets.map((w) => w.public_key);
+    return keys.length > 0 ? keys : [account];
+  } catch {
+    return [account];
+  }
+}
+
 export async function updateAllWidgets(
   rpcClient: RpcClient,
   account: string
 ): Promise<void> {
   await Promise.allSettled([
-    updatePortfolioWidget(rpcClient, account),
+    resolvePortfolioAccounts(rpcClient, account).then((accounts) =>
+      updatePortfolioWidget(rpcClient, accounts)
+    ),
     updateWatchlistWidget(rpcClient),
     updateWalletActivityWidget(rpcClient),
     updateChatPulseWidget(rpcClient),
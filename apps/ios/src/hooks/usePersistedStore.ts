@@ -0,0 +1,99 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type MutableRefObject,
+  type SetStateAction,
+} from "react";
+import { AppState, type AppStateStatus } from "react-native";
+
+type PersistedStorage<T> = {
+  load: () => Promise<T[]>;
+  save: (items: T[]) => Promise<void>;
+};
+
+type PersistedStore<T> = {
+  items: T[];
+  setItems: Dispatch<SetStateAction<T[]>>;
+  /** Latest list, for async work that outlives a render */
+  itemsRef: MutableRefObject<T[]>;
+  isLoaded: boolean;
+  /** Add to the top, replacing any item with the same id */
+  add: (item: T) => void;
+};
+
+/**
+ * Device-persisted list behind the client-managed order stores (exit
+ * ladders, trailing stops, DCA plans).
+ *
+ * Stored items load once and merge behind anything added while loading;
+ * every change after that is saved. `storage` functions must be stable.
+ */
+export function usePersistedStore<T extends { id: string }>({
+  load,
+  save,
+}: PersistedStorage<T>): PersistedStore<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const itemsRef = useRef<T[]>([]);
+
+  itemsRef.current = items;
+
+  useEffect(() => {
+    let cancelled = false;
+    void load().then((stored) => {
+      if (cancelled) return;
+      setItems((prev) => [...prev, ...stored.filter((s) => !prev.some((p) => p.id === s.id))]);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  useEffect(() => {
+    if (isLoaded) void save(items);
+  }, [items, isLoaded, save]);
+
+  const add = useCallback((item: T) => {
+    setItems((prev) => [item, ...prev.filter((p) => p.id !== item.id)]);
+  }, []);
+
+  return { items, setItems, itemsRef, isLoaded, add };
+}
+
+/**
+ * Run a store's `task` as soon as it's `active`, then every `intervalMs`
+ * while `repeat` holds. With `onForeground`, also run it on return to the
+ * app — timers don't fire in the background.
+ */
+export function useStoreTask(
+  task: () => Promise<void>,
+  intervalMs: number,
+  active: boolean,
+  { repeat = true, onForeground = false }: { repeat?: boolean; onForeground?: boolean } = {}
+): void {
+  useEffect(() => {
+    if (!active) return;
+    void task();
+
+    const interval = repeat
+      ? setInterval(() => {
+          void task();
+        }, intervalMs)
+      : undefined;
+
+    const subscription = onForeground
+      ? AppState.addEventListener("change", (nextState: AppStateStatus) => {
+          if (nextState === "active") void task();
+        })
+      : undefined;
+
+    return () => {
+      if (interval) clearInterval(interval);
+      subscription?.remove();
+    };
+  }, [task, intervalMs, active, repeat, onForeground]);
+}
@@ -1,7 +1,16 @@
 import { TurboModuleRegistry, type TurboModule } from "react-native";
 
+import {
+  createRpcClient,
+  type AuthFailureHandler,
+  type RpcCallOptions,
+  type RpcClientTransport,
+} from "@quickscope/core/rpc";
+
 import { AppEnv } from "@/src/config/env";
 
+export { RpcError, type RpcCallOptions } from "@quickscope/core/rpc";
+
 /**
  * Cookie type from the CookieManager TurboModule spec.
  * Defined inline to avoid importing @preeternal/react-native-cookie-manager,
@@ -33,27 +42,6 @@ if (__DEV__) {
   );
 }
 
-type RpcResponse<T> = {
-  result?: T;
-  error?: {
-    code: number;
-    message: string;
-  };
-};
-
-/**
- * Structured RPC error with a numeric `.code` property.
- * Callers can `instanceof RpcError` and switch on `.code` instead of parsing strings.
- */
-export class RpcError extends Error {
-  readonly code: number;
-  constructor(code: number, message: string) {
-    super(`RPC ${code}: ${message}`);
-    this.name = "RpcError";
-    this.code = code;
-  }
-}
-
 /**
  * JS cookie jar that mirrors native iOS cookies for state checking
  * and diagnostics.
@@ -155,6 +143,9 @@ class CookieJar {
 /**
  * RPC client for the Quickscope API.
  *
+ * Transport, RpcError and the -32600 refresh/retry lock come from
+ * `@quickscope/core`; this class adds the iOS cookie bridge on top.
+ *
  * Cookie auth is handled natively by NSURLSession via `credentials: "include"`,
  * matching the web app's fetchBaseQuery behavior exactly. A JS-side CookieJar
  * mirrors native cookies for `hasCookies()` state checks and diagnostics.
@@ -162,22 +153,23 @@ class CookieJar {
 export class RpcClient {
   private readonly apiHost: string;
   private readonly jar = new CookieJar();
-
-  /**
-   * Optional handler invoked when a request fails with -32600 (auth required).
-   * Should attempt to refresh the session and return true if successful.
-   */
-  private onAuthFailure: (() => Promise<boolean>) | null = null;
-
-  /**
-   * Promise-based refresh lock. When a refresh is in-flight, all concurrent
-   * callers that also hit -32600 await the SAME promise rather than triggering
-   * duplicate refreshes or being blocked.
-   */
-  private refreshPromise: Promise<boolean> | null = null;
+  private readonly transport: RpcClientTransport;
 
   constructor(env: AppEnv) {
     this.apiHost = env.apiHost;
+    this.transport = createRpcClient({
+      apiHost: env.apiHost,
+      onResponse: async (response) => {
+        // Capture any Set-Cookie headers from the response (harmless no-op on
+        // iOS where headers aren't exposed, but works on other platforms).
+        this.jar.capture(response);
+
+        // Bridge native iOS cookies into the JS jar. NSHTTPCookieStorage always
+        // receives Set-Cookie headers even when JS can't see them.
+        await this.jar.syncFromNative(this.apiHost);
+      },
+      log: __DEV__ ? (message) => console.log(`[RpcClient] ${message}`) : undefined,
+    });
   }
 
   /**
@@ -185,8 +177,8 @@ export class RpcClient {
    * The handler should attempt to refresh the session and return true if
    * the session was successfully refreshed (allowing a retry).
    */
-  setAuthFailureHandler(handler: (() => Promise<boolean>) | null): void {
-    this.onAuthFailure = handler;
+  setAuthFailureHandler(handler: AuthFailureHandler | null): void {
+    this.transport.setAuthFailureHandler(handler);
   }
 
   /**
@@ -244,92 +236,7 @@ export class RpcClient {
     return lines;
   }
 
-  async call<T>(method: string, params: unknown[], _retryDepth = 0): Promise<T> {
-    if (__DEV__) {
-      console.log(`[RpcClient] → ${method} (depth=${_retryDepth})`);
-    }
-
-    // Match the web app exactly: only credentials:"include", no explicit
-    // Cookie or Content-Type headers.  NSURLSession (the native fetch layer)
-    // auto-attaches cookies from NSHTTPCookieStorage when credentials is
-    // "include" — just like a browser does.  Previously we also injected an
-    // explicit Cookie header from the JS jar, which conflicted with the
-    // native cookie handling and caused -32600 auth failures.
-    const response = await fetch(`${this.apiHost}/${method}`, {
-      method: "POST",
-      credentials: "include",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        method,
-        params,
-      }),
-    });
-
-    // Capture any Set-Cookie headers from the response (harmless no-op on
-    // iOS where headers aren't exposed, but works on other platforms).
-    this.jar.capture(response);
-
-    // Bridge native iOS cookies into the JS jar. NSHTTPCookieStorage always
-    // receives Set-Cookie headers even when JS can't see them.
-    await this.jar.syncFromNative(this.apiHost);
-
-    const json = (await response.json()) as RpcResponse<T>;
-
-    if (!response.ok) {
-      throw new RpcError(response.status, `HTTP ${response.status}`);
-    }
-
-    if (json.error) {
-      // If we got an auth failure (-32600), have a handler, haven't already
-      // retried, and this isn't an auth/* method (which would cause a deadlock
-      // since auth/refresh is called FROM the handler), try to refresh.
-      if (
-        json.error.code === -32600 &&
-        this.onAuthFailure &&
-        _retryDepth < 1 &&
-        !method.startsWith("auth/")
-      ) {
-        if (__DEV__) {
-          console.log(
-            `[RpcClient] -32600 on ${method}, ${this.refreshPromise ? "joining existing" : "starting new"} refresh`
-          );
-        }
-
-        try {
-          let refreshed: boolean;
-
-          if (this.refreshPromise) {
-            // Another caller already started a refresh — join it
-            refreshed = await this.refreshPromise;
-          } else {
-            // First caller to hit -32600 — start the refresh
-            this.refreshPromise = this.onAuthFailure().finally(() => {
-              this.refreshPromise = null;
-            });
-            refreshed = await this.refreshPromise;
-          }
-
-          if (refreshed) {
-            if (__DEV__) {
-              console.log(`[RpcClient] Refresh succeeded, retrying ${method}`);
-            }
-            return this.call<T>(method, params, _retryDepth + 1);
-          }
-        } catch {
-          // Refresh itself failed — fall through to throw the original error
-          if (__DEV__) {
-            console.log(`[RpcClient] Refresh failed for ${method}`);
-          }
-        }
-      }
-
-      throw new RpcError(json.error.code, json.error.message);
-    }
-
-    if (json.result === undefined) {
-      throw new RpcError(-1, "RPC response missing result");
-    }
-
-    return json.result;
+  call<T>(method: string, params: unknown[], options?: RpcCallOptions): Promise<T> {
+    return this.transport.call<T>(method, params, options);
   }
 }
@@ -0,0 +1,233 @@
+import { StreamClient, reconnectDelayMs } from "@/src/lib/api/streamClient";
+
+type Handler = (event: { data?: unknown }) => void;
+
+class FakeSocket {
+  readyState = 0;
+  sent: { id: string; method: string; params: unknown[] }[] = [];
+  closed = false;
+  private handlers = new Map<string, Handler[]>();
+
+  constructor(readonly url: string) {}
+
+  addEventListener(type: string, handler: Handler) {
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), handler]);
+  }
+
+  send(raw: string) {
+    this.sent.push(JSON.parse(raw));
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  // ── test drivers ──
+
+  open() {
+    this.readyState = 1;
+    this.emit("open", {});
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.emit("close", {});
+  }
+
+  receive(message: unknown) {
+    this.emit("message", { data: JSON.stringify(message) });
+  }
+
+  ack(index: number, subscriptionId: string) {
+    this.receive({ id: this.sent[index].id, result: subscriptionId });
+  }
+
+  private emit(type: string, event: { data?: unknown }) {
+    (this.handlers.get(type) ?? []).forEach((handler) => handler(event));
+  }
+}
+
+function createClient() {
+  const sockets: FakeSocket[] = [];
+  const client = new StreamClient(
+    { wsHost: "wss://ws.example" },
+    {
+      createSocket: (url) => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+    }
+  );
+  return { client, sockets };
+}
+
+describe("StreamClient", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("connects lazily and subscribes once the socket opens", () => {
+    const { client, sockets } = createClient();
+    expect(sockets).toHaveLength(0);
+
+    client.subscribe("public/tokenTrade", ["MintA"], () => {});
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].url).toBe("wss://ws.example/public");
+    expect(client.getStatus()).toBe("connecting");
+
+    sockets[0].open();
+    expect(client.getStatus()).toBe("open");
+    expect(sockets[0].sent).toEqual([
+      { id: expect.any(String), method: "public/tokenTrade_subscribe", params: ["MintA"] },
+    ]);
+  });
+
+  it("routes payloads to the matching subscription id", () => {
+    const { client, sockets } = createClient();
+    const onA = jest.fn();
+    const onB = jest.fn();
+
+    client.subscribe("public/tokenTrade", ["MintA"], onA);
+    client.subscribe("public/tokenTrade", ["MintB"], onB);
+    sockets[0].open();
+    sockets[0].ack(0, "sub-a");
+    sockets[0].ack(1, "sub-b");
+
+    sockets[0].receive({
+      method: "public/tokenTrade_subscription",
+      params: { subscription: "sub-b", result: { signature: "sig1" } },
+    });
+
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).toHaveBeenCalledWith({ signature: "sig1" });
+  });
+
+  it("drops payloads whose subscription id is missing or unknown", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { client, sockets } = createClient();
+    const onA = jest.fn();
+    const onB = jest.fn();
+
+    client.subscribe("public/tokenTrade", ["MintA"], onA);
+    client.subscribe("public/tokenTrade", ["MintB"], onB);
+    sockets[0].open();
+    sockets[0].ack(0, "sub-a");
+    sockets[0].ack(1, "sub-b");
+
+    sockets[0].receive({
+      method: "public/tokenTrade_subscription",
+      params: { subscription: "sub-stale", result: { signature: "sig1" } },
+    });
+    sockets[0].receive({ method: "public/tokenTrade_subscription", result: { signature: "sig2" } });
+
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).not.toHaveBeenCalled();
+
+    // Nothing was cached for replay either
+    const late = jest.fn();
+    client.subscribe("public/tokenTrade", ["MintB"], late);
+    expect(late).not.toHaveBeenCalled();
+  });
+
+  it("ref-counts identical subscriptions and unsubscribes after the last listener", () => {
+    const { client, sockets } = createClient();
+
+    const offFirst = client.subscribe("public/tokenTrade", ["MintA"], () => {});
+    const offSecond = client.subscribe("public/tokenTrade", ["MintA"], () => {});
+    sockets[0].open();
+    sockets[0].ack(0, "sub-a");
+    expect(sockets[0].sent).toHaveLength(1);
+
+    offFirst();
+    expect(sockets[0].sent).toHaveLength(1);
+
+    offSecond();
+    expect(sockets[0].sent[1]).toEqual({
+      id: expect.any(String),
+      method: "public/tokenTrade_unsubscribe",
+      params: ["sub-a"],
+    });
+
+    // Socket lingers briefly, then closes when nothing is subscribed
+    expect(sockets[0].closed).toBe(false);
+    jest.advanceTimersByTime(5_000);
+    expect(sockets[0].closed).toBe(true);
+    expect(client.getStatus()).toBe("idle");
+  });
+
+  it("replays the cached payload to late subscribers", () => {
+    const { client, sockets } = createClient();
+
+    client.subscribe("public/slotTradeUpdates", [], () => {});
+    sockets[0].open();
+    sockets[0].ack(0, "sub-1");
+    sockets[0].receive({
+      method: "public/slotTradeUpdates_subscription",
+      params: { subscription: "sub-1", result: { sol_price_usd: 150 } },
+    });
+
+    const late = jest.fn();
+    client.subscribe("public/slotTradeUpdates", [], late);
+    expect(late).toHaveBeenCalledWith({ sol_price_usd: 150 });
+  });
+
+  it("reconnects with backoff and resubscribes active channels", () => {
+    const { client, sockets } = createClient();
+    const onMessage = jest.fn();
+
+    client.subscribe("public/tokenTrade", ["MintA"], onMessage);
+    sockets[0].open();
+    sockets[0].ack(0, "sub-old");
+
+    sockets[0].drop();
+    expect(client.getStatus()).toBe("reconnecting");
+    expect(sockets).toHaveLength(1);
+
+    jest.advanceTimersByTime(reconnectDelayMs(0));
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].open();
+    expect(client.getStatus()).toBe("open");
+    expect(sockets[1].sent[0]).toMatchObject({
+      method: "public/tokenTrade_subscribe",
+      params: ["MintA"],
+    });
+
+    sockets[1].ack(0, "sub-new");
+    sockets[1].receive({
+      method: "public/tokenTrade_subscription",
+      params: { subscription: "sub-new", result: { signature: "sig2" } },
+    });
+    expect(onMessage).toHaveBeenCalledWith({ signature: "sig2" });
+  });
+
+  it("gives up after the max attempts until reconnect() is called", () => {
+    const { client, sockets } = createClient();
+    client.subscribe("public/tokenTrade", ["MintA"], () => {});
+
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      sockets[sockets.length - 1].drop();
+      jest.advanceTimersByTime(reconnectDelayMs(attempt));
+    }
+    sockets[sockets.length - 1].drop();
+    expect(client.getStatus()).toBe("closed");
+
+    const count = sockets.length;
+    client.reconnect();
+    expect(sockets).toHaveLength(count + 1);
+    expect(client.getStatus()).toBe("connecting");
+  });
+
+  it("caps the backoff delay at 30s", () => {
+    expect(reconnectDelayMs(0)).toBe(1_000);
+    expect(reconnectDelayMs(3)).toBe(8_000);
+    expect(reconnectDelayMs(9)).toBe(30_000);
+  });
+});
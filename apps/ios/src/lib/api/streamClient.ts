@@ -0,0 +1,428 @@
+import type { AppEnv } from "@/src/config/env";
+
+/**
+ * Connection lifecycle as seen by subscribers.
+ * - idle: no socket (nothing subscribed, or suspended while backgrounded)
+ * - connecting: first connect in progress
+ * - open: socket open, subscriptions (re)sent
+ * - reconnecting: socket dropped, waiting on backoff timer
+ * - closed: gave up after MAX_RECONNECT_ATTEMPTS — call `reconnect()` to retry
+ */
+export type StreamStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type StreamListener<T = unknown> = (payload: T) => void;
+
+type StreamMessage = {
+  id?: string | number;
+  result?: unknown;
+  method?: string;
+  params?: {
+    result?: unknown;
+    subscription?: string | number;
+  };
+  error?: {
+    code?: number;
+    message?: string;
+  };
+};
+
+type SocketLike = Pick<WebSocket, "readyState" | "send" | "close" | "addEventListener">;
+
+type StreamClientOptions = {
+  /** Override the socket factory (tests inject a fake). */
+  createSocket?: (url: string) => SocketLike;
+};
+
+type SubscriptionEntry = {
+  channel: string;
+  params: unknown[];
+  listeners: Set<StreamListener>;
+  /** Server-assigned id from the `_subscribe` ack; cleared on disconnect. */
+  subscriptionId?: string;
+  /** Last payload received — replayed to late subscribers. */
+  lastPayload?: unknown;
+  hasPayload: boolean;
+};
+
+/** WebSocket.OPEN — inlined so the client doesn't depend on the global at import time. */
+const SOCKET_OPEN = 1;
+
+const SUBSCRIBE_SUFFIX = "_subscribe";
+const UNSUBSCRIBE_SUFFIX = "_unsubscribe";
+const SUBSCRIPTION_SUFFIX = "_subscription";
+
+/** Backoff matches the web client: 1s doubling, capped at 30s, 10 attempts. */
+const BASE_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+/** Keep the socket open briefly after the last unsubscribe so screen swaps don't thrash it. */
+const IDLE_CLOSE_DELAY_MS = 5_000;
+
+export function subscriptionKey(channel: string, params: unknown[]): string {
+  return `${channel}:${JSON.stringify(params)}`;
+}
+
+export function reconnectDelayMs(attempt: number): number {
+  return Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * Shared streaming client for the Quickscope WebSocket (`${wsHost}/public`).
+ *
+ * One socket is multiplexed across every channel the app subscribes to.
+ * Identical `(channel, params)` pairs share a single server subscription and
+ * are ref-counted; the server-side unsubscribe is sent when the last listener
+ * leaves. After a drop the client reconnects with exponential backoff and
+ * resubscribes everything that is still active.
+ *
+ * Protocol (docs/data-sources.md §20):
+ *   → { id, method: "{channel}_subscribe", params }
+ *   ← { id, result: subscriptionId }
+ *   ← { method: "{channel}_subscription", params: { subscription, result } }
+ *   → { id, method: "{channel}_unsubscribe", params: [subscriptionId] }
+ */
+export class StreamClient {
+  private readonly url: string;
+  private readonly createSocket: (url: string) => SocketLike;
+
+  private socket: SocketLike | null = null;
+  private status: StreamStatus = "idle";
+  private readonly statusListeners = new Set<(status: StreamStatus) => void>();
+
+  /** subscription key → entry */
+  private readonly entries = new Map<string, SubscriptionEntry>();
+  /** server subscription id → subscription key */
+  private readonly keysBySubscriptionId = new Map<string, string>();
+  /** pending subscribe request id → subscription key */
+  private readonly pendingSubscribes = new Map<string, string>();
+
+  private nextRequestId = 1;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleCloseTimer: ReturnType<typeof setTimeout> | null = null;
+  private suspended = false;
+
+  constructor(env: Pick<AppEnv, "wsHost">, options?: StreamClientOptions) {
+    this.url = `${env.wsHost}/public`;
+    this.createSocket = options?.createSocket ?? ((url) => new WebSocket(url));
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  /** Listen for connection status changes. Returns an unsubscribe function. */
+  onStatusChange(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to a channel (e.g. "public/tokenTrade") with the given params.
+   * If a payload was already received for the same subscription it is
+   * delivered to the new listener immediately.
+   */
+  subscribe<T = unknown>(
+    channel: string,
+    params: unknown[],
+    listener: StreamListener<T>
+  ): () => void {
+    const key = subscriptionKey(channel, params);
+    const typedListener = listener as StreamListener;
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = { channel, params, listeners: new Set(), hasPayload: false };
+      this.entries.set(key, entry);
+      this.sendSubscribe(key, entry);
+    }
+
+    entry.listeners.add(typedListener);
+    this.cancelIdleClose();
+    this.ensureConnected();
+
+    if (entry.hasPayload) {
+      typedListener(entry.lastPayload);
+    }
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      this.removeListener(key, typedListener);
+    };
+  }
+
+  /** Close the socket while backgrounded; subscriptions are kept for `resume()`. */
+  suspend(): void {
+    this.suspended = true;
+    this.clearReconnectTimer();
+    this.cancelIdleClose();
+    this.teardownSocket();
+    this.setStatus("idle");
+  }
+
+  /** Reconnect after `suspend()` and resubscribe active channels. */
+  resume(): void {
+    this.suspended = false;
+    this.reconnectAttempts = 0;
+    this.ensureConnected();
+  }
+
+  /** Fresh connection — manual retry after giving up, or a new auth session. */
+  reconnect(): void {
+    this.reconnectAttempts = 0;
+    this.clearReconnectTimer();
+    this.cancelIdleClose();
+    this.teardownSocket();
+    this.ensureConnected();
+    if (!this.socket) {
+      this.setStatus("idle");
+    }
+  }
+
+  /** Drop every subscription and close the socket (sign-out / teardown). */
+  close(): void {
+    this.entries.clear();
+    this.keysBySubscriptionId.clear();
+    this.pendingSubscribes.clear();
+    this.clearReconnectTimer();
+    this.cancelIdleClose();
+    this.teardownSocket();
+    this.setStatus("idle");
+  }
+
+  // ── Internals ──
+
+  private setStatus(next: StreamStatus): void {
+    if (this.status === next) return;
+    this.status = next;
+    this.statusListeners.forEach((listener) => listener(next));
+  }
+
+  private isOpen(): boolean {
+    return this.socket !== null && this.socket.readyState === SOCKET_OPEN;
+  }
+
+  private ensureConnected(): void {
+    if (this.suspended || this.socket || this.entries.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    this.setStatus(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.addEventListener("open", () => {
+      if (this.socket !== socket) return;
+      this.reconnectAttempts = 0;
+      this.setStatus("open");
+      this.entries.forEach((entry, key) => this.sendSubscribe(key, entry));
+    });
+
+    socket.addEventListener("message", (event) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(String(event.data));
+    });
+
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return;
+      this.handleDisconnect();
+    });
+
+    socket.addEventListener("error", () => {
+      if (__DEV__) {
+        console.warn("[StreamClient] transport error");
+      }
+    });
+  }
+
+  private handleDisconnect(): void {
+    this.socket = null;
+    this.resetServerState();
+
+    if (this.suspended || this.entries.size === 0) {
+      this.setStatus("idle");
+      return;
+    }
+
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.setStatus("closed");
+      return;
+    }
+
+    const delayMs = reconnectDelayMs(this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+    this.setStatus("reconnecting");
+
+    if (__DEV__) {
+      console.log(`[StreamClient] reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempts})`);
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.ensureConnected();
+    }, delayMs);
+  }
+
+  private handleMessage(raw: string): void {
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(raw) as StreamMessage;
+    } catch {
+      if (__DEV__) {
+        console.warn("[StreamClient] payload parse failed");
+      }
+      return;
+    }
+
+    const requestId = message.id !== undefined ? String(message.id) : undefined;
+
+    if (message.error) {
+      if (requestId) this.pendingSubscribes.delete(requestId);
+      if (__DEV__) {
+        console.warn(
+          `[StreamClient] WS ${message.error.code ?? "?"}: ${message.error.message ?? "unknown error"}`
+        );
+      }
+      return;
+    }
+
+    // Subscribe ack — map the server subscription id back to our entry
+    if (requestId && this.pendingSubscribes.has(requestId)) {
+      const key = this.pendingSubscribes.get(requestId)!;
+      this.pendingSubscribes.delete(requestId);
+      const entry = this.entries.get(key);
+      if (entry && message.result !== undefined && message.result !== null) {
+        entry.subscriptionId = String(message.result);
+        this.keysBySubscriptionId.set(entry.subscriptionId, key);
+      } else if (!entry && message.result !== undefined && message.result !== null) {
+        // Listener left before the ack arrived — release the server subscription
+        this.send(`${this.channelFromKey(key)}${UNSUBSCRIBE_SUFFIX}`, [String(message.result)]);
+      }
+      return;
+    }
+
+    if (!message.method?.endsWith(SUBSCRIPTION_SUFFIX)) {
+      return;
+    }
+
+    const payload = message.params?.result ?? message.result;
+    const subscriptionId =
+      message.params?.subscription !== undefined ? String(message.params.subscription) : undefined;
+
+    // Only deliver to the subscription the server addressed. Missing or stale
+    // ids are routine (in flight across an unsubscribe or a reconnect) and
+    // would otherwise leak one subscription's payload into another's
+    const key = subscriptionId ? this.keysBySubscriptionId.get(subscriptionId) : undefined;
+    if (!key) {
+      if (__DEV__) {
+        console.warn(
+          `[StreamClient] dropped ${message.method} for unknown subscription ${subscriptionId ?? "(none)"}`
+        );
+      }
+      return;
+    }
+
+    this.deliver(this.entries.get(key), payload);
+  }
+
+  private deliver(entry: SubscriptionEntry | undefined, payload: unknown): void {
+    if (!entry) return;
+    entry.lastPayload = payload;
+    entry.hasPayload = true;
+    entry.listeners.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (err) {
+        if (__DEV__) {
+          console.warn(`[StreamClient] listener for ${entry.channel} threw`, err);
+        }
+      }
+    });
+  }
+
+  private removeListener(key: string, listener: StreamListener): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+
+    this.entries.delete(key);
+    if (entry.subscriptionId) {
+      this.keysBySubscriptionId.delete(entry.subscriptionId);
+      this.send(`${entry.channel}${UNSUBSCRIBE_SUFFIX}`, [entry.subscriptionId]);
+    }
+
+    if (this.entries.size === 0) {
+      this.scheduleIdleClose();
+    }
+  }
+
+  private sendSubscribe(key: string, entry: SubscriptionEntry): void {
+    if (!this.isOpen()) return;
+    const requestId = this.send(`${entry.channel}${SUBSCRIBE_SUFFIX}`, entry.params);
+    if (requestId) {
+      this.pendingSubscribes.set(requestId, key);
+    }
+  }
+
+  private send(method: string, params: unknown[]): string | undefined {
+    if (!this.socket || !this.isOpen()) return undefined;
+    const id = `ios-${this.nextRequestId++}`;
+    this.socket.send(JSON.stringify({ id, method, params }));
+    return id;
+  }
+
+  private channelFromKey(key: string): string {
+    return key.slice(0, key.indexOf(":"));
+  }
+
+  private resetServerState(): void {
+    this.keysBySubscriptionId.clear();
+    this.pendingSubscribes.clear();
+    this.entries.forEach((entry) => {
+      entry.subscriptionId = undefined;
+    });
+  }
+
+  private teardownSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.resetServerState();
+    if (socket) {
+      socket.close();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private scheduleIdleClose(): void {
+    this.cancelIdleClose();
+    this.idleCloseTimer = setTimeout(() => {
+      this.idleCloseTimer = null;
+      if (this.entries.size > 0) return;
+      this.clearReconnectTimer();
+      this.teardownSocket();
+      this.reconnectAttempts = 0;
+      this.setStatus("idle");
+    }, IDLE_CLOSE_DELAY_MS);
+  }
+
+  private cancelIdleClose(): void {
+    if (this.idleCloseTimer) {
+      clearTimeout(this.idleCloseTimer);
+      this.idleCloseTimer = null;
+    }
+  }
+}
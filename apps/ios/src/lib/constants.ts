@@ -1,2 +1 @@
-/** Native SOL mint address on Solana. */
-export const SOL_MINT = "So11111111111111111111111111111111111111112";
+export { SOL_MINT } from "@quickscope/core";
@@ -29,6 +29,20 @@ describe("parseQuickscopeDeepLink", () => {
     });
   });
 
+  it("maps triggered alert links to Token Detail route", () => {
+    const target = parseQuickscopeDeepLink(
+      "https://app.quickscope.gg/alert/So11111111111111111111111111111111111111112?alertId=7"
+    );
+
+    expect(target).toEqual({
+      screen: "TokenDetail",
+      params: {
+        source: "alert",
+        tokenAddress: "So11111111111111111111111111111111111111112",
+      },
+    });
+  });
+
   it("maps trade links with query params to Trade context", () => {
     const target = parseQuickscopeDeepLink(
       "quickscope://trade?in=So11111111111111111111111111111111111111112&out=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v&amount=5&inDecimals=9&outDecimals=6"
@@ -120,6 +134,28 @@ describe("parseQuickscopeDeepLink", () => {
     expect(signTarget).toEqual({ screen: null });
   });
 
+  it("maps shared list links to the published watchlist preview", () => {
+    const walletTarget = parseQuickscopeDeepLink("quickscope://list/wallet/42");
+    const tokenTarget = parseQuickscopeDeepLink("https://app.quickscope.gg/list/token/7");
+
+    expect(walletTarget).toEqual({
+      screen: "PublishedWatchlist",
+      params: { source: "deep-link", kind: "wallet", publishedId: 42 },
+    });
+    expect(tokenTarget).toEqual({
+      screen: "PublishedWatchlist",
+      params: { source: "deep-link", kind: "token", publishedId: 7 },
+    });
+  });
+
+  it("falls back to Discovery for malformed shared list links", () => {
+    const fallback = { screen: "Discovery", params: { source: "deep-link" } };
+
+    expect(parseQuickscopeDeepLink("quickscope://list/portfolio/42")).toEqual(fallback);
+    expect(parseQuickscopeDeepLink("quickscope://list/wallet/abc")).toEqual(fallback);
+    expect(parseQuickscopeDeepLink("quickscope://list/token/-3")).toEqual(fallback);
+  });
+
   it("routes dev links to the hidden dev console route", () => {
     const target = parseQuickscopeDeepLink("quickscope://dev");
 
@@ -1,6 +1,7 @@
 import {
   DiscoveryRouteParams,
   PortfolioRouteParams,
+  PublishedWatchlistRouteParams,
   ScopeRouteParams,
   TelegramRouteParams,
   TokenDetailRouteParams,
@@ -37,6 +38,10 @@ export type ParsedDeepLinkTarget =
       screen: "TokenDetail";
       params: TokenDetailRouteParams;
     }
+  | {
+      screen: "PublishedWatchlist";
+      params: PublishedWatchlistRouteParams;
+    }
   | {
       screen: "Dev";
     }
@@ -93,6 +98,15 @@ function toChatId(value: string | null): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+function toPublishedId(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value.trim());
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
 function parseSegmentsFromUrl(url: URL): string[] {
   const pathnameSegments = url.pathname.split("/").filter(Boolean);
 
@@ -162,6 +176,25 @@ function parseTokenDetailLink(url: URL, tokenCandidate?: string): ParsedDeepLink
   };
 }
 
+/** Triggered token alerts (sent via the Telegram bot) link straight to the token */
+function parseAlertLink(url: URL, tokenCandidate?: string): ParsedDeepLinkTarget {
+  const tokenAddress = toAddressIfValid(
+    tokenCandidate ?? url.searchParams.get("mint") ?? url.searchParams.get("token")
+  );
+
+  if (!tokenAddress) {
+    return fallbackToDiscovery();
+  }
+
+  return {
+    screen: "TokenDetail",
+    params: {
+      source: "alert",
+      tokenAddress,
+    },
+  };
+}
+
 function parseTradeLink(url: URL, inPath?: string, outPath?: string): ParsedDeepLinkTarget {
   const inputMintFromQuery = toAddressIfValid(url.searchParams.get("in"));
   const outputMintFromQuery = toAddressIfValid(url.searchParams.get("out"));
@@ -283,6 +316,25 @@ function parseTelegramLink(url: URL, actionPath?: string, tokenPath?: string): P
   };
 }
 
+/** Shared watchlists: `list/token/<id>` or `list/wallet/<id>` */
+function parsePublishedWatchlistLink(url: URL, kindPath?: string, idPath?: string): ParsedDeepLinkTarget {
+  const kind = kindPath?.toLowerCase();
+  const publishedId = toPublishedId(idPath ?? url.searchParams.get("id"));
+
+  if ((kind !== "token" && kind !== "wallet") || publishedId === undefined) {
+    return fallbackToDiscovery();
+  }
+
+  return {
+    screen: "PublishedWatchlist",
+    params: {
+      source: "deep-link",
+      kind,
+      publishedId,
+    },
+  };
+}
+
 function parseScopeLink(): ParsedDeepLinkTarget {
   return {
     screen: "Scope",
@@ -330,6 +382,10 @@ export function parseQuickscopeDeepLink(rawUrl: string): ParsedDeepLinkTarget {
     return parseTokenDetailLink(parsedUrl, second);
   }
 
+  if (firstSegment === "alert" || firstSegment === "alerts") {
+    return parseAlertLink(parsedUrl, second);
+  }
+
   if (firstSegment === "trade") {
     return parseTradeLink(parsedUrl, second, third);
   }
@@ -342,6 +398,10 @@ export function parseQuickscopeDeepLink(rawUrl: string): ParsedDeepLinkTarget {
     return parseTrackingLink(parsedUrl, second);
   }
 
+  if (firstSegment === "list" || firstSegment === "lists") {
+    return parsePublishedWatchlistLink(parsedUrl, second, third);
+  }
+
   if (firstSegment === "scope" || firstSegment === "feeds") {
     return parseScopeLink();
   }
@@ -31,6 +31,13 @@ export type TrackingRouteParams = {
   walletAddress?: string;
 };
 
+export type PublishedWatchlistRouteParams = {
+  source?: DeepLinkMeta["source"] | "tracking";
+  kind: "token" | "wallet";
+  /** Id returned by the publish endpoint, not the owner's private list id */
+  publishedId: number;
+};
+
 export type TelegramRouteParams = {
   source?: DeepLinkMeta["source"];
   action?: "share";
@@ -46,7 +53,7 @@ export type WalletDetailRouteParams = {
 };
 
 export type TokenDetailRouteParams = {
-  source?: DeepLinkMeta["source"] | "discovery-row" | "scope-row" | "portfolio-row";
+  source?: DeepLinkMeta["source"] | "discovery-row" | "scope-row" | "portfolio-row" | "alert";
   tokenAddress: string;
   tokenDecimals?: number;
   symbol?: string;
@@ -83,5 +90,11 @@ export type RootStack = {
   Rewards: undefined;
   Deposit: undefined;
   Settings: undefined;
+  Wallets: undefined;
   Transfer: TransferRouteParams | undefined;
+  Swap: TradeRouteParams | undefined;
+  ReclaimRent: undefined;
+  HiddenTokens: undefined;
+  DcaPlans: undefined;
+  PublishedWatchlist: PublishedWatchlistRouteParams;
 };
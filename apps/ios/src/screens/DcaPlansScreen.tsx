@@ -0,0 +1,378 @@
+/**
+ * DcaPlansScreen — scheduled DCA / TWAP plans with progress, the next slice
+ * countdown, pause / resume / cancel controls and each plan's slice log.
+ * Opened from the drawer; plans are created from the trade sheet's DCA mode.
+ */
+import { useCallback, useEffect, useState } from "react";
+
+import { useNavigation, type NavigationProp } from "@react-navigation/native";
+import { Alert, Linking, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import { LAMPORTS_PER_SOL, truncateAddress } from "@/src/features/account/walletService";
+import { useDcaPlans } from "@/src/features/trade/DcaPlansProvider";
+import {
+  DCA_INTERVAL_PRESETS,
+  type DcaPlan,
+  type DcaSliceRecord,
+} from "@/src/features/trade/dcaSchedule";
+import { formatCompactUsd, formatSol } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
+import type { RootStack } from "@/src/navigation/types";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { Clock } from "@/src/ui/icons";
+
+function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "now";
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+function formatInterval(seconds: number): string {
+  return DCA_INTERVAL_PRESETS.find((preset) => preset.seconds === seconds)?.label ?? formatCountdown(seconds);
+}
+
+function formatSliceAmount(plan: DcaPlan, amount: number): string {
+  return plan.side === "buy" ? `${formatSol(amount / LAMPORTS_PER_SOL)} SOL` : `${(amount / 100).toFixed(2)}%`;
+}
+
+function statusLabel(plan: DcaPlan): string {
+  if (plan.status === "paused") return plan.pausedReason === "failures" ? "Paused · failures" : "Paused";
+  if (plan.status === "active" && plan.heldByGuard) return "Held by guard";
+  return plan.status.charAt(0).toUpperCase() + plan.status.slice(1);
+}
+
+function sliceSignature(slice: DcaSliceRecord): string | undefined {
+  return slice.results.find((r) => r.result?.signature)?.result?.signature;
+}
+
+export function DcaPlansScreen() {
+  const navigation = useNavigation<NavigationProp<RootStack>>();
+  const { plans, pausePlan, resumePlan, cancelPlan, removePlan } = useDcaPlans();
+  const [nowSeconds, setNowSeconds] = useState(() => Math.floor(Date.now() / 1000));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const hasActive = plans.some((plan) => plan.status === "active");
+
+  useEffect(() => {
+    if (!hasActive) return;
+    const interval = setInterval(() => setNowSeconds(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [hasActive]);
+
+  const handleOpenToken = useCallback(
+    (plan: DcaPlan) => {
+      haptics.light();
+      navigation.navigate("TokenDetail", {
+        source: "deep-link",
+        tokenAddress: plan.mint,
+        symbol: plan.tokenSymbol,
+      });
+    },
+    [navigation]
+  );
+
+  const handleCancel = useCallback(
+    (plan: DcaPlan) => {
+      haptics.selection();
+      Alert.alert("Cancel plan?", "Remaining slices won't run. Slices already executed stay filled.", [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Cancel Plan",
+          style: "destructive",
+          onPress: () => {
+            haptics.medium();
+            cancelPlan(plan.id);
+          },
+        },
+      ]);
+    },
+    [cancelPlan]
+  );
+
+  return (
+    <ScrollView style={styles.page} contentContainerStyle={styles.content}>
+      <Text style={styles.summaryLabel}>
+        Plans run while the app is open. Slices missed in the background are shifted later or
+        skipped, per plan — never bunched together.
+      </Text>
+
+      {plans.length === 0 ? (
+        <View style={styles.empty}>
+          <Clock size={20} color={qsColors.textTertiary} />
+          <Text style={styles.emptyText}>
+            No DCA plans. Choose DCA in a token's trade sheet to schedule one.
+          </Text>
+        </View>
+      ) : null}
+
+      {plans.map((plan) => {
+        const failedCount = plan.slices.filter((s) => s.status === "failed").length;
+        const executedCount = plan.slices.filter((s) => s.status === "executed").length;
+        const isLive = plan.status === "active" || plan.status === "paused";
+        const expanded = expandedId === plan.id;
+        const guards = [
+          plan.maxMarketCapUsd !== undefined ? `≤ ${formatCompactUsd(plan.maxMarketCapUsd)}` : null,
+          plan.minMarketCapUsd !== undefined ? `≥ ${formatCompactUsd(plan.minMarketCapUsd)}` : null,
+        ].filter(Boolean);
+
+        return (
+          <View key={plan.id} style={styles.card}>
+            <Pressable style={styles.header} onPress={() => handleOpenToken(plan)}>
+              <Text style={[styles.side, plan.side === "buy" ? styles.buy : styles.sell]}>
+                {plan.side === "buy" ? "BUY" : "SELL"}
+              </Text>
+              <Text style={styles.symbol} numberOfLines={1}>
+                {plan.tokenSymbol ? `$${plan.tokenSymbol}` : truncateAddress(plan.mint)}
+              </Text>
+              <Text style={styles.status}>{statusLabel(plan)}</Text>
+            </Pressable>
+
+            <Text style={styles.meta}>
+              {plan.side === "buy"
+                ? `${formatSol(plan.totalAmount / LAMPORTS_PER_SOL)} SOL`
+                : `${(plan.totalAmount / 100).toFixed(0)}% of position`}
+              {` · ${plan.sliceCount} × every ${formatInterval(plan.intervalSeconds)}`}
+              {` · ${plan.wallets.length} wallet${plan.wallets.length === 1 ? "" : "s"}`}
+              {` · ${plan.catchUp === "shift" ? "Shift" : "Skip"} missed`}
+            </Text>
+            {guards.length > 0 ? <Text style={styles.meta}>MC guard {guards.join(" · ")}</Text> : null}
+
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${(plan.slices.length / plan.sliceCount) * 100}%` }]} />
+            </View>
+            <View style={styles.progressRow}>
+              <Text style={styles.meta}>
+                {executedCount}/{plan.sliceCount} executed
+                {failedCount > 0 ? ` · ${failedCount} failed` : ""}
+              </Text>
+              {plan.status === "active" ? (
+                <Text style={styles.meta}>
+                  {plan.heldByGuard
+                    ? "Waiting for market cap"
+                    : `Next in ${formatCountdown(plan.nextSliceAt - nowSeconds)}`}
+                </Text>
+              ) : null}
+            </View>
+
+            <View style={styles.actions}>
+              {plan.status === "active" ? (
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => {
+                    haptics.selection();
+                    pausePlan(plan.id);
+                  }}
+                >
+                  <Text style={styles.actionText}>Pause</Text>
+                </Pressable>
+              ) : null}
+              {plan.status === "paused" ? (
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => {
+                    haptics.selection();
+                    resumePlan(plan.id);
+                  }}
+                >
+                  <Text style={styles.actionText}>Resume</Text>
+                </Pressable>
+              ) : null}
+              {isLive ? (
+                <Pressable style={styles.actionButton} onPress={() => handleCancel(plan)}>
+                  <Text style={[styles.actionText, styles.destructive]}>Cancel</Text>
+                </Pressable>
+              ) : (
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => {
+                    haptics.selection();
+                    removePlan(plan.id);
+                  }}
+                >
+                  <Text style={styles.actionText}>Remove</Text>
+                </Pressable>
+              )}
+              {plan.slices.length > 0 ? (
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => setExpandedId(expanded ? null : plan.id)}
+                >
+                  <Text style={styles.actionText}>{expanded ? "Hide log" : "Slice log"}</Text>
+                </Pressable>
+              ) : null}
+            </View>
+
+            {expanded ? (
+              <View style={styles.log}>
+                {plan.slices.map((slice) => {
+                  const signature = sliceSignature(slice);
+                  const error = slice.error ?? slice.results.find((r) => r.error)?.error;
+                  return (
+                    <Pressable
+                      key={slice.index}
+                      style={styles.logRow}
+                      disabled={!signature}
+                      onPress={() => {
+                        if (signature) void Linking.openURL(`https://solscan.io/tx/${signature}`);
+                      }}
+                    >
+                      <Text style={styles.logIndex}>#{slice.index + 1}</Text>
+                      <Text
+                        style={[
+                          styles.logStatus,
+                          slice.status === "executed" && styles.buy,
+                          slice.status === "failed" && styles.sell,
+                        ]}
+                      >
+                        {slice.status}
+                      </Text>
+                      <Text style={styles.logDetail} numberOfLines={1}>
+                        {new Date(slice.settledAt * 1000).toLocaleTimeString()}
+                        {slice.status !== "skipped" ? ` · ${formatSliceAmount(plan, slice.amount)}` : ""}
+                        {signature ? ` · ${truncateAddress(signature)}` : error ? ` · ${error}` : ""}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  content: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+    paddingBottom: qsSpacing.xxl,
+  },
+  summaryLabel: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  empty: {
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: qsSpacing.xl,
+  },
+  emptyText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+    textAlign: "center",
+  },
+  card: {
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    padding: qsSpacing.md,
+    gap: qsSpacing.xs,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  side: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.bold,
+  },
+  buy: {
+    color: qsColors.buyGreen,
+  },
+  sell: {
+    color: qsColors.sellRed,
+  },
+  symbol: {
+    flex: 1,
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  status: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  meta: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: qsColors.layer3,
+    overflow: "hidden",
+    marginTop: qsSpacing.xs,
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: qsColors.accent,
+  },
+  progressRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+    marginTop: qsSpacing.xs,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: qsSpacing.md,
+    borderRadius: qsRadius.md,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  actionText: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.accent,
+  },
+  destructive: {
+    color: qsColors.sellRed,
+  },
+  log: {
+    marginTop: qsSpacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: qsColors.borderSubtle,
+  },
+  logRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  logIndex: {
+    width: 28,
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  logStatus: {
+    width: 60,
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  logDetail: {
+    flex: 1,
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+});
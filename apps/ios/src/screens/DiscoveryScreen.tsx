@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import type { BottomTabNavigationProp } from "@react-navigation/bottom-tabs";
 import { useNavigation, type NavigationProp } from "@react-navigation/native";
@@ -20,12 +20,17 @@ import type { SimpleBottomSheetRef } from "@/src/ui/SimpleBottomSheet";
 import { haptics } from "@/src/lib/haptics";
 import { formatCompactUsd, formatPercent } from "@/src/lib/format";
 import {
+  DISCOVERY_PAGE_SIZE,
   fetchDiscoveryTokens,
   type DiscoveryTabId,
   type DiscoveryToken,
 } from "@/src/features/discovery/discoveryService";
 import { useDiscoveryCards } from "@/src/features/discovery/useDiscoveryCards";
-import type { ScopeFilters } from "@/src/features/scope/scopeService";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import { withoutHiddenTokens } from "@/src/features/token/hiddenTokenService";
+import { useHideToken } from "@/src/features/token/useHideToken";
+import type { ScopeFilters } from "@quickscope/core/scope";
+import { appendUniqueByMint } from "@quickscope/core";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import { toast } from "@/src/lib/toast";
 import type { DiscoveryRouteParams, RootStack, RootTabs } from "@/src/navigation/types";
@@ -87,8 +92,14 @@ export function DiscoveryScreen({ rpcClient, params }: DiscoveryScreenProps) {
   const [starredMints, setStarredMints] = useState<Record<string, boolean>>({});
   const [hasMore, setHasMore] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const nextOffsetRef = useRef(0);
   const filterSheetRef = useRef<SimpleBottomSheetRef>(null);
   const [filters, setFilters] = useState<ScopeFilters>({});
+  const { hiddenMints } = useHiddenTokens();
+  const promptHideToken = useHideToken();
+  // Read at fetch time so hiding a token does not reload the list
+  const hiddenMintsRef = useRef(hiddenMints);
+  hiddenMintsRef.current = hiddenMints;
   const filtersActive = hasActiveFilters(filters);
 
   const loadRows = useCallback(
@@ -110,13 +121,20 @@ export function DiscoveryScreen({ rpcClient, params }: DiscoveryScreenProps) {
 
       try {
         const activeFilters = hasActiveFilters(filters) ? filters : undefined;
-        const result = await fetchDiscoveryTokens(rpcClient, activeTab, 25, activeFilters);
+        const result = await fetchDiscoveryTokens(
+          rpcClient,
+          activeTab,
+          DISCOVERY_PAGE_SIZE,
+          activeFilters,
+          hiddenMintsRef.current
+        );
         if (requestId !== requestSeqRef.current) {
           return;
         }
 
         setRows(result.rows);
-        setHasMore(result.rows.length >= 25);
+        nextOffsetRef.current = result.nextOffset;
+        setHasMore(result.hasMore);
         setLastUpdatedMs(result.fetchedAtMs);
         setErrorText(undefined);
         if (__DEV__) {
@@ -166,19 +184,32 @@ export function DiscoveryScreen({ rpcClient, params }: DiscoveryScreenProps) {
   }, [loadRows]);
 
   const loadMore = useCallback(async () => {
-    if (!hasMore || isLoadingMore || isInitialLoading) return;
+    if (!hasMore || isLoadingMore || isInitialLoading || isRefreshing) return;
+    // A reload (tab, filters, refresh) bumps the seq and supersedes this page
+    const requestId = requestSeqRef.current;
     setIsLoadingMore(true);
     try {
       const activeFilters = hasActiveFilters(filters) ? filters : undefined;
-      const result = await fetchDiscoveryTokens(rpcClient, activeTab, 50, activeFilters);
-      setRows(result.rows);
-      setHasMore(false);
+      const result = await fetchDiscoveryTokens(
+        rpcClient,
+        activeTab,
+        DISCOVERY_PAGE_SIZE,
+        activeFilters,
+        hiddenMintsRef.current,
+        nextOffsetRef.current
+      );
+      if (requestId !== requestSeqRef.current) return;
+      setRows((prev) => appendUniqueByMint(prev, result.rows));
+      nextOffsetRef.current = result.nextOffset;
+      setHasMore(result.hasMore);
     } catch {
-      // silently fail — user still has the first 25
+      // silently fail — scrolling again retries the page
     } finally {
       setIsLoadingMore(false);
     }
-  }, [hasMore, isLoadingMore, isInitialLoading, rpcClient, activeTab, filters]);
+  }, [hasMore, isLoadingMore, isInitialLoading, isRefreshing, rpcClient, activeTab, filters]);
+
+  const visibleRows = useMemo(() => withoutHiddenTokens(rows, hiddenMints), [rows, hiddenMints]);
 
   const selectedTokenAddress = params?.tokenAddress;
 
@@ -255,12 +286,13 @@ export function DiscoveryScreen({ rpcClient, params }: DiscoveryScreenProps) {
         telegramUrl={item.telegramUrl}
         websiteUrl={item.websiteUrl}
         onPress={() => handleOpenTokenDetail(item)}
+        onLongPress={() => promptHideToken(item)}
         onToggleStar={() => toggleStar(item.mint)}
         isStarred={Boolean(starredMints[item.mint])}
         highlighted={selectedTokenAddress === item.mint}
       />
     ),
-    [selectedTokenAddress, starredMints, handleOpenTokenDetail, toggleStar]
+    [selectedTokenAddress, starredMints, handleOpenTokenDetail, toggleStar, promptHideToken]
   );
 
   const handleFilterPress = useCallback(() => {
@@ -275,7 +307,7 @@ export function DiscoveryScreen({ rpcClient, params }: DiscoveryScreenProps) {
   return (
     <View style={styles.page}>
     <FlatList
-      data={rows}
+      data={visibleRows}
       keyExtractor={(item) => item.mint}
       contentContainerStyle={styles.content}
       style={styles.listFlex}
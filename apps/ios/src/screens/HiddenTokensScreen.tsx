@@ -0,0 +1,211 @@
+/**
+ * HiddenTokensScreen — tokens the user hid from Discovery, Scope and Search,
+ * with an unhide action per row. Opened from Settings.
+ */
+import { useCallback, useState } from "react";
+
+import { useNavigation, type NavigationProp } from "@react-navigation/native";
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { truncateAddress } from "@/src/features/account/walletService";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import type { HiddenToken } from "@/src/features/token/hiddenTokenService";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import type { RootStack } from "@/src/navigation/types";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { EyeOff } from "@/src/ui/icons";
+import { TokenAvatar } from "@/src/ui/TokenAvatar";
+
+export function HiddenTokensScreen() {
+  const navigation = useNavigation<NavigationProp<RootStack>>();
+  const { hiddenTokens, isLoading, error, refresh, unhide } = useHiddenTokens();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = useCallback(() => {
+    haptics.light();
+    setIsRefreshing(true);
+    void refresh().finally(() => setIsRefreshing(false));
+  }, [refresh]);
+
+  const handleOpen = useCallback(
+    (token: HiddenToken) => {
+      haptics.light();
+      navigation.navigate("TokenDetail", {
+        source: "deep-link",
+        tokenAddress: token.mint,
+        symbol: token.symbol,
+        name: token.name,
+        imageUri: token.imageUri,
+      });
+    },
+    [navigation]
+  );
+
+  const handleUnhide = useCallback(
+    (token: HiddenToken) => {
+      haptics.selection();
+      unhide(token.mint)
+        .then(() => {
+          toast.success("Token unhidden", token.symbol ? `$${token.symbol}` : truncateAddress(token.mint));
+        })
+        .catch(() => {
+          toast.error("Hidden tokens", "Failed to unhide token");
+        });
+    },
+    [unhide]
+  );
+
+  if (isLoading && hiddenTokens.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={qsColors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.page}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          tintColor={qsColors.textTertiary}
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+        />
+      }
+    >
+      <Text style={styles.summaryLabel}>
+        Hidden tokens never appear in Discovery, Scope, Search or the discovery cards.
+      </Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {hiddenTokens.length === 0 && !error ? (
+        <View style={styles.empty}>
+          <EyeOff size={20} color={qsColors.textTertiary} />
+          <Text style={styles.emptyText}>
+            No hidden tokens. Long-press a token in a list to hide it.
+          </Text>
+        </View>
+      ) : null}
+
+      {hiddenTokens.length > 0 ? (
+        <View style={styles.card}>
+          {hiddenTokens.map((token) => (
+            <Pressable
+              key={token.mint}
+              style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+              onPress={() => handleOpen(token)}
+            >
+              <TokenAvatar uri={token.imageUri} size={28} />
+              <View style={styles.info}>
+                <Text style={styles.symbol} numberOfLines={1}>
+                  {token.symbol ?? truncateAddress(token.mint)}
+                </Text>
+                <Text style={styles.meta} numberOfLines={1}>
+                  {token.name ? `${token.name} · ` : ""}
+                  {truncateAddress(token.mint)}
+                </Text>
+              </View>
+              <Pressable style={styles.unhideButton} hitSlop={8} onPress={() => handleUnhide(token)}>
+                <Text style={styles.unhideText}>Unhide</Text>
+              </Pressable>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer0,
+  },
+  content: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+    paddingBottom: qsSpacing.xxl,
+  },
+  summaryLabel: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  errorText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+  },
+  empty: {
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: qsSpacing.xl,
+  },
+  emptyText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+    textAlign: "center",
+  },
+  card: {
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  rowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  symbol: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  meta: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  unhideButton: {
+    paddingVertical: 6,
+    paddingHorizontal: qsSpacing.md,
+    borderRadius: qsRadius.md,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  unhideText: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.accent,
+  },
+});
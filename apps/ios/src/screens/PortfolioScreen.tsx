@@ -23,7 +23,14 @@ import { EmptyState } from "@/src/ui/EmptyState";
 import { PnlChart } from "@/src/ui/PnlChart";
 import { SkeletonRows } from "@/src/ui/Skeleton";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
-import { ChevronDown, ChevronUp, SolanaIcon, Wallet as WalletIcon } from "@/src/ui/icons";
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Layers,
+  SolanaIcon,
+  Wallet as WalletIcon,
+} from "@/src/ui/icons";
 
 import {
   formatCompactUsd,
@@ -35,15 +42,19 @@ import {
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
 import {
-  computeCumulativePnl,
+  computeCombinedPnl,
+  computeRealizedPnl,
+  fetchMultiWalletPortfolio,
   fetchTraderOverview,
   fetchTraderPositions,
-  fetchTransactionHistory,
+  fetchTransactionHistoryPages,
   quoteToUsd,
   type PnlDataPoint,
+  type AggregatedPosition,
   type TraderOverview,
   type Position,
-} from "@/src/features/portfolio/portfolioService";
+  type TransactionsResponse,
+} from "@quickscope/core/portfolio";
 import {
   fetchActiveWallets,
   truncateAddress,
@@ -62,11 +73,20 @@ if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental
 }
 
 const PAGE_SIZE = 20;
+const ALL_WALLETS_POSITION_LIMIT = 100;
+/** History depth behind the realized P&L chart and the Top Trades tab */
+const PNL_HISTORY_MAX_ROWS = 1000;
 const SCREEN_WIDTH = Dimensions.get("window").width;
 
 const TABS = ["Positions", "Top Trades", "History", "Orders"] as const;
 type TabId = (typeof TABS)[number];
 
+/** Trades, history and orders are per-wallet views, so the combined mode only shows positions */
+const ALL_WALLETS_TABS: readonly TabId[] = ["Positions"];
+
+/** Picker key for the combined view across every active wallet */
+const ALL_WALLETS_KEY = "all";
+
 type PortfolioScreenProps = {
   rpcClient: RpcClient;
   params?: PortfolioRouteParams;
@@ -124,15 +144,17 @@ function WalletAvatar({ address, size = 42 }: { address: string | null; size?: n
 // -- Underline Tab Bar --
 
 function TabBar({
+  tabs,
   activeTab,
   onTabPress,
 }: {
+  tabs: readonly TabId[];
   activeTab: TabId;
   onTabPress: (tab: TabId) => void;
 }) {
   return (
     <View style={styles.tabBar}>
-      {TABS.map((tab) => {
+      {tabs.map((tab) => {
         const isActive = tab === activeTab;
         return (
           <Pressable
@@ -188,12 +210,14 @@ function PositionRowItem({
   navigation,
   isExpanded,
   onToggleExpand,
+  walletNames,
 }: {
-  position: Position;
+  position: Position | AggregatedPosition;
   solPriceUsd: number;
   navigation: NativeStackNavigationProp<RootStack>;
   isExpanded: boolean;
   onToggleExpand: (mint: string) => void;
+  walletNames: Record<string, string>;
 }) {
   const meta = position.token_info;
   const symbol = meta?.symbol ?? "UNK";
@@ -213,6 +237,8 @@ function PositionRowItem({
   const boughtUsd = position.bought_usd ?? toUsd(position.bought_quote ?? 0);
   const soldUsd = position.sold_usd ?? toUsd(position.sold_quote ?? 0);
 
+  const walletBreakdown = "wallets" in position ? position.wallets : [];
+
   const handlePress = useCallback(() => onToggleExpand(mint), [onToggleExpand, mint]);
 
   return (
@@ -246,6 +272,34 @@ function PositionRowItem({
             <MetricCell label="Bought" value={formatCompactUsd(boughtUsd || undefined)} />
             <MetricCell label="Sold" value={formatCompactUsd(soldUsd || undefined)} />
           </View>
+          {walletBreakdown.length > 0 ? (
+            <View style={styles.breakdown}>
+              {walletBreakdown.map((walletPosition) => {
+                // Each wallet's row keeps its own quote asset; the merged row is in USD
+                const walletToUsd = (q: number) => quoteToUsd(q, walletPosition.token_info, solPriceUsd);
+                const walletPnlUsd = walletToUsd(walletPosition.total_pnl_quote ?? 0);
+                return (
+                  <View key={walletPosition.wallet} style={styles.breakdownRow}>
+                    <WalletAvatar address={walletPosition.wallet} size={18} />
+                    <Text style={styles.breakdownName} numberOfLines={1}>
+                      {walletNames[walletPosition.wallet] ?? truncateAddress(walletPosition.wallet)}
+                    </Text>
+                    <Text style={styles.breakdownValue}>
+                      {formatCompactUsd(walletToUsd(walletPosition.position_value_quote ?? 0))}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.breakdownPnl,
+                        walletPnlUsd >= 0 ? styles.pnlPositive : styles.pnlNegative,
+                      ]}
+                    >
+                      {formatSignedUsd(walletPnlUsd)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          ) : null}
           <AnimatedPressable
             style={styles.tradeButton}
             onPress={() =>
@@ -273,6 +327,7 @@ function PositionRowItem({
 function ListHeader({
   walletAddress,
   walletLabel,
+  isAllWallets,
   wallets,
   showWalletPicker,
   onToggleWalletPicker,
@@ -281,9 +336,11 @@ function ListHeader({
   pnlData,
   activeTab,
   onTabPress,
+  onReclaim,
 }: {
   walletAddress: string | null;
   walletLabel: string;
+  isAllWallets: boolean;
   wallets: UserWalletInfo[];
   showWalletPicker: boolean;
   onToggleWalletPicker: () => void;
@@ -292,6 +349,8 @@ function ListHeader({
   pnlData: PnlDataPoint[];
   activeTab: TabId;
   onTabPress: (tab: TabId) => void;
+  /** Omitted when signed out — reclaim runs against the account's wallets */
+  onReclaim?: () => void;
 }) {
   const chartWidth = SCREEN_WIDTH - qsSpacing.md * 2;
 
@@ -301,11 +360,19 @@ function ListHeader({
         style={styles.walletCard}
         onPress={wallets.length > 1 ? onToggleWalletPicker : undefined}
       >
-        <WalletAvatar address={walletAddress} />
+        {isAllWallets ? (
+          <View style={styles.allWalletsAvatar}>
+            <Layers size={20} color={qsColors.textSecondary} />
+          </View>
+        ) : (
+          <WalletAvatar address={walletAddress} />
+        )}
         <View style={styles.walletText}>
           <Text style={styles.walletName}>{walletLabel}</Text>
           <Text style={styles.walletAddr}>
-            {formatWalletAddress(walletAddress ?? undefined)}
+            {isAllWallets
+              ? `${wallets.length} wallets combined`
+              : formatWalletAddress(walletAddress ?? undefined)}
           </Text>
         </View>
         {wallets.length > 1 && (
@@ -320,8 +387,24 @@ function ListHeader({
       {/* Wallet picker dropdown */}
       {showWalletPicker && wallets.length > 1 && (
         <View style={styles.walletPickerList}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.walletPickerRow,
+              isAllWallets && styles.walletPickerRowActive,
+              pressed && styles.walletPickerRowPressed,
+            ]}
+            onPress={() => onSelectWallet(ALL_WALLETS_KEY)}
+          >
+            <View style={[styles.allWalletsAvatar, styles.allWalletsAvatarSmall]}>
+              <Layers size={14} color={qsColors.textSecondary} />
+            </View>
+            <View style={styles.walletPickerInfo}>
+              <Text style={styles.walletPickerName}>All wallets</Text>
+              <Text style={styles.walletPickerKey}>{wallets.length} wallets</Text>
+            </View>
+          </Pressable>
           {wallets.map((w) => {
-            const isActive = w.public_key === walletAddress;
+            const isActive = !isAllWallets && w.public_key === walletAddress;
             return (
               <Pressable
                 key={w.public_key}
@@ -361,11 +444,26 @@ function ListHeader({
         ))}
       </View>
 
+      {onReclaim ? (
+        <Pressable
+          style={({ pressed }) => [styles.reclaimRow, pressed && styles.walletPickerRowPressed]}
+          onPress={onReclaim}
+        >
+          <SolanaIcon size={14} />
+          <Text style={styles.reclaimText}>Reclaim SOL from empty token accounts</Text>
+          <ChevronRight size={14} color={qsColors.textTertiary} />
+        </Pressable>
+      ) : null}
+
       {pnlData.length >= 2 ? (
         <PnlChart data={pnlData} width={chartWidth} />
       ) : null}
 
-      <TabBar activeTab={activeTab} onTabPress={onTabPress} />
+      <TabBar
+        tabs={isAllWallets ? ALL_WALLETS_TABS : TABS}
+        activeTab={activeTab}
+        onTabPress={onTabPress}
+      />
     </View>
   );
 }
@@ -381,7 +479,7 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
   const [positions, setPositions] = useState<Position[]>([]);
   const [solPriceUsd, setSolPriceUsd] = useState(0);
   const [solBalance, setSolBalance] = useState(0);
-  const [pnlData, setPnlData] = useState<PnlDataPoint[]>([]);
+  const [pnlHistory, setPnlHistory] = useState<TransactionsResponse | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -413,17 +511,75 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
     return () => { cancelled = true; };
   }, [rpcClient, hasValidAccessToken]);
 
-  // Active wallet address — selected wallet or primary
-  const walletAddress = selectedWalletKey ?? primaryAccountAddress;
+  // Active wallet address — selected wallet or primary. Null in the combined view.
+  const isAllWallets = selectedWalletKey === ALL_WALLETS_KEY && allWallets.length > 1;
+  const walletAddress = isAllWallets
+    ? null
+    : selectedWalletKey === ALL_WALLETS_KEY
+      ? primaryAccountAddress
+      : (selectedWalletKey ?? primaryAccountAddress);
   const activeWallet = allWallets.find((w) => w.public_key === walletAddress);
-  const walletLabel = activeWallet?.name ?? "Primary Wallet";
+  const walletLabel = isAllWallets ? "All wallets" : (activeWallet?.name ?? "Primary Wallet");
+  const allWalletKeys = useMemo(() => allWallets.map((w) => w.public_key), [allWallets]);
+  const walletNames = useMemo(
+    () => Object.fromEntries(allWallets.map((w) => [w.public_key, w.name])),
+    [allWallets]
+  );
+
+  const loadAllWallets = useCallback(
+    (options?: { refreshing?: boolean }) => {
+      const requestId = ++requestRef.current;
+      if (options?.refreshing) {
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+      }
+      setErrorText(null);
+
+      Promise.all([
+        fetchMultiWalletPortfolio(rpcClient, allWalletKeys, {
+          limit: ALL_WALLETS_POSITION_LIMIT,
+          sort_column: "position_value_quote",
+          include_zero_balances: false,
+        }),
+        fetchTransactionHistoryPages(rpcClient, allWalletKeys, { maxRows: PNL_HISTORY_MAX_ROWS }),
+      ])
+        .then(([portfolio, txResponse]) => {
+          if (requestId !== requestRef.current) return;
+          setOverview(portfolio.overview);
+          setSolPriceUsd(portfolio.solPriceUsd);
+          setSolBalance(portfolio.solBalance);
+          setPositions(portfolio.positions);
+          // Merged rows can't be paged — the combined view loads one larger batch
+          offsetRef2.current = portfolio.positions.length;
+          setHasMore(false);
+
+          setPnlHistory(txResponse);
+        })
+        .catch((error) => {
+          if (requestId !== requestRef.current) return;
+          setErrorText(error instanceof Error ? error.message : "Failed to load portfolio.");
+        })
+        .finally(() => {
+          if (requestId !== requestRef.current) return;
+          setIsLoading(false);
+          setIsRefreshing(false);
+        });
+    },
+    [rpcClient, allWalletKeys],
+  );
 
   const loadData = useCallback(
     (options?: { refreshing?: boolean }) => {
+      if (isAllWallets) {
+        loadAllWallets(options);
+        return;
+      }
+
       if (!walletAddress) {
         setOverview(null);
         setPositions([]);
-        setPnlData([]);
+        setPnlHistory(null);
         setIsLoading(false);
         return;
       }
@@ -443,7 +599,7 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
           offset: 0,
           sort_column: "position_value_quote",
         }),
-        fetchTransactionHistory(rpcClient, walletAddress, 200),
+        fetchTransactionHistoryPages(rpcClient, walletAddress, { maxRows: PNL_HISTORY_MAX_ROWS }),
       ])
         .then(([nextOverview, positionsResponse, txResponse]) => {
           if (requestId !== requestRef.current) return;
@@ -454,8 +610,7 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
           offsetRef2.current = positionsResponse.positions.length;
           setHasMore(positionsResponse.positions.length >= PAGE_SIZE);
 
-          const txRows = txResponse.table?.rows ?? [];
-          setPnlData(computeCumulativePnl(txRows, positionsResponse.sol_price_usd));
+          setPnlHistory(txResponse);
         })
         .catch((error) => {
           if (requestId !== requestRef.current) return;
@@ -467,13 +622,18 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
           setIsRefreshing(false);
         });
     },
-    [rpcClient, walletAddress],
+    [rpcClient, walletAddress, isAllWallets, loadAllWallets],
   );
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  const pnlData = useMemo(
+    () => computeRealizedPnl(pnlHistory?.table?.rows ?? []).cumulative,
+    [pnlHistory],
+  );
+
   const handleRefresh = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setExpandedMint(null);
@@ -508,8 +668,7 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
 
   const stats = useMemo(() => {
     const balanceUsd = solBalance ? solBalance * solPriceUsd : undefined;
-    const totalPnl = positions.reduce((sum, p) => sum + quoteToUsd(p.total_pnl_quote ?? 0, p.token_info, solPriceUsd), 0);
-    const unrealizedPnl = positions.reduce((sum, p) => sum + quoteToUsd(p.unrealized_pnl_quote ?? 0, p.token_info, solPriceUsd), 0);
+    const { totalPnlUsd: totalPnl, unrealizedPnlUsd: unrealizedPnl } = computeCombinedPnl(positions, solPriceUsd);
 
     return [
       { label: "Balance", value: formatCompactUsd(balanceUsd) },
@@ -537,9 +696,10 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
         navigation={navigation}
         isExpanded={expandedMint === (item.token_info?.mint ?? "")}
         onToggleExpand={handleToggleExpand}
+        walletNames={walletNames}
       />
     ),
-    [solPriceUsd, navigation, expandedMint, handleToggleExpand],
+    [solPriceUsd, navigation, expandedMint, handleToggleExpand, walletNames],
   );
 
   const handleToggleWalletPicker = useCallback(() => {
@@ -552,13 +712,20 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
     setSelectedWalletKey(key);
     setShowWalletPicker(false);
     setExpandedMint(null);
+    if (key === ALL_WALLETS_KEY) setActiveTab("Positions");
   }, []);
 
+  const handleReclaim = useCallback(() => {
+    haptics.selection();
+    navigation.navigate("ReclaimRent");
+  }, [navigation]);
+
   const listHeader = useMemo(
     () => (
       <ListHeader
         walletAddress={walletAddress ?? null}
         walletLabel={walletLabel}
+        isAllWallets={isAllWallets}
         wallets={allWallets}
         showWalletPicker={showWalletPicker}
         onToggleWalletPicker={handleToggleWalletPicker}
@@ -567,9 +734,10 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
         pnlData={pnlData}
         activeTab={activeTab}
         onTabPress={handleTabPress}
+        onReclaim={hasValidAccessToken ? handleReclaim : undefined}
       />
     ),
-    [walletAddress, walletLabel, allWallets, showWalletPicker, handleToggleWalletPicker, handleSelectWallet, stats, pnlData, activeTab, handleTabPress],
+    [walletAddress, walletLabel, isAllWallets, allWallets, showWalletPicker, handleToggleWalletPicker, handleSelectWallet, stats, pnlData, activeTab, handleTabPress, hasValidAccessToken, handleReclaim],
   );
 
   const listEmpty = useMemo(
@@ -603,7 +771,12 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
     return (
       <View style={styles.page}>
         <View style={styles.headerPad}>{listHeader}</View>
-        <TopTradesTab rpcClient={rpcClient} walletAddress={walletAddress ?? null} />
+        <TopTradesTab
+          history={pnlHistory}
+          isLoading={isLoading}
+          isRefreshing={isRefreshing}
+          onRefresh={handleRefresh}
+        />
       </View>
     );
   }
@@ -612,7 +785,12 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
     return (
       <View style={styles.page}>
         <View style={styles.headerPad}>{listHeader}</View>
-        <HistoryTab rpcClient={rpcClient} walletAddress={walletAddress ?? null} solPriceUsd={solPriceUsd} />
+        <HistoryTab
+          rpcClient={rpcClient}
+          walletAddress={walletAddress ?? null}
+          solPriceUsd={solPriceUsd}
+          allWalletAddresses={allWalletKeys}
+        />
       </View>
     );
   }
@@ -621,7 +799,7 @@ export function PortfolioScreen({ rpcClient }: PortfolioScreenProps) {
     return (
       <View style={styles.page}>
         <View style={styles.headerPad}>{listHeader}</View>
-        <PortfolioOrdersTab />
+        <PortfolioOrdersTab rpcClient={rpcClient} walletAddress={walletAddress ?? null} />
       </View>
     );
   }
@@ -791,6 +969,38 @@ const styles = StyleSheet.create({
     fontWeight: qsTypography.weight.bold,
     fontVariant: ["tabular-nums"],
   },
+  reclaimRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.md,
+    backgroundColor: qsColors.layer1,
+    paddingVertical: 10,
+    paddingHorizontal: qsSpacing.sm,
+  },
+  reclaimText: {
+    flex: 1,
+    color: qsColors.textSecondary,
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.medium,
+  },
+  allWalletsAvatar: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer3,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  allWalletsAvatarSmall: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
   // -- Position rows --
   positionRow: {
     marginHorizontal: qsSpacing.md,
@@ -867,6 +1077,32 @@ const styles = StyleSheet.create({
     fontWeight: qsTypography.weight.semi,
     fontVariant: ["tabular-nums"],
   },
+  breakdown: {
+    gap: qsSpacing.xs,
+  },
+  breakdownRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+  },
+  breakdownName: {
+    flex: 1,
+    color: qsColors.textSecondary,
+    fontSize: qsTypography.size.xxs,
+  },
+  breakdownValue: {
+    color: qsColors.textPrimary,
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    fontVariant: ["tabular-nums"],
+  },
+  breakdownPnl: {
+    minWidth: 64,
+    textAlign: "right",
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    fontVariant: ["tabular-nums"],
+  },
   tradeButton: {
     backgroundColor: qsColors.accent,
     borderRadius: qsRadius.sm,
@@ -0,0 +1,459 @@
+/**
+ * PublishedWatchlistScreen — preview of a token or wallet list someone shared
+ * via `quickscope://list/<kind>/<id>`. The list is public, so the preview works
+ * signed out; subscribing needs a session and adds the list read-only to the
+ * Tracking list drawer.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { useNavigation, type NavigationProp } from "@react-navigation/native";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import { truncateAddress } from "@/src/features/account/walletService";
+import {
+  addSubscribedWatchlist,
+  getSubscribedWatchlists,
+  removeSubscribedWatchlist,
+} from "@/src/features/tracking/subscribedWatchlistsStorage";
+import {
+  fetchPublishedWalletWatchlist,
+  subscribeToWalletWatchlist,
+  unsubscribeFromWalletWatchlist,
+  type TrackedWallet,
+} from "@/src/features/tracking/trackingService";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { formatCompactUsd, formatPercent } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import type { PublishedWatchlistRouteParams, RootStack } from "@/src/navigation/types";
+import {
+  fetchPublishedTokenWatchlist,
+  fetchWatchlistTokens,
+  subscribeToTokenWatchlist,
+  unsubscribeFromTokenWatchlist,
+  type EnrichedWatchlistToken,
+} from "@quickscope/core/watchlist";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { EmptyState } from "@/src/ui/EmptyState";
+import { Eye, Wallet } from "@/src/ui/icons";
+import { TokenAvatar } from "@/src/ui/TokenAvatar";
+
+type Props = {
+  rpcClient: RpcClient;
+  params: PublishedWatchlistRouteParams;
+};
+
+type PreviewRow =
+  | { type: "token"; data: EnrichedWatchlistToken }
+  | { type: "wallet"; data: TrackedWallet };
+
+type ListPreview = {
+  name: string;
+  description?: string;
+  rows: PreviewRow[];
+};
+
+export function PublishedWatchlistScreen({ rpcClient, params }: Props) {
+  const { kind, publishedId } = params;
+  const navigation = useNavigation<NavigationProp<RootStack>>();
+  const { status, primaryAccountAddress } = useAuthSession();
+  const requestRef = useRef(0);
+
+  const [preview, setPreview] = useState<ListPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [errorText, setErrorText] = useState<string | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadPreview = useCallback(
+    async (options?: { refreshing?: boolean }) => {
+      const requestId = ++requestRef.current;
+      if (options?.refreshing) setIsRefreshing(true);
+      else setIsLoading(true);
+      setErrorText(null);
+
+      try {
+        let next: ListPreview;
+        if (kind === "token") {
+          const list = await fetchPublishedTokenWatchlist(rpcClient, publishedId);
+          const tokens = await fetchWatchlistTokens(rpcClient, list.tokens);
+          next = {
+            name: list.name,
+            description: list.description,
+            rows: tokens.map((t) => ({ type: "token" as const, data: t })),
+          };
+        } else {
+          const response = await fetchPublishedWalletWatchlist(rpcClient, publishedId);
+          next = {
+            name: response.wallet_watchlist?.name ?? "Wallet list",
+            description: response.wallet_watchlist?.description,
+            rows: (response.wallets ?? []).map((w) => ({ type: "wallet" as const, data: w })),
+          };
+        }
+        if (requestId !== requestRef.current) return;
+        setPreview(next);
+      } catch (error) {
+        if (requestId !== requestRef.current) return;
+        setErrorText(error instanceof Error ? error.message : "This list is unavailable.");
+      } finally {
+        if (requestId !== requestRef.current) return;
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [rpcClient, kind, publishedId]
+  );
+
+  useEffect(() => {
+    void loadPreview();
+  }, [loadPreview]);
+
+  useEffect(() => {
+    void getSubscribedWatchlists(primaryAccountAddress).then((entries) => {
+      setIsSubscribed(entries.some((e) => e.kind === kind && e.publishedId === publishedId));
+    });
+  }, [primaryAccountAddress, kind, publishedId]);
+
+  useEffect(() => {
+    if (preview) navigation.setOptions({ title: preview.name });
+  }, [navigation, preview]);
+
+  const handleToggleSubscription = useCallback(async () => {
+    if (!preview || isSubmitting) return;
+    if (status !== "authenticated") {
+      toast.info("Sign in required", "Connect a wallet to subscribe to shared lists.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (isSubscribed) {
+        if (kind === "token") await unsubscribeFromTokenWatchlist(rpcClient, publishedId);
+        else await unsubscribeFromWalletWatchlist(rpcClient, publishedId);
+        await removeSubscribedWatchlist(primaryAccountAddress, kind, publishedId);
+        setIsSubscribed(false);
+        haptics.light();
+        toast.info("Unsubscribed", preview.name);
+      } else {
+        if (kind === "token") await subscribeToTokenWatchlist(rpcClient, publishedId);
+        else await subscribeToWalletWatchlist(rpcClient, publishedId);
+        await addSubscribedWatchlist(primaryAccountAddress, { kind, publishedId, name: preview.name });
+        setIsSubscribed(true);
+        haptics.success();
+        toast.success("Subscribed", `${preview.name} is now in your Tracking lists.`);
+      }
+    } catch (err) {
+      toast.error("Subscription failed", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [preview, isSubmitting, status, isSubscribed, kind, rpcClient, publishedId, primaryAccountAddress]);
+
+  const countLabel = useMemo(() => {
+    const count = preview?.rows.length ?? 0;
+    const noun = kind === "token" ? "token" : "wallet";
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+  }, [preview, kind]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={qsColors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.page}>
+      <FlatList
+        data={preview?.rows ?? []}
+        keyExtractor={(item) => (item.type === "token" ? item.data.mint : item.data.public_key)}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            tintColor={qsColors.textTertiary}
+            refreshing={isRefreshing}
+            onRefresh={() => {
+              haptics.light();
+              void loadPreview({ refreshing: true });
+            }}
+          />
+        }
+        ListHeaderComponent={
+          <View style={styles.header}>
+            {preview ? (
+              <>
+                <Text style={styles.title}>{preview.name}</Text>
+                {preview.description ? (
+                  <Text style={styles.description}>{preview.description}</Text>
+                ) : null}
+                <View style={styles.metaRow}>
+                  <Eye size={14} color={qsColors.textSubtle} />
+                  <Text style={styles.metaText}>
+                    Shared {kind} list · {countLabel}
+                  </Text>
+                </View>
+              </>
+            ) : null}
+            {errorText ? (
+              <View style={styles.errorBox}>
+                <Text style={styles.errorText}>{errorText}</Text>
+                <Pressable style={styles.retryButton} onPress={() => void loadPreview()}>
+                  <Text style={styles.retryButtonText}>Retry</Text>
+                </Pressable>
+              </View>
+            ) : null}
+          </View>
+        }
+        renderItem={({ item }) => {
+          if (item.type === "token") {
+            const token = item.data;
+            const isPositive = token.oneHourChangePercent >= 0;
+            return (
+              <Pressable
+                style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+                onPress={() =>
+                  navigation.navigate("TokenDetail", {
+                    source: "deep-link",
+                    tokenAddress: token.mint,
+                    symbol: token.symbol,
+                  })
+                }
+              >
+                <TokenAvatar uri={token.imageUri} size={40} />
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>
+                    {token.symbol}
+                  </Text>
+                  <Text style={styles.rowMeta} numberOfLines={1}>
+                    {token.name}
+                  </Text>
+                </View>
+                <View style={styles.rowRight}>
+                  <Text style={styles.rowValue}>{formatCompactUsd(token.marketCapUsd)}</Text>
+                  <Text
+                    style={[
+                      styles.rowMeta,
+                      { color: isPositive ? qsColors.buyGreen : qsColors.sellRed },
+                    ]}
+                  >
+                    {formatPercent(token.oneHourChangePercent)}
+                  </Text>
+                </View>
+              </Pressable>
+            );
+          }
+
+          const wallet = item.data;
+          return (
+            <Pressable
+              style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+              onPress={() =>
+                navigation.navigate("WalletDetail", {
+                  source: "deep-link",
+                  walletAddress: wallet.public_key,
+                  walletName: wallet.name,
+                  walletEmoji: wallet.emoji,
+                })
+              }
+            >
+              <View style={styles.walletAvatar}>
+                {wallet.emoji ? (
+                  <Text style={styles.walletEmoji}>{wallet.emoji}</Text>
+                ) : (
+                  <Wallet size={16} color={qsColors.textTertiary} />
+                )}
+              </View>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle} numberOfLines={1}>
+                  {wallet.name || truncateAddress(wallet.public_key)}
+                </Text>
+                <Text style={styles.rowMeta}>{truncateAddress(wallet.public_key)}</Text>
+              </View>
+            </Pressable>
+          );
+        }}
+        ListEmptyComponent={
+          preview ? (
+            <EmptyState
+              icon={kind === "token" ? Eye : Wallet}
+              title="This list is empty"
+              subtitle="The owner hasn't added anything yet."
+            />
+          ) : null
+        }
+      />
+
+      {preview ? (
+        <View style={styles.footer}>
+          <Pressable
+            style={[
+              styles.subscribeButton,
+              isSubscribed && styles.subscribeButtonSecondary,
+              isSubmitting && styles.subscribeButtonDisabled,
+            ]}
+            disabled={isSubmitting}
+            onPress={() => void handleToggleSubscription()}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color={qsColors.textPrimary} />
+            ) : (
+              <Text style={styles.subscribeButtonText}>
+                {isSubscribed ? "Unsubscribe" : "Subscribe"}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer0,
+  },
+  content: {
+    padding: qsSpacing.lg,
+    paddingBottom: 120,
+  },
+  header: {
+    gap: qsSpacing.xs,
+    marginBottom: qsSpacing.md,
+  },
+  title: {
+    fontSize: qsTypography.size.xl,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  description: {
+    fontSize: qsTypography.size.sm,
+    color: qsColors.textSecondary,
+  },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+    marginTop: qsSpacing.xs,
+  },
+  metaText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  errorBox: {
+    backgroundColor: qsColors.layer1,
+    borderRadius: qsRadius.md,
+    padding: qsSpacing.md,
+    gap: qsSpacing.sm,
+  },
+  errorText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.sellRed,
+  },
+  retryButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+    paddingHorizontal: qsSpacing.md,
+    borderRadius: qsRadius.sm,
+    backgroundColor: qsColors.layer2,
+  },
+  retryButtonText: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  rowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+  rowRight: {
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  rowValue: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  walletAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer2,
+  },
+  walletEmoji: {
+    fontSize: 18,
+  },
+  footer: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: qsSpacing.lg,
+    paddingBottom: qsSpacing.xxl,
+    backgroundColor: qsColors.layer0,
+    borderTopWidth: 1,
+    borderTopColor: qsColors.borderDefault,
+  },
+  subscribeButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  subscribeButtonSecondary: {
+    backgroundColor: qsColors.layer2,
+  },
+  subscribeButtonDisabled: {
+    opacity: 0.4,
+  },
+  subscribeButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+});
@@ -0,0 +1,539 @@
+/**
+ * ReclaimRentScreen — close leftover token accounts across all wallets and
+ * recover their rent. Empty accounts are preselected; accounts that still hold
+ * tokens must be picked explicitly and are confirmed before closing.
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import {
+  accountsWithBalance,
+  buildReclaimPlan,
+  executeMultiWalletReclaim,
+  lamportsToSol,
+  reclaimResultMessage,
+  sumRentLamports,
+  type BatchReclaimResult,
+  type ReclaimableTokenAccount,
+  type WalletReclaimInfo,
+} from "@/src/features/account/rentReclaimService";
+import { useReclaimableAccounts } from "@/src/features/account/useReclaimableAccounts";
+import { truncateAddress, type UserWalletInfo } from "@/src/features/account/walletService";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { AlertTriangle, Check, ChevronDown, ChevronUp } from "@/src/ui/icons";
+
+type Props = { rpcClient: RpcClient };
+
+function formatSolAmount(lamports: number): string {
+  return `${lamportsToSol(lamports).toFixed(4)} SOL`;
+}
+
+/** Empty accounts are safe to close, so they start selected. */
+function defaultSelection(infos: Record<string, WalletReclaimInfo>): Set<string> {
+  const selected = new Set<string>();
+  for (const info of Object.values(infos)) {
+    for (const account of info.accounts) {
+      if (account.uiAmount <= 0) selected.add(account.address);
+    }
+  }
+  return selected;
+}
+
+export function ReclaimRentScreen({ rpcClient }: Props) {
+  const { wallets, infos, isLoading, error, refresh } = useReclaimableAccounts(rpcClient);
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastResult, setLastResult] = useState<BatchReclaimResult | null>(null);
+
+  useEffect(() => {
+    setSelected(defaultSelection(infos));
+  }, [infos]);
+
+  const walletsWithAccounts = useMemo(
+    () => wallets.filter((w) => (infos[w.public_key]?.accounts.length ?? 0) > 0),
+    [wallets, infos]
+  );
+
+  const totalLamports = useMemo(
+    () => Object.values(infos).reduce((sum, info) => sum + info.totalRentLamports, 0),
+    [infos]
+  );
+
+  const plan = useMemo(
+    () => buildReclaimPlan(wallets, infos, selected),
+    [wallets, infos, selected]
+  );
+  const selectedAccounts = useMemo(() => plan.flatMap((p) => p.accounts), [plan]);
+  const selectedLamports = sumRentLamports(selectedAccounts);
+
+  const handleRefresh = useCallback(() => {
+    haptics.light();
+    setIsRefreshing(true);
+    void refresh().finally(() => setIsRefreshing(false));
+  }, [refresh]);
+
+  const toggleAccounts = useCallback((accounts: ReclaimableTokenAccount[]) => {
+    haptics.selection();
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const allSelected = accounts.every((a) => next.has(a.address));
+      for (const account of accounts) {
+        if (allSelected) next.delete(account.address);
+        else next.add(account.address);
+      }
+      return next;
+    });
+  }, []);
+
+  const runReclaim = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await executeMultiWalletReclaim({ rpcClient, plan });
+      setLastResult(result);
+
+      const msg = reclaimResultMessage(result);
+      if (msg.type === "success") toast.success(msg.title, msg.message);
+      else if (msg.type === "warning") toast.info(msg.title, msg.message);
+      else toast.error(msg.title, msg.message);
+
+      void refresh();
+    } catch (err) {
+      toast.error("Reclaim SOL", err instanceof Error ? err.message : "Reclaim failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [rpcClient, plan, refresh]);
+
+  const handleReclaim = useCallback(() => {
+    if (selectedAccounts.length === 0) return;
+
+    const withBalance = accountsWithBalance(selectedAccounts);
+    const summary = `Close ${selectedAccounts.length} account${selectedAccounts.length === 1 ? "" : "s"} across ${plan.length} wallet${plan.length === 1 ? "" : "s"} for ~${formatSolAmount(selectedLamports)}.`;
+
+    Alert.alert(
+      withBalance.length > 0 ? "Tokens Will Be Burned" : "Reclaim SOL",
+      withBalance.length > 0
+        ? `${withBalance.length} selected account${withBalance.length === 1 ? " still holds" : "s still hold"} tokens. Closing burns the remaining balance. ${summary}`
+        : summary,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: withBalance.length > 0 ? "Burn & Close" : "Reclaim",
+          style: withBalance.length > 0 ? "destructive" : "default",
+          onPress: () => void runReclaim(),
+        },
+      ]
+    );
+  }, [selectedAccounts, selectedLamports, plan.length, runReclaim]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={qsColors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.page}>
+      <ScrollView
+        style={styles.page}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            tintColor={qsColors.textTertiary}
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+          />
+        }
+      >
+        <View>
+          <Text style={styles.summaryValue}>{formatSolAmount(totalLamports)}</Text>
+          <Text style={styles.summaryLabel}>
+            Reclaimable from {walletsWithAccounts.length} of {wallets.length} wallet
+            {wallets.length === 1 ? "" : "s"}
+          </Text>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {lastResult ? <ResultCard result={lastResult} /> : null}
+
+        {walletsWithAccounts.length === 0 && !error ? (
+          <Text style={styles.emptyText}>No token accounts to close.</Text>
+        ) : null}
+
+        {walletsWithAccounts.map((wallet) => (
+          <WalletCard
+            key={wallet.public_key}
+            wallet={wallet}
+            info={infos[wallet.public_key]}
+            selected={selected}
+            isExpanded={expanded === wallet.public_key}
+            onToggleExpanded={() => {
+              haptics.selection();
+              setExpanded((prev) => (prev === wallet.public_key ? null : wallet.public_key));
+            }}
+            onToggleAccounts={toggleAccounts}
+          />
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Pressable
+          style={[
+            styles.submitButton,
+            (selectedAccounts.length === 0 || isSubmitting) && styles.submitButtonDisabled,
+          ]}
+          disabled={selectedAccounts.length === 0 || isSubmitting}
+          onPress={handleReclaim}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={qsColors.textPrimary} />
+          ) : (
+            <Text style={styles.submitButtonText}>
+              {selectedAccounts.length > 0
+                ? `Reclaim ${formatSolAmount(selectedLamports)}`
+                : "Select accounts"}
+            </Text>
+          )}
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+// ── Wallet Card ──
+
+function WalletCard({
+  wallet,
+  info,
+  selected,
+  isExpanded,
+  onToggleExpanded,
+  onToggleAccounts,
+}: {
+  wallet: UserWalletInfo;
+  info: WalletReclaimInfo;
+  selected: Set<string>;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+  onToggleAccounts: (accounts: ReclaimableTokenAccount[]) => void;
+}) {
+  const selectedCount = info.accounts.filter((a) => selected.has(a.address)).length;
+  const allSelected = selectedCount === info.accounts.length;
+  const withBalance = accountsWithBalance(info.accounts).length;
+
+  return (
+    <View style={styles.card}>
+      <Pressable
+        style={({ pressed }) => [styles.walletRow, pressed && styles.rowPressed]}
+        onPress={onToggleExpanded}
+      >
+        <Pressable onPress={() => onToggleAccounts(info.accounts)} hitSlop={8}>
+          <View
+            style={[
+              styles.checkbox,
+              allSelected && styles.checkboxActive,
+              selectedCount > 0 && !allSelected && styles.checkboxPartial,
+            ]}
+          >
+            {selectedCount > 0 ? <Check size={12} color={qsColors.textPrimary} /> : null}
+          </View>
+        </Pressable>
+        <View style={styles.walletInfo}>
+          <Text style={styles.walletName} numberOfLines={1}>
+            {wallet.name || "Unnamed"}
+          </Text>
+          <Text style={styles.walletMeta}>
+            {truncateAddress(wallet.public_key)} · {selectedCount}/{info.accounts.length} selected
+            {withBalance > 0 ? ` · ${withBalance} with tokens` : ""}
+          </Text>
+        </View>
+        <Text style={styles.amountText}>{formatSolAmount(info.totalRentLamports)}</Text>
+        {isExpanded ? (
+          <ChevronUp size={16} color={qsColors.textTertiary} />
+        ) : (
+          <ChevronDown size={16} color={qsColors.textTertiary} />
+        )}
+      </Pressable>
+
+      {isExpanded
+        ? info.accounts.map((account) => (
+            <AccountRow
+              key={account.address}
+              account={account}
+              isSelected={selected.has(account.address)}
+              onToggle={() => onToggleAccounts([account])}
+            />
+          ))
+        : null}
+    </View>
+  );
+}
+
+// ── Account Row ──
+
+function AccountRow({
+  account,
+  isSelected,
+  onToggle,
+}: {
+  account: ReclaimableTokenAccount;
+  isSelected: boolean;
+  onToggle: () => void;
+}) {
+  const hasBalance = account.uiAmount > 0;
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.accountRow, pressed && styles.rowPressed]}
+      onPress={onToggle}
+    >
+      <View style={[styles.checkbox, isSelected && styles.checkboxActive]}>
+        {isSelected ? <Check size={12} color={qsColors.textPrimary} /> : null}
+      </View>
+      <View style={styles.walletInfo}>
+        <Text style={styles.accountSymbol} numberOfLines={1}>
+          {account.symbol ?? truncateAddress(account.mint || account.address)}
+        </Text>
+        {hasBalance ? (
+          <View style={styles.balanceWarning}>
+            <AlertTriangle size={11} color={qsColors.warning} />
+            <Text style={styles.balanceWarningText}>
+              {account.uiAmount.toLocaleString(undefined, { maximumFractionDigits: 4 })} tokens
+              will be burned
+            </Text>
+          </View>
+        ) : (
+          <Text style={styles.walletMeta}>Empty</Text>
+        )}
+      </View>
+      <Text style={styles.accountRent}>{formatSolAmount(account.rentLamports)}</Text>
+    </Pressable>
+  );
+}
+
+// ── Result Card ──
+
+function ResultCard({ result }: { result: BatchReclaimResult }) {
+  const rows = [...result.success, ...result.failed];
+
+  return (
+    <View style={styles.card}>
+      {rows.map((row) => (
+        <View key={row.walletPublicKey} style={styles.resultRow}>
+          <Text style={styles.walletName} numberOfLines={1}>
+            {row.walletName || truncateAddress(row.walletPublicKey)}
+          </Text>
+          {row.success ? (
+            <Text style={styles.resultSuccess}>
+              +{formatSolAmount(row.reclaimedLamports)} · {row.closedAccounts} closed
+            </Text>
+          ) : (
+            <Text style={styles.resultFailed} numberOfLines={2}>
+              {row.error ?? "Failed"}
+            </Text>
+          )}
+        </View>
+      ))}
+      {result.skipped.map((row) => (
+        <View key={row.walletPublicKey} style={styles.resultRow}>
+          <Text style={styles.walletName} numberOfLines={1}>
+            {row.walletName || truncateAddress(row.walletPublicKey)}
+          </Text>
+          <Text style={styles.walletMeta}>Skipped</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer0,
+  },
+  content: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+    paddingBottom: 120,
+  },
+  summaryValue: {
+    fontSize: qsTypography.size.xl,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  summaryLabel: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+  },
+  emptyText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+    textAlign: "center",
+    paddingVertical: qsSpacing.xl,
+  },
+  card: {
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    overflow: "hidden",
+  },
+  walletRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+  },
+  rowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 5,
+    borderWidth: 1.5,
+    borderColor: qsColors.textTertiary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkboxActive: {
+    backgroundColor: qsColors.accent,
+    borderColor: qsColors.accent,
+  },
+  checkboxPartial: {
+    backgroundColor: qsColors.accentDeep,
+    borderColor: qsColors.accentDeep,
+  },
+  walletInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  walletName: {
+    flexShrink: 1,
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  walletMeta: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+  amountText: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  accountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 10,
+    paddingLeft: qsSpacing.xl,
+    paddingRight: qsSpacing.md,
+    borderTopWidth: 1,
+    borderTopColor: qsColors.borderSubtle,
+  },
+  accountSymbol: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+  },
+  accountRent: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textSecondary,
+    fontVariant: ["tabular-nums"],
+  },
+  balanceWarning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  balanceWarningText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.warning,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: qsSpacing.sm,
+    paddingVertical: 10,
+    paddingHorizontal: qsSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  resultSuccess: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.buyGreen,
+    fontVariant: ["tabular-nums"],
+  },
+  resultFailed: {
+    flexShrink: 1,
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+    textAlign: "right",
+  },
+  footer: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: qsSpacing.lg,
+    paddingBottom: qsSpacing.xxl,
+    backgroundColor: qsColors.layer0,
+    borderTopWidth: 1,
+    borderTopColor: qsColors.borderDefault,
+  },
+  submitButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  submitButtonDisabled: {
+    opacity: 0.4,
+  },
+  submitButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+});
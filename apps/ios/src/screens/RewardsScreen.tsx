@@ -32,7 +32,7 @@ import {
   type EarningsByMint,
   type ReferralRates,
   type ClaimInfo,
-} from "@/src/features/rewards/rewardsService";
+} from "@quickscope/core/rewards";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import {
   Clock,
@@ -1,9 +1,10 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import type { BottomTabNavigationProp } from "@react-navigation/bottom-tabs";
 import { useNavigation, type NavigationProp } from "@react-navigation/native";
 import * as Clipboard from "expo-clipboard";
 import {
+  ActivityIndicator,
   FlatList,
   type GestureResponderEvent,
   Pressable,
@@ -18,17 +19,34 @@ import { haptics } from "@/src/lib/haptics";
 import { formatCompactUsd, formatPercent, formatCompactNumber, formatAgeFromSeconds } from "@/src/lib/format";
 import { toast } from "@/src/lib/toast";
 import {
+  SCOPE_ROW_LIMIT,
+  buildScopeSubscriptionParams,
+  extractScopeRows,
   fetchScopeTokens,
+  mergeScopeRows,
+  scopeUpdateSolPrice,
   LAUNCHPAD_LABELS,
+  type ScopeFilterPreset,
+  type ScopeRowUpdate,
+  type ScopeSort,
   type ScopeTabId,
   type ScopeToken,
   type ScopeFilters,
-} from "@/src/features/scope/scopeService";
+} from "@quickscope/core/scope";
+import { appendUniqueByMint } from "@quickscope/core";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { useDashboardSync } from "@/src/features/dashboard/DashboardSyncProvider";
+import { useScopePresets } from "@/src/features/scope/useScopePresets";
+import { useStreamSubscription } from "@/src/features/streaming/useStreamSubscription";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import { withoutHiddenTokens } from "@/src/features/token/hiddenTokenService";
+import { useHideToken } from "@/src/features/token/useHideToken";
 import type { RootStack, RootTabs, ScopeRouteParams } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { ChevronDown, Copy, Crosshair, Globe, MessageCircle, SlidersHorizontal, Star, Zap, SolanaIcon, XIcon, TelegramIcon, Users, Shield, Bot, UserPlus } from "@/src/ui/icons";
 import { EmptyState } from "@/src/ui/EmptyState";
+import { LiveIndicator } from "@/src/ui/LiveIndicator";
+import { ScopePresetBar } from "@/src/ui/ScopePresetBar";
 import { SkeletonRow } from "@/src/ui/Skeleton";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
 import { TokenFilterSheet, hasActiveFilters, getExchangeLabel } from "@/src/ui/TokenFilterSheet";
@@ -54,6 +72,8 @@ function createInitialFilters(): Record<ScopeTabId, ScopeFilters> {
   return { new: {}, graduating: {}, graduated: {}, scans: {} };
 }
 
+const LIVE_FLUSH_INTERVAL_MS = 1_000;
+
 
 
 /* ─── Formatters ─── */
@@ -70,6 +90,7 @@ type ScopeTokenRowItemProps = {
   item: ScopeToken;
   isStarred: boolean;
   onPress: (token: ScopeToken) => void;
+  onLongPress: (token: ScopeToken) => void;
   onCopyAddress: (mint: string) => void;
   onToggleStar: (mint: string) => void;
   onQuickBuy: (event: GestureResponderEvent, token: ScopeToken) => void;
@@ -80,6 +101,7 @@ const ScopeTokenRowItem = React.memo(
     item,
     isStarred,
     onPress,
+    onLongPress,
     onCopyAddress,
     onToggleStar,
     onQuickBuy,
@@ -104,6 +126,7 @@ const ScopeTokenRowItem = React.memo(
       <Pressable
         style={({ pressed }) => [styles.rowItem, pressed && styles.rowItemPressed]}
         onPress={() => onPress(item)}
+        onLongPress={() => onLongPress(item)}
       >
         {/* ── Row 1: Avatar + Identity + Age ── */}
         <View style={styles.row1}>
@@ -301,15 +324,48 @@ export function ScopeScreen({ rpcClient, params }: ScopeScreenProps) {
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [errorText, setErrorText] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const nextOffsetRef = useRef(0);
   const [starredMints, setStarredMints] = useState<Record<string, boolean>>({});
+  const { hiddenMints } = useHiddenTokens();
+  const promptHideToken = useHideToken();
+  // Read at fetch time so hiding a token does not reload the list
+  const hiddenMintsRef = useRef(hiddenMints);
+  hiddenMintsRef.current = hiddenMints;
 
   // Per-tab filter state
   const [tabFilters, setTabFilters] = useState<Record<ScopeTabId, ScopeFilters>>(createInitialFilters);
+  const [tabSort, setTabSort] = useState<Partial<Record<ScopeTabId, ScopeSort>>>({});
+
+  // Desktop tables seed the filters and sorts; local edits stick until the desktop setup changes
+  const { dashboardImport } = useDashboardSync();
+  const appliedImportKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!dashboardImport) return;
+    const key = JSON.stringify([dashboardImport.scopeFilters, dashboardImport.scopeSort]);
+    if (key === appliedImportKeyRef.current) return;
+    appliedImportKeyRef.current = key;
+    setTabFilters((prev) => ({ ...prev, ...dashboardImport.scopeFilters }));
+    setTabSort(dashboardImport.scopeSort);
+  }, [dashboardImport]);
 
   const currentFilters = tabFilters[activeTab];
+  const currentSort = tabSort[activeTab];
   const filtersActive = hasActiveFilters(currentFilters);
   const exchangeLabel = getExchangeLabel(currentFilters);
 
+  const { presets, savePreset, deletePreset } = useScopePresets(rpcClient);
+  const tabPresets = useMemo(
+    () => presets.filter((preset) => preset.tab === activeTab),
+    [presets, activeTab]
+  );
+
+  // Live rows are buffered and folded into the list once per interval
+  const pendingLiveRowsRef = useRef<ScopeToken[]>([]);
+  // Last SOL price from a response or live update — prices live rows that carry none
+  const solPriceRef = useRef(0);
+
   const loadRows = useCallback(
     async (options?: { refreshing?: boolean }) => {
       const requestId = ++requestSeqRef.current;
@@ -333,12 +389,18 @@ export function ScopeScreen({ rpcClient, params }: ScopeScreenProps) {
           rpcClient,
           activeTab,
           hasActiveFilters(currentFilters) ? currentFilters : undefined,
+          hiddenMintsRef.current,
+          currentSort,
         );
         if (requestId !== requestSeqRef.current) {
           return;
         }
 
+        pendingLiveRowsRef.current = [];
+        if (result.solPriceUsd > 0) solPriceRef.current = result.solPriceUsd;
         setRows(result.rows);
+        nextOffsetRef.current = result.nextOffset;
+        setHasMore(result.hasMore);
         setErrorText(undefined);
         if (__DEV__) {
           console.log("[perf] Scope fetch success", {
@@ -378,13 +440,77 @@ export function ScopeScreen({ rpcClient, params }: ScopeScreenProps) {
         setIsRefreshing(false);
       }
     },
-    [activeTab, currentFilters, rpcClient]
+    [activeTab, currentFilters, currentSort, rpcClient]
   );
 
   useEffect(() => {
     void loadRows();
   }, [loadRows]);
 
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoadingMore || isInitialLoading || isRefreshing) return;
+    // A reload (tab, filters, refresh) bumps the seq and supersedes this page
+    const requestId = requestSeqRef.current;
+    setIsLoadingMore(true);
+    try {
+      const result = await fetchScopeTokens(
+        rpcClient,
+        activeTab,
+        hasActiveFilters(currentFilters) ? currentFilters : undefined,
+        hiddenMintsRef.current,
+        currentSort,
+        { offset: nextOffsetRef.current },
+      );
+      if (requestId !== requestSeqRef.current) return;
+      if (result.solPriceUsd > 0) solPriceRef.current = result.solPriceUsd;
+      setRows((prev) => appendUniqueByMint(prev, result.rows));
+      nextOffsetRef.current = result.nextOffset;
+      setHasMore(result.hasMore);
+    } catch {
+      // silently fail — scrolling again retries the page
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [hasMore, isLoadingMore, isInitialLoading, isRefreshing, rpcClient, activeTab, currentFilters, currentSort]);
+
+  // ── Live updates ──
+
+  const subscriptionParams = useMemo(
+    () => buildScopeSubscriptionParams(activeTab, filtersActive ? currentFilters : undefined, currentSort),
+    [activeTab, currentFilters, filtersActive, currentSort]
+  );
+
+  const { status: streamStatus } = useStreamSubscription<ScopeRowUpdate>(
+    "public/memescopeFilterUpdates",
+    subscriptionParams,
+    (update) => {
+      solPriceRef.current = scopeUpdateSolPrice(update) || solPriceRef.current;
+      pendingLiveRowsRef.current.push(...extractScopeRows(update, solPriceRef.current));
+    }
+  );
+  const isLive = streamStatus === "open";
+
+  useEffect(() => {
+    // Rows buffered for the previous tab or filters no longer apply
+    pendingLiveRowsRef.current = [];
+  }, [subscriptionParams]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const pending = pendingLiveRowsRef.current;
+      if (pending.length === 0) return;
+      pendingLiveRowsRef.current = [];
+      // Keep every loaded page; only the first page is capped
+      setRows((prev) =>
+        mergeScopeRows(prev, pending, Math.max(SCOPE_ROW_LIMIT, prev.length), hiddenMintsRef.current)
+      );
+    }, LIVE_FLUSH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const visibleRows = useMemo(() => withoutHiddenTokens(rows, hiddenMints), [rows, hiddenMints]);
+
   const handleOpenTokenDetail = useCallback(
     (token: ScopeToken) => {
       rootNavigation?.navigate("TokenDetail", {
@@ -443,24 +569,53 @@ export function ScopeScreen({ rpcClient, params }: ScopeScreenProps) {
     [activeTab],
   );
 
+  // ── Presets ──
+
+  const handleApplyPreset = useCallback((preset: ScopeFilterPreset) => {
+    setTabFilters((prev) => ({ ...prev, [preset.tab]: preset.filters }));
+  }, []);
+
+  const handleSavePreset = useCallback(
+    (name: string) => {
+      savePreset(activeTab, name, currentFilters).then(
+        () => {
+          haptics.success();
+          toast.success("Preset saved", name);
+        },
+        () => toast.error("Preset not synced", "Saved on this device only.")
+      );
+    },
+    [activeTab, currentFilters, savePreset]
+  );
+
+  const handleDeletePreset = useCallback(
+    (preset: ScopeFilterPreset) => {
+      deletePreset(preset.id).catch(() => {
+        toast.error("Preset not synced", "Removed on this device only.");
+      });
+    },
+    [deletePreset]
+  );
+
   const renderItem = useCallback(
     ({ item }: { item: ScopeToken }) => (
       <ScopeTokenRowItem
         item={item}
         isStarred={Boolean(starredMints[item.mint])}
         onPress={handleOpenTokenDetail}
+        onLongPress={promptHideToken}
         onCopyAddress={handleCopyAddress}
         onToggleStar={toggleStar}
         onQuickBuy={handleQuickBuy}
       />
     ),
-    [starredMints, handleOpenTokenDetail, handleCopyAddress, toggleStar, handleQuickBuy]
+    [starredMints, handleOpenTokenDetail, promptHideToken, handleCopyAddress, toggleStar, handleQuickBuy]
   );
 
   return (
     <View style={styles.page}>
     <FlatList
-      data={rows}
+      data={visibleRows}
       keyExtractor={(item) => item.mint}
       contentContainerStyle={styles.content}
       style={styles.listFlex}
@@ -572,13 +727,36 @@ export function ScopeScreen({ rpcClient, params }: ScopeScreenProps) {
               />
               {filtersActive ? <View style={styles.filterBadge} /> : null}
             </Pressable>
+            {isLive ? (
+              <View style={styles.liveBadge}>
+                <LiveIndicator />
+              </View>
+            ) : null}
           </View>
+
+          <ScopePresetBar
+            presets={tabPresets}
+            currentFilters={currentFilters}
+            canSave={filtersActive}
+            onApply={handleApplyPreset}
+            onSave={handleSavePreset}
+            onDelete={handleDeletePreset}
+          />
         </View>
       }
       renderItem={renderItem}
       windowSize={10}
       maxToRenderPerBatch={10}
       removeClippedSubviews
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.3}
+      ListFooterComponent={
+        isLoadingMore ? (
+          <View style={styles.footer}>
+            <ActivityIndicator color={qsColors.accent} />
+          </View>
+        ) : null
+      }
       ListEmptyComponent={
         !isInitialLoading && !errorText ? (
           <EmptyState
@@ -607,6 +785,10 @@ const styles = StyleSheet.create({
     paddingTop: qsSpacing.xs,
     paddingBottom: 140,
   },
+  footer: {
+    paddingVertical: qsSpacing.lg,
+    alignItems: "center",
+  },
   headerWrap: {
     gap: qsSpacing.md,
     marginBottom: qsSpacing.sm,
@@ -696,6 +878,9 @@ const styles = StyleSheet.create({
     borderRadius: 3,
     backgroundColor: qsColors.accent,
   },
+  liveBadge: {
+    marginLeft: "auto",
+  },
   filterChipActive: {
     borderColor: qsColors.accent,
     backgroundColor: "rgba(119, 102, 247, 0.1)",
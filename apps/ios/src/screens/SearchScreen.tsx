@@ -3,7 +3,8 @@
  *
  * Three visual states:
  *   1. Zero-state  (empty query)  → Recent searches + Trending tokens
- *   2. Active search (typing)     → Instant filtered results, relevance-ranked
+ *   2. Active search (typing)     → Instant local results, merged with debounced
+ *                                   server-side `public/search` hits and recents
  *   3. CA paste    (32+ chars)    → Auto-navigate to TokenDetail
  *
  * UX upgrades over previous version:
@@ -22,6 +23,7 @@ import * as Clipboard from "expo-clipboard";
 import { haptics } from "@/src/lib/haptics";
 import { formatCompactUsd, formatPercent, formatCompactNumber, formatAgeFromSeconds } from "@/src/lib/format";
 import {
+  ActivityIndicator,
   FlatList,
   type GestureResponderEvent,
   Image,
@@ -44,8 +46,13 @@ import {
 } from "@/src/features/search/recentSearchesStorage";
 import {
   fetchSearchTokens,
+  mergeSearchResults,
+  searchTokens,
+  tokenRelevance,
   type SearchToken,
 } from "@/src/features/search/searchService";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import { withoutHiddenTokens } from "@/src/features/token/hiddenTokenService";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import type { RootStack, TradeRouteParams } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
@@ -67,6 +74,8 @@ const SOLANA_ADDRESS_MIN_LENGTH = 32;
 const TRENDING_LIMIT = 8;
 const RESULT_LIMIT = 80;
 const SKELETON_COUNT = 6;
+const REMOTE_SEARCH_DEBOUNCE_MS = 300;
+const REMOTE_SEARCH_MIN_LENGTH = 2;
 
 // ────────────────────────────────────────────────────────────────
 //  Helpers (pure)
@@ -84,21 +93,6 @@ function looksLikeSolanaAddress(text: string): boolean {
   return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(trimmed);
 }
 
-function tokenRelevance(token: SearchToken, normalizedQuery: string): number {
-  const mint = token.mint.toLowerCase();
-  const symbol = (token.symbol || "").toLowerCase();
-  const name = (token.name || "").toLowerCase();
-
-  if (mint === normalizedQuery) return 1000;
-  if (symbol === normalizedQuery) return 900;
-  if (symbol.startsWith(normalizedQuery)) return 800;
-  if (name.startsWith(normalizedQuery)) return 700;
-  if (mint.includes(normalizedQuery)) return 600;
-  if (symbol.includes(normalizedQuery)) return 500;
-  if (name.includes(normalizedQuery)) return 400;
-  return 0;
-}
-
 // ────────────────────────────────────────────────────────────────
 //  Component
 // ────────────────────────────────────────────────────────────────
@@ -114,6 +108,12 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [errorText, setErrorText] = useState<string | undefined>();
   const [recentSearches, setRecentSearches] = useState<RecentSearchEntry[]>([]);
+  /** Server results and the normalized query they answer */
+  const [remoteResult, setRemoteResult] = useState<{ query: string; rows: SearchToken[] } | null>(
+    null,
+  );
+  const [isRemoteSearching, setIsRemoteSearching] = useState(false);
+  const { hiddenMints } = useHiddenTokens();
 
   // ── Deep link param sync ──
   useEffect(() => {
@@ -163,14 +163,50 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
     void loadRows();
   }, [loadRows]);
 
+  // ── Server-side search (debounced, stale requests aborted) ──
+  const normalizedQuery = query.trim().toLowerCase();
+
+  useEffect(() => {
+    if (normalizedQuery.length < REMOTE_SEARCH_MIN_LENGTH || looksLikeSolanaAddress(query)) {
+      setIsRemoteSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsRemoteSearching(true);
+
+    const timer = setTimeout(() => {
+      searchTokens(rpcClient, query.trim(), { limit: RESULT_LIMIT, signal: controller.signal })
+        .then((result) => {
+          if (controller.signal.aborted) return;
+          setRemoteResult({ query: normalizedQuery, rows: result.rows });
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          // Local results are still shown — a failed remote query isn't fatal
+          if (__DEV__) console.warn("[SearchScreen] public/search failed", error);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsRemoteSearching(false);
+        });
+    }, REMOTE_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [rpcClient, query, normalizedQuery]);
+
   // ── Contract address auto-detect ──
   useEffect(() => {
     if (looksLikeSolanaAddress(query)) {
       const address = query.trim();
       haptics.medium();
 
-      // Try to find this token in the already-loaded search index
-      const knownToken = rows.find((t) => t.mint === address);
+      // Try to find this token in the already-loaded search index or last server results
+      const knownToken =
+        rows.find((t) => t.mint === address) ??
+        remoteResult?.rows.find((t) => t.mint === address);
 
       navigation.navigate("TokenDetail", {
         source: "deep-link",
@@ -202,29 +238,41 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
       }).then(setRecentSearches);
       setQuery("");
     }
-  }, [query, navigation, rows]);
+  }, [query, navigation, rows, remoteResult]);
 
   // ── Derived data ──
   const isZeroState = query.trim().length === 0;
 
   const trendingTokens = useMemo(() => {
-    return rows.slice(0, TRENDING_LIMIT);
-  }, [rows]);
+    return withoutHiddenTokens(rows, hiddenMints).slice(0, TRENDING_LIMIT);
+  }, [rows, hiddenMints]);
 
   const filteredRows = useMemo(() => {
-    const nq = query.trim().toLowerCase();
-    if (!nq) return [];
-
-    return rows
-      .map((token) => ({ token, relevance: tokenRelevance(token, nq) }))
-      .filter((e) => e.relevance > 0)
-      .sort((a, b) => {
-        if (b.relevance !== a.relevance) return b.relevance - a.relevance;
-        return b.token.oneHourVolumeUsd - a.token.oneHourVolumeUsd;
-      })
-      .slice(0, RESULT_LIMIT)
-      .map((e) => e.token);
-  }, [query, rows]);
+    // Server rows for an older query are only kept where they still match locally
+    const isRemoteFresh = remoteResult?.query === normalizedQuery;
+    const staleRemoteRows = remoteResult && !isRemoteFresh ? remoteResult.rows : [];
+
+    return mergeSearchResults({
+      query: normalizedQuery,
+      localRows: [...rows, ...staleRemoteRows],
+      remoteRows: isRemoteFresh ? remoteResult.rows : [],
+      recentSearches,
+      hiddenMints,
+      limit: RESULT_LIMIT,
+    });
+  }, [normalizedQuery, rows, remoteResult, recentSearches, hiddenMints]);
+
+  // Recents that match but aren't in the result rows (e.g. opened by pasted CA)
+  const matchingRecents = useMemo(() => {
+    if (!normalizedQuery) return [];
+    const resultMints = new Set(filteredRows.map((token) => token.mint));
+    return recentSearches.filter(
+      (entry) =>
+        !resultMints.has(entry.mint) &&
+        !hiddenMints.has(entry.mint) &&
+        tokenRelevance(entry, normalizedQuery) > 0,
+    );
+  }, [normalizedQuery, filteredRows, recentSearches, hiddenMints]);
 
   // ── Callbacks ──
   const stopRowPress = useCallback((event: GestureResponderEvent) => {
@@ -396,6 +444,37 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
     [handleCopyAddress, handleOpenTokenDetail, stopRowPress],
   );
 
+  // ── Recent search chip (zero-state + matching recents while typing) ──
+  const renderRecentChip = useCallback(
+    (entry: RecentSearchEntry) => (
+      <Pressable
+        key={entry.mint}
+        style={({ pressed }) => [styles.recentChip, pressed && styles.recentChipPressed]}
+        onPress={() => handleOpenRecentSearch(entry)}
+      >
+        {entry.imageUri ? (
+          <Image
+            source={{ uri: entry.imageUri }}
+            style={styles.recentChipImage}
+          />
+        ) : null}
+        <Text numberOfLines={1} style={styles.recentChipText}>
+          {entry.symbol}
+        </Text>
+        <Pressable
+          onPress={(event) => {
+            stopRowPress(event);
+            handleRemoveRecentSearch(entry.mint);
+          }}
+          hitSlop={6}
+        >
+          <X size={12} color={qsColors.textSubtle} />
+        </Pressable>
+      </Pressable>
+    ),
+    [handleOpenRecentSearch, handleRemoveRecentSearch, stopRowPress],
+  );
+
   // ── Zero-state content ──
   const renderZeroState = useCallback(() => {
     return (
@@ -411,32 +490,7 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
               </Pressable>
             </View>
             <View style={styles.recentChipsWrap}>
-              {recentSearches.map((entry) => (
-                <Pressable
-                  key={entry.mint}
-                  style={({ pressed }) => [styles.recentChip, pressed && styles.recentChipPressed]}
-                  onPress={() => handleOpenRecentSearch(entry)}
-                >
-                  {entry.imageUri ? (
-                    <Image
-                      source={{ uri: entry.imageUri }}
-                      style={styles.recentChipImage}
-                    />
-                  ) : null}
-                  <Text numberOfLines={1} style={styles.recentChipText}>
-                    {entry.symbol}
-                  </Text>
-                  <Pressable
-                    onPress={(event) => {
-                      stopRowPress(event);
-                      handleRemoveRecentSearch(entry.mint);
-                    }}
-                    hitSlop={6}
-                  >
-                    <X size={12} color={qsColors.textSubtle} />
-                  </Pressable>
-                </Pressable>
-              ))}
+              {recentSearches.map((entry) => renderRecentChip(entry))}
             </View>
           </View>
         ) : null}
@@ -472,10 +526,8 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
     recentSearches,
     trendingTokens,
     handleClearAllRecent,
-    handleOpenRecentSearch,
-    handleRemoveRecentSearch,
+    renderRecentChip,
     renderTokenRow,
-    stopRowPress,
   ]);
 
   // ── Main render ──
@@ -557,12 +609,30 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
           {/* ── Zero-state (recent + trending) ── */}
           {!isInitialLoading && isZeroState ? renderZeroState() : null}
 
+          {/* ── Matching recent searches ── */}
+          {!isInitialLoading && matchingRecents.length > 0 ? (
+            <View style={styles.sectionWrap}>
+              <View style={styles.sectionHeader}>
+                <Clock size={14} color={qsColors.textSubtle} />
+                <Text style={styles.sectionTitle}>Recent</Text>
+              </View>
+              <View style={styles.recentChipsWrap}>
+                {matchingRecents.map((entry) => renderRecentChip(entry))}
+              </View>
+            </View>
+          ) : null}
+
           {/* ── Active search column headers ── */}
-          {!isInitialLoading && !isZeroState && filteredRows.length > 0 ? (
+          {!isInitialLoading && !isZeroState && (filteredRows.length > 0 || isRemoteSearching) ? (
             <>
-              <Text style={styles.resultCount}>
-                {filteredRows.length} result{filteredRows.length !== 1 ? "s" : ""}
-              </Text>
+              <View style={styles.resultCountRow}>
+                <Text style={styles.resultCount}>
+                  {filteredRows.length} result{filteredRows.length !== 1 ? "s" : ""}
+                </Text>
+                {isRemoteSearching ? (
+                  <ActivityIndicator size="small" color={qsColors.textSubtle} />
+                ) : null}
+              </View>
               <View style={styles.columnHeaders}>
                 <View style={styles.colHeaderLeft}>
                   <Text style={styles.colHeaderText}>Token</Text>
@@ -580,7 +650,11 @@ export function SearchScreen({ rpcClient, params }: SearchScreenProps) {
       }
       renderItem={({ item }) => renderTokenRow(item)}
       ListEmptyComponent={
-        !isInitialLoading && !isZeroState && !errorText ? (
+        !isInitialLoading &&
+        !isZeroState &&
+        !errorText &&
+        !isRemoteSearching &&
+        matchingRecents.length === 0 ? (
           <EmptyState
             icon={Search}
             title="No matches"
@@ -783,6 +857,11 @@ const styles = StyleSheet.create({
   },
 
   // ── Result count ──
+  resultCountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+  },
   resultCount: {
     color: qsColors.textSubtle,
     fontSize: qsTypography.size.xxxs,
@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
+import { useNavigation, type NavigationProp } from "@react-navigation/native";
+
 import {
   ActivityIndicator,
   Pressable,
@@ -31,11 +33,22 @@ import {
   DISCOVERY_CARD_SOURCE_OPTIONS,
   useDiscoveryCardSource,
 } from "@/src/features/discovery/discoveryCardsPreference";
+import {
+  describeTokenAlertCondition,
+  type TokenAlert,
+} from "@/src/features/alerts/tokenAlertService";
+import { useTokenAlerts } from "@/src/features/alerts/useTokenAlerts";
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import { useDashboardSync } from "@/src/features/dashboard/DashboardSyncProvider";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { formatAgeFromSeconds } from "@/src/lib/format";
 import { haptics } from "@/src/lib/haptics";
 import { toast } from "@/src/lib/toast";
+import type { RootStack } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
-import { Check, Clock, Star, Wallet } from "@/src/ui/icons";
+import { Bell, Check, ChevronRight, Clock, EyeOff, RefreshCw, Star, Trash2, Wallet } from "@/src/ui/icons";
+import { TokenAvatar } from "@/src/ui/TokenAvatar";
 
 // ── Helpers ──────────────────────────────────────
 
@@ -165,6 +178,42 @@ function SelectableCard({
   );
 }
 
+// ── Alert Row ────────────────────────────────────
+
+function AlertRow({
+  alert,
+  onPress,
+  onDelete,
+}: {
+  alert: TokenAlert;
+  onPress: () => void;
+  onDelete: () => void;
+}) {
+  const label = alert.symbol ?? `${alert.mint.slice(0, 4)}...${alert.mint.slice(-4)}`;
+
+  return (
+    <Pressable style={styles.alertRow} onPress={onPress}>
+      <TokenAvatar uri={alert.imageUri} size={28} />
+      <View style={styles.alertInfo}>
+        <Text style={styles.alertSymbol} numberOfLines={1}>
+          {label}
+        </Text>
+        <Text style={styles.alertCondition} numberOfLines={1}>
+          {describeTokenAlertCondition(alert.condition)}
+        </Text>
+      </View>
+      {alert.triggeredAt ? (
+        <View style={styles.triggeredPill}>
+          <Text style={styles.triggeredText}>Triggered</Text>
+        </View>
+      ) : null}
+      <Pressable hitSlop={8} onPress={onDelete}>
+        <Trash2 size={16} color={qsColors.textTertiary} />
+      </Pressable>
+    </Pressable>
+  );
+}
+
 // ── Section Header ───────────────────────────────
 
 function SectionHeader({ title }: { title: string }) {
@@ -176,6 +225,9 @@ function SectionHeader({ title }: { title: string }) {
 type Props = { rpcClient: RpcClient };
 
 export function SettingsScreen({ rpcClient }: Props) {
+  const navigation = useNavigation<NavigationProp<RootStack>>();
+  const { hasValidAccessToken } = useAuthSession();
+
   // ── Loading state ──
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -213,6 +265,51 @@ export function SettingsScreen({ rpcClient }: Props) {
   const [batchMode, setBatchMode] = useState<"exact" | "split">("exact");
   const [buyVariance, setBuyVariance] = useState("0");
   const [sellVariance, setSellVariance] = useState("0");
+  const [splitDeviation, setSplitDeviation] = useState("0");
+
+  // Token alerts
+  const {
+    alerts,
+    isLoading: alertsLoading,
+    error: alertsError,
+    removeAlert,
+  } = useTokenAlerts(rpcClient, hasValidAccessToken);
+
+  // Hidden tokens
+  const { hiddenTokens } = useHiddenTokens();
+
+  // Desktop dashboard import
+  const {
+    dashboardImport,
+    syncedAt: dashboardSyncedAt,
+    isSyncing: dashboardSyncing,
+    error: dashboardSyncError,
+    sync: syncDashboards,
+  } = useDashboardSync();
+
+  const handleOpenAlert = useCallback(
+    (alert: TokenAlert) => {
+      haptics.light();
+      navigation.navigate("TokenDetail", {
+        source: "alert",
+        tokenAddress: alert.mint,
+        symbol: alert.symbol,
+        name: alert.name,
+        imageUri: alert.imageUri,
+      });
+    },
+    [navigation]
+  );
+
+  const handleDeleteAlert = useCallback(
+    (alert: TokenAlert) => {
+      haptics.light();
+      removeAlert(alert.id).catch(() => {
+        toast.error("Alerts", "Failed to delete alert");
+      });
+    },
+    [removeAlert]
+  );
 
   // ── Hydrate from server ──
   useEffect(() => {
@@ -242,6 +339,7 @@ export function SettingsScreen({ rpcClient }: Props) {
         setBatchMode(trade.batch_trade_mode);
         setBuyVariance(String(trade.stealth_buy_variance));
         setSellVariance(String(trade.stealth_sell_variance));
+        setSplitDeviation(String(trade.split_deviation));
       } catch {
         toast.error("Settings", "Failed to load settings");
       } finally {
@@ -309,6 +407,7 @@ export function SettingsScreen({ rpcClient }: Props) {
       batch_trade_mode: batchMode,
       stealth_buy_variance: Math.min(50, Math.max(0, parseInt(buyVariance) || 0)),
       stealth_sell_variance: Math.min(50, Math.max(0, parseInt(sellVariance) || 0)),
+      split_deviation: Math.min(50, Math.max(0, parseInt(splitDeviation) || 0)),
     };
 
     const error = validateTradeSettings(newTrade);
@@ -343,6 +442,7 @@ export function SettingsScreen({ rpcClient }: Props) {
     batchMode,
     buyVariance,
     sellVariance,
+    splitDeviation,
   ]);
 
   if (loading) {
@@ -390,6 +490,111 @@ export function SettingsScreen({ rpcClient }: Props) {
           })}
         </View>
 
+        {/* Hidden Tokens */}
+        <Text style={styles.subSectionTitle}>Hidden Tokens</Text>
+        <Pressable
+          style={[styles.card, styles.linkRow]}
+          onPress={() => {
+            haptics.light();
+            navigation.navigate("HiddenTokens");
+          }}
+        >
+          <EyeOff size={14} color={qsColors.textTertiary} />
+          <View style={styles.linkInfo}>
+            <Text style={styles.cardTitle}>Manage hidden tokens</Text>
+            <Text style={styles.cardSubtitle}>
+              {!hasValidAccessToken
+                ? "Connect to hide spam tokens from every list."
+                : hiddenTokens.length === 0
+                  ? "Long-press a token in Discovery or Scope to hide it."
+                  : `${hiddenTokens.length} hidden`}
+            </Text>
+          </View>
+          <ChevronRight size={16} color={qsColors.textTertiary} />
+        </Pressable>
+
+        {/* Desktop Settings */}
+        <Text style={styles.subSectionTitle}>Desktop Settings</Text>
+        <View style={styles.card}>
+          <View style={styles.linkRow}>
+            <View style={styles.linkInfo}>
+              <Text style={styles.cardTitle}>Dashboard import</Text>
+              <Text style={styles.cardSubtitle}>
+                {!hasValidAccessToken
+                  ? "Connect to bring your desktop Scope filters and watchlist layout."
+                  : dashboardSyncError
+                    ? dashboardSyncError
+                    : dashboardImport && dashboardSyncedAt
+                      ? `${dashboardImport.imported.length} imported · ${dashboardImport.skipped.length} skipped · synced ${formatAgeFromSeconds(Math.floor(dashboardSyncedAt / 1000))} ago`
+                      : "Not synced yet"}
+              </Text>
+            </View>
+            {hasValidAccessToken ? (
+              dashboardSyncing ? (
+                <ActivityIndicator color={qsColors.textTertiary} />
+              ) : (
+                <Pressable
+                  hitSlop={8}
+                  onPress={() => {
+                    haptics.light();
+                    void syncDashboards();
+                  }}
+                >
+                  <RefreshCw size={16} color={qsColors.textTertiary} />
+                </Pressable>
+              )
+            ) : null}
+          </View>
+          {hasValidAccessToken && dashboardImport
+            ? [...dashboardImport.imported, ...dashboardImport.skipped].map((entry, index) => (
+                <View key={`${entry.dashboard}-${entry.widget}-${entry.setting}-${index}`} style={styles.syncEntryRow}>
+                  {entry.reason ? (
+                    <EyeOff size={12} color={qsColors.textSubtle} />
+                  ) : (
+                    <Check size={12} color={qsColors.buyGreen} />
+                  )}
+                  <View style={styles.linkInfo}>
+                    <Text style={styles.syncEntryText} numberOfLines={1}>
+                      {entry.dashboard} · {entry.widget} · {entry.setting}
+                    </Text>
+                    {entry.reason ? <Text style={styles.syncEntryReason}>{entry.reason}</Text> : null}
+                  </View>
+                </View>
+              ))
+            : null}
+        </View>
+
+        {/* ── Alerts ── */}
+        <SectionHeader title="Alerts" />
+
+        <View style={styles.card}>
+          {!hasValidAccessToken ? (
+            <Text style={styles.cardSubtitle}>Connect to manage token alerts.</Text>
+          ) : alertsLoading ? (
+            <ActivityIndicator color={qsColors.textTertiary} />
+          ) : alertsError ? (
+            <Text style={styles.alertsError}>{alertsError}</Text>
+          ) : alerts.length === 0 ? (
+            <View style={styles.alertsEmpty}>
+              <Bell size={14} color={qsColors.textTertiary} />
+              <Text style={styles.cardSubtitle}>
+                Create alerts from a token page or a watchlist row.
+              </Text>
+            </View>
+          ) : (
+            alerts.map((alert, index) => (
+              <View key={alert.id}>
+                {index > 0 ? <View style={styles.fieldDivider} /> : null}
+                <AlertRow
+                  alert={alert}
+                  onPress={() => handleOpenAlert(alert)}
+                  onDelete={() => handleDeleteAlert(alert)}
+                />
+              </View>
+            ))
+          )}
+        </View>
+
         {/* ── Trade Presets ── */}
         <SectionHeader title="Trade Presets" />
 
@@ -519,6 +724,20 @@ export function SettingsScreen({ rpcClient }: Props) {
           </Text>
         </View>
 
+        {batchMode === "split" ? (
+          <View style={styles.card}>
+            <FieldRow
+              label="Split Deviation"
+              value={splitDeviation}
+              onChangeText={setSplitDeviation}
+              suffix="%"
+            />
+            <Text style={styles.multiWalletHint}>
+              Randomizes each wallet's share around an even split
+            </Text>
+          </View>
+        ) : null}
+
         <View style={styles.card}>
           <FieldRow
             label="Buy Variance"
@@ -746,6 +965,68 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(119, 102, 247, 0.15)",
   },
 
+  // Alerts
+  alertRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: qsSpacing.xs,
+  },
+  alertInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  alertSymbol: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  alertCondition: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+  triggeredPill: {
+    paddingHorizontal: qsSpacing.sm,
+    paddingVertical: 2,
+    borderRadius: qsRadius.pill,
+    backgroundColor: "rgba(119, 102, 247, 0.15)",
+  },
+  triggeredText: {
+    fontSize: qsTypography.size.xxxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.accent,
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  linkInfo: {
+    flex: 1,
+  },
+  syncEntryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  syncEntryText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textSecondary,
+  },
+  syncEntryReason: {
+    fontSize: qsTypography.size.xxxs,
+    color: qsColors.textTertiary,
+  },
+  alertsEmpty: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  alertsError: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+  },
+
   // Bottom bar
   bottomBar: {
     position: "absolute",
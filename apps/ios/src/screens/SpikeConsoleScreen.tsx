@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 import { useEmbeddedSolanaWallet } from "@privy-io/expo";
 import { Button, ScrollView, StyleSheet, Text, View } from "react-native";
@@ -10,7 +10,8 @@ import {
   ParityCheckResult,
   runApiParityChecks,
 } from "@/src/features/health/apiParityChecks";
-import { useSlotTradeUpdatesSpike } from "@/src/features/health/useSlotTradeUpdatesSpike";
+import { useStreamClient } from "@/src/features/streaming/StreamClientProvider";
+import { useStreamSubscription } from "@/src/features/streaming/useStreamSubscription";
 import { RpcClient } from "@/src/lib/api/rpcClient";
 import { toast } from "@/src/lib/toast";
 import { qsColors, qsSpacing } from "@/src/theme/tokens";
@@ -18,17 +19,31 @@ import { SectionCard } from "@/src/ui/SectionCard";
 
 const fallbackAddress = "11111111111111111111111111111111";
 
+/** Flush buffered stream stats to state at 5hz (200ms). */
+const STREAM_FLUSH_INTERVAL_MS = 200;
+
+type SlotTradeUpdatePayload = {
+  sol_price_usd?: string | number;
+};
+
+type StreamStats = {
+  eventCount: number;
+  lastSolPrice?: number;
+  lastEventAt?: string;
+  lastPayloadPreview?: string;
+};
+
 type SpikeConsoleScreenProps = {
   rpcClient: RpcClient;
   wsHost: string;
 };
 
 function connectionTone(status: string): string {
-  if (status === "subscribed") {
+  if (status === "subscribed" || status === "open") {
     return "#35d28e";
   }
 
-  if (status === "connected" || status === "connecting") {
+  if (status === "connected" || status === "connecting" || status === "reconnecting") {
     return "#4ea3ff";
   }
 
@@ -54,14 +69,73 @@ export function SpikeConsoleScreen({ rpcClient, wsHost }: SpikeConsoleScreenProp
     refreshSession,
     clearSession,
   } = useAuthSession();
-  const { state: wsState, connect: connectWs, disconnect: disconnectWs } =
-    useSlotTradeUpdatesSpike(wsHost);
+  const streamClient = useStreamClient();
+  const [isStreamEnabled, setIsStreamEnabled] = useState(false);
+  const [streamStats, setStreamStats] = useState<StreamStats>({ eventCount: 0 });
+  const streamBufferRef = useRef<{ count: number; lastSolPrice?: number; lastPayload?: unknown }>({
+    count: 0,
+  });
   const [challengePreview, setChallengePreview] = useState<string>("");
   const [parityChecks, setParityChecks] = useState<ParityCheckResult[]>([]);
   const [isLoadingParity, setIsLoadingParity] = useState(false);
 
   const walletAddress = connectedAddress ?? fallbackAddress;
 
+  const { status: streamStatus } = useStreamSubscription<SlotTradeUpdatePayload>(
+    "public/slotTradeUpdates",
+    [],
+    (update) => {
+      const buf = streamBufferRef.current;
+      const nextSolPrice = update?.sol_price_usd ? Number(update.sol_price_usd) : undefined;
+      buf.count += 1;
+      if (typeof nextSolPrice === "number" && Number.isFinite(nextSolPrice)) {
+        buf.lastSolPrice = nextSolPrice;
+      }
+      buf.lastPayload = update;
+    },
+    isStreamEnabled
+  );
+
+  // Accumulate events in a ref; flush to state on an interval while enabled.
+  useEffect(() => {
+    if (!isStreamEnabled) return;
+    const timer = setInterval(() => {
+      const buf = streamBufferRef.current;
+      if (buf.count === 0) return;
+
+      const flushedCount = buf.count;
+      const flushedPrice = buf.lastSolPrice;
+      const flushedPayload = buf.lastPayload;
+      buf.count = 0;
+
+      setStreamStats((prev) => ({
+        eventCount: prev.eventCount + flushedCount,
+        lastSolPrice: flushedPrice ?? prev.lastSolPrice,
+        lastEventAt: new Date().toLocaleTimeString(),
+        lastPayloadPreview: (() => {
+          try {
+            return JSON.stringify(flushedPayload).slice(0, 220);
+          } catch {
+            return prev.lastPayloadPreview;
+          }
+        })(),
+      }));
+    }, STREAM_FLUSH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isStreamEnabled]);
+
+  const handleConnectStream = () => {
+    streamBufferRef.current = { count: 0 };
+    setIsStreamEnabled(true);
+    if (streamClient.getStatus() === "closed") {
+      streamClient.reconnect();
+    }
+  };
+
+  const handleDisconnectStream = () => {
+    setIsStreamEnabled(false);
+  };
+
   const handleChallenge = async () => {
     try {
       const challenge = await requestAuthChallenge(rpcClient, walletAddress);
@@ -202,26 +276,23 @@ export function SpikeConsoleScreen({ rpcClient, wsHost }: SpikeConsoleScreenProp
         <Button title="Clear stored session" onPress={handleClearSession} />
       </SectionCard>
 
-      <SectionCard title="Realtime checks" subtitle="slotTradeUpdates subscription">
+      <SectionCard title="Realtime checks" subtitle="slotTradeUpdates via shared stream client">
         <Text style={styles.meta}>Host: {wsHost}/public</Text>
-        <Text style={[styles.meta, { color: connectionTone(wsState.status) }]}>
-          Status: {wsState.status}
+        <Text style={[styles.meta, { color: connectionTone(streamStatus) }]}>
+          Status: {streamStatus}
+          {isStreamEnabled ? "" : " (not subscribed)"}
         </Text>
-        {wsState.subscriptionId ? (
-          <Text style={styles.meta}>Subscription: {wsState.subscriptionId}</Text>
-        ) : null}
-        <Text style={styles.meta}>Events: {wsState.eventCount}</Text>
+        <Text style={styles.meta}>Events: {streamStats.eventCount}</Text>
         <Text style={styles.meta}>
-          Latest SOL: {typeof wsState.lastSolPrice === "number" ? wsState.lastSolPrice : "n/a"}
+          Latest SOL: {typeof streamStats.lastSolPrice === "number" ? streamStats.lastSolPrice : "n/a"}
         </Text>
-        <Text style={styles.meta}>Last event: {wsState.lastEventAt ?? "n/a"}</Text>
-        {wsState.errorText ? <Text style={styles.error}>{wsState.errorText}</Text> : null}
-        {wsState.lastPayloadPreview ? (
-          <Text style={styles.result}>Payload: {wsState.lastPayloadPreview}</Text>
+        <Text style={styles.meta}>Last event: {streamStats.lastEventAt ?? "n/a"}</Text>
+        {streamStats.lastPayloadPreview ? (
+          <Text style={styles.result}>Payload: {streamStats.lastPayloadPreview}</Text>
         ) : null}
-        <Button title="Connect stream" onPress={connectWs} />
+        <Button title="Connect stream" onPress={handleConnectStream} />
         <View style={styles.spacer} />
-        <Button title="Disconnect stream" onPress={disconnectWs} />
+        <Button title="Disconnect stream" onPress={handleDisconnectStream} />
       </SectionCard>
     </ScrollView>
   );
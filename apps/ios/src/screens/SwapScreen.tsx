@@ -0,0 +1,1035 @@
+/**
+ * SwapScreen — swap any pair from the connected wallet.
+ *
+ * Layout (top to bottom):
+ * 1. Pay: token picker, amount, balance + percentage shortcuts
+ * 2. Flip button
+ * 3. Receive: token picker, quoted amount
+ * 4. Quote summary: min received, price impact, route, fee, expiry
+ * 5. Swap button
+ *
+ * Opened from the drawer or a trade deep link with mints
+ * (`quickscope://trade/<in>/<out>?amount=1`). SOL, USDC, USDT and every
+ * token in the wallet are listed; any other mint can be pasted into the
+ * picker. Decimals for unfamiliar mints come from live token info.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  ActivityIndicator,
+  Image,
+  Keyboard,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import {
+  USDC_MINT,
+  USDT_MINT,
+  requestSwapExecution,
+  requestSwapQuote,
+  resolveMintDecimals,
+  type QuoteResult,
+} from "@quickscope/core/trade";
+import { fetchAccountTokenHoldings } from "@quickscope/core/portfolio";
+import { fetchLiveTokenInfo } from "@quickscope/core/token";
+import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
+import { isValidSolanaAddress, truncateAddress } from "@/src/features/account/walletService";
+import { getQuoteTtlSecondsRemaining, isQuoteStale } from "@/src/features/trade/quoteUtils";
+import {
+  DEFAULT_SETTINGS,
+  activeProfile,
+  formatSlippage,
+  loadTradeSettings,
+  type TradeSettings,
+} from "@/src/features/trade/tradeSettings";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { SOL_MINT } from "@/src/lib/constants";
+import { formatTokenAmount } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import type { TradeRouteParams } from "@/src/navigation/types";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { ArrowUpDown, ChevronDown, Search, X } from "@/src/ui/icons";
+
+/* ─── Types ─── */
+
+type SwapScreenProps = {
+  rpcClient: RpcClient;
+  params?: TradeRouteParams;
+};
+
+type SwapToken = {
+  mint: string;
+  symbol: string;
+  name?: string;
+  imageUri?: string;
+  decimals?: number;
+  /** UI units; undefined when the wallet doesn't hold it */
+  balance?: number;
+};
+
+/* ─── Constants ─── */
+
+const BASE_TOKENS: SwapToken[] = [
+  { mint: SOL_MINT, symbol: "SOL", name: "Solana", decimals: 9 },
+  { mint: USDC_MINT, symbol: "USDC", name: "USD Coin", decimals: 6 },
+  { mint: USDT_MINT, symbol: "USDT", name: "Tether USD", decimals: 6 },
+];
+
+const PERCENTAGE_SHORTCUTS = [0.25, 0.5, 1] as const;
+const QUOTE_DEBOUNCE_MS = 400;
+/** Left in the wallet on a 100% SOL swap for fees and rent */
+const SOL_FEE_RESERVE = 0.01;
+const HIGH_PRICE_IMPACT_PERCENT = 5;
+
+function formatUiAmount(value: number | undefined, decimals?: number): string {
+  return value === undefined ? "—" : formatTokenAmount(value, decimals);
+}
+
+function toInputString(value: number, decimals = 9): string {
+  return value.toFixed(Math.min(decimals, 9)).replace(/\.?0+$/, "");
+}
+
+/* ═══ Screen ═══ */
+
+export function SwapScreen({ rpcClient, params }: SwapScreenProps) {
+  const { walletAddress } = useAuthSession();
+
+  // ── Tokens ──
+  const [holdings, setHoldings] = useState<SwapToken[]>([]);
+  const [extraTokens, setExtraTokens] = useState<SwapToken[]>([]);
+  const [inputMint, setInputMint] = useState(params?.inputMint ?? SOL_MINT);
+  const [outputMint, setOutputMint] = useState(
+    params?.outputMint ?? (params?.inputMint === USDC_MINT ? SOL_MINT : USDC_MINT)
+  );
+  const [amount, setAmount] = useState(params?.amount ?? "");
+  const [pickerSide, setPickerSide] = useState<"input" | "output" | null>(null);
+
+  // ── Quote + execution ──
+  const [tradeSettings, setTradeSettings] = useState<TradeSettings>(DEFAULT_SETTINGS);
+  const [quote, setQuote] = useState<QuoteResult | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [quoteNonce, setQuoteNonce] = useState(0);
+  const [isSwapping, setIsSwapping] = useState(false);
+  const [nowMs, setNowMs] = useState(Date.now());
+  const quoteSeqRef = useRef(0);
+  const holdingsRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /** Decimals resolved while quoting */
+  const decimalsRef = useRef<Record<string, number>>({});
+
+  // Read during render so the first quote already has them
+  const linkDecimals = useMemo(() => {
+    const known: Record<string, number> = {};
+    if (params?.inputMint && params.inputMintDecimals !== undefined) {
+      known[params.inputMint] = params.inputMintDecimals;
+    }
+    if (params?.outputMint && params.outputMintDecimals !== undefined) {
+      known[params.outputMint] = params.outputMintDecimals;
+    }
+    return known;
+  }, [params]);
+
+  const profile = activeProfile(tradeSettings);
+
+  /* ═══ Data loading ═══ */
+
+  useEffect(() => {
+    loadTradeSettings().then(setTradeSettings);
+  }, []);
+
+  const loadHoldings = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      const data = await fetchAccountTokenHoldings(rpcClient, walletAddress);
+      const tokens: SwapToken[] = [{ ...BASE_TOKENS[0], balance: data.sol_balance }];
+      for (const h of data.token_holdings) {
+        const meta = h.token_info?.token_metadata;
+        if (!meta?.mint || h.balance <= 0) continue;
+        tokens.push({
+          mint: meta.mint,
+          symbol: meta.symbol ?? truncateAddress(meta.mint),
+          name: meta.name,
+          imageUri: meta.image_uri,
+          decimals: h.token_info?.mint_info?.decimals,
+          balance: h.balance,
+        });
+      }
+      setHoldings(tokens);
+    } catch {
+      // Balances are a convenience — quoting still works without them
+    }
+  }, [rpcClient, walletAddress]);
+
+  useEffect(() => {
+    loadHoldings();
+  }, [loadHoldings]);
+
+  useEffect(
+    () => () => {
+      if (holdingsRefreshRef.current) clearTimeout(holdingsRefreshRef.current);
+    },
+    []
+  );
+
+  // Deep links can land while the screen is already open
+  useEffect(() => {
+    if (!params) return;
+    if (params.inputMint) setInputMint(params.inputMint);
+    if (params.outputMint) setOutputMint(params.outputMint);
+    if (params.amount) setAmount(params.amount);
+  }, [params]);
+
+  /** Base tokens first, then wallet holdings, then pasted/linked mints */
+  const tokens = useMemo(() => {
+    const byMint = new Map<string, SwapToken>(BASE_TOKENS.map((t) => [t.mint, t]));
+    for (const h of holdings) {
+      const base = byMint.get(h.mint);
+      byMint.set(h.mint, { ...base, ...h, decimals: h.decimals ?? base?.decimals });
+    }
+    for (const t of extraTokens) {
+      if (!byMint.has(t.mint)) byMint.set(t.mint, t);
+    }
+    return [...byMint.values()];
+  }, [holdings, extraTokens]);
+
+  const tokenFor = useCallback(
+    (mint: string): SwapToken =>
+      tokens.find((t) => t.mint === mint) ?? { mint, symbol: truncateAddress(mint) },
+    [tokens]
+  );
+
+  const inputToken = tokenFor(inputMint);
+  const outputToken = tokenFor(outputMint);
+
+  // Fill in symbol/image for mints that arrived by link or paste
+  useEffect(() => {
+    const unknown = [inputMint, outputMint].filter(
+      (mint) => !tokens.some((t) => t.mint === mint)
+    );
+    if (unknown.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      unknown.map(async (mint): Promise<SwapToken> => {
+        const info = await fetchLiveTokenInfo(rpcClient, mint).catch(() => null);
+        const meta = info?.token_metadata;
+        return {
+          mint,
+          symbol: meta?.symbol ?? truncateAddress(mint),
+          name: meta?.name,
+          imageUri: meta?.image_uri,
+          decimals: info?.mint_info?.decimals,
+        };
+      })
+    ).then((resolved) => {
+      if (cancelled) return;
+      setExtraTokens((prev) => [
+        ...prev.filter((t) => !resolved.some((r) => r.mint === t.mint)),
+        ...resolved,
+      ]);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rpcClient, inputMint, outputMint, tokens]);
+
+  /* ═══ Quote ═══ */
+
+  const parsedAmount = useMemo(() => {
+    const n = parseFloat(amount);
+    return Number.isFinite(n) ? n : 0;
+  }, [amount]);
+
+  const inputDecimals = inputToken.decimals ?? linkDecimals[inputMint] ?? decimalsRef.current[inputMint];
+  const outputDecimals =
+    outputToken.decimals ?? linkDecimals[outputMint] ?? decimalsRef.current[outputMint];
+
+  useEffect(() => {
+    const seq = ++quoteSeqRef.current;
+    setQuote(null);
+    setQuoteError(null);
+
+    if (!walletAddress || parsedAmount <= 0 || inputMint === outputMint) {
+      setIsQuoting(false);
+      return;
+    }
+
+    setIsQuoting(true);
+    const timer = setTimeout(async () => {
+      try {
+        const [inDecimals, outDecimals] = await Promise.all([
+          resolveMintDecimals(rpcClient, inputMint, inputDecimals),
+          resolveMintDecimals(rpcClient, outputMint, outputDecimals),
+        ]);
+        decimalsRef.current[inputMint] = inDecimals;
+        decimalsRef.current[outputMint] = outDecimals;
+
+        const result = await requestSwapQuote(rpcClient, {
+          walletAddress,
+          inputMint,
+          outputMint,
+          amountUi: parsedAmount,
+          inputTokenDecimals: inDecimals,
+          outputTokenDecimals: outDecimals,
+          slippageBps: profile.slippageBps,
+        });
+        if (seq !== quoteSeqRef.current) return;
+        setQuote(result);
+        setNowMs(Date.now());
+      } catch (err) {
+        if (seq !== quoteSeqRef.current) return;
+        setQuoteError(err instanceof Error ? err.message : "Couldn't get a quote");
+      } finally {
+        if (seq === quoteSeqRef.current) setIsQuoting(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [
+    rpcClient,
+    walletAddress,
+    inputMint,
+    outputMint,
+    parsedAmount,
+    inputDecimals,
+    outputDecimals,
+    profile.slippageBps,
+    quoteNonce,
+  ]);
+
+  // Tick the expiry countdown while a quote is showing
+  useEffect(() => {
+    if (!quote) return;
+    const interval = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
+
+  /* ═══ Derived ═══ */
+
+  const availableBalance = useMemo(() => {
+    if (inputToken.balance === undefined) return undefined;
+    return inputMint === SOL_MINT
+      ? Math.max(0, inputToken.balance - SOL_FEE_RESERVE)
+      : inputToken.balance;
+  }, [inputMint, inputToken.balance]);
+
+  const exceedsBalance = availableBalance !== undefined && parsedAmount > availableBalance;
+  const quoteTtl = quote ? getQuoteTtlSecondsRemaining(quote.requestedAtMs, nowMs) : 0;
+  const priceImpact = quote?.summary.priceImpactPercent;
+
+  const canSwap =
+    Boolean(walletAddress) && quote !== null && !isQuoting && !isSwapping && !exceedsBalance;
+
+  let swapLabel = "Swap";
+  if (!walletAddress) swapLabel = "Connect wallet";
+  else if (inputMint === outputMint) swapLabel = "Pick two different tokens";
+  else if (parsedAmount <= 0) swapLabel = "Enter an amount";
+  else if (exceedsBalance) swapLabel = `Insufficient ${inputToken.symbol}`;
+  else if (quote && isQuoteStale(quote.requestedAtMs, nowMs)) swapLabel = "Refresh quote";
+
+  /* ═══ Handlers ═══ */
+
+  const handleFlip = useCallback(() => {
+    haptics.selection();
+    setInputMint(outputMint);
+    setOutputMint(inputMint);
+    setAmount("");
+  }, [inputMint, outputMint]);
+
+  const handlePercentage = useCallback(
+    (pct: number) => {
+      if (availableBalance === undefined) return;
+      haptics.selection();
+      setAmount(toInputString(availableBalance * pct, inputDecimals));
+    },
+    [availableBalance, inputDecimals]
+  );
+
+  const handleSelectToken = useCallback(
+    (mint: string) => {
+      haptics.selection();
+      const side = pickerSide;
+      setPickerSide(null);
+      if (side === "input") {
+        if (mint === outputMint) setOutputMint(inputMint);
+        setInputMint(mint);
+        setAmount("");
+      } else if (side === "output") {
+        if (mint === inputMint) setInputMint(outputMint);
+        setOutputMint(mint);
+      }
+    },
+    [pickerSide, inputMint, outputMint]
+  );
+
+  const handleSwap = useCallback(async () => {
+    if (!quote || !walletAddress) return;
+
+    if (isQuoteStale(quote.requestedAtMs)) {
+      setQuoteNonce((n) => n + 1);
+      return;
+    }
+
+    Keyboard.dismiss();
+    haptics.light();
+    setIsSwapping(true);
+
+    try {
+      const result = await requestSwapExecution(rpcClient, {
+        walletAddress,
+        inputMint: quote.inputMint,
+        outputMint: quote.outputMint,
+        amountAtomic: quote.amountAtomic,
+        slippageBps: quote.slippageBps,
+        priorityFeeLamports: profile.priorityLamports,
+        jitoTipLamports: profile.tipLamports ?? 0,
+      });
+
+      if (result.errorPreview) {
+        haptics.error();
+        toast.error("Swap failed", result.errorPreview);
+        return;
+      }
+
+      haptics.success();
+      toast.success(
+        "Swap submitted",
+        `${formatTokenAmount(quote.amountUi, inputDecimals)} ${inputToken.symbol} → ${outputToken.symbol}`
+      );
+      setAmount("");
+      if (holdingsRefreshRef.current) clearTimeout(holdingsRefreshRef.current);
+      holdingsRefreshRef.current = setTimeout(loadHoldings, 2000);
+    } catch (err) {
+      haptics.error();
+      toast.error("Swap failed", err instanceof Error ? err.message : "Please try again");
+    } finally {
+      setIsSwapping(false);
+    }
+  }, [
+    quote,
+    walletAddress,
+    rpcClient,
+    profile.priorityLamports,
+    profile.tipLamports,
+    inputDecimals,
+    inputToken.symbol,
+    outputToken.symbol,
+    loadHoldings,
+  ]);
+
+  /* ═══ Render ═══ */
+
+  return (
+    <ScrollView
+      style={styles.page}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      {/* ── Pay ── */}
+      <View style={styles.legCard}>
+        <View style={styles.labelRow}>
+          <Text style={styles.sectionLabel}>You pay</Text>
+          {inputToken.balance !== undefined ? (
+            <Text style={styles.balanceLabel}>
+              Balance: {formatTokenAmount(inputToken.balance, inputDecimals)}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.legRow}>
+          <TextInput
+            style={[styles.amountInput, exceedsBalance && styles.amountInputError]}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="0.00"
+            placeholderTextColor={qsColors.textSubtle}
+            keyboardType="decimal-pad"
+            returnKeyType="done"
+          />
+          <TokenButton token={inputToken} onPress={() => setPickerSide("input")} />
+        </View>
+        {availableBalance !== undefined && availableBalance > 0 ? (
+          <View style={styles.percentageRow}>
+            {PERCENTAGE_SHORTCUTS.map((pct) => (
+              <Pressable
+                key={pct}
+                style={({ pressed }) => [
+                  styles.percentageButton,
+                  pressed && styles.percentageButtonPressed,
+                ]}
+                onPress={() => handlePercentage(pct)}
+              >
+                <Text style={styles.percentageText}>{pct === 1 ? "Max" : `${pct * 100}%`}</Text>
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
+      </View>
+
+      {/* ── Flip ── */}
+      <View style={styles.flipRow}>
+        <Pressable
+          accessibilityLabel="Swap direction"
+          style={({ pressed }) => [styles.flipButton, pressed && styles.flipButtonPressed]}
+          onPress={handleFlip}
+        >
+          <ArrowUpDown size={16} color={qsColors.textSecondary} />
+        </Pressable>
+      </View>
+
+      {/* ── Receive ── */}
+      <View style={styles.legCard}>
+        <View style={styles.labelRow}>
+          <Text style={styles.sectionLabel}>You receive</Text>
+          {outputToken.balance !== undefined ? (
+            <Text style={styles.balanceLabel}>
+              Balance: {formatTokenAmount(outputToken.balance, outputDecimals)}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.legRow}>
+          <View style={styles.quotedAmountWrap}>
+            {isQuoting ? (
+              <ActivityIndicator size="small" color={qsColors.textMuted} />
+            ) : (
+              <Text
+                numberOfLines={1}
+                style={[styles.quotedAmount, !quote && styles.quotedAmountEmpty]}
+              >
+                {quote ? formatUiAmount(quote.summary.amountOutUi, outputDecimals) : "0.00"}
+              </Text>
+            )}
+          </View>
+          <TokenButton token={outputToken} onPress={() => setPickerSide("output")} />
+        </View>
+      </View>
+
+      {quoteError ? <Text style={styles.errorHint}>{quoteError}</Text> : null}
+
+      {/* ── Quote summary ── */}
+      {quote ? (
+        <View style={styles.summaryCard}>
+          <SummaryRow
+            label="Minimum received"
+            value={`${formatUiAmount(quote.summary.minOutAmountUi, outputDecimals)} ${outputToken.symbol}`}
+          />
+          <SummaryRow
+            label="Price impact"
+            value={priceImpact !== undefined ? `${priceImpact.toFixed(2)}%` : "—"}
+            valueColor={
+              priceImpact !== undefined && priceImpact >= HIGH_PRICE_IMPACT_PERCENT
+                ? qsColors.sellRed
+                : undefined
+            }
+          />
+          <SummaryRow
+            label="Route"
+            value={
+              quote.summary.routeHopCount !== undefined
+                ? `${quote.summary.routeHopCount} hop${quote.summary.routeHopCount === 1 ? "" : "s"}`
+                : "—"
+            }
+          />
+          <SummaryRow
+            label="Fee"
+            value={
+              quote.summary.feeAmountSol !== undefined
+                ? `${formatTokenAmount(quote.summary.feeAmountSol, 6)} SOL${
+                    quote.summary.feeRateBps !== undefined
+                      ? ` (${quote.summary.feeRateBps} bps)`
+                      : ""
+                  }`
+                : "—"
+            }
+          />
+          <SummaryRow label="Slippage" value={formatSlippage(quote.slippageBps)} />
+          <SummaryRow
+            label="Expires"
+            value={quoteTtl > 0 ? `${quoteTtl}s` : "Expired"}
+            valueColor={quoteTtl <= 5 ? qsColors.warning : undefined}
+          />
+        </View>
+      ) : null}
+
+      {/* ── Swap ── */}
+      <Pressable
+        style={({ pressed }) => [
+          styles.swapButton,
+          !canSwap && styles.swapButtonDisabled,
+          pressed && canSwap && styles.swapButtonPressed,
+        ]}
+        onPress={handleSwap}
+        disabled={!canSwap}
+      >
+        {isSwapping ? (
+          <ActivityIndicator size="small" color={qsColors.textPrimary} />
+        ) : (
+          <Text style={[styles.swapButtonText, !canSwap && styles.swapButtonTextDisabled]}>
+            {swapLabel}
+          </Text>
+        )}
+      </Pressable>
+
+      <TokenPickerModal
+        visible={pickerSide !== null}
+        title={pickerSide === "input" ? "Pay with" : "Receive"}
+        tokens={tokens}
+        selectedMint={pickerSide === "input" ? inputMint : outputMint}
+        onSelect={handleSelectToken}
+        onClose={() => setPickerSide(null)}
+      />
+    </ScrollView>
+  );
+}
+
+/* ─── Pieces ─── */
+
+function TokenButton({ token, onPress }: { token: SwapToken; onPress: () => void }) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.tokenButton, pressed && styles.tokenButtonPressed]}
+      onPress={onPress}
+    >
+      <TokenIcon token={token} />
+      <Text numberOfLines={1} style={styles.tokenSymbol}>
+        {token.symbol}
+      </Text>
+      <ChevronDown size={14} color={qsColors.textTertiary} />
+    </Pressable>
+  );
+}
+
+function TokenIcon({ token, size = 20 }: { token: SwapToken; size?: number }) {
+  if (token.imageUri) {
+    return (
+      <Image
+        source={{ uri: token.imageUri }}
+        style={{ width: size, height: size, borderRadius: size / 2 }}
+      />
+    );
+  }
+  return (
+    <View style={[styles.tokenIconFallback, { width: size, height: size, borderRadius: size / 2 }]}>
+      <Text style={styles.tokenIconLetter}>{token.symbol.slice(0, 1)}</Text>
+    </View>
+  );
+}
+
+function SummaryRow({
+  label,
+  value,
+  valueColor,
+}: {
+  label: string;
+  value: string;
+  valueColor?: string;
+}) {
+  return (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={[styles.summaryValue, valueColor ? { color: valueColor } : null]}>{value}</Text>
+    </View>
+  );
+}
+
+// ── Token Picker Modal ──
+
+function TokenPickerModal({
+  visible,
+  title,
+  tokens,
+  selectedMint,
+  onSelect,
+  onClose,
+}: {
+  visible: boolean;
+  title: string;
+  tokens: SwapToken[];
+  selectedMint: string;
+  onSelect: (mint: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    if (!visible) setQuery("");
+  }, [visible]);
+
+  const trimmed = query.trim();
+  const needle = trimmed.toLowerCase();
+  const filtered = needle
+    ? tokens.filter(
+        (t) =>
+          t.symbol.toLowerCase().includes(needle) ||
+          t.name?.toLowerCase().includes(needle) ||
+          t.mint === trimmed
+      )
+    : tokens;
+  const pastedMint =
+    isValidSolanaAddress(trimmed) && !tokens.some((t) => t.mint === trimmed) ? trimmed : null;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={modalStyles.sheet}>
+          <View style={modalStyles.header}>
+            <Text style={modalStyles.title}>{title}</Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={modalStyles.searchRow}>
+            <Search size={14} color={qsColors.textTertiary} />
+            <TextInput
+              style={modalStyles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Symbol or mint address"
+              placeholderTextColor={qsColors.textSubtle}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+          <ScrollView bounces={false} keyboardShouldPersistTaps="handled">
+            {pastedMint ? (
+              <Pressable
+                style={({ pressed }) => [modalStyles.row, pressed && modalStyles.rowPressed]}
+                onPress={() => onSelect(pastedMint)}
+              >
+                <View style={modalStyles.rowLeft}>
+                  <Text style={modalStyles.symbol}>Use this mint</Text>
+                  <Text style={modalStyles.mint}>{truncateAddress(pastedMint)}</Text>
+                </View>
+              </Pressable>
+            ) : null}
+            {filtered.map((t) => (
+              <Pressable
+                key={t.mint}
+                style={({ pressed }) => [
+                  modalStyles.row,
+                  t.mint === selectedMint && modalStyles.rowSelected,
+                  pressed && modalStyles.rowPressed,
+                ]}
+                onPress={() => onSelect(t.mint)}
+              >
+                <View style={modalStyles.rowMain}>
+                  <TokenIcon token={t} size={28} />
+                  <View style={modalStyles.rowLeft}>
+                    <Text style={modalStyles.symbol}>{t.symbol}</Text>
+                    <Text numberOfLines={1} style={modalStyles.mint}>
+                      {t.name ?? truncateAddress(t.mint)}
+                    </Text>
+                  </View>
+                </View>
+                {t.balance !== undefined ? (
+                  <Text style={modalStyles.balance}>
+                    {formatTokenAmount(t.balance, t.decimals)}
+                  </Text>
+                ) : null}
+              </Pressable>
+            ))}
+            {filtered.length === 0 && !pastedMint ? (
+              <Text style={modalStyles.emptyText}>No matching tokens. Paste a mint address.</Text>
+            ) : null}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  content: {
+    padding: qsSpacing.xl,
+    gap: qsSpacing.md,
+    paddingBottom: 60,
+  },
+  sectionLabel: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  balanceLabel: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+
+  // Legs
+  legCard: {
+    gap: qsSpacing.sm,
+    padding: qsSpacing.md,
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+  },
+  legRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  amountInput: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: qsTypography.size.xl,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  amountInputError: {
+    color: qsColors.sellRed,
+  },
+  quotedAmountWrap: {
+    flex: 1,
+    minHeight: 36,
+    justifyContent: "center",
+    alignItems: "flex-start",
+  },
+  quotedAmount: {
+    fontSize: qsTypography.size.xl,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  quotedAmountEmpty: {
+    color: qsColors.textSubtle,
+  },
+  tokenButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    maxWidth: 150,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.pill,
+  },
+  tokenButtonPressed: {
+    backgroundColor: qsColors.layer3,
+  },
+  tokenSymbol: {
+    flexShrink: 1,
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  tokenIconFallback: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer3,
+  },
+  tokenIconLetter: {
+    fontSize: 10,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textSecondary,
+  },
+
+  // Percentage row
+  percentageRow: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+  },
+  percentageButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  percentageButtonPressed: {
+    backgroundColor: qsColors.layer3,
+  },
+  percentageText: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+
+  // Flip
+  flipRow: {
+    alignItems: "center",
+    marginVertical: -qsSpacing.sm,
+    zIndex: 1,
+  },
+  flipButton: {
+    width: 32,
+    height: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: qsColors.layer2,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: 16,
+  },
+  flipButtonPressed: {
+    backgroundColor: qsColors.layer3,
+  },
+
+  errorHint: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+  },
+
+  // Quote summary
+  summaryCard: {
+    gap: 6,
+    padding: qsSpacing.md,
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  summaryLabel: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+  },
+  summaryValue: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+
+  // Swap button
+  swapButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: qsSpacing.sm,
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  swapButtonPressed: {
+    backgroundColor: qsColors.accentDeep,
+  },
+  swapButtonDisabled: {
+    opacity: 0.4,
+  },
+  swapButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  swapButtonTextDisabled: {
+    color: qsColors.textMuted,
+  },
+});
+
+const modalStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: qsSpacing.xxl,
+  },
+  sheet: {
+    backgroundColor: qsColors.layer1,
+    borderRadius: qsRadius.xl,
+    maxHeight: "70%",
+    overflow: "hidden",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderDefault,
+  },
+  title: {
+    fontSize: qsTypography.size.md,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    margin: qsSpacing.md,
+    paddingHorizontal: qsSpacing.md,
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: qsTypography.size.sm,
+    color: qsColors.textPrimary,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  rowSelected: {
+    backgroundColor: qsColors.layer2,
+  },
+  rowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  rowLeft: {
+    flex: 1,
+    gap: 2,
+  },
+  symbol: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  mint: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  balance: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  emptyText: {
+    padding: qsSpacing.lg,
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+    textAlign: "center",
+  },
+});
@@ -4,10 +4,12 @@ import type { BottomTabNavigationProp } from "@react-navigation/bottom-tabs";
 import { useNavigation, type NavigationProp } from "@react-navigation/native";
 import * as Clipboard from "expo-clipboard";
 import {
+  Alert,
   FlatList,
   Linking,
   Pressable,
   RefreshControl,
+  Share,
   StyleSheet,
   Text,
   View,
@@ -20,13 +22,34 @@ import { toast } from "@/src/lib/toast";
 import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
 import type { TrackingTabId } from "@/src/ui/TrackingFloatingNav";
 import {
+  buildPublishedWatchlistLink,
+  getSubscribedWatchlists,
+  type SubscribedWatchlist,
+} from "@/src/features/tracking/subscribedWatchlistsStorage";
+import {
+  createWalletWatchlist,
+  deleteWalletWatchlist,
+  fetchPublishedWalletWatchlist,
   fetchWalletActivity,
   fetchWalletWatchlist,
   fetchWalletWatchlists,
+  multiAddToWalletWatchlist,
+  publishWalletWatchlist,
+  removeWalletFromWatchlist,
+  updateTrackedWallet,
+  updateWalletWatchlistDescription,
+  updateWalletWatchlistName,
   type AllTransactionsTableRow,
   type TrackedWallet,
   type WalletWatchlist,
 } from "@/src/features/tracking/trackingService";
+import { applyListOrder, moveListId } from "@/src/features/tracking/watchlistEditing";
+import { useDashboardSync } from "@/src/features/dashboard/DashboardSyncProvider";
+import {
+  getWatchlistOrder,
+  setWatchlistOrder,
+  type WatchlistOrderKind,
+} from "@/src/features/tracking/watchlistOrderStorage";
 import {
   fetchTelegramChats,
   fetchTelegramMessages,
@@ -34,20 +57,53 @@ import {
   type TelegramMessage,
 } from "@/src/features/tracking/telegramEventsService";
 import {
+  createTokenWatchlist,
+  deleteTokenWatchlist,
+  fetchPublishedTokenWatchlist,
   fetchTokenWatchlists,
   fetchWatchlistTokens,
+  publishTokenWatchlist,
+  sortWatchlistTokens,
+  updateTokenWatchlistDescription,
+  updateTokenWatchlistName,
   type EnrichedWatchlistToken,
   type TokenWatchlist,
-} from "@/src/features/watchlist/tokenWatchlistService";
-import { fetchLiveTokenInfos, type LiveTokenInfo } from "@/src/features/token/tokenService";
+} from "@quickscope/core/watchlist";
+import { fetchLiveTokenInfos, type LiveTokenInfo } from "@quickscope/core/token";
 import type { RootStack, RootTabs, TrackingRouteParams } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
-import { Activity, ChevronDown, Copy, Eye, Globe, MessageCircle, Star, TrendingDown, TrendingUp, Wallet } from "@/src/ui/icons";
+import {
+  Activity,
+  Bell,
+  ChevronDown,
+  Copy,
+  ExternalLink,
+  Eye,
+  Globe,
+  MessageCircle,
+  Plus,
+  Share2,
+  Star,
+  TrendingDown,
+  TrendingUp,
+  UserPlus,
+  Users,
+  Wallet,
+} from "@/src/ui/icons";
 import { XIcon, TelegramIcon } from "@/src/ui/icons/BrandIcons";
 import { EmptyState } from "@/src/ui/EmptyState";
 import { SkeletonRow } from "@/src/ui/Skeleton";
 import { ListPickerDrawer, type ListPickerItem } from "@/src/ui/ListPickerDrawer";
+import type { SimpleBottomSheetRef } from "@/src/ui/SimpleBottomSheet";
+import { TokenAlertSheet, type TokenAlertTarget } from "@/src/ui/TokenAlertSheet";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
+import {
+  TrackedWalletModal,
+  WalletImportModal,
+  WatchlistDetailsModal,
+  type TrackedWalletDraft,
+  type WatchlistDetailsDialog,
+} from "@/src/ui/WatchlistEditModals";
 
 /* ─── Types ─── */
 
@@ -70,6 +126,20 @@ const TABS: { id: TrackingTabId; label: string }[] = [
   { id: "chats", label: "Chats" },
 ];
 
+/* ─── Subscribed lists ─── */
+
+// Drawer ids for subscribed lists, kept apart from the numeric ids of owned lists
+const SUBSCRIBED_ID_PREFIX = "sub:";
+
+function toSubscribedListId(publishedId: number): string {
+  return `${SUBSCRIBED_ID_PREFIX}${publishedId}`;
+}
+
+function parseSubscribedListId(id: string | null): number | null {
+  if (!id?.startsWith(SUBSCRIBED_ID_PREFIX)) return null;
+  return Number(id.slice(SUBSCRIBED_ID_PREFIX.length));
+}
+
 /* ─── LiveTokenInfo → EnrichedWatchlistToken adapter ─── */
 
 function liveTokenInfoToEnriched(mint: string, info: LiveTokenInfo): EnrichedWatchlistToken {
@@ -162,8 +232,13 @@ function ActionPill({ action }: { action: ActivityRow["action"] }) {
 export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
   const navigation = useNavigation<BottomTabNavigationProp<RootTabs>>();
   const rootNavigation = navigation.getParent<NavigationProp<RootStack>>();
-  useAuthSession(); // ensures auth context is available
+  const { primaryAccountAddress } = useAuthSession();
   const requestRef = useRef(0);
+  const { dashboardImport } = useDashboardSync();
+  const watchlistLayout = dashboardImport?.watchlistLayout;
+  // Read at load time so a re-sync doesn't reload the list
+  const watchlistLayoutRef = useRef(watchlistLayout);
+  watchlistLayoutRef.current = watchlistLayout;
 
   const [activeTab, setActiveTab] = useState<TrackingTabId>("wallets");
 
@@ -173,7 +248,7 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
 
   // ── Tokens tab state ──
   const [tokenWatchlists, setTokenWatchlists] = useState<TokenWatchlist[]>([]);
-  const [activeTokenWatchlistId, setActiveTokenWatchlistId] = useState<number | null>(null);
+  const [activeTokenWatchlistId, setActiveTokenWatchlistId] = useState<string | null>(null);
   const [watchlistTokens, setWatchlistTokens] = useState<EnrichedWatchlistToken[]>([]);
 
   // ── Wallets tab state ──
@@ -182,16 +257,32 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
   const [trackedWallets, setTrackedWallets] = useState<TrackedWallet[]>([]);
   const [activity, setActivity] = useState<ActivityRow[]>([]);
 
+  // ── Published lists the user subscribed to (read-only) ──
+  const [subscribedLists, setSubscribedLists] = useState<SubscribedWatchlist[]>([]);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // ── List management ──
+  const [listOrder, setListOrder] = useState<Record<WatchlistOrderKind, string[]>>({ token: [], wallet: [] });
+  const [detailsDialog, setDetailsDialog] = useState<(WatchlistDetailsDialog & { listId?: string }) | null>(null);
+  const [editingWallet, setEditingWallet] = useState<TrackedWallet | null>(null);
+  const [importVisible, setImportVisible] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+
   // ── Wallet activity filters ──
   const [activityActionFilter, setActivityActionFilter] = useState<"all" | "Buy" | "Sell">("all");
 
   // ── Chat message filters ──
   const [chatMsgFilter, setChatMsgFilter] = useState<"all" | "tokens">("all");
 
+  // ── Token alert sheet ──
+  const alertSheetRef = useRef<SimpleBottomSheetRef>(null);
+  const [alertTarget, setAlertTarget] = useState<TokenAlertTarget | null>(null);
+
   // ── Chats tab state ──
   const [telegramChats, setTelegramChats] = useState<TelegramChat[]>([]);
   const [telegramMessages, setTelegramMessages] = useState<TelegramMessage[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+
   const activeChatIdRef = useRef(activeChatId);
   activeChatIdRef.current = activeChatId;
   const [chatTokenInfoMap, setChatTokenInfoMap] = useState<Record<string, EnrichedWatchlistToken>>({});
@@ -202,15 +293,33 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
   const drawerTitle = activeTab === "wallets" ? "Wallet Lists" : activeTab === "tokens" ? "Token Lists" : "Chats";
 
   const drawerItems: ListPickerItem[] = useMemo(() => {
+    const subscribedItems = (kind: SubscribedWatchlist["kind"]): ListPickerItem[] =>
+      subscribedLists
+        .filter((entry) => entry.kind === kind)
+        .map((entry) => ({
+          id: toSubscribedListId(entry.publishedId),
+          label: entry.name,
+          subtitle: "Subscribed · read-only",
+          icon: <Users size={14} color={qsColors.textTertiary} />,
+        }));
+
     if (activeTab === "wallets") {
-      return walletWatchlists.map((wl) => ({ id: wl.list_id.toString(), label: wl.name }));
+      const owned = walletWatchlists.map((wl) => ({
+        id: wl.list_id.toString(),
+        label: wl.name,
+        subtitle: wl.description || undefined,
+        readOnly: wl.isFavorites,
+      }));
+      return [...applyListOrder(owned, listOrder.wallet), ...subscribedItems("wallet")];
     }
     if (activeTab === "tokens") {
-      return tokenWatchlists.map((wl) => ({
+      const owned = tokenWatchlists.map((wl) => ({
         id: String(wl.id),
         label: wl.name,
         subtitle: `${wl.tokens.length} token${wl.tokens.length !== 1 ? "s" : ""}`,
+        readOnly: wl.isFavorites,
       }));
+      return [...applyListOrder(owned, listOrder.token), ...subscribedItems("token")];
     }
     return telegramChats.map((c) => ({
       id: c.chatId,
@@ -218,21 +327,23 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
       imageUri: c.chatImage || undefined,
       icon: <MessageCircle size={14} color={qsColors.textTertiary} />,
     }));
-  }, [activeTab, walletWatchlists, tokenWatchlists, telegramChats]);
+  }, [activeTab, walletWatchlists, tokenWatchlists, telegramChats, subscribedLists, listOrder]);
 
   const activeListId =
     activeTab === "wallets"
       ? activeWalletWatchlistId
       : activeTab === "tokens"
-        ? String(activeTokenWatchlistId)
+        ? activeTokenWatchlistId
         : activeChatId;
 
+  const activeSubscribedId = activeTab === "chats" ? null : parseSubscribedListId(activeListId);
+
   const activeListLabel = drawerItems.find((i) => i.id === activeListId)?.label ?? "Select list";
 
   const handleDrawerSelect = useCallback(
     async (id: string) => {
       if (activeTab === "wallets") setActiveWalletWatchlistId(id);
-      else if (activeTab === "tokens") setActiveTokenWatchlistId(Number(id));
+      else if (activeTab === "tokens") setActiveTokenWatchlistId(id);
       else if (activeTab === "chats") {
         setActiveChatId(id);
         setIsLoading(true);
@@ -278,15 +389,32 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
       setErrorText(null);
 
       try {
-        const lists = await fetchTokenWatchlists(rpcClient);
+        const [lists, subscribed, order] = await Promise.all([
+          fetchTokenWatchlists(rpcClient),
+          getSubscribedWatchlists(primaryAccountAddress),
+          getWatchlistOrder("token"),
+        ]);
         if (requestId !== requestRef.current) return;
         setTokenWatchlists(lists ?? []);
+        setSubscribedLists(subscribed);
+        setListOrder((prev) => ({ ...prev, token: order }));
 
-        const targetId = activeTokenWatchlistId ?? lists?.[0]?.id ?? null;
+        const orderedIds = applyListOrder(
+          (lists ?? []).map((l) => ({ id: String(l.id) })),
+          order
+        );
+        // Open on the list the desktop watchlist shows, if it still exists
+        const desktopListId = watchlistLayoutRef.current?.listId;
+        const desktopList = orderedIds.find((l) => l.id === desktopListId);
+        const targetId = activeTokenWatchlistId ?? desktopList?.id ?? orderedIds[0]?.id ?? null;
         if (targetId !== activeTokenWatchlistId) setActiveTokenWatchlistId(targetId);
 
-        const targetList = (lists ?? []).find((l) => l.id === targetId);
-        const mints = targetList?.tokens ?? [];
+        const subscribedId = parseSubscribedListId(targetId);
+        const mints =
+          subscribedId !== null
+            ? (await fetchPublishedTokenWatchlist(rpcClient, subscribedId)).tokens
+            : ((lists ?? []).find((l) => String(l.id) === targetId)?.tokens ?? []);
+        if (requestId !== requestRef.current) return;
 
         if (mints.length > 0) {
           const tokens = await fetchWatchlistTokens(rpcClient, mints);
@@ -304,7 +432,7 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
         setIsRefreshing(false);
       }
     },
-    [rpcClient, activeTokenWatchlistId]
+    [rpcClient, activeTokenWatchlistId, primaryAccountAddress]
   );
 
   /* ═══ Wallets tab loading ═══ */
@@ -317,11 +445,21 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
       setErrorText(null);
 
       try {
-        const lists = await fetchWalletWatchlists(rpcClient);
+        const [lists, subscribed, order] = await Promise.all([
+          fetchWalletWatchlists(rpcClient),
+          getSubscribedWatchlists(primaryAccountAddress),
+          getWatchlistOrder("wallet"),
+        ]);
         if (requestId !== requestRef.current) return;
         setWalletWatchlists(lists ?? []);
+        setSubscribedLists(subscribed);
+        setListOrder((prev) => ({ ...prev, wallet: order }));
 
-        const targetId = activeWalletWatchlistId ?? lists?.[0]?.list_id?.toString() ?? null;
+        const orderedIds = applyListOrder(
+          (lists ?? []).map((l) => ({ id: String(l.list_id) })),
+          order
+        );
+        const targetId = activeWalletWatchlistId ?? orderedIds[0]?.id ?? null;
         if (targetId !== activeWalletWatchlistId) setActiveWalletWatchlistId(targetId);
 
         if (!targetId) {
@@ -330,7 +468,11 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
           return;
         }
 
-        const watchlist = await fetchWalletWatchlist(rpcClient, Number(targetId));
+        const subscribedId = parseSubscribedListId(targetId);
+        const watchlist =
+          subscribedId !== null
+            ? await fetchPublishedWalletWatchlist(rpcClient, subscribedId)
+            : await fetchWalletWatchlist(rpcClient, Number(targetId));
         if (requestId !== requestRef.current) return;
         const wallets = watchlist.wallets ?? [];
         setTrackedWallets(wallets);
@@ -371,7 +513,7 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
         setIsRefreshing(false);
       }
     },
-    [rpcClient, activeWalletWatchlistId]
+    [rpcClient, activeWalletWatchlistId, primaryAccountAddress]
   );
 
   /* ═══ Chats tab loading ═══ */
@@ -470,6 +612,16 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
     [rootNavigation]
   );
 
+  const handleCreateAlert = useCallback((token: EnrichedWatchlistToken) => {
+    setAlertTarget({
+      mint: token.mint,
+      symbol: token.symbol,
+      marketCapUsd: token.marketCapUsd,
+      oneHourChangePercent: token.oneHourChangePercent,
+    });
+    alertSheetRef.current?.snapToIndex(0);
+  }, []);
+
   const handleOpenWalletDetail = useCallback(
     (walletAddress: string, walletName?: string, walletEmoji?: string) => {
       rootNavigation?.navigate("WalletDetail", {
@@ -482,6 +634,234 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
     [rootNavigation]
   );
 
+  // Subscriptions change on the shared-list screen; drop the active list if it was unsubscribed there
+  useEffect(() => {
+    return navigation.addListener("focus", () => {
+      void getSubscribedWatchlists(primaryAccountAddress).then((subscribed) => {
+        setSubscribedLists(subscribed);
+        const isKept = (kind: SubscribedWatchlist["kind"], id: string | null) => {
+          const publishedId = parseSubscribedListId(id);
+          return publishedId === null || subscribed.some((e) => e.kind === kind && e.publishedId === publishedId);
+        };
+        setActiveTokenWatchlistId((id) => (isKept("token", id) ? id : null));
+        setActiveWalletWatchlistId((id) => (isKept("wallet", id) ? id : null));
+      });
+    });
+  }, [navigation, primaryAccountAddress]);
+
+  /** Publish the active owned list and share its link */
+  const handleShareList = useCallback(async () => {
+    if (isPublishing || !activeListId || activeTab === "chats") return;
+
+    setIsPublishing(true);
+    try {
+      const kind = activeTab === "tokens" ? "token" : "wallet";
+      const publishedId =
+        kind === "token"
+          ? await publishTokenWatchlist(rpcClient, Number(activeListId))
+          : await publishWalletWatchlist(rpcClient, Number(activeListId));
+      haptics.success();
+      const link = buildPublishedWatchlistLink(kind, publishedId);
+      await Share.share({ message: `${activeListLabel} on Quickscope\n${link}` });
+    } catch (err) {
+      toast.error("Share failed", err instanceof Error ? err.message : "Could not publish list");
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [isPublishing, activeListId, activeTab, activeListLabel, rpcClient]);
+
+  const handleOpenSubscribedList = useCallback(() => {
+    if (activeSubscribedId === null || activeTab === "chats") return;
+    haptics.light();
+    rootNavigation?.navigate("PublishedWatchlist", {
+      source: "tracking",
+      kind: activeTab === "tokens" ? "token" : "wallet",
+      publishedId: activeSubscribedId,
+    });
+  }, [activeSubscribedId, activeTab, rootNavigation]);
+
+  /* ═══ List management ═══ */
+
+  const manageKind: WatchlistOrderKind = activeTab === "tokens" ? "token" : "wallet";
+
+  const handleCreateList = useCallback(() => {
+    setListDrawerVisible(false);
+    setDetailsDialog({ mode: "create", kind: manageKind });
+  }, [manageKind]);
+
+  const handleEditList = useCallback(
+    (id: string) => {
+      const list =
+        manageKind === "token"
+          ? tokenWatchlists.find((l) => String(l.id) === id)
+          : walletWatchlists.find((l) => String(l.list_id) === id);
+      if (!list) return;
+      setListDrawerVisible(false);
+      setDetailsDialog({
+        mode: "edit",
+        kind: manageKind,
+        listId: id,
+        name: list.name,
+        description: list.description,
+      });
+    },
+    [manageKind, tokenWatchlists, walletWatchlists]
+  );
+
+  const handleSubmitListDetails = useCallback(
+    async (name: string, description: string) => {
+      if (!detailsDialog) return;
+      const { mode, kind, listId } = detailsDialog;
+
+      setIsSavingList(true);
+      try {
+        if (mode === "create") {
+          const newId =
+            kind === "token"
+              ? await createTokenWatchlist(rpcClient, name, description)
+              : await createWalletWatchlist(rpcClient, name, description);
+          // Selecting the new list triggers the tab reload
+          if (kind === "token") setActiveTokenWatchlistId(String(newId));
+          else setActiveWalletWatchlistId(String(newId));
+          toast.success("List created", name);
+        } else if (listId) {
+          const watchlistId = Number(listId);
+          if (name !== detailsDialog.name) {
+            if (kind === "token") await updateTokenWatchlistName(rpcClient, watchlistId, name);
+            else await updateWalletWatchlistName(rpcClient, watchlistId, name);
+          }
+          if (description !== (detailsDialog.description ?? "")) {
+            if (kind === "token") await updateTokenWatchlistDescription(rpcClient, watchlistId, description);
+            else await updateWalletWatchlistDescription(rpcClient, watchlistId, description);
+          }
+          toast.success("List updated", name);
+          void loadCurrentTab();
+        }
+        haptics.success();
+        setDetailsDialog(null);
+      } catch (err) {
+        toast.error("Save failed", err instanceof Error ? err.message : "Could not save list");
+      } finally {
+        setIsSavingList(false);
+      }
+    },
+    [detailsDialog, rpcClient, loadCurrentTab]
+  );
+
+  const handleDeleteList = useCallback(
+    (id: string) => {
+      const label = drawerItems.find((i) => i.id === id)?.label ?? "this list";
+      Alert.alert("Delete List", `Delete "${label}"? This can't be undone.`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              if (manageKind === "token") await deleteTokenWatchlist(rpcClient, Number(id));
+              else await deleteWalletWatchlist(rpcClient, Number(id));
+              haptics.success();
+              toast.success("List deleted", label);
+
+              if (id === activeListId) {
+                // Clearing the active list reloads the tab and falls back to the first list
+                if (manageKind === "token") setActiveTokenWatchlistId(null);
+                else setActiveWalletWatchlistId(null);
+              } else {
+                void loadCurrentTab();
+              }
+            } catch (err) {
+              toast.error("Delete failed", err instanceof Error ? err.message : "Could not delete list");
+            }
+          },
+        },
+      ]);
+    },
+    [drawerItems, manageKind, rpcClient, activeListId, loadCurrentTab]
+  );
+
+  const handleMoveList = useCallback(
+    (id: string, direction: -1 | 1) => {
+      haptics.selection();
+      const ownedIds = drawerItems
+        .filter((i) => parseSubscribedListId(i.id) === null)
+        .map((i) => i.id);
+      const next = moveListId(ownedIds, id, direction);
+      setListOrder((prev) => ({ ...prev, [manageKind]: next }));
+      void setWatchlistOrder(manageKind, next);
+    },
+    [drawerItems, manageKind]
+  );
+
+  const handleEditTrackedWallet = useCallback(
+    (publicKey: string) => {
+      if (activeSubscribedId !== null) return;
+      const wallet = trackedWallets.find((w) => w.public_key === publicKey);
+      if (!wallet) return;
+      haptics.light();
+      setEditingWallet(wallet);
+    },
+    [activeSubscribedId, trackedWallets]
+  );
+
+  const handleSaveTrackedWallet = useCallback(
+    async (draft: TrackedWalletDraft) => {
+      if (!editingWallet) return;
+      setIsSavingList(true);
+      try {
+        await updateTrackedWallet(rpcClient, { publicKey: editingWallet.public_key, ...draft });
+        haptics.success();
+        setEditingWallet(null);
+        void loadWalletsTab();
+      } catch (err) {
+        toast.error("Save failed", err instanceof Error ? err.message : "Could not update wallet");
+      } finally {
+        setIsSavingList(false);
+      }
+    },
+    [editingWallet, rpcClient, loadWalletsTab]
+  );
+
+  const handleRemoveTrackedWallet = useCallback(async () => {
+    if (!editingWallet || !activeWalletWatchlistId) return;
+    setIsSavingList(true);
+    try {
+      await removeWalletFromWatchlist(rpcClient, Number(activeWalletWatchlistId), editingWallet.public_key);
+      haptics.success();
+      toast.success("Removed", editingWallet.name || editingWallet.public_key);
+      setEditingWallet(null);
+      void loadWalletsTab();
+    } catch (err) {
+      toast.error("Remove failed", err instanceof Error ? err.message : "Could not remove wallet");
+    } finally {
+      setIsSavingList(false);
+    }
+  }, [editingWallet, activeWalletWatchlistId, rpcClient, loadWalletsTab]);
+
+  const handleImportWallets = useCallback(
+    async (addresses: string[]) => {
+      if (!activeWalletWatchlistId || addresses.length === 0) return;
+      setIsSavingList(true);
+      try {
+        await multiAddToWalletWatchlist(rpcClient, Number(activeWalletWatchlistId), addresses);
+        haptics.success();
+        toast.success(
+          "Wallets added",
+          `${addresses.length} wallet${addresses.length === 1 ? "" : "s"} added to ${activeListLabel}`
+        );
+        setImportVisible(false);
+        void loadWalletsTab();
+      } catch (err) {
+        toast.error("Import failed", err instanceof Error ? err.message : "Could not add wallets");
+      } finally {
+        setIsSavingList(false);
+      }
+    },
+    [activeWalletWatchlistId, rpcClient, activeListLabel, loadWalletsTab]
+  );
+
+  const trackedWalletKeys = useMemo(() => trackedWallets.map((w) => w.public_key), [trackedWallets]);
+
   /* ═══ Render helpers ═══ */
 
   /** Tab-specific column headers */
@@ -527,10 +907,33 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
             </Text>
             <ChevronDown size={14} color={qsColors.textTertiary} />
           </Pressable>
+        ) : activeTab !== "chats" && !isLoading ? (
+          <Pressable onPress={handleCreateList} style={styles.listTrigger} hitSlop={6}>
+            <Plus size={14} color={qsColors.accent} />
+            <Text style={styles.listTriggerLabel}>New list</Text>
+          </Pressable>
         ) : (
           <View style={{ flex: 1 }} />
         )}
 
+        {/* Share an owned list, or open the shared-list screen for a subscribed one */}
+        {hasLists && activeListId && activeTab !== "chats" ? (
+          activeSubscribedId !== null ? (
+            <Pressable onPress={handleOpenSubscribedList} style={styles.toolbarIconButton} hitSlop={6}>
+              <ExternalLink size={14} color={qsColors.textTertiary} />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={() => void handleShareList()}
+              style={[styles.toolbarIconButton, isPublishing && { opacity: 0.4 }]}
+              disabled={isPublishing}
+              hitSlop={6}
+            >
+              <Share2 size={14} color={qsColors.textTertiary} />
+            </Pressable>
+          )
+        ) : null}
+
         {/* Action filter chips — wallets tab only */}
         {activeTab === "wallets" && activity.length > 0 ? (
           <View style={styles.actionChipRow}>
@@ -585,13 +988,28 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
 
   /** Tab-specific summary line */
   function renderSummary() {
-    if (activeTab === "wallets" && trackedWallets.length > 0) {
+    const canImport = activeTab === "wallets" && activeWalletWatchlistId !== null && activeSubscribedId === null;
+
+    if (activeTab === "wallets" && (trackedWallets.length > 0 || (canImport && !isLoading))) {
       return (
         <View style={styles.summaryRow}>
           <Eye size={14} color={qsColors.textSubtle} />
-          <Text style={styles.summaryText}>
+          <Text style={[styles.summaryText, { flex: 1 }]}>
             {trackedWallets.length} wallet{trackedWallets.length !== 1 ? "s" : ""} tracked
           </Text>
+          {canImport ? (
+            <Pressable
+              style={styles.summaryAction}
+              hitSlop={6}
+              onPress={() => {
+                haptics.light();
+                setImportVisible(true);
+              }}
+            >
+              <UserPlus size={12} color={qsColors.accent} />
+              <Text style={styles.summaryActionText}>Import</Text>
+            </Pressable>
+          ) : null}
         </View>
       );
     }
@@ -704,7 +1122,10 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
 
   let listData: ListItem[] = [];
   if (activeTab === "tokens") {
-    listData = watchlistTokens.map((t) => ({ type: "token" as const, data: t }));
+    listData = sortWatchlistTokens(watchlistTokens, watchlistLayout?.sort).map((t) => ({
+      type: "token" as const,
+      data: t,
+    }));
   } else if (activeTab === "wallets") {
     listData = filteredActivity.map((a) => ({ type: "activity" as const, data: a }));
   } else {
@@ -830,6 +1251,16 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
                     >
                       <Copy size={12} color={qsColors.textSubtle} />
                     </Pressable>
+                    <Pressable
+                      hitSlop={8}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        haptics.light();
+                        handleCreateAlert(token);
+                      }}
+                    >
+                      <Bell size={12} color={qsColors.textSubtle} />
+                    </Pressable>
                   </View>
                   {/* Social links row */}
                   <View style={styles.socialRow}>
@@ -900,6 +1331,7 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
                           row.walletEmoji
                         )
                       }
+                      onLongPress={() => handleEditTrackedWallet(row.walletPublicKey)}
                     >
                       <Wallet size={10} color={qsColors.accent} />
                       <Text numberOfLines={1} style={styles.walletMetaTextTap}>
@@ -1053,7 +1485,36 @@ export function TrackingScreen({ rpcClient, params }: TrackingScreenProps) {
       items={drawerItems}
       activeId={activeListId}
       onSelect={handleDrawerSelect}
+      {...(activeTab !== "chats"
+        ? {
+            onCreate: handleCreateList,
+            onEditItem: handleEditList,
+            onDeleteItem: handleDeleteList,
+            onMoveItem: handleMoveList,
+          }
+        : null)}
+    />
+    <WatchlistDetailsModal
+      dialog={detailsDialog}
+      isSubmitting={isSavingList}
+      onSubmit={(name, description) => void handleSubmitListDetails(name, description)}
+      onClose={() => setDetailsDialog(null)}
+    />
+    <TrackedWalletModal
+      wallet={editingWallet}
+      isSubmitting={isSavingList}
+      onSubmit={(draft) => void handleSaveTrackedWallet(draft)}
+      onRemove={() => void handleRemoveTrackedWallet()}
+      onClose={() => setEditingWallet(null)}
     />
+    <WalletImportModal
+      visible={importVisible}
+      existing={trackedWalletKeys}
+      isSubmitting={isSavingList}
+      onSubmit={(addresses) => void handleImportWallets(addresses)}
+      onClose={() => setImportVisible(false)}
+    />
+    <TokenAlertSheet sheetRef={alertSheetRef} rpcClient={rpcClient} target={alertTarget} />
     </View>
   );
 }
@@ -1117,6 +1578,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: qsSpacing.md,
     flexShrink: 1,
   },
+  toolbarIconButton: {
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    padding: 9,
+    marginRight: "auto",
+  },
   listTriggerLabel: {
     color: qsColors.textPrimary,
     fontSize: 14,
@@ -1157,6 +1624,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: qsTypography.weight.medium,
   },
+  summaryAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  summaryActionText: {
+    color: qsColors.accent,
+    fontSize: 12,
+    fontWeight: qsTypography.weight.semi,
+  },
 
   // ── Column headers ──
   columnHeaders: {
@@ -0,0 +1,1042 @@
+/**
+ * WalletManagerScreen — generate, import, rename, archive and delete the
+ * account's trading wallets, set the primary wallet, export private keys
+ * (behind Face ID / passcode) and bulk-select wallets by group.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import * as Clipboard from "expo-clipboard";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { confirmDeviceOwner } from "@/src/features/auth/deviceAuth";
+import { useWalletManager } from "@/src/features/account/useWalletManager";
+import {
+  type UserWalletInfo,
+  type WalletGroup,
+  type WalletWithBalance,
+  exportWallet,
+  groupWallets,
+  truncateAddress,
+} from "@/src/features/account/walletService";
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import {
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Eye,
+  EyeOff,
+  MoreHorizontal,
+  Plus,
+  Star,
+  X,
+} from "@/src/ui/icons";
+
+type Props = { rpcClient: RpcClient };
+
+/** How long a copied private key is left on the clipboard. */
+const KEY_CLIPBOARD_TTL_MS = 30_000;
+
+type NameDialog = { mode: "generate" } | { mode: "rename"; wallet: UserWalletInfo };
+
+type WalletAction = { wallet: UserWalletInfo; archived: boolean };
+
+type WalletActionId = "rename" | "primary" | "export" | "archive" | "unarchive" | "delete";
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export function WalletManagerScreen({ rpcClient }: Props) {
+  const {
+    wallets,
+    archivedWallets,
+    groups,
+    isLoading,
+    error,
+    refresh,
+    setSelected,
+    generate,
+    importKey,
+    rename,
+    setPrimary,
+    archive,
+    unarchive,
+    remove,
+  } = useWalletManager(rpcClient);
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [archivedExpanded, setArchivedExpanded] = useState(false);
+  const [action, setAction] = useState<WalletAction | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [importVisible, setImportVisible] = useState(false);
+  const [exported, setExported] = useState<{ wallet: UserWalletInfo; privateKey: string } | null>(
+    null
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const sections = useMemo(() => groupWallets(wallets, groups), [wallets, groups]);
+  const totalSol = useMemo(
+    () => wallets.reduce((sum, w) => sum + (w.solBalance ?? 0), 0),
+    [wallets]
+  );
+
+  const handleRefresh = useCallback(() => {
+    haptics.light();
+    setIsRefreshing(true);
+    void refresh().finally(() => setIsRefreshing(false));
+  }, [refresh]);
+
+  /** Shared wrapper: spinner, success toast, error toast. */
+  const run = useCallback(
+    async (title: string, task: () => Promise<unknown>, successMessage?: string) => {
+      setIsSubmitting(true);
+      try {
+        await task();
+        haptics.success();
+        if (successMessage) toast.success(title, successMessage);
+        return true;
+      } catch (err) {
+        haptics.error();
+        toast.error(title, errorMessage(err, "Something went wrong"));
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    []
+  );
+
+  // ── Selection ──
+
+  const handleToggleSelected = useCallback(
+    (wallet: UserWalletInfo) => {
+      haptics.selection();
+      setSelected([wallet.public_key], !wallet.selected).catch((err) => {
+        toast.error("Wallets", errorMessage(err, "Failed to update selection"));
+      });
+    },
+    [setSelected]
+  );
+
+  const handleToggleGroup = useCallback(
+    (groupWalletList: UserWalletInfo[]) => {
+      haptics.selection();
+      const allSelected = groupWalletList.every((w) => w.selected);
+      setSelected(
+        groupWalletList.map((w) => w.public_key),
+        !allSelected
+      ).catch((err) => {
+        toast.error("Wallets", errorMessage(err, "Failed to update selection"));
+      });
+    },
+    [setSelected]
+  );
+
+  // ── Create ──
+
+  const handleSubmitName = useCallback(
+    async (name: string) => {
+      if (!nameDialog) return;
+      const trimmed = name.trim();
+
+      const ok =
+        nameDialog.mode === "generate"
+          ? await run("Generate", () => generate(trimmed), `${trimmed} created`)
+          : await run("Rename", () => rename(nameDialog.wallet.public_key, trimmed), "Wallet renamed");
+
+      if (ok) setNameDialog(null);
+    },
+    [nameDialog, run, generate, rename]
+  );
+
+  const handleSubmitImport = useCallback(
+    async (name: string, privateKey: string) => {
+      const ok = await run(
+        "Import",
+        () => importKey(name.trim(), privateKey.trim()),
+        `${name.trim()} imported`
+      );
+      if (ok) setImportVisible(false);
+    },
+    [run, importKey]
+  );
+
+  // ── Wallet actions ──
+
+  const runExport = useCallback(
+    async (wallet: UserWalletInfo) => {
+      // Device owner check before any key leaves the server. Kept off the
+      // auth session so a cancelled prompt can't change session status
+      let confirmed: boolean;
+      try {
+        confirmed = await confirmDeviceOwner(`Export ${wallet.name || "wallet"} private key`);
+      } catch (err) {
+        toast.error("Export", errorMessage(err, "Device authentication unavailable"));
+        return;
+      }
+      if (!confirmed) return;
+
+      await run("Export", async () => {
+        const privateKey = await exportWallet(rpcClient, wallet.public_key);
+        if (!privateKey) throw new Error("No key returned");
+        setExported({ wallet, privateKey });
+      });
+    },
+    [run, rpcClient]
+  );
+
+  const handleExport = useCallback(
+    (wallet: UserWalletInfo) => {
+      Alert.alert(
+        "Export Private Key",
+        "Anyone with this key has full control of the wallet. You'll confirm with Face ID or your passcode first.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Continue", style: "destructive", onPress: () => void runExport(wallet) },
+        ]
+      );
+    },
+    [runExport]
+  );
+
+  const handleArchive = useCallback(
+    (wallet: UserWalletInfo) => {
+      void run("Archive", () => archive(wallet.public_key), `${wallet.name} archived`);
+    },
+    [run, archive]
+  );
+
+  const handleDelete = useCallback(
+    (wallet: UserWalletInfo) => {
+      Alert.alert(
+        "Delete Wallet",
+        `Delete ${wallet.name}? Export its private key first if it still holds funds — this can't be undone.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: () => void run("Delete", () => remove(wallet.public_key), `${wallet.name} deleted`),
+          },
+        ]
+      );
+    },
+    [run, remove]
+  );
+
+  const handleAction = useCallback(
+    (id: WalletActionId) => {
+      if (!action) return;
+      const { wallet } = action;
+      setAction(null);
+
+      switch (id) {
+        case "rename":
+          setNameDialog({ mode: "rename", wallet });
+          break;
+        case "primary":
+          void run("Primary Wallet", () => setPrimary(wallet.public_key), `${wallet.name} is now primary`);
+          break;
+        case "export":
+          handleExport(wallet);
+          break;
+        case "archive":
+          handleArchive(wallet);
+          break;
+        case "unarchive":
+          void run("Restore", () => unarchive(wallet.public_key), `${wallet.name} restored`);
+          break;
+        case "delete":
+          handleDelete(wallet);
+          break;
+      }
+    },
+    [action, run, setPrimary, unarchive, handleExport, handleArchive, handleDelete]
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={qsColors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.page}>
+      <ScrollView
+        style={styles.page}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            tintColor={qsColors.textTertiary}
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+          />
+        }
+      >
+        {/* ── Summary + create ── */}
+        <View style={styles.summaryRow}>
+          <View>
+            <Text style={styles.summaryValue}>{totalSol.toFixed(4)} SOL</Text>
+            <Text style={styles.summaryLabel}>
+              {wallets.length} wallet{wallets.length === 1 ? "" : "s"} ·{" "}
+              {wallets.filter((w) => w.selected).length} selected
+            </Text>
+          </View>
+          <View style={styles.createRow}>
+            <Pressable
+              style={({ pressed }) => [styles.createButton, pressed && styles.createButtonPressed]}
+              onPress={() => setImportVisible(true)}
+            >
+              <Text style={styles.createButtonText}>Import</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.createButton,
+                styles.createButtonPrimary,
+                pressed && styles.createButtonPrimaryPressed,
+              ]}
+              onPress={() => setNameDialog({ mode: "generate" })}
+            >
+              <Plus size={14} color={qsColors.textPrimary} />
+              <Text style={styles.createButtonText}>New</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {/* ── Active wallets by group ── */}
+        {sections.map((section) => (
+          <View key={section.group?.id ?? "ungrouped"} style={styles.section}>
+            <GroupHeader
+              group={section.group}
+              count={section.wallets.length}
+              allSelected={section.wallets.length > 0 && section.wallets.every((w) => w.selected)}
+              onToggle={
+                section.wallets.length > 0 ? () => handleToggleGroup(section.wallets) : undefined
+              }
+            />
+            <View style={styles.card}>
+              {section.wallets.length === 0 ? (
+                <Text style={styles.emptyGroupText}>No wallets in this group</Text>
+              ) : (
+                section.wallets.map((wallet, index) => (
+                  <WalletRow
+                    key={wallet.public_key}
+                    wallet={wallet}
+                    isLast={index === section.wallets.length - 1}
+                    onToggleSelected={() => handleToggleSelected(wallet)}
+                    onMore={() => setAction({ wallet, archived: false })}
+                  />
+                ))
+              )}
+            </View>
+          </View>
+        ))}
+
+        {/* ── Archived ── */}
+        {archivedWallets.length > 0 ? (
+          <View style={styles.section}>
+            <Pressable
+              style={styles.groupHeader}
+              onPress={() => {
+                haptics.selection();
+                setArchivedExpanded((prev) => !prev);
+              }}
+            >
+              <Text style={styles.groupName}>Archived</Text>
+              <Text style={styles.groupCount}>{archivedWallets.length}</Text>
+              <View style={styles.flex} />
+              {archivedExpanded ? (
+                <ChevronUp size={16} color={qsColors.textTertiary} />
+              ) : (
+                <ChevronDown size={16} color={qsColors.textTertiary} />
+              )}
+            </Pressable>
+            {archivedExpanded ? (
+              <View style={styles.card}>
+                {archivedWallets.map((wallet, index) => (
+                  <WalletRow
+                    key={wallet.public_key}
+                    wallet={wallet}
+                    isLast={index === archivedWallets.length - 1}
+                    onMore={() => setAction({ wallet, archived: true })}
+                  />
+                ))}
+              </View>
+            ) : null}
+          </View>
+        ) : null}
+      </ScrollView>
+
+      {isSubmitting ? (
+        <View style={styles.busyOverlay} pointerEvents="auto">
+          <ActivityIndicator color={qsColors.accent} />
+        </View>
+      ) : null}
+
+      <WalletActionsModal action={action} onSelect={handleAction} onClose={() => setAction(null)} />
+
+      <NameModal
+        dialog={nameDialog}
+        isSubmitting={isSubmitting}
+        onSubmit={(name) => void handleSubmitName(name)}
+        onClose={() => setNameDialog(null)}
+      />
+
+      <ImportModal
+        visible={importVisible}
+        isSubmitting={isSubmitting}
+        onSubmit={(name, key) => void handleSubmitImport(name, key)}
+        onClose={() => setImportVisible(false)}
+      />
+
+      <ExportKeyModal exported={exported} onClose={() => setExported(null)} />
+    </View>
+  );
+}
+
+// ── Group Header ──
+
+function GroupHeader({
+  group,
+  count,
+  allSelected,
+  onToggle,
+}: {
+  group: WalletGroup | null;
+  count: number;
+  allSelected: boolean;
+  onToggle?: () => void;
+}) {
+  return (
+    <View style={styles.groupHeader}>
+      {group ? <View style={[styles.groupDot, { backgroundColor: group.color || qsColors.accent }]} /> : null}
+      <Text style={styles.groupName}>{group?.name ?? "Ungrouped"}</Text>
+      <Text style={styles.groupCount}>{count}</Text>
+      <View style={styles.flex} />
+      {onToggle ? (
+        <Pressable onPress={onToggle} hitSlop={8}>
+          <Text style={styles.groupToggle}>{allSelected ? "Deselect all" : "Select all"}</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+// ── Wallet Row ──
+
+function WalletRow({
+  wallet,
+  isLast,
+  onToggleSelected,
+  onMore,
+}: {
+  wallet: UserWalletInfo | WalletWithBalance;
+  isLast: boolean;
+  /** Omitted for archived wallets, which can't be selected */
+  onToggleSelected?: () => void;
+  onMore: () => void;
+}) {
+  const solBalance = "solBalance" in wallet ? wallet.solBalance : undefined;
+
+  return (
+    <Pressable
+      style={({ pressed }) => [
+        styles.walletRow,
+        !isLast && styles.walletRowDivider,
+        pressed && styles.walletRowPressed,
+      ]}
+      onPress={onMore}
+    >
+      {onToggleSelected ? (
+        <Pressable onPress={onToggleSelected} hitSlop={8}>
+          <View style={[styles.checkbox, wallet.selected && styles.checkboxActive]}>
+            {wallet.selected ? <Check size={12} color={qsColors.textPrimary} /> : null}
+          </View>
+        </Pressable>
+      ) : null}
+      <View style={styles.walletInfo}>
+        <View style={styles.nameRow}>
+          <Text style={styles.walletName} numberOfLines={1}>
+            {wallet.name || "Unnamed"}
+          </Text>
+          {wallet.is_primary ? (
+            <Star size={12} color={qsColors.warning} fill={qsColors.warning} />
+          ) : null}
+        </View>
+        <Text style={styles.walletKey}>{truncateAddress(wallet.public_key)}</Text>
+      </View>
+      {solBalance !== undefined ? (
+        <Text style={styles.balanceText}>{solBalance.toFixed(4)} SOL</Text>
+      ) : null}
+      <MoreHorizontal size={18} color={qsColors.textTertiary} />
+    </Pressable>
+  );
+}
+
+// ── Wallet Actions Modal ──
+
+function WalletActionsModal({
+  action,
+  onSelect,
+  onClose,
+}: {
+  action: WalletAction | null;
+  onSelect: (id: WalletActionId) => void;
+  onClose: () => void;
+}) {
+  const items: { id: WalletActionId; label: string; destructive?: boolean }[] = !action
+    ? []
+    : action.archived
+      ? [
+          { id: "unarchive", label: "Restore" },
+          { id: "export", label: "Export Private Key" },
+          { id: "delete", label: "Delete", destructive: true },
+        ]
+      : [
+          { id: "rename", label: "Rename" },
+          ...(action.wallet.is_primary
+            ? []
+            : [{ id: "primary" as const, label: "Set as Primary" }]),
+          { id: "export", label: "Export Private Key" },
+          // The primary wallet can't be archived
+          ...(action.wallet.is_primary
+            ? []
+            : [{ id: "archive" as const, label: "Archive", destructive: true }]),
+        ];
+
+  return (
+    <Modal visible={action !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={modalStyles.sheet}>
+          <View style={modalStyles.header}>
+            <View style={styles.flex}>
+              <Text style={modalStyles.title} numberOfLines={1}>
+                {action?.wallet.name || "Wallet"}
+              </Text>
+              {action ? (
+                <Text style={styles.walletKey}>{truncateAddress(action.wallet.public_key)}</Text>
+              ) : null}
+            </View>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          {items.map((item) => (
+            <Pressable
+              key={item.id}
+              style={({ pressed }) => [modalStyles.row, pressed && modalStyles.rowPressed]}
+              onPress={() => onSelect(item.id)}
+            >
+              <Text style={[modalStyles.rowText, item.destructive && modalStyles.rowTextDestructive]}>
+                {item.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Name Modal (generate / rename) ──
+
+function NameModal({
+  dialog,
+  isSubmitting,
+  onSubmit,
+  onClose,
+}: {
+  dialog: NameDialog | null;
+  isSubmitting: boolean;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (dialog) setName(dialog.mode === "rename" ? dialog.wallet.name : "");
+  }, [dialog]);
+
+  const canSubmit = name.trim().length > 0 && !isSubmitting;
+
+  return (
+    <Modal visible={dialog !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={modalStyles.sheet}>
+          <View style={modalStyles.header}>
+            <Text style={modalStyles.title}>
+              {dialog?.mode === "rename" ? "Rename Wallet" : "New Wallet"}
+            </Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={modalStyles.body}>
+            <TextInput
+              style={modalStyles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Wallet name"
+              placeholderTextColor={qsColors.textSubtle}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={() => canSubmit && onSubmit(name)}
+            />
+            <Pressable
+              style={[modalStyles.submitButton, !canSubmit && modalStyles.submitButtonDisabled]}
+              disabled={!canSubmit}
+              onPress={() => onSubmit(name)}
+            >
+              <Text style={modalStyles.submitButtonText}>
+                {dialog?.mode === "rename" ? "Save" : "Generate"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Import Modal ──
+
+function ImportModal({
+  visible,
+  isSubmitting,
+  onSubmit,
+  onClose,
+}: {
+  visible: boolean;
+  isSubmitting: boolean;
+  onSubmit: (name: string, privateKey: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [privateKey, setPrivateKey] = useState("");
+
+  // Never keep a pasted key around after the modal closes
+  useEffect(() => {
+    if (!visible) {
+      setName("");
+      setPrivateKey("");
+    }
+  }, [visible]);
+
+  const canSubmit = name.trim().length > 0 && privateKey.trim().length > 0 && !isSubmitting;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={modalStyles.sheet}>
+          <View style={modalStyles.header}>
+            <Text style={modalStyles.title}>Import Wallet</Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={modalStyles.body}>
+            <TextInput
+              style={modalStyles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Wallet name"
+              placeholderTextColor={qsColors.textSubtle}
+              returnKeyType="next"
+            />
+            <TextInput
+              style={modalStyles.input}
+              value={privateKey}
+              onChangeText={setPrivateKey}
+              placeholder="Base58 private key"
+              placeholderTextColor={qsColors.textSubtle}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Pressable
+              style={[modalStyles.submitButton, !canSubmit && modalStyles.submitButtonDisabled]}
+              disabled={!canSubmit}
+              onPress={() => onSubmit(name, privateKey)}
+            >
+              <Text style={modalStyles.submitButtonText}>Import</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Export Key Modal ──
+
+function ExportKeyModal({
+  exported,
+  onClose,
+}: {
+  exported: { wallet: UserWalletInfo; privateKey: string } | null;
+  onClose: () => void;
+}) {
+  const [revealed, setRevealed] = useState(false);
+  const copiedKeyRef = useRef<string | null>(null);
+  const clearTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /** Wipe a copied key — unless the clipboard has since been overwritten. */
+  const clearCopiedKey = useCallback(() => {
+    if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
+    clearTimerRef.current = null;
+    const copied = copiedKeyRef.current;
+    copiedKeyRef.current = null;
+    if (!copied) return;
+    void Clipboard.getStringAsync()
+      .then((current) => (current === copied ? Clipboard.setStringAsync("") : undefined))
+      .catch(() => undefined);
+  }, []);
+
+  // Runs on close (exported → null) and unmount
+  useEffect(() => {
+    setRevealed(false);
+    return clearCopiedKey;
+  }, [exported, clearCopiedKey]);
+
+  const handleCopy = useCallback(async () => {
+    if (!exported) return;
+    await Clipboard.setStringAsync(exported.privateKey);
+    copiedKeyRef.current = exported.privateKey;
+    if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
+    clearTimerRef.current = setTimeout(clearCopiedKey, KEY_CLIPBOARD_TTL_MS);
+    haptics.success();
+    toast.success("Copied", "Cleared from the clipboard in 30s or when you close this.");
+  }, [exported, clearCopiedKey]);
+
+  return (
+    <Modal visible={exported !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <View style={modalStyles.sheet}>
+          <View style={modalStyles.header}>
+            <Text style={modalStyles.title} numberOfLines={1}>
+              {exported?.wallet.name ?? "Private Key"}
+            </Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={modalStyles.body}>
+            <Text style={modalStyles.warningText}>
+              Never share this key. Anyone who has it can move every asset in this wallet.
+            </Text>
+            <Pressable style={modalStyles.keyBox} onPress={() => setRevealed((prev) => !prev)}>
+              <Text style={modalStyles.keyText} selectable={revealed}>
+                {revealed ? exported?.privateKey : "•".repeat(44)}
+              </Text>
+              {revealed ? (
+                <EyeOff size={16} color={qsColors.textTertiary} />
+              ) : (
+                <Eye size={16} color={qsColors.textTertiary} />
+              )}
+            </Pressable>
+            <Pressable style={modalStyles.submitButton} onPress={() => void handleCopy()}>
+              <Copy size={14} color={qsColors.textPrimary} />
+              <Text style={modalStyles.submitButtonText}>Copy Key</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  page: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+  },
+  flex: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    backgroundColor: qsColors.layer0,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.lg,
+    paddingBottom: 60,
+  },
+  errorText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.sellRed,
+  },
+
+  // Summary
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  summaryValue: {
+    fontSize: qsTypography.size.xl,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  summaryLabel: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    marginTop: 2,
+  },
+  createRow: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+  },
+  createButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: qsSpacing.md,
+    paddingVertical: 8,
+    borderRadius: qsRadius.md,
+    backgroundColor: qsColors.layer2,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  createButtonPressed: {
+    backgroundColor: qsColors.layer3,
+  },
+  createButtonPrimary: {
+    backgroundColor: qsColors.accent,
+    borderColor: qsColors.accent,
+  },
+  createButtonPrimaryPressed: {
+    backgroundColor: qsColors.accentDeep,
+  },
+  createButtonText: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+
+  // Sections
+  section: {
+    gap: qsSpacing.sm,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+  },
+  groupDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  groupName: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  groupCount: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  groupToggle: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.accent,
+  },
+  card: {
+    backgroundColor: qsColors.layer1,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    overflow: "hidden",
+  },
+  emptyGroupText: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    padding: qsSpacing.md,
+  },
+
+  // Wallet row
+  walletRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+  },
+  walletRowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  walletRowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 5,
+    borderWidth: 1.5,
+    borderColor: qsColors.textTertiary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkboxActive: {
+    backgroundColor: qsColors.accent,
+    borderColor: qsColors.accent,
+  },
+  walletInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  walletName: {
+    flexShrink: 1,
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+  walletKey: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+  balanceText: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
+
+const modalStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: qsSpacing.xxl,
+  },
+  sheet: {
+    backgroundColor: qsColors.layer1,
+    borderRadius: qsRadius.xl,
+    overflow: "hidden",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: qsSpacing.sm,
+    padding: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderDefault,
+  },
+  title: {
+    fontSize: qsTypography.size.md,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  body: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderSubtle,
+  },
+  rowPressed: {
+    backgroundColor: qsColors.pressedOverlay,
+  },
+  rowText: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textPrimary,
+  },
+  rowTextDestructive: {
+    color: qsColors.sellRed,
+  },
+  input: {
+    backgroundColor: qsColors.layer2,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+    fontSize: qsTypography.size.sm,
+    color: qsColors.textPrimary,
+  },
+  submitButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: qsSpacing.xs,
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  submitButtonDisabled: {
+    opacity: 0.4,
+  },
+  submitButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  warningText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.warning,
+  },
+  keyBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    padding: qsSpacing.md,
+  },
+  keyText: {
+    flex: 1,
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+});
@@ -1,32 +1,37 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
   FlatList,
+  Pressable,
   RefreshControl,
   StyleSheet,
   Text,
   View,
 } from "react-native";
-import * as Haptics from "expo-haptics";
 
 import { EmptyState } from "@/src/ui/EmptyState";
 import { SkeletonRows } from "@/src/ui/Skeleton";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
-import { Clock } from "@/src/ui/icons";
+import type { SimpleBottomSheetRef } from "@/src/ui/SimpleBottomSheet";
+import { TradeExportSheet } from "@/src/ui/TradeExportSheet";
+import { Clock, Share2 } from "@/src/ui/icons";
 
 import { formatCompactUsd } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import {
   fetchTransactionHistory,
   type MinimalTokenInfo,
   type TransactionRow,
   type TransactionsResponse,
-} from "@/src/features/portfolio/portfolioService";
+} from "@quickscope/core/portfolio";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 
 type HistoryTabProps = {
   rpcClient: RpcClient;
   walletAddress: string | null;
   solPriceUsd: number;
+  /** Offered as an export scope alongside the current wallet */
+  allWalletAddresses?: string[];
 };
 
 type EnrichedTx = TransactionRow & { tokenMeta?: MinimalTokenInfo };
@@ -64,8 +69,14 @@ function TxRow({ tx, solPriceUsd }: { tx: EnrichedTx; solPriceUsd: number }) {
   );
 }
 
-export function HistoryTab({ rpcClient, walletAddress, solPriceUsd }: HistoryTabProps) {
+export function HistoryTab({
+  rpcClient,
+  walletAddress,
+  solPriceUsd,
+  allWalletAddresses,
+}: HistoryTabProps) {
   const requestRef = useRef(0);
+  const exportSheetRef = useRef<SimpleBottomSheetRef>(null);
   const [txRows, setTxRows] = useState<EnrichedTx[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -110,7 +121,7 @@ export function HistoryTab({ rpcClient, walletAddress, solPriceUsd }: HistoryTab
   }, [loadData]);
 
   const handleRefresh = useCallback(() => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    haptics.light();
     loadData({ refreshing: true });
   }, [loadData]);
 
@@ -122,31 +133,53 @@ export function HistoryTab({ rpcClient, walletAddress, solPriceUsd }: HistoryTab
   );
 
   return (
-    <FlatList
-      style={styles.list}
-      contentContainerStyle={styles.content}
-      data={isLoading ? [] : txRows}
-      keyExtractor={(item, i) => `${item.signature}-${i}`}
-      renderItem={renderItem}
-      ListEmptyComponent={
-        isLoading ? (
-          <SkeletonRows count={8} />
-        ) : (
-          <EmptyState
-            icon={Clock}
-            title="No history"
-            subtitle="Your transaction history will appear here."
+    <>
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.content}
+        data={isLoading ? [] : txRows}
+        keyExtractor={(item, i) => `${item.signature}-${i}`}
+        renderItem={renderItem}
+        ListHeaderComponent={
+          walletAddress ? (
+            <Pressable
+              style={({ pressed }) => [styles.exportRow, pressed && styles.exportRowPressed]}
+              onPress={() => {
+                haptics.light();
+                exportSheetRef.current?.snapToIndex(0);
+              }}
+            >
+              <Share2 size={14} color={qsColors.textSecondary} />
+              <Text style={styles.exportText}>Export for taxes (CSV / JSON)</Text>
+            </Pressable>
+          ) : null
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <SkeletonRows count={8} />
+          ) : (
+            <EmptyState
+              icon={Clock}
+              title="No history"
+              subtitle="Your transaction history will appear here."
+            />
+          )
+        }
+        refreshControl={
+          <RefreshControl
+            tintColor={qsColors.textTertiary}
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
           />
-        )
-      }
-      refreshControl={
-        <RefreshControl
-          tintColor={qsColors.textTertiary}
-          refreshing={isRefreshing}
-          onRefresh={handleRefresh}
-        />
-      }
-    />
+        }
+      />
+      <TradeExportSheet
+        sheetRef={exportSheetRef}
+        rpcClient={rpcClient}
+        walletAddress={walletAddress}
+        allWalletAddresses={allWalletAddresses}
+      />
+    </>
   );
 }
 
@@ -178,6 +211,19 @@ const styles = StyleSheet.create({
     fontSize: qsTypography.size.xxs,
     fontWeight: qsTypography.weight.semi,
   },
+  exportRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+    paddingVertical: qsSpacing.xs,
+    marginBottom: qsSpacing.xs,
+  },
+  exportRowPressed: { opacity: 0.6 },
+  exportText: {
+    color: qsColors.textSecondary,
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.semi,
+  },
   amount: {
     color: qsColors.textSecondary,
     fontSize: qsTypography.size.xxs,
@@ -1,25 +1,93 @@
-import { StyleSheet, View } from "react-native";
+import { useCallback, useState } from "react";
+import { FlatList, RefreshControl, StyleSheet, Text } from "react-native";
+import * as Haptics from "expo-haptics";
 
 import { EmptyState } from "@/src/ui/EmptyState";
+import { OrderRow } from "@/src/ui/OrderRow";
+import { SkeletonRows } from "@/src/ui/Skeleton";
 import { Clock } from "@/src/ui/icons";
-import { qsColors } from "@/src/theme/tokens";
 
-export function PortfolioOrdersTab() {
-  return (
-    <View style={styles.container}>
-      <EmptyState
-        icon={Clock}
-        title="No orders"
-        subtitle="Your open orders will appear here."
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { TriggerOrder } from "@quickscope/core/trade";
+import { useTriggerOrders } from "@/src/features/trade/useTriggerOrders";
+import { useTrailingStops } from "@/src/features/trade/TrailingStopsProvider";
+import { qsColors, qsSpacing, qsTypography } from "@/src/theme/tokens";
+
+type PortfolioOrdersTabProps = {
+  rpcClient: RpcClient;
+  walletAddress: string | null;
+};
+
+export function PortfolioOrdersTab({ rpcClient, walletAddress }: PortfolioOrdersTabProps) {
+  const { orders, isLoading, error, cancellingIds, refresh, cancelOrder } = useTriggerOrders(
+    rpcClient,
+    { walletAddress }
+  );
+  const { trailingByOrderId } = useTrailingStops();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsRefreshing(true);
+    void refresh().finally(() => setIsRefreshing(false));
+  }, [refresh]);
+
+  const handleCancel = useCallback(
+    (orderId: string) => {
+      void cancelOrder(orderId);
+    },
+    [cancelOrder],
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: TriggerOrder }) => (
+      <OrderRow
+        order={item}
+        onCancel={handleCancel}
+        isCancelling={cancellingIds.has(item.uuid)}
+        trailing={trailingByOrderId.get(item.uuid)}
       />
-    </View>
+    ),
+    [handleCancel, cancellingIds, trailingByOrderId],
+  );
+
+  return (
+    <FlatList
+      style={styles.list}
+      contentContainerStyle={styles.content}
+      data={isLoading ? [] : orders}
+      keyExtractor={(item) => item.uuid}
+      renderItem={renderItem}
+      ListHeaderComponent={error ? <Text style={styles.errorText}>{error}</Text> : null}
+      ListEmptyComponent={
+        isLoading ? (
+          <SkeletonRows count={6} />
+        ) : (
+          <EmptyState
+            icon={Clock}
+            title="No orders"
+            subtitle="Your open orders will appear here."
+          />
+        )
+      }
+      refreshControl={
+        <RefreshControl
+          tintColor={qsColors.textTertiary}
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+        />
+      }
+    />
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: qsColors.layer0,
-    justifyContent: "center",
+  list: { flex: 1, backgroundColor: qsColors.layer0 },
+  content: { paddingVertical: qsSpacing.sm },
+  errorText: {
+    color: qsColors.sellRed,
+    fontSize: qsTypography.size.xxs,
+    paddingHorizontal: qsSpacing.lg,
+    marginBottom: qsSpacing.sm,
   },
 });
@@ -1,6 +1,5 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useMemo } from "react";
 import {
-  ActivityIndicator,
   FlatList,
   RefreshControl,
   StyleSheet,
@@ -9,7 +8,6 @@ import {
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import * as Haptics from "expo-haptics";
 
 import { AnimatedPressable } from "@/src/ui/AnimatedPressable";
 import { EmptyState } from "@/src/ui/EmptyState";
@@ -22,39 +20,40 @@ import {
   formatPercent,
   formatSignedUsd,
 } from "@/src/lib/format";
-import type { RpcClient } from "@/src/lib/api/rpcClient";
 import {
-  fetchTraderPositions,
-  quoteToUsd,
-  type Position,
-} from "@/src/features/portfolio/portfolioService";
+  computeRealizedPnl,
+  realizedPnlPercent,
+  type MinimalTokenInfo,
+  type TokenRealizedPnl,
+  type TransactionsResponse,
+} from "@quickscope/core/portfolio";
 import type { RootStack } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 
+const MAX_TRADES = 50;
+
 type TopTradesTabProps = {
-  rpcClient: RpcClient;
-  walletAddress: string | null;
+  /** The portfolio's P&L history, loaded and refreshed by the screen */
+  history: TransactionsResponse | null;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  onRefresh: () => void;
 };
 
+type TopTrade = TokenRealizedPnl & { meta?: MinimalTokenInfo };
+
 function TradeRow({
-  position,
-  solPriceUsd,
+  trade,
   navigation,
 }: {
-  position: Position;
-  solPriceUsd: number;
+  trade: TopTrade;
   navigation: NativeStackNavigationProp<RootStack>;
 }) {
-  const meta = position.token_info;
-  const symbol = meta?.symbol ?? "UNK";
+  const meta = trade.meta;
+  const symbol = meta?.symbol ?? trade.mint.slice(0, 4);
   const name = meta?.name ?? "Unknown";
-  const mint = meta?.mint ?? "";
-  const toUsd = (q: number) => quoteToUsd(q, meta, solPriceUsd);
-  const realizedUsd = toUsd(position.realized_pnl_quote ?? 0);
-  const pnlPercent = (position.realized_pnl_change_proportion ?? 0) * 100;
-  const positive = realizedUsd >= 0;
-  const boughtUsd = position.bought_usd ?? toUsd(position.bought_quote ?? 0);
-  const soldUsd = position.sold_usd ?? toUsd(position.sold_quote ?? 0);
+  const pnlPercent = realizedPnlPercent(trade);
+  const positive = trade.realizedPnlUsd >= 0;
 
   return (
     <AnimatedPressable
@@ -62,7 +61,7 @@ function TradeRow({
       onPress={() =>
         navigation.navigate("TokenDetail", {
           source: "portfolio-row",
-          tokenAddress: mint,
+          tokenAddress: trade.mint,
           symbol,
           name,
           imageUri: meta?.image_uri ?? undefined,
@@ -77,16 +76,16 @@ function TradeRow({
         <Text style={styles.name} numberOfLines={1}>{name}</Text>
       </View>
       <View style={styles.rowMid}>
-        <Text style={styles.midLabel}>Bought</Text>
-        <Text style={styles.midValue}>{formatCompactUsd(boughtUsd || undefined)}</Text>
+        <Text style={styles.midLabel}>Cost</Text>
+        <Text style={styles.midValue}>{formatCompactUsd(trade.costBasisUsd || undefined)}</Text>
       </View>
       <View style={styles.rowMid}>
         <Text style={styles.midLabel}>Sold</Text>
-        <Text style={styles.midValue}>{formatCompactUsd(soldUsd || undefined)}</Text>
+        <Text style={styles.midValue}>{formatCompactUsd(trade.proceedsUsd || undefined)}</Text>
       </View>
       <View style={styles.rowRight}>
         <Text style={[styles.pnlValue, positive ? styles.positive : styles.negative]}>
-          {formatSignedUsd(realizedUsd || undefined)}
+          {formatSignedUsd(trade.realizedPnlUsd || undefined)}
         </Text>
         <Text style={[styles.pnlPercent, positive ? styles.positive : styles.negative]}>
           {formatPercent(pnlPercent)}
@@ -96,78 +95,34 @@ function TradeRow({
   );
 }
 
-export function TopTradesTab({ rpcClient, walletAddress }: TopTradesTabProps) {
+/**
+ * Best and worst realized trades, FIFO-matched from the wallet's transaction
+ * history rather than the server's per-position figures, so partially sold
+ * positions show up too.
+ */
+export function TopTradesTab({ history, isLoading, isRefreshing, onRefresh }: TopTradesTabProps) {
   const navigation = useNavigation<NativeStackNavigationProp<RootStack>>();
-  const requestRef = useRef(0);
-  const [positions, setPositions] = useState<Position[]>([]);
-  const [solPriceUsd, setSolPriceUsd] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-
-  const loadData = useCallback(
-    (options?: { refreshing?: boolean }) => {
-      if (!walletAddress) {
-        setPositions([]);
-        setIsLoading(false);
-        return;
-      }
-
-      const requestId = ++requestRef.current;
-      if (options?.refreshing) setIsRefreshing(true);
-      else setIsLoading(true);
-
-      fetchTraderPositions(rpcClient, walletAddress, {
-        limit: 50,
-        offset: 0,
-        sort_column: "realized_pnl_quote",
-        include_zero_balances: true,
-      })
-        .then((res) => {
-          if (requestId !== requestRef.current) return;
-          setSolPriceUsd(res.sol_price_usd);
-          const closed = res.positions
-            .filter((p) => p.balance === 0)
-            .sort(
-              (a, b) =>
-                Math.abs(b.realized_pnl_quote) - Math.abs(a.realized_pnl_quote)
-            );
-          setPositions(closed);
-        })
-        .catch(() => {
-          if (requestId !== requestRef.current) return;
-          setPositions([]);
-        })
-        .finally(() => {
-          if (requestId !== requestRef.current) return;
-          setIsLoading(false);
-          setIsRefreshing(false);
-        });
-    },
-    [rpcClient, walletAddress],
-  );
-
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
 
-  const handleRefresh = useCallback(() => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    loadData({ refreshing: true });
-  }, [loadData]);
+  const trades = useMemo<TopTrade[]>(() => {
+    if (!history) return [];
+    const mintMap = history.mint_to_token_info ?? {};
+    return computeRealizedPnl(history.table?.rows ?? [])
+      .byToken.filter((t) => t.costBasisUsd > 0 || t.proceedsUsd > 0)
+      .slice(0, MAX_TRADES)
+      .map((t) => ({ ...t, meta: mintMap[t.mint]?.token_metadata }));
+  }, [history]);
 
   const renderItem = useCallback(
-    ({ item }: { item: Position }) => (
-      <TradeRow position={item} solPriceUsd={solPriceUsd} navigation={navigation} />
-    ),
-    [solPriceUsd, navigation],
+    ({ item }: { item: TopTrade }) => <TradeRow trade={item} navigation={navigation} />,
+    [navigation],
   );
 
   return (
     <FlatList
       style={styles.list}
       contentContainerStyle={styles.content}
-      data={isLoading ? [] : positions}
-      keyExtractor={(item, i) => item.token_info?.mint ?? `top-${i}`}
+      data={isLoading ? [] : trades}
+      keyExtractor={(item) => item.mint}
       renderItem={renderItem}
       ListEmptyComponent={
         isLoading ? (
@@ -175,7 +130,7 @@ export function TopTradesTab({ rpcClient, walletAddress }: TopTradesTabProps) {
         ) : (
           <EmptyState
             icon={TrendingUp}
-            title="No closed trades"
+            title="No realized trades"
             subtitle="Your best realized trades will appear here."
           />
         )
@@ -184,7 +139,7 @@ export function TopTradesTab({ rpcClient, walletAddress }: TopTradesTabProps) {
         <RefreshControl
           tintColor={qsColors.textTertiary}
           refreshing={isRefreshing}
-          onRefresh={handleRefresh}
+          onRefresh={onRefresh}
         />
       }
     />
@@ -3,7 +3,7 @@
  *
  * Layout:
  * [Back]
- * [Image 40x40] [Symbol] [Age pill]  [Copy] [Star]
+ * [Image 40x40] [Symbol] [Age pill]  [Copy] [Hide] [Bell] [Star]
  *               [Name · Contract]
  * [MC $1.2M]  [+12.5%]
  * [Platform pill] [Social chips]
@@ -13,7 +13,7 @@ import { Pressable, StyleSheet, Text, View } from "react-native";
 
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { SocialChips, type SocialLink } from "@/src/ui/SocialChips";
-import { ArrowLeft, Copy, Star, Clock } from "@/src/ui/icons";
+import { ArrowLeft, Bell, Copy, EyeOff, Star, Clock } from "@/src/ui/icons";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
 import { haptics } from "@/src/lib/haptics";
 import { formatCompactUsd, formatPercent } from "./styles";
@@ -30,11 +30,14 @@ type TokenDetailHeaderProps = {
   marketCapUsd: number | undefined;
   oneHourChange: number | undefined;
   isTracked: boolean;
+  isHidden: boolean;
   isWatchlistLoading: boolean;
   isWatchlistUpdating: boolean;
   hasValidAccessToken: boolean;
   onCopyAddress: () => void;
   onToggleWatchlist: () => void;
+  onCreateAlert: () => void;
+  onToggleHidden: () => void;
   onGoBack: () => void;
   scanMentionsOneHour?: number;
 };
@@ -51,11 +54,14 @@ export function TokenDetailHeader({
   marketCapUsd,
   oneHourChange,
   isTracked,
+  isHidden,
   isWatchlistLoading,
   isWatchlistUpdating,
   hasValidAccessToken,
   onCopyAddress,
   onToggleWatchlist,
+  onCreateAlert,
+  onToggleHidden,
   onGoBack,
 }: TokenDetailHeaderProps) {
   const truncatedAddress = `${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}`;
@@ -95,6 +101,22 @@ export function TokenDetailHeader({
                 <Copy size={14} color={qsColors.accent} />
               </Pressable>
 
+              <Pressable
+                onPress={() => { haptics.light(); onToggleHidden(); }}
+                style={({ pressed }) => [styles.iconButton, { opacity: pressed ? 0.5 : 1 }]}
+                hitSlop={8}
+              >
+                <EyeOff size={15} color={isHidden ? qsColors.sellRed : qsColors.textTertiary} />
+              </Pressable>
+
+              <Pressable
+                onPress={() => { haptics.light(); onCreateAlert(); }}
+                style={({ pressed }) => [styles.iconButton, { opacity: pressed ? 0.5 : 1 }]}
+                hitSlop={8}
+              >
+                <Bell size={15} color={qsColors.textTertiary} />
+              </Pressable>
+
               <Pressable
                 onPress={() => { haptics.light(); onToggleWatchlist(); }}
                 style={({ pressed }) => [styles.iconButton, { opacity: pressed ? 0.5 : 1 }]}
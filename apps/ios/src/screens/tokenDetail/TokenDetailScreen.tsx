@@ -3,14 +3,17 @@
  * tab system, and inline trade panel.
  *
  * Layout (top to bottom):
- * 1. Condensed header: Image LEFT, symbol + age + copy + star
+ * 1. Condensed header: Image LEFT, symbol + age + copy + alert + star
  * 2. Edge-to-edge area chart
  * 3. Timeframe selector pills
  * 4. Metric badges row (Vol, TX, Scans — MC/Change in header)
  * 5. Holdings bar (if wallet connected)
  * 6. Tabs: Activity, Traders, Holders
  * 7. Persistent QuickTradePanel at bottom
- * 8. TradeBottomSheet + TradeSettingsModal overlays
+ * 8. TradeBottomSheet + TradeSettingsModal + TokenAlertSheet overlays
+ *
+ * A buy submitted with a TP/SL ladder places the ladder's orders once the
+ * swap lands (single-wallet buys only).
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -23,9 +26,13 @@ import {
   Animated,
   Image,
   Pressable,
+  ScrollView,
   StyleSheet,
   Text,
   View,
+  type LayoutChangeEvent,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
@@ -35,8 +42,10 @@ import { SOL_MINT } from "@/src/lib/constants";
 import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
 import type { RootStack, TokenDetailRouteParams } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
-import { fetchPositionPnl, fetchAccountTokenHoldings, type TraderTokenPosition } from "@/src/features/portfolio/portfolioService";
+import { fetchPositionPnl, fetchAccountTokenHoldings, type TraderTokenPosition } from "@quickscope/core/portfolio";
 import { useWalletCompat } from "@/src/features/wallet/useWalletCompat";
+import { useHiddenTokens } from "@/src/features/token/HiddenTokensProvider";
+import { useHideToken } from "@/src/features/token/useHideToken";
 import {
   buildChartSeries,
   buildCandleChartSeries,
@@ -45,13 +54,23 @@ import {
   type LiveTokenInfo,
   type TokenChartPoint,
   type TokenCandlePoint,
-} from "@/src/features/token/tokenService";
+  type TokenCandlesResponse,
+} from "@quickscope/core/token";
+import {
+  createCandleSeries,
+  foldTradesIntoCandles,
+  tradeFromActivityRow,
+  type CandleSeries,
+  type CandleTrade,
+} from "@/src/features/token/candleAggregator";
+import { extractTokenTrades, type TokenTradeUpdate } from "@/src/features/token/tokenInsightsService";
+import { useStreamSubscription } from "@/src/features/streaming/useStreamSubscription";
 import {
   addTokenToWatchlist,
   fetchTokenWatchlists,
   removeTokenFromWatchlist,
   type TokenWatchlist,
-} from "@/src/features/watchlist/tokenWatchlistService";
+} from "@quickscope/core/watchlist";
 import { TokenChart } from "@/src/ui/TokenChart";
 import type { ChartSignal } from "@/src/ui/TokenChart";
 import { SignalFilterChips } from "@/src/ui/chart/SignalFilterChips";
@@ -62,6 +81,7 @@ import type { SocialLink } from "@/src/ui/SocialChips";
 import { QuickTradePanel } from "@/src/ui/QuickTradePanel";
 import { TradeBottomSheet } from "@/src/ui/TradeBottomSheet";
 import { TradeSettingsModal } from "@/src/ui/TradeSettingsModal";
+import { TokenAlertSheet, type TokenAlertTarget } from "@/src/ui/TokenAlertSheet";
 import {
   type TradeSettings,
   DEFAULT_SETTINGS,
@@ -69,11 +89,20 @@ import {
   activeProfile,
 } from "@/src/features/trade/tradeSettings";
 import {
+  DEFAULT_EXPIRATION_SECONDS,
+  createExitLadder,
   createTriggerOrder,
+  initTrailingStop,
+  requestSwapExecution,
+  requestSwapQuote,
+  waitForSwapConfirmation,
   type CreateTriggerOrderParams,
-} from "@/src/features/trade/triggerOrderService";
-import { requestSwapQuote } from "@/src/features/trade/tradeQuoteService";
-import { requestSwapExecution } from "@/src/features/trade/tradeExecutionService";
+  type ExitLadderLevel,
+} from "@quickscope/core/trade";
+import { useExitLadders } from "@/src/features/trade/ExitLaddersProvider";
+import { useTrailingStops } from "@/src/features/trade/TrailingStopsProvider";
+import { useDcaPlans } from "@/src/features/trade/DcaPlansProvider";
+import { createDcaPlan, type CreateDcaPlanParams } from "@/src/features/trade/dcaSchedule";
 import { fetchActiveWallets, fetchWalletSolBalances } from "@/src/features/account/walletService";
 import { fetchAccountTradeSettings } from "@/src/features/account/settingsService";
 import {
@@ -83,7 +112,7 @@ import {
   batchResultMessage,
 } from "@/src/features/trade/multiWalletTradeService";
 import { haptics } from "@/src/lib/haptics";
-import { ArrowLeft, BarChart3, LineChart, Zap } from "@/src/ui/icons";
+import { ArrowLeft, ArrowUp, BarChart3, LineChart, Zap } from "@/src/ui/icons";
 
 import { TokenDetailHeader } from "./TokenDetailHeader";
 import { TokenDetailMetrics } from "./TokenDetailMetrics";
@@ -102,14 +131,32 @@ import {
 
 type TokenDetailScreenProps = {
   rpcClient: RpcClient;
+  /** Confirms buys before their exit ladder is placed */
+  solanaRpcEndpoint: string;
   params?: TokenDetailRouteParams;
 };
 
-export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps) {
+/** Raw candles behind the chart — kept so live trades can be folded in. */
+type ChartSource = {
+  candles: CandleSeries;
+  line: CandleSeries;
+  candlesResponse: TokenCandlesResponse;
+  lineResponse: TokenCandlesResponse | null;
+};
+
+/** Live trades are folded into the chart at most this often */
+const CHART_FLUSH_INTERVAL_MS = 1_000;
+
+export function TokenDetailScreen({ rpcClient, solanaRpcEndpoint, params }: TokenDetailScreenProps) {
   const navigation = useNavigation<NativeStackNavigationProp<RootStack>>();
   const insets = useSafeAreaInsets();
   const { walletAddress, hasValidAccessToken, authenticateFromWallet } = useAuthSession();
   const { connected, login, walletAddress: privyWalletAddress } = useWalletCompat();
+  const { hiddenMints, unhide: unhideToken } = useHiddenTokens();
+  const promptHideToken = useHideToken();
+  const { addLadder } = useExitLadders();
+  const { addTrailingStop } = useTrailingStops();
+  const { addPlan: addDcaPlan } = useDcaPlans();
   const ensureAuthenticated = useCallback(async () => {
     if (hasValidAccessToken) return;
     if (connected) {
@@ -122,15 +169,37 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
   const chartRequestIdRef = useRef(0);
   const positionRequestIdRef = useRef(0);
   const balanceRequestIdRef = useRef(0);
+  const pendingChartTradesRef = useRef<CandleTrade[]>([]);
   const bottomSheetRef = useRef<SimpleBottomSheetRef>(null);
   const settingsSheetRef = useRef<SimpleBottomSheetRef>(null);
+  const alertSheetRef = useRef<SimpleBottomSheetRef>(null);
+
+  const scrollViewRef = useRef<ScrollView>(null);
+  const tabsOffsetRef = useRef(0);
+  const [isActivityPaused, setIsActivityPaused] = useState(false);
+  const [newTradesCount, setNewTradesCount] = useState(0);
 
   const scrollY = useRef(new Animated.Value(0)).current;
   const onScroll = Animated.event(
     [{ nativeEvent: { contentOffset: { y: scrollY } } }],
-    { useNativeDriver: true },
+    {
+      useNativeDriver: true,
+      // Hold the live trade tape once the top of the tabs scrolls out of view
+      listener: (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        setIsActivityPaused(event.nativeEvent.contentOffset.y > tabsOffsetRef.current);
+      },
+    },
   );
 
+  const handleTabsLayout = useCallback((event: LayoutChangeEvent) => {
+    tabsOffsetRef.current = event.nativeEvent.layout.y;
+  }, []);
+
+  const handleShowNewTrades = useCallback(() => {
+    haptics.light();
+    scrollViewRef.current?.scrollTo({ y: tabsOffsetRef.current, animated: true });
+  }, []);
+
   const stickyHeaderOpacity = scrollY.interpolate({
     inputRange: [100, 140],
     outputRange: [0, 1],
@@ -144,9 +213,7 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
 
   const [selectedTimeframe, setSelectedTimeframe] = useState<ChartTimeframe>(chartTimeframes[1]);
   const [liveInfo, setLiveInfo] = useState<LiveTokenInfo | null>(null);
-  const [chartData, setChartData] = useState<TokenChartPoint[]>([]);
-  const [candleData, setCandleData] = useState<TokenCandlePoint[]>([]);
-  const [chartMode, setChartMode] = useState<"mcap" | "price">("mcap");
+  const [chartSource, setChartSource] = useState<ChartSource | null>(null);
   const [chartType, setChartType] = useState<"line" | "candle">("candle");
   const [isChartLoading, setIsChartLoading] = useState(false);
   const [chartError, setChartError] = useState<string | null>(null);
@@ -222,21 +289,15 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         setLiveInfo(tokenInfo ?? null);
 
         const rawCandles = candlesResponse.candles ?? [];
-        const lineCandles = lineResponse?.candles ?? rawCandles;
-        const result = buildChartSeries({
-          candles: lineCandles,
-          tokenInfo: tokenInfo ?? null,
-          candlesResponse: lineResponse ?? candlesResponse,
-        });
-        const candleResult = buildCandleChartSeries({
-          candles: rawCandles,
-          tokenInfo: tokenInfo ?? null,
+        pendingChartTradesRef.current = [];
+        setChartSource({
+          candles: createCandleSeries(rawCandles, candleResolution),
+          line: lineResponse
+            ? createCandleSeries(lineResponse.candles ?? [], lineResolution)
+            : createCandleSeries(rawCandles, candleResolution),
           candlesResponse,
+          lineResponse,
         });
-
-        setChartData(result.points);
-        setCandleData(candleResult.candles);
-        setChartMode(result.mode);
       } catch (error) {
         if (!isActive || requestId !== chartRequestIdRef.current) return;
         setChartError(error instanceof Error ? error.message : "Failed to load chart.");
@@ -250,6 +311,55 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
     return () => { isActive = false; };
   }, [rpcClient, selectedTimeframe, tokenAddress, mintedAtSeconds]);
 
+  // Live chart: fold public/tokenTrade trades into the open candle of both series
+  useStreamSubscription<TokenTradeUpdate>(
+    "public/tokenTrade",
+    [tokenAddress],
+    (update) => {
+      for (const row of extractTokenTrades(update)) {
+        if (row.mint && row.mint !== tokenAddress) continue;
+        const trade = tradeFromActivityRow(row);
+        if (trade) pendingChartTradesRef.current.push(trade);
+      }
+    },
+    !!tokenAddress,
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const trades = pendingChartTradesRef.current;
+      if (trades.length === 0) return;
+      pendingChartTradesRef.current = [];
+      setChartSource((prev) =>
+        prev && {
+          ...prev,
+          candles: foldTradesIntoCandles(prev.candles, trades),
+          line: foldTradesIntoCandles(prev.line, trades),
+        },
+      );
+    }, CHART_FLUSH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const chartData = useMemo<TokenChartPoint[]>(() => {
+    if (!chartSource) return [];
+    return buildChartSeries({
+      candles: chartSource.line.candles,
+      tokenInfo: liveInfo,
+      candlesResponse: chartSource.lineResponse ?? chartSource.candlesResponse,
+    }).points;
+  }, [chartSource, liveInfo]);
+
+  const candleData = useMemo<TokenCandlePoint[]>(() => {
+    if (!chartSource) return [];
+    return buildCandleChartSeries({
+      candles: chartSource.candles.candles,
+      tokenInfo: liveInfo,
+      candlesResponse: chartSource.candlesResponse,
+    }).candles;
+  }, [chartSource, liveInfo]);
+
   useEffect(() => {
     if (!hasValidAccessToken) {
       setWatchlists([]);
@@ -464,6 +574,59 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
     tokenAddress,
   ]);
 
+  const alertTarget = useMemo<TokenAlertTarget>(
+    () => ({
+      mint: tokenAddress,
+      symbol: tokenMeta.symbol,
+      marketCapUsd,
+      priceUsd: liveInfo?.token_price_info?.price_usd,
+      oneHourChangePercent: oneHourChange,
+    }),
+    [tokenAddress, tokenMeta.symbol, marketCapUsd, liveInfo, oneHourChange]
+  );
+
+  const handleCreateAlert = useCallback(async () => {
+    if (!hasValidAccessToken) {
+      await authenticateFromWallet();
+      return;
+    }
+    alertSheetRef.current?.snapToIndex(0);
+  }, [hasValidAccessToken, authenticateFromWallet]);
+
+  const isHidden = hiddenMints.has(tokenAddress);
+
+  const handleToggleHidden = useCallback(async () => {
+    if (!hasValidAccessToken) {
+      await authenticateFromWallet();
+      return;
+    }
+
+    if (!isHidden) {
+      promptHideToken({
+        mint: tokenAddress,
+        symbol: tokenMeta.symbol,
+        name: tokenMeta.name,
+        imageUri: tokenMeta.imageUri,
+      });
+      return;
+    }
+
+    try {
+      await unhideToken(tokenAddress);
+      toast.success("Token unhidden", `$${tokenMeta.symbol} is back in your lists.`);
+    } catch {
+      toast.error("Unhide token", "Failed to unhide token");
+    }
+  }, [
+    hasValidAccessToken,
+    authenticateFromWallet,
+    isHidden,
+    promptHideToken,
+    unhideToken,
+    tokenAddress,
+    tokenMeta,
+  ]);
+
   const handleQuickTrade = useCallback(
     async (presetParams: { side: "buy" | "sell"; amount: number }) => {
       try {
@@ -545,8 +708,51 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
     [rpcClient, walletAddress, currentProfile.slippageBps]
   );
 
+  const placeExitLadder = useCallback(
+    async (levels: ExitLadderLevel[], positionAmountUi: number | undefined) => {
+      const tokenSupply = liveInfo?.mint_info?.supply;
+      if (!walletAddress || !positionAmountUi || !tokenSupply || !marketCapUsd) {
+        toast.error("Exit ladder not placed", "Position or market data is unavailable.");
+        return;
+      }
+      try {
+        const ladder = await createExitLadder(rpcClient, levels, {
+          walletAddress,
+          mint: tokenAddress,
+          tokenDecimals: liveInfo?.mint_info?.decimals ?? params?.tokenDecimals ?? 9,
+          expiresIn: DEFAULT_EXPIRATION_SECONDS,
+          slippageBps: currentProfile.slippageBps,
+          priorityFeeLamports: currentProfile.priorityLamports,
+          jitoTipLamports: currentProfile.tipLamports ?? 0,
+          positionAmountUi,
+          entryMarketCapUsd: marketCapUsd,
+          tokenSupply,
+        });
+        addLadder(ladder);
+        toast.success("Exit ladder placed", `${ladder.orders.length} orders are watching this position.`);
+      } catch (err) {
+        toast.error(
+          "Exit ladder failed",
+          err instanceof Error ? err.message : "Failed to place exit orders."
+        );
+      }
+    },
+    [rpcClient, walletAddress, tokenAddress, liveInfo, params?.tokenDecimals, currentProfile, marketCapUsd, addLadder]
+  );
+
   const handleExecuteSwap = useCallback(
-    async (swapParams: { quoteResult: { inputMint: string; outputMint: string; amountAtomic: number; slippageBps: number }; side: "buy" | "sell"; sellPercentageBps?: number }) => {
+    async (swapParams: {
+      quoteResult: {
+        inputMint: string;
+        outputMint: string;
+        amountAtomic: number;
+        slippageBps: number;
+        summary: { amountOutUi?: number; minOutAmountUi?: number };
+      };
+      side: "buy" | "sell";
+      sellPercentageBps?: number;
+      exitLevels?: ExitLadderLevel[];
+    }) => {
       if (!walletAddress) {
         throw new Error("Connect your wallet to trade.");
       }
@@ -574,6 +780,23 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
 
         if (result.status !== "error") {
           setTimeout(refreshBalances, 2000);
+
+          // Place exits only once the buy confirms, sized off the guaranteed
+          // minimum so the sells never exceed the fill
+          const exitLevels = swapParams.exitLevels;
+          if (exitLevels?.length && result.signature) {
+            const { minOutAmountUi, amountOutUi } = swapParams.quoteResult.summary;
+            void waitForSwapConfirmation(solanaRpcEndpoint, result.signature).then((confirmation) => {
+              if (confirmation === "confirmed") {
+                void placeExitLadder(exitLevels, minOutAmountUi ?? amountOutUi);
+              } else {
+                toast.error(
+                  "Exit ladder not placed",
+                  confirmation === "failed" ? "The buy failed on-chain." : "The buy wasn't confirmed in time."
+                );
+              }
+            });
+          }
         }
 
         return result;
@@ -609,13 +832,10 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
           // Proceed without balance check
         }
 
-        const LAMPORTS_PER_SOL = 1_000_000_000;
-        const totalSolAmount = swapParams.quoteResult.amountAtomic / LAMPORTS_PER_SOL;
-
         const batchResult = await executeMultiWalletBuy({
           rpcClient,
           selectedWallets,
-          totalSolAmount,
+          totalLamports: swapParams.quoteResult.amountAtomic,
           tokenAddress,
           executionPreset,
           walletSolBalances,
@@ -627,6 +847,10 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         else if (msg.type === "warning") toast.info(msg.title, msg.message);
         else toast.error(msg.title, msg.message);
 
+        if (swapParams.exitLevels?.length) {
+          toast.info("Exit ladder not placed", "Ladders are only placed for single-wallet buys.");
+        }
+
         setTimeout(refreshBalances, 2000);
 
         // Return first successful result for UI compatibility
@@ -665,7 +889,7 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         };
       }
     },
-    [rpcClient, walletAddress, currentProfile, refreshBalances, tokenAddress]
+    [rpcClient, solanaRpcEndpoint, walletAddress, currentProfile, refreshBalances, tokenAddress, placeExitLadder]
   );
 
   const handleLimitOrderRequest = useCallback(
@@ -694,6 +918,126 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
     [rpcClient, walletAddress]
   );
 
+  const handleTrailingStopRequest = useCallback(
+    async ({
+      inputAmount,
+      trailPercent,
+      stepPercent,
+      expiresIn,
+    }: {
+      inputAmount: number;
+      trailPercent: number;
+      stepPercent: number;
+      expiresIn: number;
+    }) => {
+      if (!walletAddress) {
+        toast.info("Connect wallet", "Connect your wallet to place limit orders.");
+        return;
+      }
+      const supply = liveInfo?.mint_info?.supply;
+      const decimals = liveInfo?.mint_info?.decimals ?? 0;
+      const priceUsd =
+        liveInfo?.token_price_info?.price_usd ??
+        (marketCapUsd && supply ? marketCapUsd / (supply / Math.pow(10, decimals)) : undefined);
+      if (!priceUsd || priceUsd <= 0) {
+        toast.error("Order failed", "Price is unavailable for this token.");
+        return;
+      }
+
+      const state = initTrailingStop(priceUsd, trailPercent, stepPercent);
+      const tokenDecimals = params?.tokenDecimals ?? 9;
+      setIsSubmittingOrder(true);
+      try {
+        const order = await createTriggerOrder(rpcClient, {
+          walletAddress,
+          mint: tokenAddress,
+          orderType: "stop_loss",
+          inputAmount,
+          tokenDecimals,
+          triggerPriceUSD: state.triggerPriceUSD,
+          expiresIn,
+          slippageBps: currentProfile.slippageBps,
+          priorityFeeLamports: currentProfile.priorityLamports,
+          jitoTipLamports: 0,
+        });
+        const createdAt = Math.floor(Date.now() / 1000);
+        addTrailingStop({
+          id: order.uuid,
+          walletAddress,
+          mint: tokenAddress,
+          orderId: order.uuid,
+          inputAmount,
+          tokenDecimals,
+          slippageBps: currentProfile.slippageBps,
+          priorityFeeLamports: currentProfile.priorityLamports,
+          jitoTipLamports: 0,
+          createdAt,
+          expiresAt: createdAt + expiresIn,
+          state,
+        });
+        toast.success("Trailing stop placed", `Trailing ${trailPercent}% below the peak.`);
+        bottomSheetRef.current?.close();
+      } catch (err) {
+        toast.error(
+          "Order failed",
+          err instanceof Error ? err.message : "Failed to create order."
+        );
+      } finally {
+        setIsSubmittingOrder(false);
+      }
+    },
+    [rpcClient, walletAddress, tokenAddress, liveInfo, marketCapUsd, params?.tokenDecimals, currentProfile, addTrailingStop]
+  );
+
+  const handleDcaPlanRequest = useCallback(
+    async (
+      request: Pick<
+        CreateDcaPlanParams,
+        "side" | "totalAmount" | "sliceCount" | "intervalSeconds" | "maxMarketCapUsd" | "minMarketCapUsd" | "catchUp"
+      >
+    ) => {
+      if (!walletAddress) {
+        toast.info("Connect wallet", "Connect your wallet to schedule a DCA plan.");
+        return;
+      }
+
+      // Slices run across the wallets selected now, like a one-off batch trade
+      let wallets: CreateDcaPlanParams["wallets"] = [{ public_key: walletAddress, name: "Main" }];
+      try {
+        const { wallets: active } = await fetchActiveWallets(rpcClient);
+        const selected = active.filter((w) => w.selected);
+        if (selected.length > 0) wallets = selected.map(({ public_key, name }) => ({ public_key, name }));
+      } catch {
+        // Fall back to the connected wallet
+      }
+
+      try {
+        const nowSeconds = Math.floor(Date.now() / 1000);
+        const plan = createDcaPlan(
+          {
+            ...request,
+            mint: tokenAddress,
+            tokenSymbol: tokenMeta.symbol,
+            wallets,
+            executionPreset: {
+              priority_fee_lamports: currentProfile.priorityLamports,
+              jito_tip_lamports: currentProfile.tipLamports ?? 0,
+              slippage_bps: currentProfile.slippageBps,
+            },
+          },
+          `dca-${nowSeconds.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+          nowSeconds
+        );
+        addDcaPlan(plan);
+        toast.success("DCA plan started", `${plan.sliceCount} slices across ${wallets.length} wallet${wallets.length === 1 ? "" : "s"}.`);
+        bottomSheetRef.current?.close();
+      } catch (err) {
+        toast.error("Check DCA plan", err instanceof Error ? err.message : "Invalid plan.");
+      }
+    },
+    [rpcClient, walletAddress, tokenAddress, tokenMeta.symbol, currentProfile, addDcaPlan]
+  );
+
   const handleGoBack = useCallback(() => {
     navigation.goBack();
   }, [navigation]);
@@ -742,6 +1086,7 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
       </Animated.View>
 
       <Animated.ScrollView
+        ref={scrollViewRef}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
         onScroll={onScroll}
@@ -760,11 +1105,14 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
           marketCapUsd={marketCapUsd}
           oneHourChange={oneHourChange}
           isTracked={isTracked}
+          isHidden={isHidden}
           isWatchlistLoading={isWatchlistLoading}
           isWatchlistUpdating={isWatchlistUpdating}
           hasValidAccessToken={hasValidAccessToken}
           onCopyAddress={handleCopyAddress}
           onToggleWatchlist={handleToggleWatchlist}
+          onCreateAlert={handleCreateAlert}
+          onToggleHidden={handleToggleHidden}
           onGoBack={handleGoBack}
           scanMentionsOneHour={params?.scanMentionsOneHour}
         />
@@ -844,17 +1192,34 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         />
 
         {/* ── Tabs: Activity, Traders, Holders, Orders ── */}
-        <TokenDetailTabs
-          rpcClient={rpcClient}
-          tokenAddress={tokenAddress}
-          tokenDecimals={liveInfo?.mint_info?.decimals}
-          walletAddress={walletAddress ?? undefined}
-        />
+        <View onLayout={handleTabsLayout}>
+          <TokenDetailTabs
+            rpcClient={rpcClient}
+            tokenAddress={tokenAddress}
+            tokenDecimals={liveInfo?.mint_info?.decimals}
+            walletAddress={walletAddress ?? undefined}
+            isActivityPaused={isActivityPaused}
+            onNewTradesCountChange={setNewTradesCount}
+          />
+        </View>
 
         {/* Bottom spacer for QuickTradePanel */}
         <View style={{ height: 160 }} />
       </Animated.ScrollView>
 
+      {/* ── New trades pill (live tape paused while scrolled) ── */}
+      {isActivityPaused && newTradesCount > 0 && (
+        <Pressable
+          onPress={handleShowNewTrades}
+          style={({ pressed }) => [styles.newTradesPill, { opacity: pressed ? 0.8 : 1 }]}
+        >
+          <ArrowUp size={12} color={qsColors.textPrimary} />
+          <Text style={styles.newTradesPillText}>
+            {newTradesCount} new {newTradesCount === 1 ? "trade" : "trades"}
+          </Text>
+        </Pressable>
+      )}
+
       {/* ── Persistent QuickTradePanel ── */}
       <View style={styles.tradePanelWrap}>
         {tradeSettings.instantTrade && (
@@ -903,6 +1268,8 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         tokenSupply={liveInfo?.mint_info?.supply}
         walletAddress={walletAddress ?? undefined}
         onLimitOrderRequest={handleLimitOrderRequest}
+        onTrailingStopRequest={handleTrailingStopRequest}
+        onDcaPlanRequest={handleDcaPlanRequest}
         isSubmittingOrder={isSubmittingOrder}
         onMarketQuoteRequest={handleMarketQuoteRequest}
         onExecuteSwap={handleExecuteSwap}
@@ -915,6 +1282,9 @@ export function TokenDetailScreen({ rpcClient, params }: TokenDetailScreenProps)
         onSettingsChanged={setTradeSettings}
         onClose={handleCloseSettings}
       />
+
+      {/* ── Token Alert Sheet ── */}
+      <TokenAlertSheet sheetRef={alertSheetRef} rpcClient={rpcClient} target={alertTarget} />
     </View>
   );
 }
@@ -1037,6 +1407,26 @@ const styles = StyleSheet.create({
   },
 
   /* Persistent QuickTradePanel */
+  newTradesPill: {
+    position: "absolute",
+    top: 52, // just below the 44pt sticky header
+    alignSelf: "center",
+    zIndex: 11,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.pill,
+    paddingHorizontal: qsSpacing.md,
+    paddingVertical: 6,
+  },
+  newTradesPillText: {
+    color: qsColors.textPrimary,
+    fontSize: 12,
+    fontWeight: qsTypography.weight.semi,
+    fontVariant: ["tabular-nums"],
+  },
+
   tradePanelWrap: {
     position: "absolute",
     bottom: 0,
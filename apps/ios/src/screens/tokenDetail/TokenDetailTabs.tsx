@@ -4,7 +4,7 @@
  * Purple underline style matching PortfolioScreen pattern.
  * Each tab handles its own data fetching internally.
  */
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { Pressable, StyleSheet, Text, View } from "react-native";
 
 import type { RpcClient } from "@/src/lib/api/rpcClient";
@@ -36,6 +36,10 @@ type TokenDetailTabsProps = {
   getTokenSymbol?: (mint: string) => string | undefined;
   /** Resolve token image URI from mint */
   getTokenImageUri?: (mint: string) => string | undefined;
+  /** Hold live trades in the Activity tape (user has scrolled into the list) */
+  isActivityPaused?: boolean;
+  /** Buffered trade count while paused — 0 when the Activity tab isn't shown */
+  onNewTradesCountChange?: (count: number) => void;
 };
 
 export function TokenDetailTabs({
@@ -45,8 +49,15 @@ export function TokenDetailTabs({
   walletAddress,
   getTokenSymbol,
   getTokenImageUri,
+  isActivityPaused = false,
+  onNewTradesCountChange,
 }: TokenDetailTabsProps) {
   const [activeTab, setActiveTab] = useState<TokenDetailTab>("activity");
+  const [pendingTradesCount, setPendingTradesCount] = useState(0);
+
+  useEffect(() => {
+    onNewTradesCountChange?.(activeTab === "activity" ? pendingTradesCount : 0);
+  }, [activeTab, pendingTradesCount, onNewTradesCountChange]);
 
   const handleTabPress = useCallback((tab: TokenDetailTab) => {
     setActiveTab(tab);
@@ -75,7 +86,12 @@ export function TokenDetailTabs({
 
       {/* Tab content — keep mounted to preserve scroll position */}
       <View style={activeTab === "activity" ? undefined : styles.hidden}>
-        <ActivityTab rpcClient={rpcClient} tokenAddress={tokenAddress} />
+        <ActivityTab
+          rpcClient={rpcClient}
+          tokenAddress={tokenAddress}
+          isPaused={isActivityPaused || activeTab !== "activity"}
+          onPendingCountChange={setPendingTradesCount}
+        />
       </View>
       <View style={activeTab === "traders" ? undefined : styles.hidden}>
         <TradersTab rpcClient={rpcClient} tokenAddress={tokenAddress} />
@@ -3,6 +3,9 @@
  *
  * Features:
  * - Self-contained data fetching via filterAllTransactionsTable
+ * - Live tape: public/tokenTrade trades are prepended, deduped by signature
+ * - While `isPaused` (user scrolled into the list) new trades are buffered and
+ *   surfaced through `onPendingCountChange` instead of shifting rows
  * - FlatList with pull-to-refresh
  * - Row layout: [Buy/Sell badge] [Wallet + Copy] [Time] [USD / SOL amounts]
  * - Loading, error, and empty states
@@ -20,12 +23,20 @@ import {
 import * as Clipboard from "expo-clipboard";
 
 import type { RpcClient } from "@/src/lib/api/rpcClient";
+import {
+  extractTokenTrades,
+  mergeTradesBySignature,
+  type TokenTradeUpdate,
+} from "@/src/features/token/tokenInsightsService";
+import { useStreamSubscription } from "@/src/features/streaming/useStreamSubscription";
 import { qsColors, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { EmptyState } from "@/src/ui/EmptyState";
+import { LiveIndicator } from "@/src/ui/LiveIndicator";
 import { Activity, Copy } from "@/src/ui/icons";
 import { haptics } from "@/src/lib/haptics";
 
 type ActivityRow = {
+  signature: string;
   type: "buy" | "sell";
   maker: string;
   timestampSeconds: number;
@@ -33,11 +44,51 @@ type ActivityRow = {
   amountSol: number;
 };
 
+type RawActivityRow = {
+  signature?: string;
+  type?: string;
+  tx_type?: string;
+  maker?: string;
+  mint?: string;
+  ts?: number;
+  block_ts?: number;
+  amount_quote?: number;
+  quote_amount?: number;
+  sol_amount?: number;
+  quote_asset_price_usd?: number;
+};
+
 type ActivityTabProps = {
   rpcClient: RpcClient;
   tokenAddress: string;
+  /** Buffer live trades instead of prepending them (list is scrolled or hidden) */
+  isPaused?: boolean;
+  /** Number of buffered trades waiting to be shown while paused */
+  onPendingCountChange?: (count: number) => void;
 };
 
+/** Max rows kept in the tape — snapshot plus live trades */
+const MAX_ROWS = 100;
+/** Live trades are batched and flushed at this interval to avoid per-trade renders */
+const FLUSH_INTERVAL_MS = 500;
+
+function toActivityRow(row: RawActivityRow, fallbackSolPriceUsd: number): ActivityRow {
+  const amountSol =
+    Number(row.amount_quote) || Number(row.sol_amount) || Number(row.quote_amount) || 0;
+  const rawTs = Number(row.ts) || Number(row.block_ts) || 0;
+  const timestampSeconds = rawTs > 10_000_000_000 ? Math.floor(rawTs / 1000) : rawTs;
+  const rowSolPrice = Number(row.quote_asset_price_usd) || fallbackSolPriceUsd;
+  const txType = row.type ?? row.tx_type;
+  return {
+    signature: String(row.signature ?? ""),
+    type: txType === "sell" || txType === "s" ? "sell" : "buy",
+    maker: String(row.maker ?? ""),
+    timestampSeconds,
+    amountUsd: amountSol * rowSolPrice,
+    amountSol,
+  };
+}
+
 function formatRelativeTime(ts: number): string {
   const elapsedSeconds = Math.max(0, Math.floor(Date.now() / 1000) - ts);
   if (elapsedSeconds < 60) return `${elapsedSeconds}s`;
@@ -64,12 +115,23 @@ function truncateAddress(addr: string): string {
   return `${addr.slice(0, 4)}...${addr.slice(-4)}`;
 }
 
-export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
+export function ActivityTab({
+  rpcClient,
+  tokenAddress,
+  isPaused = false,
+  onPendingCountChange,
+}: ActivityTabProps) {
   const [rows, setRows] = useState<ActivityRow[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const mountedRef = useRef(true);
+  const rowsRef = useRef<ActivityRow[]>([]);
+  const pendingRef = useRef<ActivityRow[]>([]);
+  const pendingCountRef = useRef(0);
+  const solPriceUsdRef = useRef(0);
+
+  rowsRef.current = rows;
 
   const loadActivity = useCallback(
     async (silent = false) => {
@@ -79,17 +141,7 @@ export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
       try {
         const response = await rpcClient.call<{
           table?: {
-            rows?: {
-              type?: string;
-              tx_type?: string;
-              maker?: string;
-              ts?: number;
-              block_ts?: number;
-              amount_quote?: number;
-              quote_amount?: number;
-              sol_amount?: number;
-              quote_asset_price_usd?: number;
-            }[];
+            rows?: RawActivityRow[];
           };
           sol_price_usd?: number;
         }>("public/filterAllTransactionsTable", [
@@ -104,23 +156,18 @@ export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
         if (!mountedRef.current) return;
 
         const solPriceUsd = Number(response.sol_price_usd) || 0;
-        const parsed: ActivityRow[] = (response.table?.rows ?? []).map((row) => {
-          const amountSol =
-            Number(row.amount_quote) || Number(row.sol_amount) || Number(row.quote_amount) || 0;
-          const rawTs = Number(row.ts) || Number(row.block_ts) || 0;
-          const timestampSeconds = rawTs > 10_000_000_000 ? Math.floor(rawTs / 1000) : rawTs;
-          const rowSolPrice = Number(row.quote_asset_price_usd) || solPriceUsd;
-          const txType = row.type ?? row.tx_type;
-          return {
-            type: (txType === "sell" ? "sell" : "buy") as "buy" | "sell",
-            maker: String(row.maker ?? ""),
-            timestampSeconds,
-            amountUsd: amountSol * rowSolPrice,
-            amountSol,
-          };
-        });
-
-        setRows(parsed);
+        solPriceUsdRef.current = solPriceUsd;
+        const parsed = (response.table?.rows ?? []).map((row) => toActivityRow(row, solPriceUsd));
+
+        // Keep live trades newer than the snapshot on top of it
+        const newestSnapshotTs = parsed[0]?.timestampSeconds ?? 0;
+        setRows((prev) =>
+          mergeTradesBySignature(
+            prev.filter((row) => row.timestampSeconds > newestSnapshotTs),
+            parsed,
+            MAX_ROWS
+          )
+        );
       } catch (err) {
         if (mountedRef.current) {
           setError(err instanceof Error ? err.message : "Failed to load activity");
@@ -143,6 +190,63 @@ export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
     };
   }, [loadActivity]);
 
+  // ── Live tape ──
+
+  const { status: streamStatus } = useStreamSubscription<TokenTradeUpdate>(
+    "public/tokenTrade",
+    [tokenAddress],
+    (update) => {
+      const incoming = extractTokenTrades(update)
+        .filter((trade) => !trade.mint || trade.mint === tokenAddress)
+        .map((trade) => toActivityRow(trade, solPriceUsdRef.current));
+      if (incoming.length === 0) return;
+      // Stream batches arrive oldest → newest; the tape is newest first
+      const newestFirst = [...incoming].sort((a, b) => b.timestampSeconds - a.timestampSeconds);
+      pendingRef.current = mergeTradesBySignature(newestFirst, pendingRef.current, MAX_ROWS);
+    },
+  );
+
+  const reportPendingCount = useCallback(
+    (count: number) => {
+      if (pendingCountRef.current === count) return;
+      pendingCountRef.current = count;
+      onPendingCountChange?.(count);
+    },
+    [onPendingCountChange]
+  );
+
+  const flushPending = useCallback(() => {
+    const pending = pendingRef.current;
+    if (pending.length === 0) return;
+    pendingRef.current = [];
+    setRows((prev) => mergeTradesBySignature(pending, prev, MAX_ROWS));
+    reportPendingCount(0);
+  }, [reportPendingCount]);
+
+  useEffect(() => {
+    if (!isPaused) flushPending();
+
+    const interval = setInterval(() => {
+      if (!isPaused) {
+        flushPending();
+        return;
+      }
+      const shown = new Set(rowsRef.current.map((row) => row.signature));
+      const unseen = pendingRef.current.filter((row) => !row.signature || !shown.has(row.signature));
+      pendingRef.current = unseen;
+      reportPendingCount(unseen.length);
+    }, FLUSH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isPaused, flushPending, reportPendingCount]);
+
+  // Reset the tape when navigating to another token
+  useEffect(() => {
+    pendingRef.current = [];
+    setRows([]);
+    reportPendingCount(0);
+  }, [tokenAddress, reportPendingCount]);
+
   const handleRefresh = useCallback(() => {
     haptics.light();
     setIsRefreshing(true);
@@ -215,7 +319,8 @@ export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
   );
 
   const keyExtractor = useCallback(
-    (item: ActivityRow, index: number) => `${item.maker}-${item.timestampSeconds}-${index}`,
+    (item: ActivityRow, index: number) =>
+      item.signature || `${item.maker}-${item.timestampSeconds}-${index}`,
     []
   );
 
@@ -259,7 +364,10 @@ export function ActivityTab({ rpcClient, tokenAddress }: ActivityTabProps) {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerText}>Recent Transactions</Text>
-        <Text style={styles.countLabel}>{rows.length} txns</Text>
+        <View style={styles.headerMeta}>
+          {streamStatus === "open" && <LiveIndicator />}
+          <Text style={styles.countLabel}>{rows.length} txns</Text>
+        </View>
       </View>
 
       {/* Transaction list */}
@@ -296,6 +404,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: qsSpacing.lg,
     paddingBottom: qsSpacing.sm,
   },
+  headerMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
   headerText: {
     fontSize: 13,
     fontWeight: qsTypography.weight.semi,
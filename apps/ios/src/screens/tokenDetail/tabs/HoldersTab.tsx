@@ -1,23 +1,37 @@
 /**
- * Holders tab — fetches and displays top token holders with % supply bars.
+ * Holders tab — distribution summary plus top token holders with % supply bars.
  *
  * Features:
- * - Lazy load on mount via fetchTokenHolders
+ * - Lazy load on mount via fetchTokenHolders + fetchTokenHolderDistribution
+ * - Concentration card: top-10/25 share, holding-size buckets, labeled groups, Gini score
  * - Holder count header
  * - Ranked list with address, labels, balance, % supply bar
+ * - "Show more" pages past the first 50 holders
  * - Pull-to-refresh
  * - Loading skeleton + error / empty states
  */
-import React, { useCallback, useEffect, useRef, useState } from "react";
-import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, Text, View } from "react-native";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
 
 import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { computeHolderConcentration } from "@/src/features/token/holderDistribution";
 import {
+  fetchTokenHolderDistribution,
   fetchTokenHolders,
+  type HolderDistributionResponse,
   type TokenHolder,
 } from "@/src/features/token/tokenInsightsService";
-import { qsColors, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { EmptyState } from "@/src/ui/EmptyState";
+import { HolderDistributionCard } from "@/src/ui/HolderDistributionCard";
 import { HolderRow } from "@/src/ui/HolderRow";
 import { User } from "@/src/ui/icons";
 import { haptics } from "@/src/lib/haptics";
@@ -28,40 +42,48 @@ type HoldersTabProps = {
   tokenDecimals?: number;
 };
 
+const PAGE_SIZE = 50;
+
 export function HoldersTab({ rpcClient, tokenAddress, tokenDecimals }: HoldersTabProps) {
   const [holders, setHolders] = useState<TokenHolder[]>([]);
   const [holderCount, setHolderCount] = useState(0);
-  const [totalSupply, setTotalSupply] = useState(0);
+  const [distribution, setDistribution] = useState<HolderDistributionResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const mountedRef = useRef(true);
+  const requestRef = useRef(0);
 
   const loadHolders = useCallback(
     async (silent = false) => {
+      const requestId = ++requestRef.current;
       if (!silent) setIsLoading(true);
       setError(null);
 
       try {
-        const result = await fetchTokenHolders(rpcClient, {
-          mint: tokenAddress,
-          limit: 50,
-        });
+        const [result, distributionResult] = await Promise.all([
+          fetchTokenHolders(rpcClient, {
+            mint: tokenAddress,
+            limit: PAGE_SIZE,
+          }),
+          // The summary is optional — the list still renders without it
+          fetchTokenHolderDistribution(rpcClient, tokenAddress).catch(() => null),
+        ]);
 
-        if (!mountedRef.current) return;
+        if (!mountedRef.current || requestId !== requestRef.current) return;
 
         setHolders(result.holders);
         setHolderCount(result.holder_count);
-
-        // Derive total supply from sum of balances (approximate — top 50)
-        const sum = result.holders.reduce((acc, h) => acc + h.balance, 0);
-        setTotalSupply(sum);
+        setDistribution(distributionResult);
+        setHasMore(result.holders.length >= PAGE_SIZE);
       } catch (err) {
-        if (mountedRef.current) {
+        if (mountedRef.current && requestId === requestRef.current) {
           setError(err instanceof Error ? err.message : "Failed to load holders");
         }
       } finally {
-        if (mountedRef.current) {
+        if (mountedRef.current && requestId === requestRef.current) {
           setIsLoading(false);
           setIsRefreshing(false);
         }
@@ -84,6 +106,47 @@ export function HoldersTab({ rpcClient, tokenAddress, tokenDecimals }: HoldersTa
     void loadHolders(true);
   }, [loadHolders]);
 
+  const handleLoadMore = useCallback(async () => {
+    if (isLoadingMore || !hasMore) return;
+    const requestId = requestRef.current;
+    haptics.light();
+    setIsLoadingMore(true);
+
+    try {
+      const result = await fetchTokenHolders(rpcClient, {
+        mint: tokenAddress,
+        limit: PAGE_SIZE,
+        offset: holders.length,
+      });
+      if (!mountedRef.current || requestId !== requestRef.current) return;
+
+      // Balances move between requests, so a holder can shift onto the next page
+      setHolders((prev) => {
+        const seen = new Set(prev.map((h) => h.owner));
+        return [...prev, ...result.holders.filter((h) => !seen.has(h.owner))];
+      });
+      setHasMore(result.holders.length >= PAGE_SIZE);
+    } catch {
+      // silently fail — the button stays for a retry
+    } finally {
+      if (mountedRef.current) setIsLoadingMore(false);
+    }
+  }, [rpcClient, tokenAddress, holders.length, isLoadingMore, hasMore]);
+
+  // Real supply from the distribution when available; otherwise the loaded balances
+  const totalSupply = useMemo(
+    () => distribution?.total_supply || holders.reduce((acc, h) => acc + h.balance, 0),
+    [distribution, holders]
+  );
+
+  const concentration = useMemo(
+    () =>
+      holders.length > 0
+        ? computeHolderConcentration(holders, totalSupply, distribution?.buckets)
+        : null,
+    [holders, totalSupply, distribution]
+  );
+
   const renderItem = useCallback(
     ({ item, index }: { item: TokenHolder; index: number }) => (
       <HolderRow holder={item} rank={index + 1} totalSupply={totalSupply} tokenDecimals={tokenDecimals} />
@@ -130,6 +193,10 @@ export function HoldersTab({ rpcClient, tokenAddress, tokenDecimals }: HoldersTa
 
   return (
     <View style={styles.container}>
+      {concentration ? (
+        <HolderDistributionCard stats={concentration} sampleSize={holders.length} />
+      ) : null}
+
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.holderCountText}>
@@ -151,6 +218,21 @@ export function HoldersTab({ rpcClient, tokenAddress, tokenDecimals }: HoldersTa
             tintColor={qsColors.accent}
           />
         }
+        ListFooterComponent={
+          hasMore ? (
+            <Pressable
+              style={({ pressed }) => [styles.moreButton, pressed && styles.moreButtonPressed]}
+              onPress={() => void handleLoadMore()}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore ? (
+                <ActivityIndicator size="small" color={qsColors.accent} />
+              ) : (
+                <Text style={styles.moreButtonText}>Show more holders</Text>
+              )}
+            </Pressable>
+          ) : null
+        }
       />
     </View>
   );
@@ -183,4 +265,21 @@ const styles = StyleSheet.create({
     fontWeight: qsTypography.weight.medium,
     color: qsColors.textTertiary,
   },
+  moreButton: {
+    marginHorizontal: qsSpacing.lg,
+    marginTop: qsSpacing.sm,
+    paddingVertical: qsSpacing.md,
+    alignItems: "center",
+    borderRadius: qsRadius.md,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  moreButtonPressed: {
+    backgroundColor: qsColors.layer2,
+  },
+  moreButtonText: {
+    fontSize: 13,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
 });
@@ -0,0 +1,247 @@
+/**
+ * Activity heatmap for wallet detail — weekday × hour grid from
+ * public/getTraderHeatmap, in device time. Metric chips switch between trade
+ * count, volume and realized PnL; tapping a cell filters the History tab to
+ * that hour.
+ */
+import React, { useMemo } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import {
+  HEATMAP_WEEKDAYS,
+  buildHeatmapGrid,
+  type HeatmapMetric,
+  type HeatmapWindow,
+  type TraderHeatmapRow,
+} from "@quickscope/core/portfolio";
+import { formatCompactNumber, formatCompactUsd } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+
+type WalletDetailHeatmapProps = {
+  rows: TraderHeatmapRow[];
+  metric: HeatmapMetric;
+  onMetricChange: (metric: HeatmapMetric) => void;
+  selectedWindow: HeatmapWindow | null;
+  onSelectWindow: (window: HeatmapWindow) => void;
+  utcOffsetMinutes: number;
+};
+
+const METRICS: { id: HeatmapMetric; label: string }[] = [
+  { id: "trades", label: "Trades" },
+  { id: "volume", label: "Volume" },
+  { id: "pnl", label: "PnL" },
+];
+
+const HOUR_TICKS = [0, 6, 12, 18];
+
+export function formatHeatmapWindow({ weekday, hour }: HeatmapWindow): string {
+  const pad = (h: number) => `${String(h % 24).padStart(2, "0")}:00`;
+  return `${HEATMAP_WEEKDAYS[weekday]} ${pad(hour)}–${pad(hour + 1)}`;
+}
+
+function formatMetric(metric: HeatmapMetric, value: number): string {
+  if (metric === "trades") return formatCompactNumber(value);
+  if (metric === "volume") return formatCompactUsd(value);
+  return `${value >= 0 ? "+" : "-"}${formatCompactUsd(Math.abs(value))}`;
+}
+
+function cellColor(metric: HeatmapMetric, value: number, maxAbs: number): string {
+  if (value === 0 || maxAbs === 0) return qsColors.layer2;
+  const alpha = (0.15 + 0.85 * (Math.abs(value) / maxAbs)).toFixed(2);
+  if (metric === "pnl") {
+    return value > 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+  }
+  return `rgba(119, 102, 247, ${alpha})`;
+}
+
+export function WalletDetailHeatmap({
+  rows,
+  metric,
+  onMetricChange,
+  selectedWindow,
+  onSelectWindow,
+  utcOffsetMinutes,
+}: WalletDetailHeatmapProps) {
+  const grid = useMemo(
+    () => buildHeatmapGrid(rows, metric, utcOffsetMinutes),
+    [rows, metric, utcOffsetMinutes],
+  );
+
+  const peak = useMemo(() => {
+    let best: (HeatmapWindow & { value: number }) | null = null;
+    for (let weekday = 0; weekday < grid.values.length; weekday++) {
+      for (let hour = 0; hour < 24; hour++) {
+        const value = grid.values[weekday][hour];
+        if (value !== 0 && (!best || Math.abs(value) > Math.abs(best.value))) {
+          best = { weekday, hour, value };
+        }
+      }
+    }
+    return best;
+  }, [grid]);
+
+  const focus = selectedWindow
+    ? { ...selectedWindow, value: grid.values[selectedWindow.weekday][selectedWindow.hour] }
+    : peak;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Activity</Text>
+        <View style={styles.metricRow}>
+          {METRICS.map((m) => {
+            const active = m.id === metric;
+            return (
+              <Pressable
+                key={m.id}
+                style={[styles.metricChip, active && styles.metricChipActive]}
+                onPress={() => {
+                  haptics.selection();
+                  onMetricChange(m.id);
+                }}
+              >
+                <Text style={[styles.metricChipText, active && styles.metricChipTextActive]}>
+                  {m.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      {rows.length === 0 ? (
+        <Text style={styles.emptyText}>No activity recorded for this wallet yet.</Text>
+      ) : (
+        <>
+          <View style={styles.grid}>
+            {grid.values.map((hours, weekday) => (
+              <View key={HEATMAP_WEEKDAYS[weekday]} style={styles.gridRow}>
+                <Text style={styles.dayLabel}>{HEATMAP_WEEKDAYS[weekday]}</Text>
+                {hours.map((value, hour) => {
+                  const selected =
+                    selectedWindow?.weekday === weekday && selectedWindow.hour === hour;
+                  return (
+                    <Pressable
+                      key={hour}
+                      hitSlop={2}
+                      style={[
+                        styles.cell,
+                        { backgroundColor: cellColor(metric, value, grid.maxAbs) },
+                        selected && styles.cellSelected,
+                      ]}
+                      onPress={() => {
+                        haptics.selection();
+                        onSelectWindow({ weekday, hour });
+                      }}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+            <View style={styles.gridRow}>
+              <View style={styles.dayLabelSpacer} />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <Text key={hour} style={styles.hourTick}>
+                  {HOUR_TICKS.includes(hour) ? hour : ""}
+                </Text>
+              ))}
+            </View>
+          </View>
+
+          {focus ? (
+            <Text style={styles.summaryText}>
+              {selectedWindow ? "" : "Peak · "}
+              {formatHeatmapWindow(focus)} · {formatMetric(metric, focus.value)}
+            </Text>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: qsSpacing.lg,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.md,
+    backgroundColor: qsColors.layer1,
+    padding: qsSpacing.sm,
+    gap: qsSpacing.sm,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  title: {
+    color: qsColors.textSubtle,
+    fontSize: 11,
+    fontWeight: qsTypography.weight.medium,
+  },
+  metricRow: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  metricChip: {
+    borderRadius: qsRadius.pill,
+    backgroundColor: qsColors.layer2,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+  },
+  metricChipActive: {
+    backgroundColor: qsColors.accent,
+  },
+  metricChipText: {
+    color: qsColors.textTertiary,
+    fontSize: 10,
+    fontWeight: qsTypography.weight.semi,
+  },
+  metricChipTextActive: {
+    color: qsColors.textPrimary,
+  },
+  grid: {
+    gap: 2,
+  },
+  gridRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  dayLabel: {
+    width: 26,
+    color: qsColors.textTertiary,
+    fontSize: 9,
+    fontWeight: qsTypography.weight.medium,
+  },
+  dayLabelSpacer: {
+    width: 26,
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 2,
+  },
+  cellSelected: {
+    borderWidth: 1,
+    borderColor: qsColors.textPrimary,
+  },
+  hourTick: {
+    flex: 1,
+    color: qsColors.textSubtle,
+    fontSize: 8,
+    fontVariant: ["tabular-nums"],
+  },
+  summaryText: {
+    color: qsColors.textSecondary,
+    fontSize: 11,
+    fontWeight: qsTypography.weight.medium,
+    fontVariant: ["tabular-nums"],
+  },
+  emptyText: {
+    color: qsColors.textTertiary,
+    fontSize: 11,
+  },
+});
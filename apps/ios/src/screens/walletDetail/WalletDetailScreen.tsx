@@ -3,9 +3,10 @@
  *
  * Layout (top to bottom):
  * 1. Header: emoji/avatar, name or address, copy, star
- * 2. Stats row: Balance, Total PnL, Volume, Win Rate
- * 3. Tabs: Positions | History | Top Trades
- * 4. Tab content (FlatList items)
+ * 2. Stats row: Balance, Realized PnL, Volume, Win Rate
+ * 3. Activity heatmap — tapping a cell filters History to that hour
+ * 4. Tabs: Positions | History | Top Trades
+ * 5. Tab content (FlatList items)
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -31,11 +32,17 @@ import { useAuthSession } from "@/src/features/auth/AuthSessionProvider";
 import {
   fetchTraderOverview,
   fetchTraderPositions,
-  fetchTransactionHistory,
+  computeRealizedPnl,
+  fetchTransactionHistoryPages,
+  fetchTraderHeatmap,
+  isInHeatmapWindow,
+  type HeatmapMetric,
+  type HeatmapWindow,
   type Position,
+  type TraderHeatmapRow,
   type TraderOverview,
   type TransactionRow,
-} from "@/src/features/portfolio/portfolioService";
+} from "@quickscope/core/portfolio";
 import {
   addWalletToWatchlist,
   fetchWalletWatchlists,
@@ -47,9 +54,10 @@ import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens"
 import { EmptyState } from "@/src/ui/EmptyState";
 import { SkeletonRow } from "@/src/ui/Skeleton";
 import { TokenAvatar } from "@/src/ui/TokenAvatar";
-import { TrendingUp, TrendingDown, Wallet } from "@/src/ui/icons";
+import { TrendingUp, TrendingDown, Wallet, X } from "@/src/ui/icons";
 
 import { WalletDetailHeader } from "./WalletDetailHeader";
+import { WalletDetailHeatmap, formatHeatmapWindow } from "./WalletDetailHeatmap";
 import { WalletDetailStats } from "./WalletDetailStats";
 import { WalletDetailTabBar, type WalletDetailTab } from "./WalletDetailTabs";
 
@@ -65,6 +73,11 @@ type ListItem =
   | { type: "history"; data: TransactionRow & { tokenSymbol: string; tokenImageUri?: string } }
   | { type: "topTrade"; data: Position };
 
+/** History depth behind the realized PnL and win rate stats */
+const HISTORY_MAX_ROWS = 1000;
+/** Latest rows shown in the History tab, out of the same fetch */
+const HISTORY_LIST_ROWS = 50;
+
 const ACTION_LABELS: Record<string, "Buy" | "Sell"> = {
   b: "Buy",
   s: "Sell",
@@ -100,6 +113,7 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
   const [overview, setOverview] = useState<TraderOverview | null>(null);
   const [positions, setPositions] = useState<Position[]>([]);
   const [transactions, setTransactions] = useState<TransactionRow[]>([]);
+  const [heatmapRows, setHeatmapRows] = useState<TraderHeatmapRow[]>([]);
   const [tokenInfoMap, setTokenInfoMap] = useState<Record<string, { token_metadata?: { symbol?: string; name?: string; image_uri?: string; mint?: string } }>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -108,6 +122,11 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
   const [activeTab, setActiveTab] = useState<WalletDetailTab>("positions");
   const [topTradeSort, setTopTradeSort] = useState<"percent" | "dollar">("percent");
 
+  // ── Heatmap state ──
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>("trades");
+  const [heatmapWindow, setHeatmapWindow] = useState<HeatmapWindow | null>(null);
+  const utcOffsetMinutes = useMemo(() => -new Date().getTimezoneOffset(), []);
+
   // ── Watchlist state ──
   const [watchlists, setWatchlists] = useState<WalletWatchlist[]>([]);
   const [isTracked, setIsTracked] = useState(false);
@@ -127,10 +146,12 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
       }
 
       try {
-        const [overviewData, positionsData, txData] = await Promise.all([
+        const [overviewData, positionsData, txData, heatmapData] = await Promise.all([
           fetchTraderOverview(rpcClient, walletAddress),
           fetchTraderPositions(rpcClient, walletAddress, { limit: 200 }),
-          fetchTransactionHistory(rpcClient, walletAddress, 50),
+          fetchTransactionHistoryPages(rpcClient, walletAddress, { maxRows: HISTORY_MAX_ROWS }),
+          // The heatmap is extra — don't let it blank the rest of the screen
+          fetchTraderHeatmap(rpcClient, walletAddress).catch(() => []),
         ]);
 
         if (requestId !== requestRef.current) return;
@@ -139,6 +160,7 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
         setPositions(positionsData.positions ?? []);
         setTransactions(txData.table?.rows ?? []);
         setTokenInfoMap(txData.mint_to_token_info ?? {});
+        setHeatmapRows(heatmapData);
       } catch {
         // Silently fail — show empty state
       } finally {
@@ -196,21 +218,24 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
     return sorted;
   }, [closedPositions, topTradeSort, solPriceUsd]);
 
+  const realized = useMemo(
+    () => computeRealizedPnl(transactions),
+    [transactions],
+  );
+
   const stats = useMemo(() => {
     const balanceUsd = overview?.holdings?.value_usd;
-    const totalPnlUsd = closedPositions.reduce(
-      (sum, p) => sum + p.realized_pnl_quote * solPriceUsd,
-      0,
-    );
     const volumeUsd =
       (overview?.cumulatives?.bought_usd_cumulative ?? 0) +
       (overview?.cumulatives?.sold_usd_cumulative ?? 0);
-    const winCount = closedPositions.filter((p) => p.realized_pnl_quote > 0).length;
-    const winRatePercent =
-      closedPositions.length > 0 ? (winCount / closedPositions.length) * 100 : undefined;
 
-    return { balanceUsd, totalPnlUsd, volumeUsd, winRatePercent };
-  }, [overview, closedPositions, solPriceUsd]);
+    return {
+      balanceUsd,
+      realizedPnlUsd: realized.sells.length > 0 ? realized.totalRealizedPnlUsd : undefined,
+      volumeUsd,
+      winRatePercent: realized.winRatePercent,
+    };
+  }, [overview, realized]);
 
   /* ═══ Handlers ═══ */
 
@@ -265,7 +290,7 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
 
   const enrichedHistory = useMemo(
     () =>
-      transactions.map((tx) => {
+      transactions.slice(0, HISTORY_LIST_ROWS).map((tx) => {
         const info = tokenInfoMap[tx.mint]?.token_metadata;
         return {
           ...tx,
@@ -276,11 +301,26 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
     [transactions, tokenInfoMap],
   );
 
+  const filteredHistory = useMemo(
+    () =>
+      heatmapWindow
+        ? enrichedHistory.filter((tx) => isInHeatmapWindow(tx.ts, heatmapWindow, utcOffsetMinutes))
+        : enrichedHistory,
+    [enrichedHistory, heatmapWindow, utcOffsetMinutes],
+  );
+
+  const handleSelectHeatmapWindow = useCallback((window: HeatmapWindow) => {
+    setHeatmapWindow((prev) =>
+      prev?.weekday === window.weekday && prev.hour === window.hour ? null : window,
+    );
+    setActiveTab("history");
+  }, []);
+
   let listData: ListItem[] = [];
   if (activeTab === "positions") {
     listData = openPositions.map((p) => ({ type: "position" as const, data: p }));
   } else if (activeTab === "history") {
-    listData = enrichedHistory.map((h) => ({ type: "history" as const, data: h }));
+    listData = filteredHistory.map((h) => ({ type: "history" as const, data: h }));
   } else {
     listData = topTrades.map((p) => ({ type: "topTrade" as const, data: p }));
   }
@@ -320,13 +360,40 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
 
             <WalletDetailStats
               balanceUsd={stats.balanceUsd}
-              totalPnlUsd={stats.totalPnlUsd}
+              realizedPnlUsd={stats.realizedPnlUsd}
               volumeUsd={stats.volumeUsd}
               winRatePercent={stats.winRatePercent}
             />
 
+            <WalletDetailHeatmap
+              rows={heatmapRows}
+              metric={heatmapMetric}
+              onMetricChange={setHeatmapMetric}
+              selectedWindow={heatmapWindow}
+              onSelectWindow={handleSelectHeatmapWindow}
+              utcOffsetMinutes={utcOffsetMinutes}
+            />
+
             <WalletDetailTabBar activeTab={activeTab} onTabChange={setActiveTab} />
 
+            {/* Heatmap window filter */}
+            {activeTab === "history" && heatmapWindow ? (
+              <View style={styles.sortRow}>
+                <Pressable
+                  style={[styles.sortChip, styles.sortChipActive, styles.filterChip]}
+                  onPress={() => {
+                    haptics.selection();
+                    setHeatmapWindow(null);
+                  }}
+                >
+                  <Text style={[styles.sortChipText, styles.sortChipTextActive]}>
+                    {formatHeatmapWindow(heatmapWindow)}
+                  </Text>
+                  <X size={12} color={qsColors.textPrimary} />
+                </Pressable>
+              </View>
+            ) : null}
+
             {/* Top Trades sort toggle */}
             {activeTab === "topTrades" && closedPositions.length > 0 ? (
               <View style={styles.sortRow}>
@@ -481,10 +548,16 @@ export function WalletDetailScreen({ rpcClient, params }: WalletDetailScreenProp
                 activeTab === "positions"
                   ? "No open positions"
                   : activeTab === "history"
-                    ? "No transactions yet"
+                    ? heatmapWindow
+                      ? "No trades in this hour"
+                      : "No transactions yet"
                     : "No closed trades yet"
               }
-              subtitle="Activity will appear here once this wallet trades."
+              subtitle={
+                activeTab === "history" && heatmapWindow
+                  ? "Only recent history is loaded. Clear the filter to see everything."
+                  : "Activity will appear here once this wallet trades."
+              }
             />
           )
         }
@@ -535,6 +608,11 @@ const styles = StyleSheet.create({
   sortChipTextActive: {
     color: qsColors.textPrimary,
   },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
 
   // ── Row items ──
   rowItem: {
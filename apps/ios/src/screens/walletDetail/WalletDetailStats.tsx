@@ -1,6 +1,7 @@
 /**
  * Stats row for wallet detail — 2x2 grid of stat cards.
- * Balance, Total PnL, Volume, Win Rate.
+ * Balance, Realized PnL, Volume, Win Rate. Realized PnL and win rate are
+ * FIFO-matched from transaction history (see computeRealizedPnl).
  */
 import React from "react";
 import { StyleSheet, Text, View } from "react-native";
@@ -10,32 +11,32 @@ import { formatCompactUsd, formatPercent } from "@/src/lib/format";
 
 type WalletDetailStatsProps = {
   balanceUsd: number | undefined;
-  totalPnlUsd: number | undefined;
+  realizedPnlUsd: number | undefined;
   volumeUsd: number | undefined;
   winRatePercent: number | undefined;
 };
 
 export function WalletDetailStats({
   balanceUsd,
-  totalPnlUsd,
+  realizedPnlUsd,
   volumeUsd,
   winRatePercent,
 }: WalletDetailStatsProps) {
   const pnlColor =
-    totalPnlUsd === undefined
+    realizedPnlUsd === undefined
       ? qsColors.textSecondary
-      : totalPnlUsd >= 0
+      : realizedPnlUsd >= 0
         ? qsColors.buyGreen
         : qsColors.sellRed;
 
   const pnlText =
-    totalPnlUsd === undefined
+    realizedPnlUsd === undefined
       ? "--"
-      : `${totalPnlUsd >= 0 ? "+" : ""}${formatCompactUsd(Math.abs(totalPnlUsd))}`;
+      : `${realizedPnlUsd >= 0 ? "+" : ""}${formatCompactUsd(Math.abs(realizedPnlUsd))}`;
 
   const stats = [
     { label: "Balance", value: formatCompactUsd(balanceUsd), color: qsColors.textPrimary },
-    { label: "Total PnL", value: pnlText, color: pnlColor },
+    { label: "Realized PnL", value: pnlText, color: pnlColor },
     { label: "Volume", value: formatCompactUsd(volumeUsd), color: qsColors.textPrimary },
     {
       label: "Win Rate",
@@ -0,0 +1,266 @@
+/**
+ * ExitLadderBuilder — TP/SL ladder editor shown under a buy in the trade sheet.
+ *
+ * Each row is one exit level: take-profit or stop-loss, the share of the
+ * bought position to sell, and a target as a multiple of entry or an
+ * absolute market cap. Rows are edited as text drafts and converted with
+ * `exitLevelsFromDrafts` when the buy is submitted.
+ */
+import React, { useCallback } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import {
+  MAX_EXIT_LADDER_LEVELS,
+  exitLevelMarketCap,
+  type ExitLadderLevel,
+  type ExitLevelKind,
+} from "@quickscope/core/trade";
+import { formatCompactUsd } from "@/src/lib/format";
+import { haptics } from "@/src/lib/haptics";
+import { Plus, X } from "@/src/ui/icons";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+
+export type ExitLevelDraft = {
+  id: string;
+  kind: ExitLevelKind;
+  sellPercent: string;
+  targetType: "multiple" | "market_cap";
+  targetValue: string;
+};
+
+let nextDraftId = 0;
+
+function draft(kind: ExitLevelKind, sellPercent: string, multiple: string): ExitLevelDraft {
+  nextDraftId += 1;
+  return { id: `level-${nextDraftId}`, kind, sellPercent, targetType: "multiple", targetValue: multiple };
+}
+
+/** Two take-profits and a stop-loss — the usual starting point after a buy. */
+export function defaultExitLevelDrafts(): ExitLevelDraft[] {
+  return [draft("take_profit", "50", "2"), draft("take_profit", "25", "4"), draft("stop_loss", "100", "0.5")];
+}
+
+export function exitLevelsFromDrafts(drafts: ExitLevelDraft[]): ExitLadderLevel[] {
+  return drafts.map((d) => {
+    const value = parseFloat(d.targetValue) || 0;
+    return {
+      kind: d.kind,
+      sellPercent: parseFloat(d.sellPercent) || 0,
+      target:
+        d.targetType === "multiple"
+          ? { type: "multiple", value }
+          : { type: "market_cap", valueUsd: value },
+    };
+  });
+}
+
+type ExitLadderBuilderProps = {
+  drafts: ExitLevelDraft[];
+  onChange: (drafts: ExitLevelDraft[]) => void;
+  /** Market cap the multiples are measured from */
+  entryMarketCapUsd?: number;
+};
+
+export function ExitLadderBuilder({ drafts, onChange, entryMarketCapUsd }: ExitLadderBuilderProps) {
+  const updateDraft = useCallback(
+    (id: string, patch: Partial<ExitLevelDraft>) => {
+      onChange(drafts.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+    },
+    [drafts, onChange]
+  );
+
+  const removeDraft = useCallback(
+    (id: string) => {
+      haptics.light();
+      onChange(drafts.filter((d) => d.id !== id));
+    },
+    [drafts, onChange]
+  );
+
+  const addDraft = useCallback(
+    (kind: ExitLevelKind) => {
+      haptics.light();
+      onChange([...drafts, kind === "stop_loss" ? draft(kind, "100", "0.5") : draft(kind, "25", "3")]);
+    },
+    [drafts, onChange]
+  );
+
+  const canAdd = drafts.length < MAX_EXIT_LADDER_LEVELS;
+  const hasStopLoss = drafts.some((d) => d.kind === "stop_loss");
+  const levels = exitLevelsFromDrafts(drafts);
+
+  return (
+    <View style={styles.wrap}>
+      {drafts.map((d, i) => {
+        const isStopLoss = d.kind === "stop_loss";
+        const targetMarketCap =
+          entryMarketCapUsd && entryMarketCapUsd > 0
+            ? exitLevelMarketCap(levels[i], entryMarketCapUsd)
+            : 0;
+        return (
+          <View key={d.id} style={styles.levelRow}>
+            <Text style={[styles.kindLabel, { color: isStopLoss ? qsColors.sellRed : qsColors.buyGreen }]}>
+              {isStopLoss ? "SL" : "TP"}
+            </Text>
+
+            <View style={styles.field}>
+              <TextInput
+                style={styles.fieldInput}
+                value={d.sellPercent}
+                onChangeText={(text) => updateDraft(d.id, { sellPercent: text })}
+                keyboardType="numeric"
+                placeholder="0"
+                placeholderTextColor={qsColors.textMuted}
+              />
+              <Text style={styles.fieldUnit}>%</Text>
+            </View>
+
+            <Text style={styles.atLabel}>at</Text>
+
+            <View style={[styles.field, styles.targetField]}>
+              {d.targetType === "market_cap" && <Text style={styles.fieldUnit}>$</Text>}
+              <TextInput
+                style={styles.fieldInput}
+                value={d.targetValue}
+                onChangeText={(text) => updateDraft(d.id, { targetValue: text })}
+                keyboardType="numeric"
+                placeholder="0"
+                placeholderTextColor={qsColors.textMuted}
+              />
+              <Pressable
+                hitSlop={6}
+                onPress={() => {
+                  haptics.selection();
+                  updateDraft(d.id, {
+                    targetType: d.targetType === "multiple" ? "market_cap" : "multiple",
+                    targetValue:
+                      targetMarketCap > 0
+                        ? d.targetType === "multiple"
+                          ? Math.round(targetMarketCap).toString()
+                          : (targetMarketCap / (entryMarketCapUsd ?? 1)).toFixed(2)
+                        : "",
+                  });
+                }}
+                style={styles.unitToggle}
+              >
+                <Text style={styles.unitToggleText}>{d.targetType === "multiple" ? "x" : "MC"}</Text>
+              </Pressable>
+            </View>
+
+            <Text style={styles.mcHint} numberOfLines={1}>
+              {targetMarketCap > 0 ? formatCompactUsd(targetMarketCap) : "—"}
+            </Text>
+
+            <Pressable hitSlop={6} onPress={() => removeDraft(d.id)}>
+              <X size={14} color={qsColors.textTertiary} />
+            </Pressable>
+          </View>
+        );
+      })}
+
+      <View style={styles.addRow}>
+        <Pressable
+          disabled={!canAdd}
+          onPress={() => addDraft("take_profit")}
+          style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+        >
+          <Plus size={12} color={qsColors.buyGreen} />
+          <Text style={styles.addButtonText}>Take-profit</Text>
+        </Pressable>
+        <Pressable
+          disabled={!canAdd || hasStopLoss}
+          onPress={() => addDraft("stop_loss")}
+          style={[styles.addButton, (!canAdd || hasStopLoss) && styles.addButtonDisabled]}
+        >
+          <Plus size={12} color={qsColors.sellRed} />
+          <Text style={styles.addButtonText}>Stop-loss</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: qsSpacing.xs,
+  },
+  levelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.xs,
+  },
+  kindLabel: {
+    width: 22,
+    fontSize: 11,
+    fontWeight: qsTypography.weight.bold,
+  },
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    width: 58,
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.sm,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    paddingHorizontal: qsSpacing.xs,
+  },
+  targetField: {
+    width: 96,
+  },
+  fieldInput: {
+    flex: 1,
+    paddingVertical: 4,
+    fontSize: 13,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  fieldUnit: {
+    fontSize: 11,
+    color: qsColors.textTertiary,
+  },
+  atLabel: {
+    fontSize: 11,
+    color: qsColors.textTertiary,
+  },
+  unitToggle: {
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: qsRadius.xs,
+    backgroundColor: qsColors.layer3,
+  },
+  unitToggleText: {
+    fontSize: 10,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  mcHint: {
+    flex: 1,
+    textAlign: "right",
+    fontSize: 11,
+    color: qsColors.textSubtle,
+    fontVariant: ["tabular-nums"],
+  },
+  addRow: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+    marginTop: qsSpacing.xs,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: qsSpacing.sm,
+    paddingVertical: 4,
+    borderRadius: qsRadius.pill,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+  },
+  addButtonDisabled: {
+    opacity: 0.4,
+  },
+  addButtonText: {
+    fontSize: 11,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+});
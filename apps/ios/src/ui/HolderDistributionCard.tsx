@@ -0,0 +1,207 @@
+/**
+ * HolderDistributionCard — concentration summary above the holder list.
+ *
+ * Layout:
+ *  Top 10   Top 25   Gini · top 50
+ *  42.1%    61.0%    0.82 High
+ *  Holding size   >5% ██░░ 3 holders · 24%
+ *  Labeled        DEV 4.1%  SNIPER 12%  ...
+ */
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import type { HolderConcentration } from "@/src/features/token/holderDistribution";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { LABEL_COLORS } from "@/src/ui/HolderRow";
+
+type HolderDistributionCardProps = {
+  stats: HolderConcentration;
+  /** Holders the metrics were computed over */
+  sampleSize: number;
+};
+
+/** Labeled wallets above this share of supply are flagged. */
+const LABELED_WARN_PCT = 20;
+
+function formatPct(pct: number | undefined): string {
+  if (pct === undefined) return "—";
+  if (pct > 0 && pct < 0.1) return "<0.1%";
+  return `${pct.toFixed(1)}%`;
+}
+
+function concentrationLevel(score: number): { label: string; color: string } {
+  if (score >= 0.8) return { label: "High", color: qsColors.sellRed };
+  if (score >= 0.6) return { label: "Moderate", color: qsColors.warning };
+  return { label: "Low", color: qsColors.buyGreen };
+}
+
+export function HolderDistributionCard({ stats, sampleSize }: HolderDistributionCardProps) {
+  const level = concentrationLevel(stats.giniScore);
+  const maxBucketCount = Math.max(1, ...stats.buckets.map((b) => b.holderCount));
+  const labeledWarn = stats.labeledPct >= LABELED_WARN_PCT;
+
+  return (
+    <View style={styles.card}>
+      {/* ── Concentration ── */}
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Top 10</Text>
+          <Text style={styles.statValue}>{formatPct(stats.top10Pct)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Top 25</Text>
+          <Text style={styles.statValue}>{formatPct(stats.top25Pct)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Gini · top {sampleSize.toLocaleString()}</Text>
+          <Text style={[styles.statValue, { color: level.color }]}>
+            {stats.giniScore.toFixed(2)} {level.label}
+          </Text>
+        </View>
+      </View>
+
+      {/* ── Holding size buckets ── */}
+      <Text style={styles.sectionLabel}>Holding size</Text>
+      {stats.buckets.map((bucket) => (
+        <View key={bucket.label} style={styles.bucketRow}>
+          <Text style={styles.bucketLabel}>{bucket.label}</Text>
+          <View style={styles.barTrack}>
+            <View
+              style={[
+                styles.barFill,
+                { width: `${Math.max((bucket.holderCount / maxBucketCount) * 100, 1)}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.bucketValue}>
+            {bucket.holderCount.toLocaleString()}
+            {bucket.supplyPct !== undefined ? ` · ${formatPct(bucket.supplyPct)}` : ""}
+          </Text>
+        </View>
+      ))}
+
+      {/* ── Labeled groups ── */}
+      <View style={styles.labeledHeader}>
+        <Text style={styles.sectionLabel}>Labeled wallets</Text>
+        <Text style={[styles.labeledTotal, labeledWarn && styles.labeledTotalWarn]}>
+          {formatPct(stats.labeledPct)} of supply
+        </Text>
+      </View>
+      <View style={styles.labelsRow}>
+        {stats.labelGroups.map((group) => {
+          const colors = LABEL_COLORS[group.label];
+          return (
+            <View key={group.label} style={[styles.labelBadge, { backgroundColor: colors.bg }]}>
+              <Text style={[styles.labelText, { color: colors.text }]}>
+                {group.label} {group.holderCount > 0 ? formatPct(group.supplyPct) : "—"}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={styles.footnote}>Based on the top {sampleSize.toLocaleString()} holders.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: qsSpacing.lg,
+    marginBottom: qsSpacing.md,
+    padding: qsSpacing.md,
+    gap: qsSpacing.sm,
+    borderRadius: qsRadius.lg,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    backgroundColor: qsColors.layer1,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  stat: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 11,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textTertiary,
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  sectionLabel: {
+    marginTop: qsSpacing.xs,
+    fontSize: 11,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  bucketRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.sm,
+  },
+  bucketLabel: {
+    width: 52,
+    fontSize: 11,
+    color: qsColors.textTertiary,
+    fontVariant: ["tabular-nums"],
+  },
+  barTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: qsColors.layer3,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    borderRadius: 2,
+    backgroundColor: qsColors.accent,
+  },
+  bucketValue: {
+    width: 88,
+    textAlign: "right",
+    fontSize: 11,
+    color: qsColors.textSecondary,
+    fontVariant: ["tabular-nums"],
+  },
+  labeledHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  labeledTotal: {
+    fontSize: 11,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+    fontVariant: ["tabular-nums"],
+  },
+  labeledTotalWarn: {
+    color: qsColors.sellRed,
+  },
+  labelsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 4,
+  },
+  labelBadge: {
+    borderRadius: qsRadius.xs,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+  },
+  labelText: {
+    fontSize: 9,
+    fontWeight: qsTypography.weight.semi,
+    textTransform: "uppercase",
+    fontVariant: ["tabular-nums"],
+  },
+  footnote: {
+    fontSize: 10,
+    color: qsColors.textSubtle,
+  },
+});
@@ -22,7 +22,7 @@ type HolderRowProps = {
   tokenDecimals?: number;
 };
 
-const LABEL_COLORS: Record<string, { bg: string; text: string }> = {
+export const LABEL_COLORS: Record<string, { bg: string; text: string }> = {
   whale: { bg: "rgba(59, 130, 246, 0.15)", text: "#60a5fa" },
   bot: { bg: "rgba(239, 68, 68, 0.15)", text: "#f87171" },
   dev: { bg: "rgba(168, 85, 247, 0.15)", text: "#c084fc" },
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 import {
   Animated,
@@ -14,7 +14,7 @@ import {
 
 import { haptics } from "@/src/lib/haptics";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
-import { Check, X } from "@/src/ui/icons";
+import { Check, ChevronDown, ChevronUp, Pencil, Plus, Trash2, X } from "@/src/ui/icons";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 const DRAWER_WIDTH = SCREEN_WIDTH * 0.8;
@@ -27,6 +27,8 @@ export type ListPickerItem = {
   subtitle?: string;
   imageUri?: string;
   icon?: React.ReactNode;
+  /** Shown but not editable in manage mode (subscribed lists, favorites) */
+  readOnly?: boolean;
 };
 
 type Props = {
@@ -36,11 +38,33 @@ type Props = {
   items: ListPickerItem[];
   activeId: string | null;
   onSelect: (id: string) => void;
+  /** Passing any of the handlers below enables the Edit / Done manage mode */
+  onCreate?: () => void;
+  onEditItem?: (id: string) => void;
+  onDeleteItem?: (id: string) => void;
+  onMoveItem?: (id: string, direction: -1 | 1) => void;
 };
 
-export function ListPickerDrawer({ visible, onClose, title, items, activeId, onSelect }: Props) {
+export function ListPickerDrawer({
+  visible,
+  onClose,
+  title,
+  items,
+  activeId,
+  onSelect,
+  onCreate,
+  onEditItem,
+  onDeleteItem,
+  onMoveItem,
+}: Props) {
   const translateX = useRef(new Animated.Value(-DRAWER_WIDTH)).current;
   const backdropOpacity = useRef(new Animated.Value(0)).current;
+  const [isManaging, setIsManaging] = useState(false);
+  const canManage = Boolean(onCreate || onEditItem || onDeleteItem || onMoveItem);
+
+  useEffect(() => {
+    if (!visible) setIsManaging(false);
+  }, [visible]);
 
   useEffect(() => {
     if (visible) {
@@ -117,9 +141,22 @@ export function ListPickerDrawer({ visible, onClose, title, items, activeId, onS
           {/* Header */}
           <View style={styles.header}>
             <Text style={styles.headerTitle}>{title}</Text>
-            <Pressable onPress={handleClose} hitSlop={12} style={styles.closeButton}>
-              <X size={20} color={qsColors.textSecondary} />
-            </Pressable>
+            <View style={styles.headerActions}>
+              {canManage ? (
+                <Pressable
+                  onPress={() => {
+                    haptics.selection();
+                    setIsManaging((prev) => !prev);
+                  }}
+                  hitSlop={8}
+                >
+                  <Text style={styles.manageToggleText}>{isManaging ? "Done" : "Edit"}</Text>
+                </Pressable>
+              ) : null}
+              <Pressable onPress={handleClose} hitSlop={12} style={styles.closeButton}>
+                <X size={20} color={qsColors.textSecondary} />
+              </Pressable>
+            </View>
           </View>
 
           {/* List items */}
@@ -138,7 +175,7 @@ export function ListPickerDrawer({ visible, onClose, title, items, activeId, onS
                     isActive && styles.listRowActive,
                     pressed && styles.listRowPressed,
                   ]}
-                  onPress={() => handleSelect(item.id)}
+                  onPress={isManaging ? undefined : () => handleSelect(item.id)}
                 >
                   {item.imageUri ? (
                     <Image source={{ uri: item.imageUri }} style={styles.listAvatar} />
@@ -158,7 +195,34 @@ export function ListPickerDrawer({ visible, onClose, title, items, activeId, onS
                       </Text>
                     ) : null}
                   </View>
-                  {isActive ? <Check size={16} color={qsColors.accent} /> : null}
+                  {isManaging ? (
+                    item.readOnly ? null : (
+                      <View style={styles.manageActions}>
+                        {onMoveItem ? (
+                          <>
+                            <Pressable hitSlop={6} onPress={() => onMoveItem(item.id, -1)}>
+                              <ChevronUp size={18} color={qsColors.textSecondary} />
+                            </Pressable>
+                            <Pressable hitSlop={6} onPress={() => onMoveItem(item.id, 1)}>
+                              <ChevronDown size={18} color={qsColors.textSecondary} />
+                            </Pressable>
+                          </>
+                        ) : null}
+                        {onEditItem ? (
+                          <Pressable hitSlop={6} onPress={() => onEditItem(item.id)}>
+                            <Pencil size={16} color={qsColors.textSecondary} />
+                          </Pressable>
+                        ) : null}
+                        {onDeleteItem ? (
+                          <Pressable hitSlop={6} onPress={() => onDeleteItem(item.id)}>
+                            <Trash2 size={16} color={qsColors.sellRed} />
+                          </Pressable>
+                        ) : null}
+                      </View>
+                    )
+                  ) : isActive ? (
+                    <Check size={16} color={qsColors.accent} />
+                  ) : null}
                 </Pressable>
               );
             })}
@@ -166,6 +230,18 @@ export function ListPickerDrawer({ visible, onClose, title, items, activeId, onS
             {items.length === 0 ? (
               <Text style={styles.emptyText}>No lists available</Text>
             ) : null}
+
+            {isManaging && onCreate ? (
+              <Pressable
+                style={({ pressed }) => [styles.listRow, pressed && styles.listRowPressed]}
+                onPress={onCreate}
+              >
+                <View style={styles.listAvatarFallback}>
+                  <Plus size={16} color={qsColors.accent} />
+                </View>
+                <Text style={styles.createLabel}>New list</Text>
+              </Pressable>
+            ) : null}
           </ScrollView>
         </Animated.View>
       </View>
@@ -212,6 +288,16 @@ const styles = StyleSheet.create({
     fontWeight: qsTypography.weight.bold,
     color: qsColors.textPrimary,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.md,
+  },
+  manageToggleText: {
+    fontSize: 15,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.accent,
+  },
   closeButton: {
     width: 32,
     height: 32,
@@ -268,6 +354,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: qsColors.textTertiary,
   },
+  manageActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: qsSpacing.md,
+  },
+  createLabel: {
+    fontSize: 15,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.accent,
+  },
   emptyText: {
     fontSize: 14,
     color: qsColors.textSubtle,
@@ -4,6 +4,8 @@
  * Layout:
  * [TokenAvatar 36x36] [Symbol]  [OrderType badge]  [Trigger MC]
  *                      [Status pill]  [Expires in Xd]  [Cancel icon]
+ *
+ * Trailing stops show their current effective trigger and trail distance.
  */
 import React, { useCallback } from "react";
 import { Image, Pressable, StyleSheet, Text, View } from "react-native";
@@ -13,9 +15,10 @@ import { haptics } from "@/src/lib/haptics";
 import {
   type TriggerOrder,
   type OrderStatus,
+  type TrailingStopState,
   orderTypeLabel,
   formatExpiresIn,
-} from "@/src/features/trade/triggerOrderService";
+} from "@quickscope/core/trade";
 
 type OrderRowProps = {
   order: TriggerOrder;
@@ -25,6 +28,8 @@ type OrderRowProps = {
   tokenImageUri?: string;
   onCancel?: (orderId: string) => void;
   isCancelling?: boolean;
+  /** Local trailing state when this stop-loss is client-managed */
+  trailing?: TrailingStopState;
 };
 
 const STATUS_COLORS: Record<OrderStatus, string> = {
@@ -60,6 +65,7 @@ export function OrderRow({
   tokenImageUri,
   onCancel,
   isCancelling = false,
+  trailing,
 }: OrderRowProps) {
   const handleCancel = useCallback(() => {
     haptics.light();
@@ -85,10 +91,12 @@ export function OrderRow({
             {tokenSymbol || order.mint.slice(0, 6)}
           </Text>
           <View style={styles.typeBadge}>
-            <Text style={styles.typeBadgeText}>{orderTypeLabel(order.orderType)}</Text>
+            <Text style={styles.typeBadgeText}>
+              {trailing ? "Trailing Stop" : orderTypeLabel(order.orderType)}
+            </Text>
           </View>
           <Text style={styles.triggerMC}>
-            {formatTriggerMC(order.triggerPriceUSD)}
+            {formatTriggerMC(trailing?.triggerPriceUSD ?? order.triggerPriceUSD)}
           </Text>
         </View>
 
@@ -112,6 +120,9 @@ export function OrderRow({
           <Text style={styles.expiresText}>
             {order.status === "active" ? formatExpiresIn(order.expiresAt) : "—"}
           </Text>
+          {trailing && (
+            <Text style={styles.trailText}>Trail {trailing.trailPercent}%</Text>
+          )}
 
           {canCancel && (
             <Pressable
@@ -200,6 +211,11 @@ const styles = StyleSheet.create({
     color: qsColors.textTertiary,
     fontVariant: ["tabular-nums"],
   },
+  trailText: {
+    fontSize: 12,
+    color: qsColors.textSecondary,
+    fontVariant: ["tabular-nums"],
+  },
   cancelBtn: {
     marginLeft: "auto",
     padding: 4,
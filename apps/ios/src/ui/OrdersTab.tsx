@@ -3,11 +3,13 @@
  *
  * Features:
  * - All Orders / This Token toggle pills
- * - 10-second polling for order updates
+ * - TP/SL exit ladder orders grouped under one header with Cancel All
+ * - Trailing stops show their current effective trigger
+ * - Live status updates via tx/orderStatusChanges (10s polling fallback)
  * - Optimistic cancel with refetch
  * - Empty state when no orders
  */
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { haptics } from "@/src/lib/haptics";
@@ -15,11 +17,11 @@ import { EmptyState } from "@/src/ui/EmptyState";
 import { OrderRow } from "@/src/ui/OrderRow";
 import { Clock } from "@/src/ui/icons";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
-import {
-  getTriggerOrders,
-  cancelTriggerOrder,
-  type TriggerOrder,
-} from "@/src/features/trade/triggerOrderService";
+import { useTriggerOrders } from "@/src/features/trade/useTriggerOrders";
+import { useExitLadders } from "@/src/features/trade/ExitLaddersProvider";
+import { useTrailingStops } from "@/src/features/trade/TrailingStopsProvider";
+import { formatCompactUsd } from "@/src/lib/format";
+import { groupOrdersByExitLadder, type TriggerOrder } from "@quickscope/core/trade";
 
 type OrdersFilter = "all" | "token";
 
@@ -34,8 +36,6 @@ type OrdersTabProps = {
   getTokenImageUri?: (mint: string) => string | undefined;
 };
 
-const POLL_INTERVAL_MS = 10_000;
-
 export function OrdersTab({
   rpcClient,
   walletAddress,
@@ -44,83 +44,48 @@ export function OrdersTab({
   getTokenImageUri,
 }: OrdersTabProps) {
   const [filter, setFilter] = useState<OrdersFilter>("token");
-  const [orders, setOrders] = useState<TriggerOrder[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [cancellingIds, setCancellingIds] = useState<Set<string>>(new Set());
-  const mountedRef = useRef(true);
-
-  // Fetch orders
-  const fetchOrders = useCallback(async () => {
-    if (!walletAddress) return;
-
-    try {
-      const result = await getTriggerOrders(rpcClient, {
-        walletAddress,
-        ...(filter === "token" ? { mint: tokenAddress } : {}),
-      });
-
-      if (mountedRef.current) {
-        setOrders(result);
-        setError(null);
-      }
-    } catch (err) {
-      if (mountedRef.current) {
-        setError(err instanceof Error ? err.message : "Failed to load orders");
-      }
-    } finally {
-      if (mountedRef.current) {
-        setIsLoading(false);
-      }
-    }
-  }, [rpcClient, walletAddress, tokenAddress, filter]);
+  const { orders, isLoading, error, cancellingIds, cancelOrder } = useTriggerOrders(rpcClient, {
+    walletAddress,
+    mint: filter === "token" ? tokenAddress : undefined,
+  });
 
-  // Initial load + polling
-  useEffect(() => {
-    mountedRef.current = true;
-    setIsLoading(true);
-    void fetchOrders();
+  const { ladders } = useExitLadders();
+  const { trailingByOrderId } = useTrailingStops();
+  const groups = useMemo(() => groupOrdersByExitLadder(orders, ladders), [orders, ladders]);
 
-    const interval = setInterval(() => {
-      void fetchOrders();
-    }, POLL_INTERVAL_MS);
-
-    return () => {
-      mountedRef.current = false;
-      clearInterval(interval);
-    };
-  }, [fetchOrders]);
-
-  // Handle cancel
   const handleCancel = useCallback(
-    async (orderId: string) => {
-      // Optimistic removal
-      setCancellingIds((prev) => new Set(prev).add(orderId));
-      setOrders((prev) => prev.filter((o) => o.uuid !== orderId));
+    (orderId: string) => {
+      void cancelOrder(orderId);
+    },
+    [cancelOrder]
+  );
 
-      try {
-        await cancelTriggerOrder(rpcClient, orderId);
-        // Refetch to get updated state
-        void fetchOrders();
-      } catch {
-        // Revert optimistic removal on failure — refetch will restore
-        void fetchOrders();
-      } finally {
-        setCancellingIds((prev) => {
-          const next = new Set(prev);
-          next.delete(orderId);
-          return next;
-        });
-      }
+  const handleCancelLadder = useCallback(
+    (ladderOrders: TriggerOrder[]) => {
+      haptics.light();
+      ladderOrders
+        .filter((order) => order.status === "active")
+        .forEach((order) => void cancelOrder(order.uuid));
     },
-    [rpcClient, fetchOrders]
+    [cancelOrder]
+  );
+
+  const renderOrder = (order: TriggerOrder) => (
+    <OrderRow
+      key={order.uuid}
+      order={order}
+      tokenSymbol={getTokenSymbol?.(order.mint)}
+      tokenImageUri={getTokenImageUri?.(order.mint)}
+      onCancel={handleCancel}
+      isCancelling={cancellingIds.has(order.uuid)}
+      trailing={trailingByOrderId.get(order.uuid)}
+    />
   );
 
   // Handle filter change
   const handleFilterChange = useCallback((newFilter: OrdersFilter) => {
     haptics.selection();
     setFilter(newFilter);
-    setIsLoading(true);
   }, []);
 
   if (isLoading && orders.length === 0) {
@@ -164,16 +129,29 @@ export function OrdersTab({
           subtitle="Create a limit order from the trade panel."
         />
       ) : (
-        orders.map((order) => (
-          <OrderRow
-            key={order.uuid}
-            order={order}
-            tokenSymbol={getTokenSymbol?.(order.mint)}
-            tokenImageUri={getTokenImageUri?.(order.mint)}
-            onCancel={handleCancel}
-            isCancelling={cancellingIds.has(order.uuid)}
-          />
-        ))
+        groups.map((group) => {
+          if (!group.ladder) return group.orders.map(renderOrder);
+
+          const openCount = group.orders.filter((order) => order.status === "active").length;
+          return (
+            <View key={group.ladder.id} style={styles.ladderGroup}>
+              <View style={styles.ladderHeader}>
+                <Text style={styles.ladderTitle}>
+                  Exit Ladder
+                  {group.ladder.entryMarketCapUsd > 0
+                    ? ` · entry ${formatCompactUsd(group.ladder.entryMarketCapUsd)}`
+                    : ""}
+                </Text>
+                {openCount > 0 && (
+                  <Pressable hitSlop={6} onPress={() => handleCancelLadder(group.orders)}>
+                    <Text style={styles.ladderCancelText}>Cancel All</Text>
+                  </Pressable>
+                )}
+              </View>
+              {group.orders.map(renderOrder)}
+            </View>
+          );
+        })
       )}
     </View>
   );
@@ -213,6 +191,32 @@ const styles = StyleSheet.create({
   filterTextActive: {
     color: qsColors.textPrimary,
   },
+  ladderGroup: {
+    marginHorizontal: qsSpacing.sm,
+    marginBottom: qsSpacing.sm,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.md,
+    overflow: "hidden",
+  },
+  ladderHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: qsSpacing.md,
+    paddingVertical: qsSpacing.xs,
+    backgroundColor: qsColors.layer2,
+  },
+  ladderTitle: {
+    fontSize: 12,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  ladderCancelText: {
+    fontSize: 12,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.sellRed,
+  },
   errorText: {
     fontSize: 12,
     color: qsColors.sellRed,
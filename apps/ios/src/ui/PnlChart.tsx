@@ -3,7 +3,7 @@ import { StyleSheet, Text, View } from "react-native";
 import Svg, { Polyline, Line, Defs, LinearGradient, Stop, Rect } from "react-native-svg";
 
 import { formatSignedUsd } from "@/src/lib/format";
-import type { PnlDataPoint } from "@/src/features/portfolio/portfolioService";
+import type { PnlDataPoint } from "@quickscope/core/portfolio";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 
 type PnlChartProps = {
@@ -59,7 +59,7 @@ export function PnlChart({ data, width, height = CHART_HEIGHT }: PnlChartProps)
   return (
     <View style={[styles.container, { height: height + 32 }]}>
       <Text style={[styles.label, { color: lineColor }]}>
-        Cumulative P&L: {formatSignedUsd(finalPnl || undefined)}
+        Realized P&L: {formatSignedUsd(finalPnl || undefined)}
       </Text>
       <Svg width={width} height={height}>
         <Defs>
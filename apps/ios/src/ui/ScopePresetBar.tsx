@@ -0,0 +1,261 @@
+/**
+ * Saved filter presets for the active Scope tab: tap a chip to apply it,
+ * long-press to delete, and "Save" to name the current filters.
+ */
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { haptics } from "@/src/lib/haptics";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { Plus, X } from "@/src/ui/icons";
+import {
+  sanitizeScopeFilters,
+  type ScopeFilterPreset,
+  type ScopeFilters,
+} from "@quickscope/core/scope";
+
+function filtersKey(filters: ScopeFilters): string {
+  return JSON.stringify(sanitizeScopeFilters(filters));
+}
+
+type ScopePresetBarProps = {
+  /** Presets for the active tab */
+  presets: ScopeFilterPreset[];
+  currentFilters: ScopeFilters;
+  canSave: boolean;
+  onApply: (preset: ScopeFilterPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: ScopeFilterPreset) => void;
+};
+
+export function ScopePresetBar({
+  presets,
+  currentFilters,
+  canSave,
+  onApply,
+  onSave,
+  onDelete,
+}: ScopePresetBarProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const currentKey = useMemo(() => filtersKey(currentFilters), [currentFilters]);
+
+  if (presets.length === 0 && !canSave) {
+    return null;
+  }
+
+  const confirmDelete = (preset: ScopeFilterPreset) => {
+    haptics.light();
+    Alert.alert("Delete Preset", `Delete "${preset.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => onDelete(preset) },
+    ]);
+  };
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+      >
+        {presets.map((preset) => {
+          const active = filtersKey(preset.filters) === currentKey;
+          return (
+            <Pressable
+              key={preset.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => {
+                haptics.selection();
+                onApply(preset);
+              }}
+              onLongPress={() => confirmDelete(preset)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+                {preset.name}
+              </Text>
+            </Pressable>
+          );
+        })}
+        {canSave ? (
+          <Pressable
+            style={[styles.chip, styles.saveChip]}
+            onPress={() => {
+              haptics.light();
+              setIsNaming(true);
+            }}
+          >
+            <Plus size={12} color={qsColors.textSecondary} />
+            <Text style={styles.chipText}>Save filters</Text>
+          </Pressable>
+        ) : null}
+      </ScrollView>
+
+      <PresetNameModal
+        visible={isNaming}
+        onClose={() => setIsNaming(false)}
+        onSubmit={(name) => {
+          setIsNaming(false);
+          onSave(name);
+        }}
+      />
+    </>
+  );
+}
+
+// ── Name dialog ──
+
+function PresetNameModal({
+  visible,
+  onClose,
+  onSubmit,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (name: string) => void;
+}) {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (visible) setName("");
+  }, [visible]);
+
+  const canSubmit = name.trim().length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Save Filter Preset</Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={styles.body}>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Preset name"
+              placeholderTextColor={qsColors.textSubtle}
+              autoFocus
+              maxLength={32}
+              returnKeyType="done"
+              onSubmitEditing={() => canSubmit && onSubmit(name.trim())}
+            />
+            <Text style={styles.hint}>Presets sync to the desktop terminal when signed in.</Text>
+            <Pressable
+              style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+              disabled={!canSubmit}
+              onPress={() => onSubmit(name.trim())}
+            >
+              <Text style={styles.submitButtonText}>Save</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  row: {
+    gap: qsSpacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    maxWidth: 160,
+    borderRadius: qsRadius.sm,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    paddingVertical: 6,
+    paddingHorizontal: qsSpacing.md,
+  },
+  chipActive: {
+    borderColor: qsColors.accent,
+    backgroundColor: "rgba(119, 102, 247, 0.1)",
+  },
+  saveChip: {
+    borderStyle: "dashed",
+  },
+  chipText: {
+    color: qsColors.textSecondary,
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+  },
+  chipTextActive: {
+    color: qsColors.accent,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: qsSpacing.xxl,
+  },
+  sheet: {
+    backgroundColor: qsColors.layer1,
+    borderRadius: qsRadius.xl,
+    overflow: "hidden",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderDefault,
+  },
+  title: {
+    fontSize: qsTypography.size.md,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  body: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+  },
+  input: {
+    backgroundColor: qsColors.layer2,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+    fontSize: qsTypography.size.sm,
+    color: qsColors.textPrimary,
+  },
+  hint: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+  submitButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  submitButtonDisabled: {
+    opacity: 0.4,
+  },
+  submitButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+});
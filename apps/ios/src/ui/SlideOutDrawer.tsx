@@ -28,7 +28,7 @@ import { haptics } from "@/src/lib/haptics";
 import type { RpcClient } from "@/src/lib/api/rpcClient";
 import type { RootStack } from "@/src/navigation/types";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
-import { LogOut, Gift, X, Wallet, ArrowUpDown, User, Settings, ChevronDown, ChevronUp, Check } from "@/src/ui/icons";
+import { LogOut, Gift, X, Wallet, ArrowUpDown, User, Settings, ChevronDown, ChevronUp, Check, Layers, RefreshCw, Clock } from "@/src/ui/icons";
 
 const DRAWER_WIDTH = Dimensions.get("window").width * 0.8;
 const ANIMATION_DURATION = 250;
@@ -231,6 +231,24 @@ export function SlideOutDrawer({ visible, onClose, rpcClient }: Props) {
       subtitle: "Send SOL between wallets",
       onPress: () => navigateTo("Transfer"),
     },
+    {
+      icon: <RefreshCw size={20} color={qsColors.textSecondary} />,
+      label: "Swap",
+      subtitle: "Trade SOL, stables & any token",
+      onPress: () => navigateTo("Swap"),
+    },
+    {
+      icon: <Clock size={20} color={qsColors.textSecondary} />,
+      label: "DCA Plans",
+      subtitle: "Scheduled buys & sells",
+      onPress: () => navigateTo("DcaPlans"),
+    },
+    {
+      icon: <Layers size={20} color={qsColors.textSecondary} />,
+      label: "Wallets",
+      subtitle: "Create, import, export & archive",
+      onPress: () => navigateTo("Wallets"),
+    },
     {
       icon: <Settings size={20} color={qsColors.textSecondary} />,
       label: "Settings",
@@ -0,0 +1,336 @@
+/**
+ * TokenAlertSheet
+ *
+ * Bottom sheet for creating an above/below alert on a token's market cap,
+ * price or 1h change. Opened from the token detail header and from
+ * watchlist rows; existing alerts are managed from Settings.
+ */
+import React, { useCallback, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import SimpleBottomSheet, { type SimpleBottomSheetRef, SimpleBottomSheetView } from "@/src/ui/SimpleBottomSheet";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import {
+  TOKEN_ALERT_METRIC_OPTIONS,
+  createTokenAlert,
+  describeTokenAlertCondition,
+  formatTokenAlertValue,
+  validateTokenAlertCondition,
+  type TokenAlert,
+  type TokenAlertDirection,
+  type TokenAlertMetric,
+} from "@/src/features/alerts/tokenAlertService";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { X } from "@/src/ui/icons";
+
+// ── Types ──
+
+export type TokenAlertTarget = {
+  mint: string;
+  symbol: string;
+  marketCapUsd?: number;
+  priceUsd?: number;
+  oneHourChangePercent?: number;
+};
+
+type TokenAlertSheetProps = {
+  sheetRef: React.RefObject<SimpleBottomSheetRef | null>;
+  rpcClient: RpcClient;
+  /** Token the sheet creates alerts for — set before opening the sheet */
+  target: TokenAlertTarget | null;
+  onCreated?: (alert: TokenAlert) => void;
+};
+
+const DIRECTION_OPTIONS: { value: TokenAlertDirection; label: string }[] = [
+  { value: "above", label: "Above" },
+  { value: "below", label: "Below" },
+];
+
+function currentValueFor(target: TokenAlertTarget, metric: TokenAlertMetric): number | undefined {
+  switch (metric) {
+    case "market_cap":
+      return target.marketCapUsd;
+    case "price":
+      return target.priceUsd;
+    case "one_hour_change":
+      return target.oneHourChangePercent;
+  }
+}
+
+// ── Component ──
+
+export function TokenAlertSheet({ sheetRef, rpcClient, target, onCreated }: TokenAlertSheetProps) {
+  const [metric, setMetric] = useState<TokenAlertMetric>("market_cap");
+  const [direction, setDirection] = useState<TokenAlertDirection>("above");
+  const [valueText, setValueText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const snapPoints = useMemo(() => ["55%"], []);
+
+  const handleSheetChange = useCallback((index: number) => {
+    if (index >= 0) {
+      setMetric("market_cap");
+      setDirection("above");
+      setValueText("");
+    }
+  }, []);
+
+  const currentValue = target ? currentValueFor(target, metric) : undefined;
+  const condition = useMemo(
+    () => ({ metric, direction, value: Number(valueText.replace(/[,$%\s]/g, "")) }),
+    [metric, direction, valueText]
+  );
+  const hasValue = valueText.trim().length > 0;
+
+  const handleCreate = useCallback(async () => {
+    if (!target || isSubmitting) return;
+
+    const error = validateTokenAlertCondition(condition, currentValue);
+    if (error) {
+      haptics.light();
+      toast.warn("Alert", error);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const alert = await createTokenAlert(rpcClient, target.mint, condition);
+      haptics.success();
+      toast.success("Alert created", `${target.symbol} ${describeTokenAlertCondition(alert.condition)}`);
+      onCreated?.(alert);
+      sheetRef.current?.close();
+    } catch (err) {
+      toast.error("Alert", err instanceof Error ? err.message : "Failed to create alert");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [target, isSubmitting, condition, currentValue, rpcClient, onCreated, sheetRef]);
+
+  const unit = metric === "one_hour_change" ? "%" : "USD";
+
+  return (
+    <SimpleBottomSheet
+      ref={sheetRef}
+      snapPoints={snapPoints}
+      index={-1}
+      enablePanDownToClose
+      backgroundStyle={styles.sheetBackground}
+      handleIndicatorStyle={styles.handleIndicator}
+      onChange={handleSheetChange}
+    >
+      <SimpleBottomSheetView style={styles.content}>
+        {/* Header */}
+        <View style={styles.sheetHeader}>
+          <Text style={styles.sheetTitle} numberOfLines={1}>
+            {target ? `Alert · ${target.symbol}` : "Alert"}
+          </Text>
+          <Pressable onPress={() => sheetRef.current?.close()} hitSlop={8}>
+            <X size={20} color={qsColors.textSecondary} />
+          </Pressable>
+        </View>
+
+        {/* Metric */}
+        <Text style={styles.label}>When</Text>
+        <View style={styles.segmentedRow}>
+          {TOKEN_ALERT_METRIC_OPTIONS.map((option) => {
+            const active = option.value === metric;
+            return (
+              <Pressable
+                key={option.value}
+                style={[styles.segmentedItem, active && styles.segmentedItemActive]}
+                onPress={() => {
+                  haptics.selection();
+                  setMetric(option.value);
+                  setValueText("");
+                }}
+              >
+                <Text style={[styles.segmentedLabel, active && styles.segmentedLabelActive]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {/* Direction */}
+        <Text style={styles.label}>Goes</Text>
+        <View style={styles.segmentedRow}>
+          {DIRECTION_OPTIONS.map((option) => {
+            const active = option.value === direction;
+            const tint = option.value === "above" ? qsColors.buyGreen : qsColors.sellRed;
+            return (
+              <Pressable
+                key={option.value}
+                style={[
+                  styles.segmentedItem,
+                  active && { backgroundColor: qsColors.layer3, borderColor: tint },
+                ]}
+                onPress={() => {
+                  haptics.selection();
+                  setDirection(option.value);
+                }}
+              >
+                <Text style={[styles.segmentedLabel, active && { color: tint }]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {/* Threshold */}
+        <View style={styles.inputWrap}>
+          <TextInput
+            style={styles.input}
+            value={valueText}
+            onChangeText={setValueText}
+            placeholder="Threshold"
+            placeholderTextColor={qsColors.textSubtle}
+            keyboardType={metric === "one_hour_change" ? "numbers-and-punctuation" : "decimal-pad"}
+            returnKeyType="done"
+          />
+          <Text style={styles.inputUnit}>{unit}</Text>
+        </View>
+        <Text style={styles.hint}>
+          {currentValue !== undefined && Number.isFinite(currentValue)
+            ? `Now ${formatTokenAlertValue(metric, currentValue)}`
+            : " "}
+        </Text>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.createButton,
+            (!hasValue || isSubmitting) && styles.createButtonDisabled,
+            pressed && styles.createButtonPressed,
+          ]}
+          disabled={!hasValue || isSubmitting}
+          onPress={() => void handleCreate()}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color={qsColors.textPrimary} />
+          ) : (
+            <Text style={styles.createButtonText}>Create Alert</Text>
+          )}
+        </Pressable>
+      </SimpleBottomSheetView>
+    </SimpleBottomSheet>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  sheetBackground: {
+    backgroundColor: qsColors.layer1,
+    borderTopLeftRadius: qsRadius.lg,
+    borderTopRightRadius: qsRadius.lg,
+  },
+  handleIndicator: {
+    backgroundColor: qsColors.layer3,
+    width: 40,
+    height: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: qsSpacing.lg,
+    gap: qsSpacing.sm,
+  },
+
+  // Header
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingBottom: qsSpacing.sm,
+  },
+  sheetTitle: {
+    flex: 1,
+    fontSize: qsTypography.size.lg,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  label: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textTertiary,
+    textTransform: "uppercase",
+  },
+
+  // Segmented
+  segmentedRow: {
+    flexDirection: "row",
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    padding: 3,
+    gap: 3,
+  },
+  segmentedItem: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderRadius: qsRadius.sm,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  segmentedItemActive: {
+    backgroundColor: "rgba(119, 102, 247, 0.15)",
+    borderColor: qsColors.accent,
+  },
+  segmentedLabel: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textTertiary,
+  },
+  segmentedLabelActive: {
+    color: qsColors.accent,
+  },
+
+  // Threshold input
+  inputWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    paddingHorizontal: qsSpacing.md,
+    height: 44,
+    marginTop: qsSpacing.xs,
+  },
+  input: {
+    flex: 1,
+    color: qsColors.textPrimary,
+    fontSize: qsTypography.size.base,
+    fontVariant: ["tabular-nums"],
+    padding: 0,
+  },
+  inputUnit: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textTertiary,
+    marginLeft: qsSpacing.xs,
+  },
+  hint: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+  },
+
+  // Create
+  createButton: {
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.md,
+    paddingVertical: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: qsSpacing.sm,
+  },
+  createButtonDisabled: {
+    opacity: 0.5,
+  },
+  createButtonPressed: {
+    backgroundColor: qsColors.accentDeep,
+  },
+  createButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+});
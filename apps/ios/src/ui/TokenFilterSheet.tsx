@@ -16,7 +16,7 @@ import {
   EXCHANGES,
   LAUNCHPAD_LABELS,
   type ScopeFilters,
-} from "@/src/features/scope/scopeService";
+} from "@quickscope/core/scope";
 import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
 import { Check, RefreshCw, X } from "@/src/ui/icons";
 
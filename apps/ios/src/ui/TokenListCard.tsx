@@ -39,6 +39,8 @@ type TokenListCardProps = {
 
   // Callbacks
   onPress: () => void;
+  /** e.g. the hide-token action */
+  onLongPress?: () => void;
   onQuickTrade?: () => void;
   onToggleStar?: () => void;
   isStarred?: boolean;
@@ -62,6 +64,7 @@ function TokenListCardInner({
   websiteUrl,
   sparklineData,
   onPress,
+  onLongPress,
   onQuickTrade,
   onToggleStar,
   isStarred = false,
@@ -91,6 +94,7 @@ function TokenListCardInner({
         highlighted && styles.containerHighlighted,
       ]}
       onPress={onPress}
+      onLongPress={onLongPress}
     >
       {/* Row 1: Main Data */}
       <View style={styles.mainRow}>
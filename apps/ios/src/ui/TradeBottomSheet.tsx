@@ -6,6 +6,10 @@
  * - Market/Limit mode toggle
  * - Custom amount input with preset buttons
  * - Limit mode: trigger MC input, expiration pills, order type auto-detection
+ * - Optional TP/SL exit ladder on market/instant buys, placed once the buy lands
+ * - Limit sells can be a client-managed trailing stop (trail % below peak)
+ * - DCA mode: schedule the amount as equal slices on an interval, with
+ *   optional market cap guards and a catch-up policy for missed slices
  * - Configurable SOL preset buttons for buy
  * - Configurable percentage sell buttons
  * - Settings info row with profile pills, slippage, and gear icon
@@ -22,20 +26,36 @@ import { PresetButton } from "@/src/ui/PresetButton";
 import { ChevronDown, X, Settings, Zap } from "@/src/ui/icons";
 import { haptics } from "@/src/lib/haptics";
 import { formatSlippage } from "@/src/features/trade/tradeSettings";
+import {
+  DCA_INTERVAL_PRESETS,
+  type CreateDcaPlanParams,
+  type DcaCatchUpPolicy,
+} from "@/src/features/trade/dcaSchedule";
 import {
   DEFAULT_EXPIRATION_SECONDS,
+  DEFAULT_TRAIL_PERCENT,
+  DEFAULT_TRAIL_STEP_PERCENT,
   detectOrderType,
   calcTriggerPrice,
   orderTypeLabel,
+  validateExitLadder,
+  type ExitLadderLevel,
   type OrderType,
   type CreateTriggerOrderParams,
-} from "@/src/features/trade/triggerOrderService";
-import type { QuoteResult } from "@/src/features/trade/tradeQuoteService";
-import type { SwapExecutionResult } from "@/src/features/trade/tradeExecutionService";
+  type QuoteResult,
+  type SwapExecutionResult,
+} from "@quickscope/core/trade";
 import { isQuoteStale, getQuoteTtlSecondsRemaining } from "@/src/features/trade/quoteUtils";
 import { toast } from "@/src/lib/toast";
 import { SOL_MINT } from "@/src/lib/constants";
+import { LAMPORTS_PER_SOL } from "@/src/features/account/walletService";
 import { PriceDeviationSlider } from "@/src/ui/PriceDeviationSlider";
+import {
+  ExitLadderBuilder,
+  defaultExitLevelDrafts,
+  exitLevelsFromDrafts,
+  type ExitLevelDraft,
+} from "@/src/ui/ExitLadderBuilder";
 
 type ExecutionPhase =
   | "idle"
@@ -46,14 +66,17 @@ type ExecutionPhase =
   | "success"
   | "failed";
 
-type TradeMode = "market" | "limit" | "instant";
+type TradeMode = "market" | "limit" | "instant" | "dca";
 
 const MODE_LABELS: Record<TradeMode, string> = {
   market: "Market",
   limit: "Limit",
   instant: "Instant",
+  dca: "DCA",
 };
 
+const DEFAULT_DCA_SLICES = 5;
+
 type TradeBottomSheetProps = {
   tokenAddress: string;
   tokenSymbol: string;
@@ -71,6 +94,20 @@ type TradeBottomSheetProps = {
     orderType: "market";
   }) => void;
   onLimitOrderRequest?: (params: CreateTriggerOrderParams) => void;
+  /** Place a trailing stop (sell side, limit mode) */
+  onTrailingStopRequest?: (params: {
+    inputAmount: number;
+    trailPercent: number;
+    stepPercent: number;
+    expiresIn: number;
+  }) => void;
+  /** Schedule a DCA / TWAP plan; enables the DCA mode */
+  onDcaPlanRequest?: (
+    params: Pick<
+      CreateDcaPlanParams,
+      "side" | "totalAmount" | "sliceCount" | "intervalSeconds" | "maxMarketCapUsd" | "minMarketCapUsd" | "catchUp"
+    >
+  ) => void;
   onClose: () => void;
   onSettingsPress?: () => void;
   onProfilePress?: (index: 0 | 1 | 2) => void;
@@ -101,6 +138,8 @@ type TradeBottomSheetProps = {
     side: "buy" | "sell";
     /** For multi-wallet sells: percentage in bps (e.g. 5000 = 50%). Undefined for custom amounts. */
     sellPercentageBps?: number;
+    /** Exit ladder to place after a buy lands */
+    exitLevels?: ExitLadderLevel[];
   }) => Promise<SwapExecutionResult>;
 };
 
@@ -116,6 +155,8 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
       tokenSupply,
       onQuoteRequest,
       onLimitOrderRequest,
+      onTrailingStopRequest,
+      onDcaPlanRequest,
       onClose,
       onSettingsPress,
       onProfilePress,
@@ -147,6 +188,20 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
     const [deviationPercent, setDeviationPercent] = useState(0);
     const [expirationSeconds, setExpirationSeconds] = useState(DEFAULT_EXPIRATION_SECONDS);
     const [showConfirmation, setShowConfirmation] = useState(false);
+    const [trailingEnabled, setTrailingEnabled] = useState(false);
+    const [trailPercent, setTrailPercent] = useState(String(DEFAULT_TRAIL_PERCENT));
+    const [trailStepPercent, setTrailStepPercent] = useState(String(DEFAULT_TRAIL_STEP_PERCENT));
+
+    // DCA mode state
+    const [dcaSlices, setDcaSlices] = useState(String(DEFAULT_DCA_SLICES));
+    const [dcaIntervalSeconds, setDcaIntervalSeconds] = useState<number>(DCA_INTERVAL_PRESETS[1].seconds);
+    const [dcaMaxMC, setDcaMaxMC] = useState("");
+    const [dcaMinMC, setDcaMinMC] = useState("");
+    const [dcaCatchUp, setDcaCatchUp] = useState<DcaCatchUpPolicy>("shift");
+
+    // Exit ladder state (market/instant buys)
+    const [ladderEnabled, setLadderEnabled] = useState(false);
+    const [ladderDrafts, setLadderDrafts] = useState<ExitLevelDraft[]>(defaultExitLevelDrafts);
 
     // Execution state machine
     const [execPhase, setExecPhase] = useState<ExecutionPhase>("idle");
@@ -167,6 +222,7 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
       setTriggerMC("");
       setDeviationPercent(0);
       setShowConfirmation(false);
+      setTrailingEnabled(false);
       setExecPhase("idle");
       setQuoteResult(null);
       setExecResult(null);
@@ -239,6 +295,30 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
       return detectOrderType(activeTab, triggerMCNum, currentMarketCapUsd ?? 0);
     }, [tradeMode, activeTab, triggerMCNum, currentMarketCapUsd]);
 
+    // Trailing stop (limit sells only)
+    const trailingAvailable = tradeMode === "limit" && activeTab === "sell" && !!onTrailingStopRequest;
+    const trailingActive = trailingAvailable && trailingEnabled;
+    const trailPercentNum = parseFloat(trailPercent) || 0;
+    const trailStepNum = Math.max(0, parseFloat(trailStepPercent) || 0);
+
+    const handleTrailingToggle = useCallback(() => {
+      haptics.selection();
+      setTrailingEnabled((prev) => !prev);
+      setShowConfirmation(false);
+    }, []);
+
+    // DCA (scheduled slices)
+    const dcaSliceCount = parseInt(dcaSlices, 10) || 0;
+    const dcaMaxMCNum = parseFloat(dcaMaxMC) || 0;
+    const dcaMinMCNum = parseFloat(dcaMinMC) || 0;
+    const dcaIntervalLabel =
+      DCA_INTERVAL_PRESETS.find((preset) => preset.seconds === dcaIntervalSeconds)?.label ?? "";
+
+    const handleCatchUpSelect = useCallback((policy: DcaCatchUpPolicy) => {
+      haptics.selection();
+      setDcaCatchUp(policy);
+    }, []);
+
     const triggerPriceUSD = useMemo(() => {
       if (triggerMCNum <= 0 || !tokenSupply || tokenSupply <= 0) return 0;
       return calcTriggerPrice(triggerMCNum, tokenSupply);
@@ -250,20 +330,53 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
         return activeTab === "buy" ? "Instant Buy" : "Instant Sell";
       }
       if (tradeMode === "market") return "Get Quote";
+      if (tradeMode === "dca") {
+        return dcaSliceCount >= 2 ? `Start DCA · ${dcaSliceCount} × ${dcaIntervalLabel}` : "Enter Slices";
+      }
+      if (trailingActive) {
+        return trailPercentNum > 0 ? `Trailing Stop −${trailPercentNum}%` : "Enter Trail %";
+      }
       if (!detectedOrderType || triggerMCNum <= 0) return "Enter Target MC";
       const mcLabel = formatCompactMC(triggerMCNum);
       return `${orderTypeLabel(detectedOrderType)} at $${mcLabel}`;
-    }, [tradeMode, activeTab, detectedOrderType, triggerMCNum]);
+    }, [
+      tradeMode,
+      activeTab,
+      detectedOrderType,
+      triggerMCNum,
+      trailingActive,
+      trailPercentNum,
+      dcaSliceCount,
+      dcaIntervalLabel,
+    ]);
+
+    // Exit ladder applies to market/instant buys that can execute inline
+    const ladderAvailable =
+      activeTab === "buy" && (tradeMode === "market" || tradeMode === "instant") && !!onExecuteSwap;
+    const exitLevels = useMemo(
+      () => (ladderAvailable && ladderEnabled ? exitLevelsFromDrafts(ladderDrafts) : undefined),
+      [ladderAvailable, ladderEnabled, ladderDrafts],
+    );
+
+    const handleLadderToggle = useCallback(() => {
+      haptics.selection();
+      setLadderEnabled((prev) => !prev);
+    }, []);
 
     // Can submit?
     const canSubmit = useMemo(() => {
       if (amountNum <= 0) return false;
       if (tradeMode === "limit") {
-        if (triggerMCNum <= 0) return false;
+        if (trailingActive) {
+          if (trailPercentNum <= 0 || trailPercentNum >= 100) return false;
+        } else if (triggerMCNum <= 0) {
+          return false;
+        }
         if (!walletAddress) return false;
       }
+      if (tradeMode === "dca" && dcaSliceCount < 2) return false;
       return true;
-    }, [amountNum, tradeMode, triggerMCNum, walletAddress]);
+    }, [amountNum, tradeMode, triggerMCNum, walletAddress, trailingActive, trailPercentNum, dcaSliceCount]);
 
     // Handle main button press
     const handleActionPress = useCallback(async () => {
@@ -277,7 +390,7 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
 
       // Insufficient balance check
       if (activeTab === "buy" && walletBalance != null) {
-        const solNeeded = amountNum * 1e9;
+        const solNeeded = amountNum * LAMPORTS_PER_SOL;
         if (solNeeded > walletBalance) {
           toast.error("Insufficient SOL", "Not enough SOL for this trade.");
           return;
@@ -290,8 +403,37 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
         }
       }
 
+      // DCA mode — hand the schedule to the plan runner
+      if (tradeMode === "dca") {
+        const totalAmount =
+          activeTab === "buy"
+            ? Math.round(amountNum * LAMPORTS_PER_SOL)
+            : userBalance > 0
+              ? Math.round(Math.min(1, amountNum / userBalance) * 10_000)
+              : 0;
+        haptics.medium();
+        onDcaPlanRequest?.({
+          side: activeTab,
+          totalAmount,
+          sliceCount: dcaSliceCount,
+          intervalSeconds: dcaIntervalSeconds,
+          maxMarketCapUsd: dcaMaxMCNum > 0 ? dcaMaxMCNum : undefined,
+          minMarketCapUsd: dcaMinMCNum > 0 ? dcaMinMCNum : undefined,
+          catchUp: dcaCatchUp,
+        });
+        return;
+      }
+
       // Market / Instant mode — inline quote + execution flow
       if (tradeMode === "market" || tradeMode === "instant") {
+        if (exitLevels) {
+          const ladderError = validateExitLadder(exitLevels, currentMarketCapUsd ?? 0);
+          if (ladderError) {
+            toast.error("Check exit ladder", ladderError);
+            return;
+          }
+        }
+
         if (!onMarketQuoteRequest) {
           // Fallback to legacy navigation-based flow
           onQuoteRequest({ side: activeTab, amount: amountNum, orderType: "market" });
@@ -316,7 +458,12 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
               outputMint,
             });
             if (!quote) throw new Error("Quote unavailable");
-            const result = await onExecuteSwap({ quoteResult: quote, side: activeTab, sellPercentageBps: activeSellPercentageBps });
+            const result = await onExecuteSwap({
+              quoteResult: quote,
+              side: activeTab,
+              sellPercentageBps: activeSellPercentageBps,
+              exitLevels,
+            });
             if (result?.signature) {
               setExecResult(result);
               setExecPhase("success");
@@ -368,6 +515,17 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
         return;
       }
 
+      // Confirmed — submit trailing stop
+      if (trailingActive) {
+        onTrailingStopRequest?.({
+          inputAmount: amountNum,
+          trailPercent: trailPercentNum,
+          stepPercent: trailStepNum,
+          expiresIn: expirationSeconds,
+        });
+        return;
+      }
+
       // Confirmed — submit limit order
       if (!detectedOrderType || !walletAddress || !onLimitOrderRequest) return;
 
@@ -389,15 +547,28 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
       tradeMode,
       activeTab,
       amountNum,
+      userBalance,
+      onDcaPlanRequest,
+      dcaSliceCount,
+      dcaIntervalSeconds,
+      dcaMaxMCNum,
+      dcaMinMCNum,
+      dcaCatchUp,
       onQuoteRequest,
       onMarketQuoteRequest,
       onExecuteSwap,
+      exitLevels,
+      currentMarketCapUsd,
       tokenAddress,
       ref,
       showConfirmation,
       detectedOrderType,
       walletAddress,
       onLimitOrderRequest,
+      trailingActive,
+      onTrailingStopRequest,
+      trailPercentNum,
+      trailStepNum,
       tokenDecimals,
       triggerPriceUSD,
       expirationSeconds,
@@ -418,6 +589,7 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
           quoteResult,
           side: activeTab,
           sellPercentageBps: activeSellPercentageBps,
+          exitLevels,
         });
         if (result?.signature) {
           setExecResult(result ?? null);
@@ -433,7 +605,7 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
         setExecPhase("failed");
         haptics.error();
       }
-    }, [quoteResult, activeTab, onExecuteSwap, resetExecution]);
+    }, [quoteResult, activeTab, onExecuteSwap, exitLevels, resetExecution]);
 
     // Handle tab change
     const handleTabChange = useCallback((tab: "buy" | "sell") => {
@@ -473,10 +645,11 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
         useNativeDriver: true,
       }).start(() => setDropdownOpen(false));
 
-      // Auto-expand sheet for limit mode, compact for others
-      if (mode === "limit" && ref && typeof ref !== "function" && ref.current) {
+      // Auto-expand sheet for limit/DCA mode, compact for others
+      const expand = mode === "limit" || mode === "dca";
+      if (expand && ref && typeof ref !== "function" && ref.current) {
         ref.current.snapToIndex(1); // 85%
-      } else if (mode !== "limit" && ref && typeof ref !== "function" && ref.current) {
+      } else if (!expand && ref && typeof ref !== "function" && ref.current) {
         ref.current.snapToIndex(0); // 55%
       }
     }, [dropdownOpacity, ref]);
@@ -568,35 +741,37 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
 
                 {dropdownOpen && (
                   <Animated.View style={[styles.dropdownMenu, { opacity: dropdownOpacity }]}>
-                    {(["market", "limit", "instant"] as const).map((mode) => {
-                      const isActive = tradeMode === mode;
-                      return (
-                        <Pressable
-                          key={mode}
-                          onPress={() => handleModeSelect(mode)}
-                          style={({ pressed }) => [
-                            styles.dropdownItem,
-                            isActive && styles.dropdownItemActive,
-                            { opacity: pressed ? 0.7 : 1 },
-                          ]}
-                        >
-                          {mode === "instant" && (
-                            <Zap size={12} color={isActive ? qsColors.accent : qsColors.textTertiary} />
-                          )}
-                          <Text
-                            style={[
-                              styles.dropdownItemText,
-                              isActive && styles.dropdownItemTextActive,
+                    {(["market", "limit", "instant", "dca"] as const)
+                      .filter((mode) => mode !== "dca" || !!onDcaPlanRequest)
+                      .map((mode) => {
+                        const isActive = tradeMode === mode;
+                        return (
+                          <Pressable
+                            key={mode}
+                            onPress={() => handleModeSelect(mode)}
+                            style={({ pressed }) => [
+                              styles.dropdownItem,
+                              isActive && styles.dropdownItemActive,
+                              { opacity: pressed ? 0.7 : 1 },
                             ]}
                           >
-                            {MODE_LABELS[mode]}
-                          </Text>
-                          {mode === "limit" && (
-                            <Text style={styles.dropdownHint}>Expand</Text>
-                          )}
-                        </Pressable>
-                      );
-                    })}
+                            {mode === "instant" && (
+                              <Zap size={12} color={isActive ? qsColors.accent : qsColors.textTertiary} />
+                            )}
+                            <Text
+                              style={[
+                                styles.dropdownItemText,
+                                isActive && styles.dropdownItemTextActive,
+                              ]}
+                            >
+                              {MODE_LABELS[mode]}
+                            </Text>
+                            {(mode === "limit" || mode === "dca") && (
+                              <Text style={styles.dropdownHint}>Expand</Text>
+                            )}
+                          </Pressable>
+                        );
+                      })}
                   </Animated.View>
                 )}
               </View>
@@ -693,6 +868,14 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
                   {quoteTtl}s
                 </Text>
               </View>
+              {exitLevels && (
+                <View style={styles.quoteSummaryRow}>
+                  <Text style={styles.quoteLabel}>Exit ladder</Text>
+                  <Text style={styles.quoteValue}>
+                    {exitLevels.length} {exitLevels.length === 1 ? "level" : "levels"}
+                  </Text>
+                </View>
+              )}
               <Pressable
                 style={[
                   styles.confirmButton,
@@ -758,7 +941,7 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
             </Text>
             <Text style={styles.balanceValue}>
               {activeTab === "buy"
-                ? walletBalance != null ? (walletBalance / 1e9).toFixed(4) : "—"
+                ? walletBalance != null ? (walletBalance / LAMPORTS_PER_SOL).toFixed(4) : "—"
                 : userBalance != null ? userBalance.toFixed(6) : "—"}
             </Text>
           </View>
@@ -798,11 +981,71 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
                 ))}
           </View>
 
+          {/* ── TP/SL Exit Ladder ── */}
+          {ladderAvailable && (
+            <View style={styles.ladderSection}>
+              <Pressable onPress={handleLadderToggle} style={styles.optionHeader}>
+                <Text style={styles.optionTitle}>TP/SL Ladder</Text>
+                <View style={[styles.optionToggle, ladderEnabled && styles.optionToggleOn]}>
+                  <Text style={[styles.optionToggleText, ladderEnabled && styles.optionToggleTextOn]}>
+                    {ladderEnabled ? "On" : "Off"}
+                  </Text>
+                </View>
+              </Pressable>
+              {ladderEnabled && (
+                <ExitLadderBuilder
+                  drafts={ladderDrafts}
+                  onChange={setLadderDrafts}
+                  entryMarketCapUsd={currentMarketCapUsd}
+                />
+              )}
+            </View>
+          )}
+
           {/* ── Limit Mode Fields ── */}
           {tradeMode === "limit" && (
             <View style={styles.limitSection}>
+              {/* Trailing stop toggle + trail/step inputs */}
+              {trailingAvailable && (
+                <Pressable onPress={handleTrailingToggle} style={[styles.optionHeader, styles.trailingHeader]}>
+                  <Text style={styles.optionTitle}>Trailing Stop</Text>
+                  <View style={[styles.optionToggle, trailingEnabled && styles.optionToggleOn]}>
+                    <Text style={[styles.optionToggleText, trailingEnabled && styles.optionToggleTextOn]}>
+                      {trailingEnabled ? "On" : "Off"}
+                    </Text>
+                  </View>
+                </Pressable>
+              )}
+              {trailingActive && (
+                <View style={styles.trailingRow}>
+                  <View style={styles.trailingField}>
+                    <Text style={styles.limitLabel}>Trail below peak (%)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={trailPercent}
+                      onChangeText={setTrailPercent}
+                      keyboardType="numeric"
+                      placeholderTextColor={qsColors.textMuted}
+                    />
+                  </View>
+                  <View style={styles.trailingField}>
+                    <Text style={styles.limitLabel}>Re-price step (%)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={trailStepPercent}
+                      onChangeText={setTrailStepPercent}
+                      keyboardType="numeric"
+                      placeholderTextColor={qsColors.textMuted}
+                    />
+                  </View>
+                </View>
+              )}
+              {trailingActive && (
+                <Text style={styles.trailingHint}>The stop follows new highs while the app is open.</Text>
+              )}
+
               {/* Price Deviation Slider */}
-              {currentMarketCapUsd != null && currentMarketCapUsd > 0 && (
+              {!trailingActive && currentMarketCapUsd != null && currentMarketCapUsd > 0 && (
                 <PriceDeviationSlider
                   currentMC={currentMarketCapUsd}
                   deviationPercent={deviationPercent}
@@ -814,13 +1057,110 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
             </View>
           )}
 
+          {/* ── DCA Mode Fields ── */}
+          {tradeMode === "dca" && (
+            <View style={styles.limitSection}>
+              <View style={styles.trailingRow}>
+                <View style={styles.trailingField}>
+                  <Text style={styles.limitLabel}>Slices</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={dcaSlices}
+                    onChangeText={setDcaSlices}
+                    keyboardType="number-pad"
+                    placeholderTextColor={qsColors.textMuted}
+                  />
+                </View>
+                <View style={styles.trailingField}>
+                  <Text style={styles.limitLabel}>Every</Text>
+                  <View style={styles.dcaPills}>
+                    {DCA_INTERVAL_PRESETS.map((preset) => (
+                      <Pressable
+                        key={preset.seconds}
+                        onPress={() => {
+                          haptics.selection();
+                          setDcaIntervalSeconds(preset.seconds);
+                        }}
+                        style={[
+                          styles.profilePill,
+                          dcaIntervalSeconds === preset.seconds && styles.profilePillActive,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.profilePillText,
+                            dcaIntervalSeconds === preset.seconds && styles.profilePillTextActive,
+                          ]}
+                        >
+                          {preset.label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              </View>
+              <View style={styles.trailingRow}>
+                <View style={styles.trailingField}>
+                  <Text style={styles.limitLabel}>Pause above MC ($)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={dcaMaxMC}
+                    onChangeText={setDcaMaxMC}
+                    keyboardType="numeric"
+                    placeholder="Optional"
+                    placeholderTextColor={qsColors.textMuted}
+                  />
+                </View>
+                <View style={styles.trailingField}>
+                  <Text style={styles.limitLabel}>Pause below MC ($)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={dcaMinMC}
+                    onChangeText={setDcaMinMC}
+                    keyboardType="numeric"
+                    placeholder="Optional"
+                    placeholderTextColor={qsColors.textMuted}
+                  />
+                </View>
+              </View>
+              <View style={[styles.optionHeader, styles.trailingHeader]}>
+                <Text style={styles.optionTitle}>Missed slices</Text>
+                <View style={styles.dcaPills}>
+                  {(["shift", "skip"] as const).map((policy) => (
+                    <Pressable
+                      key={policy}
+                      onPress={() => handleCatchUpSelect(policy)}
+                      style={[styles.profilePill, dcaCatchUp === policy && styles.profilePillActive]}
+                    >
+                      <Text
+                        style={[
+                          styles.profilePillText,
+                          dcaCatchUp === policy && styles.profilePillTextActive,
+                        ]}
+                      >
+                        {policy === "shift" ? "Shift" : "Skip"}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <Text style={styles.trailingHint}>
+                {dcaCatchUp === "shift"
+                  ? "Slices missed while the app is closed run one at a time on return, finishing later."
+                  : "Slices missed while the app is closed are skipped; the plan keeps its end time."}
+              </Text>
+            </View>
+          )}
+
           {/* Inline Confirmation (limit mode only) */}
-          {showConfirmation && tradeMode === "limit" && detectedOrderType && (
+          {showConfirmation && tradeMode === "limit" && (detectedOrderType || trailingActive) && (
             <View style={styles.confirmationBox}>
               <Text style={styles.confirmTitle}>Confirm Order</Text>
               <View style={styles.confirmRow}>
                 <Text style={styles.confirmLabel}>Type</Text>
-                <Text style={styles.confirmValue}>{orderTypeLabel(detectedOrderType)}</Text>
+                <Text style={styles.confirmValue}>
+                  {trailingActive || !detectedOrderType ? "Trailing Stop" : orderTypeLabel(detectedOrderType)}
+                </Text>
               </View>
               <View style={styles.confirmRow}>
                 <Text style={styles.confirmLabel}>Amount</Text>
@@ -828,11 +1168,24 @@ export const TradeBottomSheet = forwardRef<SimpleBottomSheetRef, TradeBottomShee
                   {amountNum} {activeTab === "buy" ? "SOL" : tokenSymbol}
                 </Text>
               </View>
-              <View style={styles.confirmRow}>
-                <Text style={styles.confirmLabel}>Trigger MC</Text>
-                <Text style={styles.confirmValue}>${formatCompactMC(triggerMCNum)}</Text>
-              </View>
-              {triggerPriceUSD > 0 && (
+              {trailingActive ? (
+                <>
+                  <View style={styles.confirmRow}>
+                    <Text style={styles.confirmLabel}>Trail</Text>
+                    <Text style={styles.confirmValue}>{trailPercentNum}% below peak</Text>
+                  </View>
+                  <View style={styles.confirmRow}>
+                    <Text style={styles.confirmLabel}>Re-price step</Text>
+                    <Text style={styles.confirmValue}>{trailStepNum}%</Text>
+                  </View>
+                </>
+              ) : (
+                <View style={styles.confirmRow}>
+                  <Text style={styles.confirmLabel}>Trigger MC</Text>
+                  <Text style={styles.confirmValue}>${formatCompactMC(triggerMCNum)}</Text>
+                </View>
+              )}
+              {!trailingActive && triggerPriceUSD > 0 && (
                 <View style={styles.confirmRow}>
                   <Text style={styles.confirmLabel}>Trigger Price</Text>
                   <Text style={styles.confirmValue}>${triggerPriceUSD.toFixed(10)}</Text>
@@ -1132,9 +1485,61 @@ const styles = StyleSheet.create({
   },
 
   /* ── Limit mode fields ── */
+  ladderSection: {
+    marginBottom: qsSpacing.md,
+    gap: qsSpacing.sm,
+  },
+  optionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  optionTitle: {
+    fontSize: 13,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textSecondary,
+  },
+  optionToggle: {
+    paddingHorizontal: qsSpacing.sm,
+    paddingVertical: 2,
+    borderRadius: qsRadius.pill,
+    backgroundColor: qsColors.layer2,
+  },
+  optionToggleOn: {
+    backgroundColor: qsColors.buyGreenBg,
+  },
+  optionToggleText: {
+    fontSize: 11,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textTertiary,
+  },
+  optionToggleTextOn: {
+    color: qsColors.buyGreen,
+  },
   limitSection: {
     marginBottom: qsSpacing.sm,
   },
+  trailingHeader: {
+    marginBottom: qsSpacing.sm,
+  },
+  trailingRow: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+    marginBottom: qsSpacing.sm,
+  },
+  trailingField: {
+    flex: 1,
+  },
+  trailingHint: {
+    fontSize: 11,
+    color: qsColors.textTertiary,
+    marginBottom: qsSpacing.sm,
+  },
+  dcaPills: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: qsSpacing.xs,
+  },
   limitLabel: {
     fontSize: 13,
     fontWeight: qsTypography.weight.semi,
@@ -0,0 +1,282 @@
+/**
+ * TradeExportSheet
+ *
+ * Bottom sheet for exporting trade history as a tax CSV or JSON file. Picks a
+ * date range, format and wallet scope, then opens the iOS share sheet with
+ * the written file. Opened from the Portfolio history tab.
+ */
+import React, { useCallback, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import SimpleBottomSheet, { type SimpleBottomSheetRef, SimpleBottomSheetView } from "@/src/ui/SimpleBottomSheet";
+
+import type { RpcClient } from "@/src/lib/api/rpcClient";
+import { haptics } from "@/src/lib/haptics";
+import { toast } from "@/src/lib/toast";
+import {
+  TRADE_EXPORT_RANGES,
+  exportTradeHistory,
+  resolveTradeExportRange,
+  shareTradeExport,
+  type TradeExportRangeId,
+} from "@/src/features/portfolio/tradeExportService";
+import type { TaxExportFormat } from "@quickscope/core/portfolio";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { X } from "@/src/ui/icons";
+
+// ── Types ──
+
+type WalletScope = "current" | "all";
+
+type TradeExportSheetProps = {
+  sheetRef: React.RefObject<SimpleBottomSheetRef | null>;
+  rpcClient: RpcClient;
+  walletAddress: string | null;
+  /** Every wallet on the account — offers an "All wallets" scope when there is more than one */
+  allWalletAddresses?: string[];
+};
+
+const FORMAT_OPTIONS: { value: TaxExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+];
+
+const SCOPE_OPTIONS: { value: WalletScope; label: string }[] = [
+  { value: "current", label: "This wallet" },
+  { value: "all", label: "All wallets" },
+];
+
+// ── Component ──
+
+export function TradeExportSheet({
+  sheetRef,
+  rpcClient,
+  walletAddress,
+  allWalletAddresses = [],
+}: TradeExportSheetProps) {
+  const [rangeId, setRangeId] = useState<TradeExportRangeId>("ytd");
+  const [format, setFormat] = useState<TaxExportFormat>("csv");
+  const [scope, setScope] = useState<WalletScope>("current");
+  const [isExporting, setIsExporting] = useState(false);
+  const snapPoints = useMemo(() => ["50%"], []);
+
+  const showScope = allWalletAddresses.length > 1;
+  const wallets = useMemo(() => {
+    if (scope === "all" && showScope) return allWalletAddresses;
+    return walletAddress ? [walletAddress] : [];
+  }, [scope, showScope, allWalletAddresses, walletAddress]);
+
+  const handleExport = useCallback(async () => {
+    if (isExporting || wallets.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const result = await exportTradeHistory(
+        rpcClient,
+        { wallets, ...resolveTradeExportRange(rangeId) },
+        format
+      );
+      if (result.recordCount === 0) {
+        toast.info("Export", "No trades in this range.");
+        return;
+      }
+      if (result.truncated) {
+        toast.warn("Export", "History is very long — cost basis for the oldest trades may be missing.");
+      }
+      if (result.missingUsdPriceCount > 0) {
+        const count = result.missingUsdPriceCount;
+        toast.warn(
+          "Export",
+          `${count} trade${count === 1 ? " has" : "s have"} no SOL price — USD values are left blank and noted.`
+        );
+      }
+
+      haptics.success();
+      if (await shareTradeExport(result.fileUri)) sheetRef.current?.close();
+    } catch (err) {
+      toast.error("Export failed", err instanceof Error ? err.message : "Could not export trades");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [isExporting, wallets, rpcClient, rangeId, format, sheetRef]);
+
+  function renderSegments<T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) {
+    return (
+      <View style={styles.segmentedRow}>
+        {options.map((option) => {
+          const active = option.value === selected;
+          return (
+            <Pressable
+              key={option.value}
+              style={[styles.segmentedItem, active && styles.segmentedItemActive]}
+              onPress={() => {
+                haptics.selection();
+                onSelect(option.value);
+              }}
+            >
+              <Text style={[styles.segmentedLabel, active && styles.segmentedLabelActive]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  }
+
+  return (
+    <SimpleBottomSheet
+      ref={sheetRef}
+      snapPoints={snapPoints}
+      index={-1}
+      enablePanDownToClose
+      backgroundStyle={styles.sheetBackground}
+      handleIndicatorStyle={styles.handleIndicator}
+    >
+      <SimpleBottomSheetView style={styles.content}>
+        {/* Header */}
+        <View style={styles.sheetHeader}>
+          <Text style={styles.sheetTitle}>Export Trades</Text>
+          <Pressable onPress={() => sheetRef.current?.close()} hitSlop={8}>
+            <X size={20} color={qsColors.textSecondary} />
+          </Pressable>
+        </View>
+
+        <Text style={styles.label}>Range</Text>
+        {renderSegments(
+          TRADE_EXPORT_RANGES.map((r) => ({ value: r.id, label: r.label })),
+          rangeId,
+          setRangeId
+        )}
+
+        <Text style={styles.label}>Format</Text>
+        {renderSegments(FORMAT_OPTIONS, format, setFormat)}
+
+        {showScope ? (
+          <>
+            <Text style={styles.label}>Wallets</Text>
+            {renderSegments(SCOPE_OPTIONS, scope, setScope)}
+          </>
+        ) : null}
+
+        <Text style={styles.hint}>
+          Date, type, asset, quantity, proceeds, FIFO cost basis, fee and tx hash, in USD at trade time.
+        </Text>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.exportButton,
+            (wallets.length === 0 || isExporting) && styles.exportButtonDisabled,
+            pressed && styles.exportButtonPressed,
+          ]}
+          disabled={wallets.length === 0 || isExporting}
+          onPress={() => void handleExport()}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={qsColors.textPrimary} />
+          ) : (
+            <Text style={styles.exportButtonText}>Export & Share</Text>
+          )}
+        </Pressable>
+      </SimpleBottomSheetView>
+    </SimpleBottomSheet>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  sheetBackground: {
+    backgroundColor: qsColors.layer1,
+    borderTopLeftRadius: qsRadius.lg,
+    borderTopRightRadius: qsRadius.lg,
+  },
+  handleIndicator: {
+    backgroundColor: qsColors.layer3,
+    width: 40,
+    height: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: qsSpacing.lg,
+    gap: qsSpacing.sm,
+  },
+
+  // Header
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingBottom: qsSpacing.sm,
+  },
+  sheetTitle: {
+    flex: 1,
+    fontSize: qsTypography.size.lg,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  label: {
+    fontSize: qsTypography.size.xxs,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textTertiary,
+    textTransform: "uppercase",
+  },
+
+  // Segmented
+  segmentedRow: {
+    flexDirection: "row",
+    backgroundColor: qsColors.layer2,
+    borderRadius: qsRadius.md,
+    padding: 3,
+    gap: 3,
+  },
+  segmentedItem: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderRadius: qsRadius.sm,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  segmentedItemActive: {
+    backgroundColor: "rgba(119, 102, 247, 0.15)",
+    borderColor: qsColors.accent,
+  },
+  segmentedLabel: {
+    fontSize: qsTypography.size.xs,
+    fontWeight: qsTypography.weight.medium,
+    color: qsColors.textTertiary,
+  },
+  segmentedLabelActive: {
+    color: qsColors.accent,
+  },
+  hint: {
+    fontSize: qsTypography.size.xxs,
+    color: qsColors.textTertiary,
+    marginTop: qsSpacing.xs,
+  },
+
+  // Export
+  exportButton: {
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.md,
+    paddingVertical: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: qsSpacing.sm,
+  },
+  exportButtonDisabled: {
+    opacity: 0.5,
+  },
+  exportButtonPressed: {
+    backgroundColor: qsColors.accentDeep,
+  },
+  exportButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.textPrimary,
+  },
+});
@@ -0,0 +1,383 @@
+/**
+ * Dialogs for the Tracking list-management mode: create or edit a list's name
+ * and description, edit a tracked wallet's label, and bulk-import pasted
+ * wallet addresses.
+ */
+import { useEffect, useMemo, useState } from "react";
+
+import { ActivityIndicator, Modal, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { TrackedWallet } from "@/src/features/tracking/trackingService";
+import { parseWalletImport } from "@/src/features/tracking/watchlistEditing";
+import { qsColors, qsRadius, qsSpacing, qsTypography } from "@/src/theme/tokens";
+import { X } from "@/src/ui/icons";
+
+// ── Types ──
+
+export type WatchlistDetailsDialog = {
+  mode: "create" | "edit";
+  kind: "token" | "wallet";
+  name?: string;
+  description?: string;
+};
+
+export type TrackedWalletDraft = {
+  name: string;
+  emoji: string;
+  description: string;
+};
+
+const DEFAULT_WALLET_EMOJI = "👀";
+
+// ── Shared chrome ──
+
+function DialogFrame({
+  visible,
+  title,
+  onClose,
+  children,
+}: {
+  visible: boolean;
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {title}
+            </Text>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <X size={20} color={qsColors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={styles.body}>{children}</View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function SubmitButton({
+  label,
+  disabled,
+  isSubmitting,
+  onPress,
+}: {
+  label: string;
+  disabled: boolean;
+  isSubmitting: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      style={[styles.submitButton, (disabled || isSubmitting) && styles.submitButtonDisabled]}
+      disabled={disabled || isSubmitting}
+      onPress={onPress}
+    >
+      {isSubmitting ? (
+        <ActivityIndicator color={qsColors.textPrimary} />
+      ) : (
+        <Text style={styles.submitButtonText}>{label}</Text>
+      )}
+    </Pressable>
+  );
+}
+
+// ── List name / description ──
+
+export function WatchlistDetailsModal({
+  dialog,
+  isSubmitting,
+  onSubmit,
+  onClose,
+}: {
+  dialog: WatchlistDetailsDialog | null;
+  isSubmitting: boolean;
+  onSubmit: (name: string, description: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (dialog) {
+      setName(dialog.name ?? "");
+      setDescription(dialog.description ?? "");
+    }
+  }, [dialog]);
+
+  const canSubmit = name.trim().length > 0;
+  const noun = dialog?.kind === "token" ? "Token List" : "Wallet List";
+
+  return (
+    <DialogFrame
+      visible={dialog !== null}
+      title={dialog?.mode === "edit" ? `Edit ${noun}` : `New ${noun}`}
+      onClose={onClose}
+    >
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="List name"
+        placeholderTextColor={qsColors.textSubtle}
+        autoFocus
+        returnKeyType="next"
+      />
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Description (optional)"
+        placeholderTextColor={qsColors.textSubtle}
+        multiline
+      />
+      <SubmitButton
+        label={dialog?.mode === "edit" ? "Save" : "Create"}
+        disabled={!canSubmit}
+        isSubmitting={isSubmitting}
+        onPress={() => onSubmit(name.trim(), description.trim())}
+      />
+    </DialogFrame>
+  );
+}
+
+// ── Tracked wallet label ──
+
+export function TrackedWalletModal({
+  wallet,
+  isSubmitting,
+  onSubmit,
+  onRemove,
+  onClose,
+}: {
+  wallet: TrackedWallet | null;
+  isSubmitting: boolean;
+  onSubmit: (draft: TrackedWalletDraft) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<TrackedWalletDraft>({ name: "", emoji: "", description: "" });
+
+  useEffect(() => {
+    if (wallet) {
+      setDraft({
+        name: wallet.name ?? "",
+        emoji: wallet.emoji ?? "",
+        description: wallet.description ?? "",
+      });
+    }
+  }, [wallet]);
+
+  const canSubmit = draft.name.trim().length > 0;
+
+  return (
+    <DialogFrame visible={wallet !== null} title="Edit Wallet" onClose={onClose}>
+      <View style={styles.inlineRow}>
+        <TextInput
+          style={[styles.input, styles.emojiInput]}
+          value={draft.emoji}
+          onChangeText={(emoji) => setDraft((prev) => ({ ...prev, emoji }))}
+          placeholder={DEFAULT_WALLET_EMOJI}
+          placeholderTextColor={qsColors.textSubtle}
+          maxLength={4}
+        />
+        <TextInput
+          style={[styles.input, styles.flex]}
+          value={draft.name}
+          onChangeText={(name) => setDraft((prev) => ({ ...prev, name }))}
+          placeholder="Wallet name"
+          placeholderTextColor={qsColors.textSubtle}
+          autoFocus
+        />
+      </View>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={draft.description}
+        onChangeText={(description) => setDraft((prev) => ({ ...prev, description }))}
+        placeholder="Notes (optional)"
+        placeholderTextColor={qsColors.textSubtle}
+        multiline
+      />
+      <SubmitButton
+        label="Save"
+        disabled={!canSubmit}
+        isSubmitting={isSubmitting}
+        onPress={() =>
+          onSubmit({
+            name: draft.name.trim(),
+            emoji: draft.emoji.trim() || DEFAULT_WALLET_EMOJI,
+            description: draft.description.trim(),
+          })
+        }
+      />
+      <Pressable style={styles.secondaryButton} disabled={isSubmitting} onPress={onRemove}>
+        <Text style={styles.destructiveText}>Remove from list</Text>
+      </Pressable>
+    </DialogFrame>
+  );
+}
+
+// ── Bulk import ──
+
+export function WalletImportModal({
+  visible,
+  existing,
+  isSubmitting,
+  onSubmit,
+  onClose,
+}: {
+  visible: boolean;
+  /** Addresses already in the target list — counted as duplicates */
+  existing: string[];
+  isSubmitting: boolean;
+  onSubmit: (addresses: string[]) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    if (!visible) setText("");
+  }, [visible]);
+
+  const parsed = useMemo(() => parseWalletImport(text, existing), [text, existing]);
+  const count = parsed.valid.length;
+
+  return (
+    <DialogFrame visible={visible} title="Import Wallets" onClose={onClose}>
+      <TextInput
+        style={[styles.input, styles.importInput]}
+        value={text}
+        onChangeText={setText}
+        placeholder="Paste wallet addresses, one per line"
+        placeholderTextColor={qsColors.textSubtle}
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        textAlignVertical="top"
+      />
+      {text.trim() ? (
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>
+            {count} new wallet{count === 1 ? "" : "s"}
+            {parsed.duplicates.length > 0 ? ` · ${parsed.duplicates.length} already tracked` : ""}
+          </Text>
+          {parsed.invalid.length > 0 ? (
+            <Text style={styles.warningText} numberOfLines={2}>
+              {parsed.invalid.length} invalid: {parsed.invalid.join(", ")}
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+      <SubmitButton
+        label={count > 0 ? `Add ${count} wallet${count === 1 ? "" : "s"}` : "Add wallets"}
+        disabled={count === 0}
+        isSubmitting={isSubmitting}
+        onPress={() => onSubmit(parsed.valid)}
+      />
+    </DialogFrame>
+  );
+}
+
+// ── Styles ──
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: qsSpacing.xxl,
+  },
+  sheet: {
+    backgroundColor: qsColors.layer1,
+    borderRadius: qsRadius.xl,
+    overflow: "hidden",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: qsSpacing.sm,
+    padding: qsSpacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: qsColors.borderDefault,
+  },
+  title: {
+    flex: 1,
+    fontSize: qsTypography.size.md,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  body: {
+    padding: qsSpacing.lg,
+    gap: qsSpacing.md,
+  },
+  inlineRow: {
+    flexDirection: "row",
+    gap: qsSpacing.sm,
+  },
+  input: {
+    backgroundColor: qsColors.layer2,
+    borderWidth: 1,
+    borderColor: qsColors.borderDefault,
+    borderRadius: qsRadius.lg,
+    paddingVertical: 12,
+    paddingHorizontal: qsSpacing.md,
+    fontSize: qsTypography.size.sm,
+    color: qsColors.textPrimary,
+  },
+  emojiInput: {
+    width: 56,
+    textAlign: "center",
+  },
+  multilineInput: {
+    minHeight: 72,
+  },
+  importInput: {
+    minHeight: 160,
+    fontVariant: ["tabular-nums"],
+  },
+  summary: {
+    gap: 2,
+  },
+  summaryText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.textSecondary,
+  },
+  warningText: {
+    fontSize: qsTypography.size.xs,
+    color: qsColors.warning,
+  },
+  submitButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    backgroundColor: qsColors.accent,
+    borderRadius: qsRadius.lg,
+  },
+  submitButtonDisabled: {
+    opacity: 0.4,
+  },
+  submitButtonText: {
+    fontSize: qsTypography.size.base,
+    fontWeight: qsTypography.weight.bold,
+    color: qsColors.textPrimary,
+  },
+  secondaryButton: {
+    alignItems: "center",
+    paddingVertical: qsSpacing.sm,
+  },
+  destructiveText: {
+    fontSize: qsTypography.size.sm,
+    fontWeight: qsTypography.weight.semi,
+    color: qsColors.sellRed,
+  },
+});
@@ -29,11 +29,13 @@ export {
   Plus,
   Minus,
   Trash2,
+  Pencil,
   RefreshCw,
   ExternalLink,
   Share2,
   // Status
   Star,
+  Bell,
   Eye,
   EyeOff,
   AlertCircle,
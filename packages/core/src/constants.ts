@@ -0,0 +1,2 @@
+/** Native SOL mint address on Solana. */
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
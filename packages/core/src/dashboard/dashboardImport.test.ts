@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { SCOPE_PRESETS_DASHBOARD_SLOT } from "../scope";
+import { sortWatchlistTokens, type EnrichedWatchlistToken } from "../watchlist";
+
+import { importDashboards } from "./dashboardImport";
+
+describe("importDashboards", () => {
+  it("maps a memescope table onto tab filters and sort", () => {
+    const result = importDashboards([
+      {
+        slot: 0,
+        name: "Main",
+        widgets: [
+          {
+            type: "memescope",
+            config: {
+              column: "final_stretch",
+              filter: {
+                sort_column: "holder_count",
+                sort_order: false,
+                numeric_filters: [
+                  { column: "market_cap_sol", min: 50, max: 400 },
+                  { column: "mint_ts", min: 1_770_000_000 },
+                  { column: "sniper_holders", max: 3 },
+                ],
+                string_filters: [
+                  { column: "exchange", values: ["p"] },
+                  { column: "status", values: ["Not Bonded"] },
+                  { column: "has_twitter", values: ["true"] },
+                ],
+              },
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(result.scopeFilters).toEqual({
+      graduating: { minMarketCapSol: 50, maxMarketCapSol: 400, hasTwitter: true, exchanges: ["p"] },
+    });
+    expect(result.scopeSort).toEqual({ graduating: { column: "holder_count", descending: true } });
+    expect(result.imported.map((e) => e.setting)).toEqual([
+      "market_cap_sol filter",
+      "exchange filter",
+      "has_twitter filter",
+      "sort by holder_count",
+    ]);
+    expect(result.skipped).toEqual([
+      {
+        dashboard: "Main",
+        widget: "memescope",
+        setting: "mint_ts filter",
+        reason: "Fixed time windows don't carry over",
+      },
+      {
+        dashboard: "Main",
+        widget: "memescope",
+        setting: "sniper_holders filter",
+        reason: "Not available on mobile",
+      },
+    ]);
+  });
+
+  it("infers the tab from the status filter and keeps the first widget per tab", () => {
+    const bonded = { string_filters: [{ column: "status", values: ["Bonded"] }] };
+    const result = importDashboards([
+      {
+        slot: 1,
+        widgets: [
+          { type: "pulse", config: { filter: { ...bonded, sort_column: "mint_ts" } } },
+          { type: "pulse", config: { filter: { ...bonded, sort_column: "one_hour_change" } } },
+          { type: "pulse", config: { tab: "trending" } },
+        ],
+      },
+    ]);
+
+    expect(result.scopeFilters).toEqual({ graduated: {} });
+    expect(result.scopeSort.graduated?.column).toBe("mint_ts");
+    expect(result.skipped.map((e) => [e.dashboard, e.setting, e.reason])).toEqual([
+      ["Dashboard 1", "graduated table", "Already imported from another widget"],
+      ["Dashboard 1", "table", "Unknown Scope column"],
+    ]);
+  });
+
+  it("imports the watchlist layout and skips desktop-only widgets and the presets slot", () => {
+    const result = importDashboards([
+      {
+        slot: 2,
+        name: "Watch",
+        widgets: [
+          { type: "chart", config: { interval: "1m" } },
+          {
+            type: "watchlist",
+            config: { watchlist_id: 12, sort_column: "one_day_change", sort_order: true, columns: ["mc"] },
+          },
+        ],
+      },
+      {
+        slot: SCOPE_PRESETS_DASHBOARD_SLOT,
+        widgets: [{ type: "memescope", config: { tab: "new" } }],
+      },
+    ]);
+
+    expect(result.watchlistLayout).toEqual({
+      listId: "12",
+      sort: { key: "oneDayChangePercent", descending: false },
+    });
+    expect(result.scopeFilters).toEqual({});
+    expect(result.skipped.map((e) => `${e.widget}: ${e.setting}`)).toEqual([
+      "chart: widget",
+      "watchlist: visible columns",
+    ]);
+  });
+});
+
+describe("sortWatchlistTokens", () => {
+  function token(mint: string, marketCapUsd: number): EnrichedWatchlistToken {
+    return {
+      mint,
+      symbol: mint,
+      name: mint,
+      marketCapUsd,
+      oneHourVolumeUsd: 0,
+      oneHourChangePercent: 0,
+      oneDayVolumeUsd: 0,
+      oneDayChangePercent: 0,
+      holders: 0,
+    };
+  }
+
+  it("sorts by the layout column and keeps the order without one", () => {
+    const tokens = [token("a", 5), token("b", 20), token("c", 10)];
+
+    expect(sortWatchlistTokens(tokens, { key: "marketCapUsd", descending: true }).map((t) => t.mint)).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(sortWatchlistTokens(tokens, undefined)).toBe(tokens);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  SCOPE_PRESETS_DASHBOARD_SLOT,
+  SCOPE_SORT_COLUMNS,
+  isScopeTabId,
+  sanitizeScopeFilters,
+  type ScopeFilters,
+  type ScopeSort,
+  type ScopeTabId,
+} from "../scope";
+import type { WatchlistTokenSort, WatchlistTokenSortKey } from "../watchlist";
+import type { DashboardV2, DashboardWidget } from "./dashboardService";
+
+// ── Types ──
+
+/** The token watchlist shown on desktop and how its rows are sorted. */
+export type WatchlistLayout = {
+  listId?: string;
+  sort?: WatchlistTokenSort;
+};
+
+/** One desktop setting, as reported back to the user. */
+export type DashboardImportEntry = {
+  dashboard: string;
+  widget: string;
+  setting: string;
+  /** Why it was skipped; absent for imported settings */
+  reason?: string;
+};
+
+export type DashboardImport = {
+  scopeFilters: Partial<Record<ScopeTabId, ScopeFilters>>;
+  scopeSort: Partial<Record<ScopeTabId, ScopeSort>>;
+  watchlistLayout?: WatchlistLayout;
+  imported: DashboardImportEntry[];
+  skipped: DashboardImportEntry[];
+};
+
+// ── Desktop → mobile vocabulary ──
+
+const SCOPE_WIDGET_TYPES = new Set(["memescope", "scope", "pulse"]);
+const WATCHLIST_WIDGET_TYPES = new Set(["watchlist", "tokenWatchlist", "token_watchlist"]);
+
+const SCOPE_TAB_ALIASES: Record<string, ScopeTabId> = {
+  new: "new",
+  new_pairs: "new",
+  newly_created: "new",
+  graduating: "graduating",
+  final_stretch: "graduating",
+  about_to_graduate: "graduating",
+  graduated: "graduated",
+  migrated: "graduated",
+  scans: "scans",
+  scanner: "scans",
+};
+
+type RangeKeys = readonly [keyof ScopeFilters, keyof ScopeFilters];
+
+/** Inverse of `buildNumericFilters`, minus `mint_ts` which desktop stores as absolute times. */
+const NUMERIC_COLUMN_KEYS: Record<string, RangeKeys> = {
+  market_cap_sol: ["minMarketCapSol", "maxMarketCapSol"],
+  one_hour_volume_sol: ["minVolumeSol", "maxVolumeSol"],
+  one_hour_tx_count: ["minTxCount", "maxTxCount"],
+  holder_count: ["minHolderCount", "maxHolderCount"],
+  top_25_holdings_proportion: ["minTop25Pct", "maxTop25Pct"],
+  dev_holdings_proportion: ["minDevPct", "maxDevPct"],
+  bonding_curve_progress: ["minBondingCurvePct", "maxBondingCurvePct"],
+  twitter_followers: ["minTwitterFollowers", "maxTwitterFollowers"],
+};
+
+const FLAG_COLUMN_KEYS: Record<string, keyof ScopeFilters> = {
+  has_twitter: "hasTwitter",
+  has_telegram: "hasTelegram",
+  has_website: "hasWebsite",
+};
+
+const WATCHLIST_SORT_KEYS: Record<string, WatchlistTokenSortKey> = {
+  market_cap_sol: "marketCapUsd",
+  market_cap_usd: "marketCapUsd",
+  one_hour_volume_sol: "oneHourVolumeUsd",
+  one_hour_volume_usd: "oneHourVolumeUsd",
+  one_hour_change: "oneHourChangePercent",
+  one_day_volume_sol: "oneDayVolumeUsd",
+  one_day_volume_usd: "oneDayVolumeUsd",
+  day_volume_quote: "oneDayVolumeUsd",
+  one_day_change: "oneDayChangePercent",
+  holders: "holders",
+  holder_count: "holders",
+};
+
+const UNSUPPORTED = "Not available on mobile";
+
+// ── Helpers ──
+
+type RawFilter = { column?: unknown; min?: unknown; max?: unknown; values?: unknown };
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asFilterList(value: unknown): RawFilter[] {
+  return Array.isArray(value) ? value.filter((f): f is RawFilter => Boolean(asRecord(f))) : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** `sort_order` follows the API: `true` is ascending. */
+function isDescending(sortOrder: unknown): boolean {
+  return sortOrder !== true;
+}
+
+function dashboardLabel(dashboard: DashboardV2): string {
+  return dashboard.name?.trim() || `Dashboard ${dashboard.slot}`;
+}
+
+/** Desktop widgets keep the table query under `filter`; older layouts put it on the config itself. */
+function tableQuery(widget: DashboardWidget): Record<string, unknown> {
+  const config = widget.config ?? {};
+  return asRecord(config.filter) ?? config;
+}
+
+function resolveScopeTab(widget: DashboardWidget): ScopeTabId | undefined {
+  const config = widget.config ?? {};
+  const named = asString(config.tab) ?? asString(config.column);
+  if (named) {
+    const key = named.toLowerCase();
+    return isScopeTabId(key) ? key : SCOPE_TAB_ALIASES[key];
+  }
+
+  // No tab name — infer from the status filter the table was saved with
+  const status = asFilterList(tableQuery(widget).string_filters).find((f) => f.column === "status");
+  const values = Array.isArray(status?.values) ? status.values : [];
+  if (values.includes("Bonded")) return "graduated";
+  if (values.includes("Not Bonded")) return "new";
+  return undefined;
+}
+
+// ── Mapping ──
+
+type Report = (setting: string, reason?: string) => void;
+
+function importScopeWidget(
+  widget: DashboardWidget,
+  tab: ScopeTabId,
+  result: DashboardImport,
+  report: Report
+): void {
+  const query = tableQuery(widget);
+  const raw: Record<string, unknown> = {};
+
+  for (const filter of asFilterList(query.numeric_filters)) {
+    const column = String(filter.column);
+    const keys = NUMERIC_COLUMN_KEYS[column];
+    if (!keys) {
+      report(`${column} filter`, column === "mint_ts" ? "Fixed time windows don't carry over" : UNSUPPORTED);
+      continue;
+    }
+    raw[keys[0]] = filter.min;
+    raw[keys[1]] = filter.max;
+    report(`${column} filter`);
+  }
+
+  for (const filter of asFilterList(query.string_filters)) {
+    const column = String(filter.column);
+    const values = Array.isArray(filter.values) ? filter.values : [];
+    if (column === "status") continue; // implied by the tab
+    if (column === "exchange") {
+      raw.exchanges = values;
+      report("exchange filter");
+    } else if (FLAG_COLUMN_KEYS[column]) {
+      raw[FLAG_COLUMN_KEYS[column]] = values.includes("true");
+      report(`${column} filter`);
+    } else {
+      report(`${column} filter`, UNSUPPORTED);
+    }
+  }
+
+  result.scopeFilters[tab] = sanitizeScopeFilters(raw);
+
+  const sortColumn = asString(query.sort_column);
+  if (!sortColumn) return;
+  if ((SCOPE_SORT_COLUMNS as readonly string[]).includes(sortColumn)) {
+    result.scopeSort[tab] = { column: sortColumn, descending: isDescending(query.sort_order) };
+    report(`sort by ${sortColumn}`);
+  } else {
+    report(`sort by ${sortColumn}`, UNSUPPORTED);
+  }
+}
+
+function importWatchlistWidget(widget: DashboardWidget, result: DashboardImport, report: Report): void {
+  const config = widget.config ?? {};
+  const layout: WatchlistLayout = {};
+
+  const listId = config.watchlist_id ?? config.list_id ?? config.watchlistId;
+  if (typeof listId === "number" || (typeof listId === "string" && listId)) {
+    layout.listId = String(listId);
+    report("selected list");
+  }
+
+  const sortColumn = asString(config.sort_column);
+  if (sortColumn) {
+    const key = WATCHLIST_SORT_KEYS[sortColumn];
+    if (key) {
+      layout.sort = { key, descending: isDescending(config.sort_order) };
+      report(`sort by ${sortColumn}`);
+    } else {
+      report(`sort by ${sortColumn}`, UNSUPPORTED);
+    }
+  }
+
+  if (Array.isArray(config.columns)) {
+    report("visible columns", "Mobile rows use a fixed layout");
+  }
+
+  result.watchlistLayout = layout;
+}
+
+/**
+ * Map desktop dashboards onto mobile state. Scope widgets become per-tab
+ * filters and sorts, the first token watchlist widget sets the watchlist
+ * layout, and everything else is reported as skipped. The first widget for a
+ * tab wins; later ones are skipped rather than merged.
+ */
+export function importDashboards(dashboards: DashboardV2[]): DashboardImport {
+  const result: DashboardImport = { scopeFilters: {}, scopeSort: {}, imported: [], skipped: [] };
+
+  for (const dashboard of dashboards) {
+    // Mobile's own presets slot — not a desktop layout
+    if (dashboard.slot === SCOPE_PRESETS_DASHBOARD_SLOT) continue;
+
+    for (const widget of dashboard.widgets ?? []) {
+      const entry = { dashboard: dashboardLabel(dashboard), widget: widget.type };
+      const report: Report = (setting, reason) => {
+        if (reason) result.skipped.push({ ...entry, setting, reason });
+        else result.imported.push({ ...entry, setting });
+      };
+
+      if (SCOPE_WIDGET_TYPES.has(widget.type)) {
+        const tab = resolveScopeTab(widget);
+        if (!tab) {
+          report("table", "Unknown Scope column");
+        } else if (result.scopeFilters[tab]) {
+          report(`${tab} table`, "Already imported from another widget");
+        } else {
+          importScopeWidget(widget, tab, result, report);
+        }
+      } else if (WATCHLIST_WIDGET_TYPES.has(widget.type)) {
+        if (result.watchlistLayout) {
+          report("layout", "Already imported from another widget");
+        } else {
+          importWatchlistWidget(widget, result, report);
+        }
+      } else {
+        report("widget", UNSUPPORTED);
+      }
+    }
+  }
+
+  return result;
+}
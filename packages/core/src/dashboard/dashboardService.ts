@@ -0,0 +1,58 @@
+import type { RpcTransport } from "../rpc";
+
+// ── Types ──
+
+/** One widget on a desktop dashboard grid. `config` is widget-specific. */
+export type DashboardWidget = {
+  id?: string;
+  type: string;
+  config?: Record<string, unknown>;
+};
+
+/**
+ * A saved dashboard. Each account has numbered slots; writes carry the nonce
+ * last read for the slot and the server rejects stale ones.
+ */
+export type DashboardV2 = {
+  slot: number;
+  nonce?: number;
+  name?: string;
+  widgets?: DashboardWidget[];
+  /** Free-form per-dashboard settings — mobile keeps its own data here */
+  settings?: Record<string, unknown>;
+};
+
+// ── API ──
+
+export async function fetchDashboards(rpcClient: RpcTransport): Promise<DashboardV2[]> {
+  const dashboards = await rpcClient.call<DashboardV2[]>("private/getDashboards", []);
+  return dashboards ?? [];
+}
+
+export async function fetchDashboardsAtSlots(
+  rpcClient: RpcTransport,
+  slots: number[]
+): Promise<DashboardV2[]> {
+  if (slots.length === 0) return [];
+
+  const params = { slots };
+  const dashboards = await rpcClient.call<DashboardV2[]>(
+    "private/getDashboardAtSlots",
+    Object.values(params)
+  );
+  return dashboards ?? [];
+}
+
+/** Create or replace the dashboard at `dashboard.slot`. Resolves to the stored copy with its new nonce. */
+export async function setDashboard(
+  rpcClient: RpcTransport,
+  dashboard: DashboardV2
+): Promise<DashboardV2> {
+  const params = { dashboard };
+  return rpcClient.call<DashboardV2>("private/setDashboard", Object.values(params));
+}
+
+export async function deleteDashboard(rpcClient: RpcTransport, slot: number): Promise<boolean> {
+  const params = { slot };
+  return rpcClient.call<boolean>("private/deleteDashboard", Object.values(params));
+}
@@ -0,0 +1,2 @@
+export * from "./dashboardService";
+export * from "./dashboardImport";
@@ -1 +1,11 @@
 export * from "./rpc";
+export * from "./utils";
+export * from "./constants";
+
+export * from "./token";
+export * from "./portfolio";
+export * from "./trade";
+export * from "./scope";
+export * from "./watchlist";
+export * from "./rewards";
+export * from "./dashboard";
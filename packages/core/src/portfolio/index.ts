@@ -0,0 +1,4 @@
+export * from "./portfolioService";
+export * from "./realizedPnl";
+export * from "./taxExport";
+export * from "./traderHeatmap";
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment node
+ */
+import {
+  combineTraderOverviews,
+  computeCombinedPnl,
+  mapWalletsPositions,
+  mergePositionsByMint,
+  type Position,
+  type WalletPosition,
+} from "./portfolioService";
+
+function position(wallet: string, mint: string, overrides: Partial<Position> = {}): WalletPosition {
+  return {
+    wallet,
+    token_info: { mint, symbol: mint.toUpperCase() },
+    balance: 100,
+    position_value_quote: 1,
+    total_pnl_quote: 0,
+    total_pnl_change_proportion: 0,
+    unrealized_pnl_quote: 0,
+    unrealized_pnl_change_proportion: 0,
+    realized_pnl_quote: 0,
+    realized_pnl_change_proportion: 0,
+    average_entry_price_quote: 0,
+    average_exit_price_quote: 0,
+    bought_quote: 0,
+    bought_usd: 0,
+    sold_quote: 0,
+    sold_usd: 0,
+    first_trade_ts: 1_700_000_000,
+    last_trade_ts: 1_700_000_100,
+    ...overrides,
+  };
+}
+
+describe("mergePositionsByMint", () => {
+  it("sums per-mint figures and keeps the per-wallet rows", () => {
+    const merged = mergePositionsByMint([
+      position("W1", "bonk", {
+        position_value_quote: 2,
+        bought_quote: 1,
+        average_entry_price_quote: 0.01, // 100 tokens
+        total_pnl_quote: 1,
+        unrealized_pnl_quote: 1,
+        first_trade_ts: 10,
+        last_trade_ts: 20,
+      }),
+      position("W2", "bonk", {
+        position_value_quote: 3,
+        bought_quote: 3,
+        average_entry_price_quote: 0.03, // 100 tokens
+        total_pnl_quote: 0,
+        first_trade_ts: 5,
+        last_trade_ts: 30,
+      }),
+      position("W1", "wif", { position_value_quote: 10 }),
+    ], 1);
+
+    expect(merged.map((p) => p.token_info?.mint)).toEqual(["wif", "bonk"]);
+
+    const bonk = merged[1];
+    expect(bonk.balance).toBe(200);
+    expect(bonk.position_value_quote).toBe(5);
+    expect(bonk.bought_quote).toBe(4);
+    expect(bonk.average_entry_price_quote).toBeCloseTo(0.02);
+    expect(bonk.total_pnl_change_proportion).toBeCloseTo(0.25);
+    expect(bonk.unrealized_pnl_change_proportion).toBeCloseTo(0.25);
+    expect([bonk.first_trade_ts, bonk.last_trade_ts]).toEqual([5, 30]);
+    expect(bonk.wallets.map((w) => w.wallet)).toEqual(["W2", "W1"]);
+  });
+
+  it("converts each wallet's quote asset to USD before summing", () => {
+    const usdc = { last_quote_price_usd: 1, last_sol_price_usd: 200 };
+    const [merged] = mergePositionsByMint(
+      [
+        // 1 SOL in, worth 2 SOL now
+        position("W1", "bonk", {
+          position_value_quote: 2,
+          bought_quote: 1,
+          average_entry_price_quote: 0.01, // 100 tokens
+          total_pnl_quote: 1,
+        }),
+        // 100 USDC in, worth 300 USDC now
+        position("W2", "bonk", {
+          token_info: { mint: "bonk", symbol: "BONK", quote_asset_info: usdc },
+          position_value_quote: 300,
+          bought_quote: 100,
+          average_entry_price_quote: 1, // 100 tokens
+          total_pnl_quote: 200,
+        }),
+      ],
+      200
+    );
+
+    expect(merged.position_value_quote).toBe(700);
+    expect(merged.bought_quote).toBe(300);
+    expect(merged.total_pnl_quote).toBe(400);
+    expect(merged.average_entry_price_quote).toBeCloseTo(1.5);
+    expect(merged.token_info?.quote_asset_info?.last_quote_price_usd).toBe(1);
+    expect(merged.wallets.map((w) => w.wallet)).toEqual(["W1", "W2"]);
+  });
+});
+
+describe("mapWalletsPositions", () => {
+  it("tags positions with their wallet for both response shapes", () => {
+    const p = position("ignored", "bonk");
+    const { wallet: _wallet, ...raw } = p;
+
+    const blocks = mapWalletsPositions([
+      { trader: "W1", sol_price_usd: 150, sol_balance: 1, positions: [raw] },
+    ]);
+    const flat = mapWalletsPositions({ sol_price_usd: 150, positions: [{ ...raw, trader: "W1" }] });
+
+    expect(blocks).toEqual({ sol_price_usd: 150, positions: [{ ...raw, wallet: "W1" }] });
+    expect(flat).toEqual(blocks);
+  });
+});
+
+describe("combined totals", () => {
+  it("sums overviews and converts PnL per quote asset", () => {
+    const overview = combineTraderOverviews([
+      { trader: "W1", sol_price_usd: 150, holdings: { sol_balance: 1, value_sol: 2, value_usd: 300 } },
+      { trader: "W2", sol_price_usd: 150, holdings: { sol_balance: 0.5, value_sol: 1, value_usd: 150 } },
+    ]);
+    expect(overview.holdings).toEqual({ sol_balance: 1.5, value_sol: 3, value_usd: 450 });
+
+    const pnl = computeCombinedPnl(
+      [
+        position("W1", "bonk", { total_pnl_quote: 1, realized_pnl_quote: 1 }),
+        position("W2", "usdc-pair", {
+          token_info: { mint: "usdc-pair", quote_asset_info: { last_quote_price_usd: 1, last_sol_price_usd: 150 } },
+          total_pnl_quote: 10,
+          unrealized_pnl_quote: 10,
+        }),
+      ],
+      150
+    );
+    expect(pnl).toEqual({ totalPnlUsd: 160, unrealizedPnlUsd: 10, realizedPnlUsd: 150 });
+  });
+});
@@ -0,0 +1,475 @@
+import type { RpcTransport } from "../rpc";
+
+export type TraderOverview = {
+  trader: string;
+  sol_price_usd: number;
+  cumulatives?: {
+    bought_usd_cumulative: number;
+    sold_usd_cumulative: number;
+  };
+  holdings?: {
+    sol_balance: number;
+    value_sol: number;
+    value_usd: number;
+  };
+};
+
+export type TokenHoldings = {
+  token_info?: {
+    token_metadata?: {
+      mint?: string;
+      name?: string;
+      symbol?: string;
+      image_uri?: string;
+      platform?: string;
+      exchange?: string;
+    };
+    mint_info?: {
+      decimals?: number;
+    };
+  };
+  balance: number;
+  value_sol: number;
+};
+
+export type AccountTokenHoldings = {
+  sol_balance: number;
+  value_sol: number;
+  value_usd: number;
+  sol_price_usd: number;
+  token_holdings: TokenHoldings[];
+};
+
+export type TraderTokenPosition = {
+  trader: string;
+  sol_price_usd: number;
+  position: {
+    balance: number;
+    total_pnl_quote: number;
+    total_pnl_change_proportion: number;
+  };
+};
+
+export async function fetchTraderOverview(
+  rpcClient: RpcTransport,
+  account: string
+): Promise<TraderOverview> {
+  return rpcClient.call<TraderOverview>("public/getTraderOverview", [account]);
+}
+
+export async function fetchAccountTokenHoldings(
+  rpcClient: RpcTransport,
+  account: string
+): Promise<AccountTokenHoldings> {
+  return rpcClient.call<AccountTokenHoldings>("public/getAccountTokenHoldings", [
+    account,
+    { only_supported_tokens: true, include_zero_balances: false },
+  ]);
+}
+
+export async function fetchPositionPnl(
+  rpcClient: RpcTransport,
+  account: string,
+  mint: string
+): Promise<TraderTokenPosition> {
+  return rpcClient.call<TraderTokenPosition>("public/getPositionPnl", [account, mint]);
+}
+
+/* ── Positions (with full PnL) ── */
+
+export type QuoteAssetInfo = {
+  last_quote_price_usd: number;
+  last_sol_price_usd: number;
+};
+
+export type MinimalTokenInfo = {
+  mint?: string;
+  name?: string;
+  symbol?: string;
+  image_uri?: string;
+  platform?: string;
+  exchange?: string;
+  quote_asset_info?: QuoteAssetInfo;
+};
+
+/** Convert a quote-denominated value to USD using the position's quote asset info, falling back to global SOL price */
+export function quoteToUsd(
+  quoteValue: number,
+  tokenInfo?: MinimalTokenInfo,
+  fallbackSolPrice?: number
+): number {
+  const quotePriceUsd = tokenInfo?.quote_asset_info?.last_quote_price_usd;
+  if (quotePriceUsd != null && quotePriceUsd > 0) {
+    return quoteValue * quotePriceUsd;
+  }
+  return quoteValue * (fallbackSolPrice ?? 0);
+}
+
+export type Position = {
+  token_info?: MinimalTokenInfo;
+  balance: number;
+  position_value_quote: number;
+  total_pnl_quote: number;
+  total_pnl_change_proportion: number;
+  unrealized_pnl_quote: number;
+  unrealized_pnl_change_proportion: number;
+  realized_pnl_quote: number;
+  realized_pnl_change_proportion: number;
+  average_entry_price_quote: number;
+  average_exit_price_quote: number;
+  bought_quote: number;
+  bought_usd: number;
+  sold_quote: number;
+  sold_usd: number;
+  first_trade_ts: number;
+  last_trade_ts: number;
+};
+
+export type PositionsResponse = {
+  trader: string;
+  sol_price_usd: number;
+  sol_balance: number;
+  positions: Position[];
+};
+
+export async function fetchTraderPositions(
+  rpcClient: RpcTransport,
+  account: string,
+  filter?: {
+    limit?: number;
+    offset?: number;
+    sort_column?: string;
+    include_zero_balances?: boolean;
+  }
+): Promise<PositionsResponse> {
+  return rpcClient.call<PositionsResponse>("public/getTraderPositions", [
+    account,
+    filter ?? {},
+  ]);
+}
+
+/* ── Multi-wallet positions ── */
+
+/** A position tagged with the wallet that holds it */
+export type WalletPosition = Position & { wallet: string };
+
+/** Positions merged across wallets by mint; `wallets` keeps the per-wallet rows */
+export type AggregatedPosition = Position & { wallets: WalletPosition[] };
+
+export type WalletsPositionsResponse = {
+  sol_price_usd: number;
+  positions: WalletPosition[];
+};
+
+type RawWalletsPositions =
+  | PositionsResponse[]
+  | {
+      sol_price_usd?: number;
+      wallets?: PositionsResponse[];
+      positions?: (Position & { trader?: string; wallet?: string })[];
+    };
+
+/** The server has answered with both per-wallet blocks and a flat list tagged with `trader`. */
+export function mapWalletsPositions(raw: RawWalletsPositions | null | undefined): WalletsPositionsResponse {
+  if (!raw) return { sol_price_usd: 0, positions: [] };
+
+  if (Array.isArray(raw) || raw.wallets) {
+    const blocks = Array.isArray(raw) ? raw : (raw.wallets ?? []);
+    return {
+      sol_price_usd: (Array.isArray(raw) ? undefined : raw.sol_price_usd) ?? blocks[0]?.sol_price_usd ?? 0,
+      positions: blocks.flatMap((block) =>
+        (block.positions ?? []).map((position) => ({ ...position, wallet: block.trader }))
+      ),
+    };
+  }
+
+  return {
+    sol_price_usd: raw.sol_price_usd ?? 0,
+    positions: (raw.positions ?? []).map(({ trader, wallet, ...position }) => ({
+      ...position,
+      wallet: wallet ?? trader ?? "",
+    })),
+  };
+}
+
+export async function fetchTraderOverviews(
+  rpcClient: RpcTransport,
+  accounts: string[]
+): Promise<TraderOverview[]> {
+  if (accounts.length === 0) return [];
+  const result = await rpcClient.call<TraderOverview[]>("public/getTraderOverviews", [accounts]);
+  return Array.isArray(result) ? result : [];
+}
+
+export async function fetchWalletsPositions(
+  rpcClient: RpcTransport,
+  wallets: string[],
+  filter?: {
+    limit?: number;
+    sort_column?: string;
+    include_zero_balances?: boolean;
+  }
+): Promise<WalletsPositionsResponse> {
+  if (wallets.length === 0) return { sol_price_usd: 0, positions: [] };
+  const result = await rpcClient.call<RawWalletsPositions>("public/getWalletsPositions", [
+    wallets,
+    filter ?? {},
+  ]);
+  return mapWalletsPositions(result);
+}
+
+/** Sum per-wallet overviews into one; `trader` is left empty. */
+export function combineTraderOverviews(overviews: TraderOverview[]): TraderOverview {
+  const cumulatives = { bought_usd_cumulative: 0, sold_usd_cumulative: 0 };
+  const holdings = { sol_balance: 0, value_sol: 0, value_usd: 0 };
+
+  for (const overview of overviews) {
+    cumulatives.bought_usd_cumulative += overview.cumulatives?.bought_usd_cumulative ?? 0;
+    cumulatives.sold_usd_cumulative += overview.cumulatives?.sold_usd_cumulative ?? 0;
+    holdings.sol_balance += overview.holdings?.sol_balance ?? 0;
+    holdings.value_sol += overview.holdings?.value_sol ?? 0;
+    holdings.value_usd += overview.holdings?.value_usd ?? 0;
+  }
+
+  return {
+    trader: "",
+    sol_price_usd: overviews.find((o) => o.sol_price_usd > 0)?.sol_price_usd ?? 0,
+    cumulatives,
+    holdings,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Merge wallet positions into one row per mint, sorted by value.
+ *
+ * Wallets may hold the same mint through pairs with different quote assets
+ * (SOL vs USDC), so every figure is converted with `quoteToUsd` before it is
+ * summed and the merged row is quoted in USD (quote price 1). Average prices
+ * are weighted by the token amount each wallet traded (quote spent / average
+ * price), and the change proportions are recomputed from the summed figures.
+ */
+export function mergePositionsByMint(positions: WalletPosition[], solPriceUsd: number): AggregatedPosition[] {
+  const byMint = new Map<string, WalletPosition[]>();
+  for (const position of positions) {
+    const mint = position.token_info?.mint ?? "";
+    const bucket = byMint.get(mint);
+    if (bucket) bucket.push(position);
+    else byMint.set(mint, [position]);
+  }
+
+  const merged: AggregatedPosition[] = [];
+  const valueUsd = (p: Position) => quoteToUsd(p.position_value_quote ?? 0, p.token_info, solPriceUsd);
+  for (const wallets of byMint.values()) {
+    const sum = (pick: (p: Position) => number) => wallets.reduce((acc, p) => acc + (pick(p) ?? 0), 0);
+    const sumUsd = (pick: (p: Position) => number) =>
+      sum((p) => quoteToUsd(pick(p) ?? 0, p.token_info, solPriceUsd));
+
+    const boughtQuote = sumUsd((p) => p.bought_quote);
+    const soldQuote = sumUsd((p) => p.sold_quote);
+    const boughtTokens = sum((p) => ratio(p.bought_quote, p.average_entry_price_quote));
+    const soldTokens = sum((p) => ratio(p.sold_quote, p.average_exit_price_quote));
+    const positionValue = sumUsd((p) => p.position_value_quote);
+    const totalPnl = sumUsd((p) => p.total_pnl_quote);
+    const unrealizedPnl = sumUsd((p) => p.unrealized_pnl_quote);
+    const realizedPnl = sumUsd((p) => p.realized_pnl_quote);
+
+    merged.push({
+      token_info: {
+        ...wallets[0].token_info,
+        quote_asset_info: { last_quote_price_usd: 1, last_sol_price_usd: solPriceUsd },
+      },
+      balance: sum((p) => p.balance),
+      position_value_quote: positionValue,
+      total_pnl_quote: totalPnl,
+      total_pnl_change_proportion: ratio(totalPnl, boughtQuote),
+      unrealized_pnl_quote: unrealizedPnl,
+      unrealized_pnl_change_proportion: ratio(unrealizedPnl, positionValue - unrealizedPnl),
+      realized_pnl_quote: realizedPnl,
+      realized_pnl_change_proportion: ratio(realizedPnl, soldQuote - realizedPnl),
+      average_entry_price_quote: ratio(boughtQuote, boughtTokens),
+      average_exit_price_quote: ratio(soldQuote, soldTokens),
+      bought_quote: boughtQuote,
+      bought_usd: sum((p) => p.bought_usd),
+      sold_quote: soldQuote,
+      sold_usd: sum((p) => p.sold_usd),
+      first_trade_ts: Math.min(...wallets.map((p) => p.first_trade_ts)),
+      last_trade_ts: Math.max(...wallets.map((p) => p.last_trade_ts)),
+      wallets: [...wallets].sort((a, b) => valueUsd(b) - valueUsd(a)),
+    });
+  }
+
+  return merged.sort((a, b) => b.position_value_quote - a.position_value_quote);
+}
+
+export type CombinedPnl = {
+  totalPnlUsd: number;
+  unrealizedPnlUsd: number;
+  realizedPnlUsd: number;
+};
+
+/** USD PnL across positions, each converted with its own quote asset via `quoteToUsd`. */
+export function computeCombinedPnl(positions: Position[], solPriceUsd: number): CombinedPnl {
+  let totalPnlUsd = 0;
+  let unrealizedPnlUsd = 0;
+  let realizedPnlUsd = 0;
+  for (const p of positions) {
+    totalPnlUsd += quoteToUsd(p.total_pnl_quote ?? 0, p.token_info, solPriceUsd);
+    unrealizedPnlUsd += quoteToUsd(p.unrealized_pnl_quote ?? 0, p.token_info, solPriceUsd);
+    realizedPnlUsd += quoteToUsd(p.realized_pnl_quote ?? 0, p.token_info, solPriceUsd);
+  }
+  return { totalPnlUsd, unrealizedPnlUsd, realizedPnlUsd };
+}
+
+export type MultiWalletPortfolio = {
+  overview: TraderOverview;
+  positions: AggregatedPosition[];
+  solPriceUsd: number;
+  solBalance: number;
+};
+
+/** Combined overview + merged positions for a set of wallets. */
+export async function fetchMultiWalletPortfolio(
+  rpcClient: RpcTransport,
+  wallets: string[],
+  filter?: { limit?: number; sort_column?: string; include_zero_balances?: boolean }
+): Promise<MultiWalletPortfolio> {
+  const [overviews, positionsResponse] = await Promise.all([
+    fetchTraderOverviews(rpcClient, wallets),
+    fetchWalletsPositions(rpcClient, wallets, filter),
+  ]);
+
+  const overview = combineTraderOverviews(overviews);
+  const solPriceUsd = positionsResponse.sol_price_usd || overview.sol_price_usd;
+  return {
+    overview,
+    positions: mergePositionsByMint(positionsResponse.positions, solPriceUsd),
+    solPriceUsd,
+    solBalance: overview.holdings?.sol_balance ?? 0,
+  };
+}
+
+/* ── Transaction history ── */
+
+export type TransactionRow = {
+  ts: number;
+  type: "b" | "s" | "d" | "w";
+  mint: string;
+  amount_base: number;
+  amount_quote: number;
+  price: number;
+  quote_asset_price_usd: number;
+  signature: string;
+  maker: string;
+  exchange: string;
+  index: string;
+};
+
+export type TransactionsResponse = {
+  mint_to_token_info?: Record<string, { token_metadata?: MinimalTokenInfo }>;
+  table?: {
+    rows?: TransactionRow[];
+  };
+};
+
+export type TransactionHistoryRange = {
+  /** Inclusive bounds on `ts`, unix seconds */
+  fromTs?: number;
+  toTs?: number;
+};
+
+export async function fetchTransactionHistory(
+  rpcClient: RpcTransport,
+  account: string | string[],
+  limit = 50,
+  { offset = 0, fromTs, toTs }: TransactionHistoryRange & { offset?: number } = {}
+): Promise<TransactionsResponse> {
+  const hasRange = fromTs !== undefined || toTs !== undefined;
+  return rpcClient.call<TransactionsResponse>("public/filterAllTransactionsTable", [
+    {
+      address_filters: [
+        { column: "maker", addresses: Array.isArray(account) ? account : [account] },
+      ],
+      ...(hasRange ? { column_filters: [{ column: "ts", min: fromTs, max: toTs }] } : null),
+      row_limit: limit,
+      ...(offset > 0 ? { row_offset: offset } : null),
+      sort_column: "index",
+      sort_order: false,
+    },
+  ]);
+}
+
+/**
+ * Page through history newest-first until a short page or `maxRows`. Rows
+ * that shift across page boundaries while paging are de-duplicated.
+ */
+export async function fetchTransactionHistoryPages(
+  rpcClient: RpcTransport,
+  account: string | string[],
+  {
+    pageSize = 200,
+    maxRows = 1000,
+    ...range
+  }: TransactionHistoryRange & { pageSize?: number; maxRows?: number } = {}
+): Promise<TransactionsResponse> {
+  const rows: TransactionRow[] = [];
+  const seen = new Set<string>();
+  const tokenInfo: NonNullable<TransactionsResponse["mint_to_token_info"]> = {};
+
+  for (let offset = 0; offset < maxRows; offset += pageSize) {
+    const page = await fetchTransactionHistory(
+      rpcClient,
+      account,
+      Math.min(pageSize, maxRows - offset),
+      { ...range, offset }
+    );
+    const pageRows = page.table?.rows ?? [];
+    Object.assign(tokenInfo, page.mint_to_token_info);
+
+    for (const row of pageRows) {
+      const key = `${row.signature}:${row.index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rows.push(row);
+    }
+
+    if (pageRows.length < pageSize) break;
+  }
+
+  return { mint_to_token_info: tokenInfo, table: { rows } };
+}
+
+/* ── Cumulative P&L computation from transaction history ── */
+
+export type PnlDataPoint = {
+  ts: number;
+  pnl: number;
+};
+
+/**
+ * Running net cash flow over time: buys subtract, sells add. This is not
+ * realized P&L — a fresh buy reads as a loss. Use `computeRealizedPnl` for
+ * lot-matched figures.
+ */
+export function computeCumulativePnl(
+  rows: TransactionRow[],
+  solPriceUsd: number
+): PnlDataPoint[] {
+  if (rows.length === 0) return [];
+
+  const sorted = [...rows].sort((a, b) => a.ts - b.ts);
+
+  let cumulative = 0;
+  return sorted.map((row) => {
+    const usdValue = row.amount_quote * (row.quote_asset_price_usd || solPriceUsd);
+    if (row.type === "s") {
+      cumulative += usdValue;
+    } else if (row.type === "b") {
+      cumulative -= usdValue;
+    }
+    return { ts: row.ts, pnl: cumulative };
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import type { TransactionRow } from "./portfolioService";
+import { computeRealizedPnl, realizedPnlPercent } from "./realizedPnl";
+
+const DAY = 86_400;
+const T0 = 1_700_006_400; // UTC midnight
+
+let nextIndex = 0;
+
+function tx(
+  type: TransactionRow["type"],
+  amountBase: number,
+  amountQuote: number,
+  overrides: Partial<TransactionRow> = {}
+): TransactionRow {
+  nextIndex += 1;
+  return {
+    ts: T0,
+    type,
+    mint: "MINT",
+    amount_base: amountBase,
+    amount_quote: amountQuote,
+    price: amountBase > 0 ? amountQuote / amountBase : 0,
+    quote_asset_price_usd: 100,
+    signature: `sig-${nextIndex}`,
+    maker: "wallet",
+    exchange: "pump",
+    index: String(nextIndex),
+    ...overrides,
+  };
+}
+
+describe("computeRealizedPnl", () => {
+  it("matches partial sells against the oldest lots first", () => {
+    // 100 @ $1, then 100 @ $3; sell 150 @ $4
+    const rows = [
+      tx("b", 100, 1, { ts: T0 }),
+      tx("b", 100, 3, { ts: T0 + 60 }),
+      tx("s", 150, 6, { ts: T0 + 120 }),
+    ];
+
+    const fifo = computeRealizedPnl(rows);
+    expect(fifo.sells[0].costBasisUsd).toBeCloseTo(100 + 150);
+    expect(fifo.totalRealizedPnlUsd).toBeCloseTo(600 - 250);
+    expect(fifo.byToken[0].openTokens).toBeCloseTo(50);
+    expect(fifo.byToken[0].openCostUsd).toBeCloseTo(150);
+
+    const average = computeRealizedPnl(rows, { method: "average" });
+    expect(average.sells[0].costBasisUsd).toBeCloseTo(300);
+    expect(average.totalRealizedPnlUsd).toBeCloseTo(300);
+    expect(average.byToken[0].openCostUsd).toBeCloseTo(100);
+  });
+
+  it("does not count a fresh buy as a loss", () => {
+    const report = computeRealizedPnl([tx("b", 1_000, 50)]);
+    expect(report.totalRealizedPnlUsd).toBe(0);
+    expect(report.byToken).toEqual([]);
+    expect(report.winRatePercent).toBeUndefined();
+  });
+
+  it("opens transfers-in at market value and closes transfers-out without realizing", () => {
+    const rows = [
+      tx("d", 100, 0, { ts: T0, price: 0.02 }), // $200 worth arrives
+      tx("b", 100, 1, { ts: T0 + 10 }), // $100
+      tx("w", 50, 0, { ts: T0 + 20 }), // moves half the deposit out
+      tx("s", 100, 4, { ts: T0 + 30 }), // $400
+    ];
+
+    const report = computeRealizedPnl(rows);
+    // Remaining 50 of the deposit ($100) + 50 of the buy ($50)
+    expect(report.sells[0].costBasisUsd).toBeCloseTo(150);
+    expect(report.totalRealizedPnlUsd).toBeCloseTo(250);
+    expect(report.byToken[0].tokensBought).toBe(100);
+  });
+
+  it("values each row in its own quote asset and leaves unmatched sells unrealized", () => {
+    const rows = [
+      tx("b", 100, 1, { ts: T0, quote_asset_price_usd: 150 }), // 1 SOL
+      tx("s", 50, 120, { ts: T0 + DAY, quote_asset_price_usd: 1 }), // 120 USDC
+      tx("s", 100, 200, { ts: T0 + 2 * DAY, quote_asset_price_usd: 1 }), // only 50 left
+    ];
+
+    const report = computeRealizedPnl(rows);
+    expect(report.sells[0].realizedPnlUsd).toBeCloseTo(120 - 75);
+    expect(report.sells[1].proceedsUsd).toBeCloseTo(100);
+    expect(report.sells[1].realizedPnlUsd).toBeCloseTo(100 - 75);
+    expect(report.sells[1].unmatchedTokens).toBeCloseTo(50);
+    expect(report.daily).toEqual([
+      { dayTs: T0 + DAY, realizedPnlUsd: expect.closeTo(45) },
+      { dayTs: T0 + 2 * DAY, realizedPnlUsd: expect.closeTo(25) },
+    ]);
+    expect(report.cumulative.map((p) => p.pnl)).toEqual([expect.closeTo(45), expect.closeTo(70)]);
+    expect(realizedPnlPercent(report.byToken[0])).toBeCloseTo((70 / 150) * 100);
+  });
+
+  it("leaves rows without a quote price unvalued and sorts out-of-order rows", () => {
+    const rows = [
+      tx("s", 10, 2, { ts: T0 + 60, mint: "A" }), // sold out of an unvalued lot
+      tx("b", 10, 1, { ts: T0, mint: "A", quote_asset_price_usd: 0 }),
+      tx("b", 10, 1, { ts: T0, mint: "B" }),
+      tx("s", 10, 0.5, { ts: T0 + 60, mint: "B" }),
+      tx("b", 10, 1, { ts: T0, mint: "C" }),
+      tx("s", 10, 2, { ts: T0 + 60, mint: "C", quote_asset_price_usd: 0 }), // sold at no known price
+    ];
+
+    const report = computeRealizedPnl(rows);
+    expect(report.byToken.map((t) => [t.mint, t.realizedPnlUsd, t.unmatchedTokens])).toEqual([
+      ["B", expect.closeTo(-50), 0],
+      ["A", 0, 10],
+      ["C", 0, 10],
+    ]);
+    expect(report.byToken.find((t) => t.mint === "A")?.boughtUsd).toBe(0);
+    expect(report.winRatePercent).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+import type { PnlDataPoint, TransactionRow } from "./portfolioService";
+
+/**
+ * Lot-matched realized P&L from transaction history.
+ *
+ * Every row is valued in USD through its own quote asset price, so trades
+ * quoted in SOL, USDC or anything else land in one currency. Buys open lots,
+ * sells close them (oldest first for FIFO, pro-rata for average cost) and
+ * realize proceeds minus the cost of the closed tokens.
+ *
+ * Transfers: a deposit ("d") opens a lot at its market value when it arrived,
+ * so only gains made while held here are realized later. A withdrawal ("w")
+ * closes tokens without realizing anything. Sells larger than the tracked
+ * balance — history older than what was paged in — realize only the matched
+ * part; the rest is reported as `unmatchedTokens`.
+ *
+ * Rows without a USD value at trade time stay unvalued rather than being
+ * priced at today's rates: their lots carry no cost, and tokens sold at an
+ * unknown price or out of such lots count as unmatched.
+ */
+
+export type CostBasisMethod = "fifo" | "average";
+
+export type RealizedSell = {
+  ts: number;
+  mint: string;
+  signature: string;
+  /** Row index — with `signature`, identifies the sell row */
+  index: string;
+  tokensSold: number;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  realizedPnlUsd: number;
+  /** Tokens sold beyond the tracked lots, out of unvalued lots or at no known price — not realized */
+  unmatchedTokens: number;
+};
+
+export type TokenRealizedPnl = {
+  mint: string;
+  realizedPnlUsd: number;
+  /** Cost of the tokens that were sold */
+  costBasisUsd: number;
+  proceedsUsd: number;
+  boughtUsd: number;
+  tokensBought: number;
+  tokensSold: number;
+  /** Still-open lots */
+  openTokens: number;
+  /** Cost of the open lots that have one */
+  openCostUsd: number;
+  unmatchedTokens: number;
+  sellCount: number;
+  lastSellTs: number;
+};
+
+export type DailyRealizedPnl = {
+  /** UTC midnight, seconds */
+  dayTs: number;
+  realizedPnlUsd: number;
+};
+
+export type RealizedPnlReport = {
+  method: CostBasisMethod;
+  totalRealizedPnlUsd: number;
+  sells: RealizedSell[];
+  /** Tokens with at least one sell, largest absolute realized P&L first */
+  byToken: TokenRealizedPnl[];
+  daily: DailyRealizedPnl[];
+  /** Running total of `daily`, shaped for PnlChart */
+  cumulative: PnlDataPoint[];
+  /** Share of sold mints with positive realized P&L; undefined with no matched sells */
+  winRatePercent: number | undefined;
+};
+
+/** `costUsd` is null for a lot opened at an unknown value. */
+type Lot = { tokens: number; costUsd: number | null };
+
+type MintState = TokenRealizedPnl & { lots: Lot[] };
+
+const SECONDS_PER_DAY = 86_400;
+const DUST = 1e-9;
+
+/** USD value of a row at trade time; null without a quote price or a quote amount to apply it to. */
+export function transactionUsdValue(row: TransactionRow): number | null {
+  const quoteAmount = row.amount_quote || row.amount_base * (row.price || 0);
+  if (!row.quote_asset_price_usd || !quoteAmount) return null;
+  return quoteAmount * row.quote_asset_price_usd;
+}
+
+/** Chronological, with the row index breaking same-second ties. */
+function sortRows(rows: TransactionRow[]): TransactionRow[] {
+  return [...rows].sort(
+    (a, b) => a.ts - b.ts || a.index.localeCompare(b.index, undefined, { numeric: true })
+  );
+}
+
+function emptyState(mint: string): MintState {
+  return {
+    mint,
+    realizedPnlUsd: 0,
+    costBasisUsd: 0,
+    proceedsUsd: 0,
+    boughtUsd: 0,
+    tokensBought: 0,
+    tokensSold: 0,
+    openTokens: 0,
+    openCostUsd: 0,
+    unmatchedTokens: 0,
+    sellCount: 0,
+    lastSellTs: 0,
+    lots: [],
+  };
+}
+
+function openLot(state: MintState, lot: Lot, method: CostBasisMethod) {
+  if (lot.tokens <= DUST) return;
+  if (method === "average" && state.lots.length > 0) {
+    const pool = state.lots[0];
+    pool.tokens += lot.tokens;
+    pool.costUsd = pool.costUsd === null || lot.costUsd === null ? null : pool.costUsd + lot.costUsd;
+  } else {
+    state.lots.push(lot);
+  }
+}
+
+/** Remove `tokens` from the lots; returns how many matched lots with a cost, and that cost. */
+function closeLots(state: MintState, tokens: number): { matched: number; costUsd: number } {
+  let remaining = tokens;
+  let costUsd = 0;
+  let unvalued = 0;
+
+  while (remaining > DUST && state.lots.length > 0) {
+    const lot = state.lots[0];
+    const take = Math.min(lot.tokens, remaining);
+
+    if (lot.costUsd === null) {
+      unvalued += take;
+    } else {
+      const cost = lot.tokens > 0 ? lot.costUsd * (take / lot.tokens) : 0;
+      lot.costUsd -= cost;
+      costUsd += cost;
+    }
+    lot.tokens -= take;
+    remaining -= take;
+
+    if (lot.tokens <= DUST) state.lots.shift();
+  }
+
+  return { matched: tokens - Math.max(remaining, 0) - unvalued, costUsd };
+}
+
+export function computeRealizedPnl(
+  rows: TransactionRow[],
+  { method = "fifo" }: { method?: CostBasisMethod } = {}
+): RealizedPnlReport {
+  const states = new Map<string, MintState>();
+  const sells: RealizedSell[] = [];
+
+  for (const row of sortRows(rows)) {
+    const tokens = Math.abs(row.amount_base);
+    if (!row.mint || tokens <= 0) continue;
+
+    let state = states.get(row.mint);
+    if (!state) {
+      state = emptyState(row.mint);
+      states.set(row.mint, state);
+    }
+
+    const value = transactionUsdValue(row);
+    const valueUsd = value === null ? null : Math.abs(value);
+
+    if (row.type === "b") {
+      state.boughtUsd += valueUsd ?? 0;
+      state.tokensBought += tokens;
+      openLot(state, { tokens, costUsd: valueUsd }, method);
+    } else if (row.type === "d") {
+      openLot(state, { tokens, costUsd: valueUsd }, method);
+    } else if (row.type === "w") {
+      closeLots(state, tokens);
+    } else if (row.type === "s") {
+      const closed = closeLots(state, tokens);
+      // A sell at an unknown price realizes nothing, whatever lots it closed
+      const matched = valueUsd === null ? 0 : closed.matched;
+      const costUsd = valueUsd === null ? 0 : closed.costUsd;
+      const proceedsUsd = (valueUsd ?? 0) * (matched / tokens);
+      const realizedPnlUsd = proceedsUsd - costUsd;
+      const unmatchedTokens = tokens - matched;
+
+      state.tokensSold += tokens;
+      state.proceedsUsd += proceedsUsd;
+      state.costBasisUsd += costUsd;
+      state.realizedPnlUsd += realizedPnlUsd;
+      state.unmatchedTokens += unmatchedTokens;
+      state.sellCount += 1;
+      state.lastSellTs = row.ts;
+
+      sells.push({
+        ts: row.ts,
+        mint: row.mint,
+        signature: row.signature,
+        index: row.index,
+        tokensSold: tokens,
+        proceedsUsd,
+        costBasisUsd: costUsd,
+        realizedPnlUsd,
+        unmatchedTokens,
+      });
+    }
+  }
+
+  const byToken: TokenRealizedPnl[] = [];
+  for (const { lots, ...token } of states.values()) {
+    if (token.sellCount === 0) continue;
+    byToken.push({
+      ...token,
+      openTokens: lots.reduce((sum, lot) => sum + lot.tokens, 0),
+      openCostUsd: lots.reduce((sum, lot) => sum + (lot.costUsd ?? 0), 0),
+    });
+  }
+  byToken.sort((a, b) => Math.abs(b.realizedPnlUsd) - Math.abs(a.realizedPnlUsd));
+
+  const dailyMap = new Map<number, number>();
+  for (const sell of sells) {
+    const dayTs = Math.floor(sell.ts / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+    dailyMap.set(dayTs, (dailyMap.get(dayTs) ?? 0) + sell.realizedPnlUsd);
+  }
+  const daily = [...dailyMap.entries()].map(([dayTs, realizedPnlUsd]) => ({
+    dayTs,
+    realizedPnlUsd,
+  }));
+
+  let running = 0;
+  const cumulative = daily.map((day) => {
+    running += day.realizedPnlUsd;
+    return { ts: day.dayTs, pnl: running };
+  });
+
+  const matchedTokens = byToken.filter((t) => t.costBasisUsd > 0 || t.proceedsUsd > 0);
+  const wins = matchedTokens.filter((t) => t.realizedPnlUsd > 0).length;
+
+  return {
+    method,
+    totalRealizedPnlUsd: running,
+    sells,
+    byToken,
+    daily,
+    cumulative,
+    winRatePercent: matchedTokens.length > 0 ? (wins / matchedTokens.length) * 100 : undefined,
+  };
+}
+
+/** Realized P&L as a percentage of the cost of the tokens sold. */
+export function realizedPnlPercent(token: TokenRealizedPnl): number {
+  return token.costBasisUsd > 0 ? (token.realizedPnlUsd / token.costBasisUsd) * 100 : 0;
+}
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+import type { RpcTransport } from "../rpc";
+import type { TransactionRow, TransactionsResponse } from "./portfolioService";
+import {
+  buildTaxRecords,
+  fetchTaxExport,
+  renderTaxCsv,
+  renderTaxJson,
+  taxExportFileName,
+} from "./taxExport";
+
+const JAN_1 = 1_735_689_600; // 2025-01-01T00:00:00Z
+const DAY = 86_400;
+
+function row(overrides: Partial<TransactionRow>): TransactionRow {
+  return {
+    ts: JAN_1,
+    type: "b",
+    mint: "BONKmint",
+    amount_base: 1_000,
+    amount_quote: 1,
+    price: 0.001,
+    quote_asset_price_usd: 200,
+    signature: "sig",
+    maker: "walletA",
+    exchange: "raydium",
+    index: "1",
+    ...overrides,
+  };
+}
+
+const FIXTURE: TransactionsResponse = {
+  mint_to_token_info: {
+    BONKmint: { token_metadata: { symbol: "BONK" } },
+    WIFmint: { token_metadata: { symbol: "WIF, hat" } },
+  },
+  table: {
+    // Newest first, as the server returns them
+    rows: [
+      row({ ts: JAN_1 + 3 * DAY, type: "s", mint: "WIFmint", amount_base: 5, amount_quote: 30, quote_asset_price_usd: 1, signature: "sig5", maker: "walletB", index: "5" }),
+      row({ ts: JAN_1 + 2 * DAY, type: "w", amount_base: 200, amount_quote: 0, signature: "sig4", index: "4" }),
+      row({ ts: JAN_1 + DAY, type: "s", amount_base: 500, amount_quote: 1, quote_asset_price_usd: 250, signature: "sig3", index: "3" }),
+      row({ ts: JAN_1 - DAY, type: "b", amount_base: 1_000, amount_quote: 1, signature: "sig1", index: "1" }),
+      row({ ts: JAN_1, type: "b", mint: "WIFmint", amount_base: 10, amount_quote: 0.1, signature: "sig2", maker: "walletB", index: "2" }),
+    ],
+  },
+};
+
+const RANGE = { fromTs: JAN_1, toTs: JAN_1 + 31 * DAY - 1 };
+
+describe("buildTaxRecords", () => {
+  it("renders the fixture to a stable CSV", () => {
+    const records = buildTaxRecords(FIXTURE.table?.rows ?? [], FIXTURE.mint_to_token_info ?? {}, RANGE);
+
+    expect(renderTaxCsv(records)).toBe(
+      [
+        "Date,Type,Asset,Mint,Quantity,Proceeds (USD),Cost Basis (USD),Tx Hash,Wallet,Note",
+        '2025-01-01T00:00:00Z,Buy,"WIF, hat",WIFmint,10,,20,sig2,walletB,',
+        // Matched against the Dec 31 buy that sits outside the range
+        "2025-01-02T00:00:00Z,Sell,BONK,BONKmint,500,250,100,sig3,walletA,",
+        "2025-01-03T00:00:00Z,Transfer Out,BONK,BONKmint,200,,,sig4,walletA,",
+        "2025-01-04T00:00:00Z,Sell,\"WIF, hat\",WIFmint,5,30,10,sig5,walletB,",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("leaves cost basis empty when the lots predate the history", () => {
+    const records = buildTaxRecords(
+      [row({ type: "s", amount_base: 0.00000012, amount_quote: 0.5, signature: "orphan" })],
+      {},
+      RANGE
+    );
+
+    expect(records[0]).toMatchObject({ asset: "BONKmint", proceedsUsd: 100, costBasisUsd: null });
+    expect(renderTaxCsv(records).split("\n")[1]).toBe(
+      "2025-01-01T00:00:00Z,Sell,BONKmint,BONKmint,0.00000012,100,,orphan,walletA,"
+    );
+  });
+
+  it("leaves USD values empty and flags rows that couldn't be priced", () => {
+    const records = buildTaxRecords(
+      [
+        row({ quote_asset_price_usd: 0, signature: "unpriced" }),
+        row({ ts: JAN_1 + DAY, type: "s", amount_base: 500, quote_asset_price_usd: 250, signature: "sold", index: "2" }),
+      ],
+      {},
+      RANGE
+    );
+
+    expect(records.map((r) => [r.proceedsUsd, r.costBasisUsd, r.missingUsdPrice])).toEqual([
+      [null, null, true],
+      // Priced itself, but closes lots bought at an unknown price
+      [250, null, true],
+    ]);
+    expect(renderTaxCsv(records).split("\n")[1]).toBe(
+      "2025-01-01T00:00:00Z,Buy,BONKmint,BONKmint,1000,,,unpriced,walletA,Missing SOL price"
+    );
+  });
+
+  it("treats sells out of an unpriced deposit as uncosted", () => {
+    const records = buildTaxRecords(
+      [
+        row({ type: "d", quote_asset_price_usd: 0, signature: "deposit" }),
+        row({ ts: JAN_1 + DAY, type: "s", amount_base: 500, quote_asset_price_usd: 250, signature: "sold", index: "2" }),
+      ],
+      {},
+      RANGE
+    );
+
+    expect(records.map((r) => [r.side, r.proceedsUsd, r.costBasisUsd, r.missingUsdPrice])).toEqual([
+      ["transfer_in", null, null, true],
+      ["sell", 250, null, true],
+    ]);
+  });
+});
+
+describe("fetchTaxExport", () => {
+  it("prices SOL-quoted rows at trade time and renders deterministic JSON", async () => {
+    const call = jest.fn(async (method: string, params: unknown[]) => {
+      if (method === "public/getSolPriceAtTime") return params[0] === JAN_1 ? 180 : 0;
+      return {
+        mint_to_token_info: FIXTURE.mint_to_token_info,
+        table: { rows: [row({ quote_asset_price_usd: 0, signature: "sig1" })] },
+      };
+    });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    const options = { wallets: ["walletA"], ...RANGE };
+    const result = await fetchTaxExport(rpcClient, options);
+
+    expect(call).toHaveBeenCalledWith("public/filterAllTransactionsTable", [
+      expect.objectContaining({ column_filters: [{ column: "ts", max: RANGE.toTs }] }),
+    ]);
+    expect(result.records[0].costBasisUsd).toBe(180);
+    expect(result.truncated).toBe(false);
+
+    const json = renderTaxJson(result);
+    expect(json).toBe(renderTaxJson(await fetchTaxExport(rpcClient, options)));
+    expect(JSON.parse(json)).toMatchObject({
+      wallets: ["walletA"],
+      from: "2025-01-01T00:00:00Z",
+      to: "2025-01-31T23:59:59Z",
+      costBasisMethod: "fifo",
+    });
+    expect(taxExportFileName(options, "json")).toBe("quickscope-trades-2025-01-01_2025-01-31.json");
+  });
+
+  it("looks up SOL prices once per minute and counts rows it couldn't price", async () => {
+    const call = jest.fn(async (method: string, params: unknown[]) => {
+      if (method === "public/getSolPriceAtTime") {
+        if (params[0] === JAN_1) return 180;
+        throw new Error("price unavailable");
+      }
+      return {
+        table: {
+          rows: [
+            row({ ts: JAN_1 + 5, quote_asset_price_usd: 0, signature: "a", index: "1" }),
+            row({ ts: JAN_1 + 59, quote_asset_price_usd: 0, signature: "b", index: "2" }),
+            row({ ts: JAN_1 + 60, quote_asset_price_usd: 0, signature: "c", index: "3" }),
+            // Already priced, or a withdrawal — no lookup needed
+            row({ ts: JAN_1 + 120, signature: "d", index: "4" }),
+            row({ ts: JAN_1 + 180, type: "w", quote_asset_price_usd: 0, signature: "e", index: "5" }),
+          ],
+        },
+      };
+    });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    const result = await fetchTaxExport(rpcClient, { wallets: ["walletA"], ...RANGE });
+
+    const priceCalls = call.mock.calls.filter(([method]) => method === "public/getSolPriceAtTime");
+    expect(priceCalls.map(([, params]) => params)).toEqual([[JAN_1], [JAN_1 + 60]]);
+    expect(result.records.map((r) => r.costBasisUsd)).toEqual([180, 180, null, 200, null]);
+    expect(result.missingUsdPriceCount).toBe(1);
+  });
+});
@@ -0,0 +1,333 @@
+import type { RpcTransport } from "../rpc";
+import {
+  fetchTransactionHistoryPages,
+  type TransactionRow,
+  type TransactionsResponse,
+} from "./portfolioService";
+import { computeRealizedPnl, transactionUsdValue, type CostBasisMethod, type RealizedSell } from "./realizedPnl";
+
+/**
+ * Trade history export for accountants — one record per transaction row in
+ * the common crypto-tax layout (date, side, asset, qty, proceeds, cost basis,
+ * tx hash), rendered as CSV or JSON. History rows carry no fee data, so there
+ * is no fee column.
+ *
+ * History is fetched from the first trade up to `toTs` so sells inside the
+ * range match against lots bought before it; only rows inside the range are
+ * written. Lots are tracked per wallet. Output depends only on the input rows,
+ * so the same history always renders byte-identical files.
+ *
+ * Rows without a quote price are priced from the SOL price at the start of
+ * their minute. When that lookup fails, the row's USD columns are left empty
+ * and flagged rather than written as $0 — and so is the cost basis of every
+ * later sell that may close a lot opened by such a row.
+ */
+
+// ── Types ──
+
+export type TaxExportFormat = "csv" | "json";
+
+export type TaxExportSide = "buy" | "sell" | "transfer_in" | "transfer_out";
+
+export type TaxExportRecord = {
+  /** ISO 8601, UTC */
+  date: string;
+  side: TaxExportSide;
+  /** Token symbol, or the mint when metadata is missing */
+  asset: string;
+  mint: string;
+  quantity: number;
+  /** Sells only */
+  proceedsUsd: number | null;
+  /** Buys: amount paid. Sells: cost of the lots closed, null when they predate the history */
+  costBasisUsd: number | null;
+  txHash: string;
+  wallet: string;
+  /** A USD value here depends on a trade whose SOL price couldn't be fetched; those columns are empty */
+  missingUsdPrice: boolean;
+};
+
+export type TaxExportOptions = {
+  wallets: string[];
+  /** Inclusive bounds, unix seconds */
+  fromTs: number;
+  toTs: number;
+  method?: CostBasisMethod;
+};
+
+export type TaxExport = TaxExportOptions & {
+  records: TaxExportRecord[];
+  /** History hit the row cap — the oldest lots may be missing */
+  truncated: boolean;
+  /** Records flagged with `missingUsdPrice` */
+  missingUsdPriceCount: number;
+};
+
+type TokenInfoMap = NonNullable<TransactionsResponse["mint_to_token_info"]>;
+
+const SIDES: Record<TransactionRow["type"], TaxExportSide> = {
+  b: "buy",
+  s: "sell",
+  d: "transfer_in",
+  w: "transfer_out",
+};
+
+const SIDE_LABELS: Record<TaxExportSide, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  transfer_in: "Transfer In",
+  transfer_out: "Transfer Out",
+};
+
+const CSV_COLUMNS = [
+  "Date",
+  "Type",
+  "Asset",
+  "Mint",
+  "Quantity",
+  "Proceeds (USD)",
+  "Cost Basis (USD)",
+  "Tx Hash",
+  "Wallet",
+  "Note",
+];
+
+const MISSING_USD_PRICE_NOTE = "Missing SOL price";
+
+const EXPORT_MAX_ROWS = 20_000;
+const EXPORT_PAGE_SIZE = 500;
+const SOL_PRICE_CONCURRENCY = 8;
+/** Historical SOL prices are looked up once per minute of trades, not per trade */
+const SOL_PRICE_BUCKET_SECONDS = 60;
+const QUANTITY_DECIMALS = 9;
+const USD_DECIMALS = 2;
+
+// ── Helpers ──
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function rowKey(row: { signature: string; index: string }): string {
+  return `${row.signature}:${row.index}`;
+}
+
+function compareRows(a: TransactionRow, b: TransactionRow): number {
+  return (
+    a.ts - b.ts ||
+    a.index.localeCompare(b.index, undefined, { numeric: true }) ||
+    a.maker.localeCompare(b.maker)
+  );
+}
+
+function toIsoDate(ts: number): string {
+  return new Date(ts * 1000).toISOString().replace(".000Z", "Z");
+}
+
+/** Start of the minute a trade falls in — the key historical SOL prices are fetched and looked up by. */
+function solPriceBucket(ts: number): number {
+  return ts - (ts % SOL_PRICE_BUCKET_SECONDS);
+}
+
+/** Rows whose USD value the export uses: trades, and deposits, which open lots. Withdrawals carry no value. */
+function isValuedRow(row: TransactionRow): boolean {
+  return row.type !== "w";
+}
+
+function opensLot(row: TransactionRow): boolean {
+  return row.type === "b" || row.type === "d";
+}
+
+/** Valued rows with no USD value to be had — no quote price, or no quote amount to apply it to. */
+function isUnpricedRow(row: TransactionRow): boolean {
+  return isValuedRow(row) && (!row.quote_asset_price_usd || !(row.amount_quote || row.price));
+}
+
+/** Unique minute buckets of valued rows without a quote price — only these need a historical SOL price. */
+export function missingQuotePriceTimestamps(rows: TransactionRow[]): number[] {
+  const timestamps = new Set<number>();
+  for (const row of rows) {
+    if (isValuedRow(row) && !row.quote_asset_price_usd) timestamps.add(solPriceBucket(row.ts));
+  }
+  return [...timestamps].sort((a, b) => a - b);
+}
+
+/** Fill missing quote prices from SOL prices keyed by minute bucket. Rows whose bucket has no price stay unpriced. */
+export function applyHistoricalSolPrices(
+  rows: TransactionRow[],
+  solPriceByBucket: Record<number, number>
+): TransactionRow[] {
+  return rows.map((row) => {
+    const solPriceUsd = solPriceByBucket[solPriceBucket(row.ts)];
+    return row.quote_asset_price_usd || !solPriceUsd ? row : { ...row, quote_asset_price_usd: solPriceUsd };
+  });
+}
+
+export function buildTaxRecords(
+  rows: TransactionRow[],
+  tokenInfo: TokenInfoMap,
+  { fromTs, toTs, method = "fifo" }: Pick<TaxExportOptions, "fromTs" | "toTs" | "method">
+): TaxExportRecord[] {
+  const rowsByWallet = new Map<string, TransactionRow[]>();
+  for (const row of rows) {
+    const walletRows = rowsByWallet.get(row.maker) ?? [];
+    walletRows.push(row);
+    rowsByWallet.set(row.maker, walletRows);
+  }
+
+  const sells = new Map<string, RealizedSell>();
+  for (const walletRows of rowsByWallet.values()) {
+    for (const sell of computeRealizedPnl(walletRows, { method }).sells) {
+      sells.set(rowKey(sell), sell);
+    }
+  }
+
+  // Once a wallet holds lots opened at an unknown value (a buy or a deposit),
+  // its later sells of that token can't be costed — whichever lots they close
+  const unpricedLots = new Set<string>();
+  const uncostedSells = new Set<string>();
+  for (const row of [...rows].sort(compareRows)) {
+    const lotKey = `${row.maker}:${row.mint}`;
+    if (opensLot(row) && isUnpricedRow(row)) unpricedLots.add(lotKey);
+    else if (row.type === "s" && unpricedLots.has(lotKey)) uncostedSells.add(rowKey(row));
+  }
+
+  return rows
+    .filter((row) => row.ts >= fromTs && row.ts <= toTs && row.amount_base !== 0)
+    .sort(compareRows)
+    .map((row) => {
+      const side = SIDES[row.type];
+      const unpriced = isUnpricedRow(row);
+      const uncosted = uncostedSells.has(rowKey(row));
+      const value = unpriced ? null : transactionUsdValue(row);
+      const valueUsd = value === null ? null : Math.abs(value);
+      const sell = side === "sell" ? sells.get(rowKey(row)) : undefined;
+
+      let costBasisUsd: number | null = null;
+      if (side === "buy") costBasisUsd = valueUsd;
+      else if (sell && sell.unmatchedTokens === 0 && !uncosted) costBasisUsd = sell.costBasisUsd;
+
+      return {
+        date: toIsoDate(row.ts),
+        side,
+        asset: tokenInfo[row.mint]?.token_metadata?.symbol ?? row.mint,
+        mint: row.mint,
+        quantity: round(Math.abs(row.amount_base), QUANTITY_DECIMALS),
+        proceedsUsd: side === "sell" && valueUsd !== null ? round(valueUsd, USD_DECIMALS) : null,
+        costBasisUsd: costBasisUsd === null ? null : round(costBasisUsd, USD_DECIMALS),
+        txHash: row.signature,
+        wallet: row.maker,
+        missingUsdPrice: unpriced || uncosted,
+      };
+    });
+}
+
+// ── Rendering ──
+
+/** Plain decimal notation — `String(1e-7)` would read "1e-7" in a spreadsheet. */
+function formatDecimal(value: number): string {
+  return value.toFixed(QUANTITY_DECIMALS).replace(/\.?0+$/, "");
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = typeof value === "number" ? formatDecimal(value) : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderTaxCsv(records: TaxExportRecord[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const r of records) {
+    lines.push(
+      [
+        r.date,
+        SIDE_LABELS[r.side],
+        r.asset,
+        r.mint,
+        r.quantity,
+        r.proceedsUsd,
+        r.costBasisUsd,
+        r.txHash,
+        r.wallet,
+        r.missingUsdPrice ? MISSING_USD_PRICE_NOTE : null,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderTaxJson(taxExport: TaxExport): string {
+  const { wallets, fromTs, toTs, method = "fifo", truncated, missingUsdPriceCount, records } = taxExport;
+  const payload = {
+    wallets,
+    from: toIsoDate(fromTs),
+    to: toIsoDate(toTs),
+    costBasisMethod: method,
+    truncated,
+    missingUsdPriceCount,
+    records,
+  };
+  return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+export function renderTaxExport(taxExport: TaxExport, format: TaxExportFormat): string {
+  return format === "csv" ? renderTaxCsv(taxExport.records) : renderTaxJson(taxExport);
+}
+
+/** e.g. `quickscope-trades-2025-01-01_2025-12-31.csv` */
+export function taxExportFileName({ fromTs, toTs }: TaxExportOptions, format: TaxExportFormat): string {
+  const day = (ts: number) => toIsoDate(ts).slice(0, 10);
+  return `quickscope-trades-${day(fromTs)}_${day(toTs)}.${format}`;
+}
+
+// ── API ──
+
+export async function fetchSolPriceAtTime(rpcClient: RpcTransport, ts: number): Promise<number> {
+  const price = await rpcClient.call<number | string>("public/getSolPriceAtTime", [ts]);
+  return Number(price) || 0;
+}
+
+/** Failed lookups are left out; their rows stay unpriced and are flagged in the export. */
+async function fetchSolPrices(
+  rpcClient: RpcTransport,
+  timestamps: number[]
+): Promise<Record<number, number>> {
+  const prices: Record<number, number> = {};
+  for (let i = 0; i < timestamps.length; i += SOL_PRICE_CONCURRENCY) {
+    const batch = timestamps.slice(i, i + SOL_PRICE_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((ts) => fetchSolPriceAtTime(rpcClient, ts)));
+    results.forEach((result, j) => {
+      if (result.status === "fulfilled") prices[batch[j]] = result.value;
+    });
+  }
+  return prices;
+}
+
+export async function fetchTaxExport(
+  rpcClient: RpcTransport,
+  options: TaxExportOptions
+): Promise<TaxExport> {
+  if (options.wallets.length === 0) {
+    throw new Error("No wallets selected.");
+  }
+
+  const history = await fetchTransactionHistoryPages(rpcClient, options.wallets, {
+    toTs: options.toTs,
+    pageSize: EXPORT_PAGE_SIZE,
+    maxRows: EXPORT_MAX_ROWS,
+  });
+  const rawRows = history.table?.rows ?? [];
+  const solPrices = await fetchSolPrices(rpcClient, missingQuotePriceTimestamps(rawRows));
+  const rows = applyHistoricalSolPrices(rawRows, solPrices);
+
+  const records = buildTaxRecords(rows, history.mint_to_token_info ?? {}, options);
+  return {
+    ...options,
+    records,
+    truncated: rawRows.length >= EXPORT_MAX_ROWS,
+    missingUsdPriceCount: records.filter((record) => record.missingUsdPrice).length,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import type { RpcTransport } from "../rpc";
+
+import {
+  buildHeatmapGrid,
+  fetchTraderHeatmap,
+  heatmapWindowOf,
+  isInHeatmapWindow,
+} from "./traderHeatmap";
+
+const HOUR = 3600;
+const WEDNESDAY_MIDNIGHT_UTC = 1_700_006_400;
+
+describe("heatmapWindowOf", () => {
+  it("maps timestamps to a Monday-first weekday and hour", () => {
+    expect(heatmapWindowOf(WEDNESDAY_MIDNIGHT_UTC + 14 * HOUR)).toEqual({ weekday: 2, hour: 14 });
+  });
+
+  it("shifts into the given time zone", () => {
+    // 23:00 UTC Wednesday is 01:00 Thursday at UTC+2
+    expect(heatmapWindowOf(WEDNESDAY_MIDNIGHT_UTC + 23 * HOUR, 120)).toEqual({ weekday: 3, hour: 1 });
+    expect(isInHeatmapWindow(WEDNESDAY_MIDNIGHT_UTC + 23 * HOUR, { weekday: 3, hour: 1 }, 120)).toBe(true);
+  });
+});
+
+describe("buildHeatmapGrid", () => {
+  const rows = [
+    { ts: WEDNESDAY_MIDNIGHT_UTC + 9 * HOUR, buy_count: 2, sell_count: 1, buy_volume_usd: 100, realized_pnl_usd: -40 },
+    { ts: WEDNESDAY_MIDNIGHT_UTC + 9 * HOUR + 600, sell_count: 1, sell_volume_usd: 50, realized_pnl_usd: 10 },
+    { ts: WEDNESDAY_MIDNIGHT_UTC + 7 * 24 * HOUR, buy_count: "4" as unknown as number },
+  ];
+
+  it("sums each metric per weekday/hour cell", () => {
+    const trades = buildHeatmapGrid(rows, "trades");
+    expect(trades.values[2][9]).toBe(4);
+    // A week later lands in the same Wednesday-midnight cell
+    expect(trades.values[2][0]).toBe(4);
+    expect(trades.maxAbs).toBe(4);
+
+    expect(buildHeatmapGrid(rows, "volume").values[2][9]).toBe(150);
+  });
+
+  it("scales PnL by magnitude so losses show", () => {
+    const pnl = buildHeatmapGrid(rows, "pnl");
+    expect(pnl.values[2][9]).toBe(-30);
+    expect(pnl.maxAbs).toBe(30);
+    expect(buildHeatmapGrid([], "pnl").maxAbs).toBe(0);
+  });
+});
+
+describe("fetchTraderHeatmap", () => {
+  it("accepts a bare array or a rows wrapper", async () => {
+    const call = jest
+      .fn()
+      .mockResolvedValueOnce([{ ts: 1 }, { ts: "bad" }])
+      .mockResolvedValueOnce({ rows: [{ ts: 2 }] });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    expect(await fetchTraderHeatmap(rpcClient, "Wallet1")).toEqual([{ ts: 1 }]);
+    expect(await fetchTraderHeatmap(rpcClient, "Wallet1")).toEqual([{ ts: 2 }]);
+    expect(call).toHaveBeenCalledWith("public/getTraderHeatmap", ["Wallet1"]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { RpcTransport } from "../rpc";
+import { toNumber } from "../utils";
+
+/* ── Types ── */
+
+/** One activity bucket from public/getTraderHeatmap. */
+export type TraderHeatmapRow = {
+  /** Bucket start, unix seconds */
+  ts: number;
+  buy_count?: number;
+  sell_count?: number;
+  buy_volume_usd?: number;
+  sell_volume_usd?: number;
+  realized_pnl_usd?: number;
+};
+
+type TraderHeatmapResponse = TraderHeatmapRow[] | { rows?: TraderHeatmapRow[] } | null;
+
+export type HeatmapMetric = "trades" | "volume" | "pnl";
+
+/** A weekday × hour slot. `weekday` is 0 for Monday through 6 for Sunday. */
+export type HeatmapWindow = {
+  weekday: number;
+  hour: number;
+};
+
+export type HeatmapGrid = {
+  /** `values[weekday][hour]` */
+  values: number[][];
+  /** Largest absolute cell value, for scaling colors; 0 when empty */
+  maxAbs: number;
+};
+
+export const HEATMAP_WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
+
+/* ── API ── */
+
+export async function fetchTraderHeatmap(
+  rpcClient: RpcTransport,
+  account: string
+): Promise<TraderHeatmapRow[]> {
+  const params = { account };
+  const response = await rpcClient.call<TraderHeatmapResponse>(
+    "public/getTraderHeatmap",
+    Object.values(params)
+  );
+  const rows = Array.isArray(response) ? response : (response?.rows ?? []);
+  return rows.filter((row) => Number.isFinite(Number(row?.ts)));
+}
+
+/* ── Grid ── */
+
+/**
+ * The weekday/hour slot of a timestamp, in the zone `utcOffsetMinutes` ahead
+ * of UTC (pass `-new Date().getTimezoneOffset()` for device local time).
+ */
+export function heatmapWindowOf(ts: number, utcOffsetMinutes = 0): HeatmapWindow {
+  const shifted = new Date((ts + utcOffsetMinutes * 60) * 1000);
+  return {
+    weekday: (shifted.getUTCDay() + 6) % 7,
+    hour: shifted.getUTCHours(),
+  };
+}
+
+export function isInHeatmapWindow(ts: number, window: HeatmapWindow, utcOffsetMinutes = 0): boolean {
+  const slot = heatmapWindowOf(ts, utcOffsetMinutes);
+  return slot.weekday === window.weekday && slot.hour === window.hour;
+}
+
+function metricValue(row: TraderHeatmapRow, metric: HeatmapMetric): number {
+  switch (metric) {
+    case "trades":
+      return toNumber(row.buy_count) + toNumber(row.sell_count);
+    case "volume":
+      return toNumber(row.buy_volume_usd) + toNumber(row.sell_volume_usd);
+    case "pnl":
+      return toNumber(row.realized_pnl_usd);
+  }
+}
+
+/** Fold heatmap rows into a 7 × 24 weekday/hour grid for one metric. */
+export function buildHeatmapGrid(
+  rows: TraderHeatmapRow[],
+  metric: HeatmapMetric,
+  utcOffsetMinutes = 0
+): HeatmapGrid {
+  const values = HEATMAP_WEEKDAYS.map(() => new Array<number>(24).fill(0));
+
+  for (const row of rows) {
+    const { weekday, hour } = heatmapWindowOf(toNumber(row.ts), utcOffsetMinutes);
+    values[weekday][hour] += metricValue(row, metric);
+  }
+
+  const maxAbs = Math.max(0, ...values.flat().map(Math.abs));
+  return { values, maxAbs };
+}
@@ -1,4 +1,4 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
 
 /* ── Types ── */
 
@@ -72,51 +72,51 @@ export const MIN_CLAIMABLE_REWARDS = 0.01;
 /* ── API calls ── */
 
 export async function fetchCumulativeEarnings(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<CumulativeEarnings> {
   return rpcClient.call<CumulativeEarnings>("private/getCumulativeEarnings", []);
 }
 
 export async function fetchUserClaimInfo(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<UserClaimInfo> {
   return rpcClient.call<UserClaimInfo>("private/getUserClaimInfo", []);
 }
 
 export async function requestClaim(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<boolean> {
   return rpcClient.call<boolean>("tx/requestClaim", []);
 }
 
 export async function fetchReferralCode(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<string> {
   return rpcClient.call<string>("private/getReferralCode", []);
 }
 
 export async function setReferralCode(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   referralCode: string
 ): Promise<boolean> {
   return rpcClient.call<boolean>("private/setReferralCode", [{ referralCode }]);
 }
 
 export async function fetchEarningsByMint(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   filter?: EarningsByMintFilter
 ): Promise<EarningsByMint[]> {
   return rpcClient.call<EarningsByMint[]>("private/getEarningsByMint", [filter ?? {}]);
 }
 
 export async function fetchReferralRates(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<ReferralRates> {
   return rpcClient.call<ReferralRates>("private/getReferralRates", []);
 }
 
 export async function fetchClaimHistory(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   filter?: ClaimHistoryFilter
 ): Promise<ClaimInfo[]> {
   return rpcClient.call<ClaimInfo[]>("private/getClaimHistory", [filter ?? {}]);
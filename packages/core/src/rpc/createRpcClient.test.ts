@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { createRpcClient } from "./createRpcClient";
+import { RpcError } from "./errors";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  } as Response;
+}
+
+describe("createRpcClient", () => {
+  it("posts { method, params } and unwraps the result", async () => {
+    const fetchImpl = jest.fn(async () => jsonResponse({ result: { ok: true } }));
+    const client = createRpcClient({ apiHost: "https://api.test", fetch: fetchImpl });
+
+    await expect(client.call("public/ping", [1])).resolves.toEqual({ ok: true });
+    expect(fetchImpl).toHaveBeenCalledWith(
+      "https://api.test/public/ping",
+      expect.objectContaining({
+        method: "POST",
+        credentials: "include",
+        body: JSON.stringify({ method: "public/ping", params: [1] }),
+      })
+    );
+  });
+
+  it("throws RpcError with the server code", async () => {
+    const client = createRpcClient({
+      apiHost: "https://api.test",
+      fetch: async () => jsonResponse({ error: { code: -32602, message: "bad params" } }),
+    });
+
+    const error = await client.call("public/ping", []).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(RpcError);
+    expect((error as RpcError).code).toBe(-32602);
+  });
+
+  it("shares one refresh across concurrent -32600 failures and retries once", async () => {
+    let authed = false;
+    const fetchImpl = jest.fn(async () =>
+      jsonResponse(authed ? { result: "ok" } : { error: { code: -32600, message: "auth" } })
+    );
+    const refresh = jest.fn(async () => {
+      authed = true;
+      return true;
+    });
+    const client = createRpcClient({ apiHost: "https://api.test", fetch: fetchImpl });
+    client.setAuthFailureHandler(refresh);
+
+    await expect(Promise.all([client.call("private/a", []), client.call("private/b", [])])).resolves.toEqual([
+      "ok",
+      "ok",
+    ]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(fetchImpl).toHaveBeenCalledTimes(4);
+  });
+
+  it("never refreshes for auth/* methods", async () => {
+    const refresh = jest.fn(async () => true);
+    const client = createRpcClient({
+      apiHost: "https://api.test",
+      fetch: async () => jsonResponse({ error: { code: -32600, message: "auth" } }),
+      onAuthFailure: refresh,
+    });
+
+    await expect(client.call("auth/refresh", [])).rejects.toThrow("RPC -32600: auth");
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
@@ -1,39 +1,128 @@
-import { RpcCall, RpcResponse } from "./types";
+import { RPC_AUTH_REQUIRED_CODE, RpcError } from "./errors";
+import type { RpcCallOptions, RpcResponse, RpcTransport } from "./types";
 
-type CreateRpcClientConfig = {
+/** Attempts a session refresh; resolves true when the failed call may be retried. */
+export type AuthFailureHandler = () => Promise<boolean>;
+
+export type CreateRpcClientConfig = {
   apiHost: string;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /**
+   * Runs after every response, before the body is parsed — the iOS app uses
+   * it to mirror native cookies into its JS jar.
+   */
+  onResponse?: (response: Response) => void | Promise<void>;
+  /** See `setAuthFailureHandler`. */
+  onAuthFailure?: AuthFailureHandler | null;
+  /** Debug logging; silent when omitted. */
+  log?: (message: string) => void;
+};
+
+export type RpcClientTransport = RpcTransport & {
+  /**
+   * Register a handler invoked when a request fails with -32600 (auth
+   * required). Calls to `auth/*` methods never trigger it, since the handler
+   * itself calls auth/refresh.
+   */
+  setAuthFailureHandler(handler: AuthFailureHandler | null): void;
 };
 
-export function createRpcClient({ apiHost }: CreateRpcClientConfig): { call: RpcCall } {
-  const call: RpcCall = async <T>(method: string, params: unknown[]) => {
-    const response = await fetch(`${apiHost}/${method}`, {
+/**
+ * Platform-agnostic Quickscope RPC transport.
+ *
+ * Requests go out with `credentials: "include"` so cookie auth works in
+ * browsers and on iOS. On -32600 the auth-failure handler runs once and the
+ * call is retried; concurrent failures share a single refresh.
+ */
+export function createRpcClient({
+  apiHost,
+  fetch: fetchImpl = fetch,
+  onResponse,
+  onAuthFailure = null,
+  log,
+}: CreateRpcClientConfig): RpcClientTransport {
+  let authFailureHandler = onAuthFailure;
+
+  /**
+   * Promise-based refresh lock. When a refresh is in-flight, all concurrent
+   * callers that also hit -32600 await the SAME promise rather than triggering
+   * duplicate refreshes.
+   */
+  let refreshPromise: Promise<boolean> | null = null;
+
+  async function refreshSession(handler: AuthFailureHandler): Promise<boolean> {
+    if (!refreshPromise) {
+      refreshPromise = handler().finally(() => {
+        refreshPromise = null;
+      });
+    }
+    return refreshPromise;
+  }
+
+  async function send<T>(
+    method: string,
+    params: unknown[],
+    options: RpcCallOptions | undefined,
+    retryDepth: number
+  ): Promise<T> {
+    log?.(`→ ${method} (depth=${retryDepth})`);
+
+    const response = await fetchImpl(`${apiHost}/${method}`, {
       method: "POST",
       credentials: "include",
-      headers: {
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        method,
-        params,
-      }),
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ method, params }),
+      signal: options?.signal,
     });
 
+    await onResponse?.(response);
+
     const json = (await response.json()) as RpcResponse<T>;
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+      throw new RpcError(response.status, `HTTP ${response.status}`);
     }
 
     if (json.error) {
-      throw new Error(`RPC ${json.error.code}: ${json.error.message}`);
+      const handler = authFailureHandler;
+      if (
+        json.error.code === RPC_AUTH_REQUIRED_CODE &&
+        handler &&
+        retryDepth < 1 &&
+        !method.startsWith("auth/")
+      ) {
+        log?.(`-32600 on ${method}, ${refreshPromise ? "joining existing" : "starting new"} refresh`);
+
+        let refreshed = false;
+        try {
+          refreshed = await refreshSession(handler);
+        } catch {
+          // Refresh itself failed — fall through to throw the original error
+          log?.(`Refresh failed for ${method}`);
+        }
+
+        if (refreshed) {
+          log?.(`Refresh succeeded, retrying ${method}`);
+          return send<T>(method, params, options, retryDepth + 1);
+        }
+      }
+
+      throw new RpcError(json.error.code, json.error.message);
     }
 
     if (json.result === undefined) {
-      throw new Error("RPC response missing result");
+      throw new RpcError(-1, "RPC response missing result");
     }
 
     return json.result;
-  };
+  }
 
-  return { call };
+  return {
+    call: <T>(method: string, params: unknown[], options?: RpcCallOptions) =>
+      send<T>(method, params, options, 0),
+    setAuthFailureHandler(handler) {
+      authFailureHandler = handler;
+    },
+  };
 }
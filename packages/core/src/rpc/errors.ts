@@ -0,0 +1,16 @@
+/** JSON-RPC code the API returns when the session cookie is missing or expired. */
+export const RPC_AUTH_REQUIRED_CODE = -32600;
+
+/**
+ * Structured RPC error with a numeric `.code` property.
+ * Callers can `instanceof RpcError` and switch on `.code` instead of parsing strings.
+ * HTTP failures use the status as the code; a missing result uses -1.
+ */
+export class RpcError extends Error {
+  readonly code: number;
+  constructor(code: number, message: string) {
+    super(`RPC ${code}: ${message}`);
+    this.name = "RpcError";
+    this.code = code;
+  }
+}
@@ -1,2 +1,8 @@
 export { createRpcClient } from "./createRpcClient";
-export type { RpcCall, RpcErrorShape, RpcResponse } from "./types";
+export type {
+  AuthFailureHandler,
+  CreateRpcClientConfig,
+  RpcClientTransport,
+} from "./createRpcClient";
+export { RPC_AUTH_REQUIRED_CODE, RpcError } from "./errors";
+export type { RpcCall, RpcCallOptions, RpcErrorShape, RpcResponse, RpcTransport } from "./types";
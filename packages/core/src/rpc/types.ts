@@ -8,4 +8,18 @@ export type RpcResponse<T> = {
   error?: RpcErrorShape;
 };
 
-export type RpcCall = <T>(method: string, params: unknown[]) => Promise<T>;
+export type RpcCallOptions = {
+  /** Abort the underlying fetch — e.g. a search superseded by a newer query. */
+  signal?: AbortSignal;
+};
+
+export type RpcCall = <T>(method: string, params: unknown[], options?: RpcCallOptions) => Promise<T>;
+
+/**
+ * Anything that can issue a Quickscope RPC. The SDK's method wrappers only
+ * depend on this, so the app's cookie-aware client and a plain
+ * `createRpcClient` transport are interchangeable.
+ */
+export type RpcTransport = {
+  call: RpcCall;
+};
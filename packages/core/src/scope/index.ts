@@ -0,0 +1,2 @@
+export * from "./scopeService";
+export * from "./scopePresets";
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import {
+  SCOPE_PRESETS_DASHBOARD_SLOT,
+  dashboardWithPresets,
+  parseScopePresets,
+  presetsFromDashboard,
+  removeScopePreset,
+  sanitizeScopeFilters,
+  upsertScopePreset,
+  type ScopeFilterPreset,
+} from "./scopePresets";
+
+function preset(id: string, name: string, overrides: Partial<ScopeFilterPreset> = {}): ScopeFilterPreset {
+  return { id, name, tab: "new", filters: {}, updatedAt: 1, ...overrides };
+}
+
+describe("sanitizeScopeFilters", () => {
+  it("keeps known keys with valid values only", () => {
+    expect(
+      sanitizeScopeFilters({
+        minMarketCapSol: 10,
+        maxMarketCapSol: "500",
+        minAgeSec: Number.NaN,
+        hasTwitter: true,
+        hasWebsite: false,
+        exchanges: ["p", 3, "b"],
+        sortColumn: "mint_ts",
+      })
+    ).toEqual({ minMarketCapSol: 10, hasTwitter: true, exchanges: ["p", "b"] });
+  });
+});
+
+describe("parseScopePresets", () => {
+  it("drops malformed entries and duplicate ids", () => {
+    expect(
+      parseScopePresets([
+        { id: "a", name: " Fresh ", tab: "new", filters: { minHolderCount: 50 }, updatedAt: 5 },
+        { id: "a", name: "Dup", tab: "new" },
+        { id: "b", name: "Bad tab", tab: "trending" },
+        { id: "c", name: "", tab: "scans" },
+        null,
+      ])
+    ).toEqual([{ id: "a", name: "Fresh", tab: "new", filters: { minHolderCount: 50 }, updatedAt: 5 }]);
+    expect(parseScopePresets("nope")).toEqual([]);
+  });
+});
+
+describe("dashboard round trip", () => {
+  it("stores presets in the reserved slot and keeps the nonce and other settings", () => {
+    const current = { slot: SCOPE_PRESETS_DASHBOARD_SLOT, nonce: 7, settings: { other: 1 } };
+    const presets = [preset("a", "Fresh", { filters: { hasTelegram: true } })];
+
+    const dashboard = dashboardWithPresets(presets, current);
+
+    expect(dashboard).toMatchObject({
+      slot: SCOPE_PRESETS_DASHBOARD_SLOT,
+      nonce: 7,
+      settings: { other: 1 },
+    });
+    expect(presetsFromDashboard(dashboard)).toEqual(presets);
+    expect(presetsFromDashboard(undefined)).toEqual([]);
+  });
+});
+
+describe("upsertScopePreset", () => {
+  it("replaces a preset with the same tab and name, keeping its id", () => {
+    const presets = [preset("a", "Fresh"), preset("b", "Fresh", { tab: "scans" })];
+    const next = upsertScopePreset(presets, preset("z", "fresh", { filters: { minTxCount: 10 } }));
+
+    expect(next).toEqual([
+      preset("a", "fresh", { filters: { minTxCount: 10 } }),
+      preset("b", "Fresh", { tab: "scans" }),
+    ]);
+  });
+
+  it("appends new presets and removes by id", () => {
+    const next = upsertScopePreset([preset("a", "Fresh")], preset("b", "Bonded"));
+    expect(next.map((p) => p.id)).toEqual(["a", "b"]);
+    expect(removeScopePreset(next, "a").map((p) => p.id)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,150 @@
+import type { DashboardV2 } from "../dashboard";
+import type { ScopeFilters, ScopeTabId } from "./scopeService";
+
+// ── Types ──
+
+export type ScopeFilterPreset = {
+  id: string;
+  name: string;
+  tab: ScopeTabId;
+  filters: ScopeFilters;
+  /** Unix ms */
+  updatedAt: number;
+};
+
+/**
+ * Dashboard slot that holds the mobile Scope presets. Desktop grids use the
+ * low slots, so this one is left alone by the web terminal.
+ */
+export const SCOPE_PRESETS_DASHBOARD_SLOT = 900;
+
+const PRESETS_SETTINGS_KEY = "scopePresets";
+
+const SCOPE_TABS: readonly ScopeTabId[] = ["new", "graduating", "graduated", "scans"];
+
+const NUMERIC_FILTER_KEYS = [
+  "minMarketCapSol",
+  "maxMarketCapSol",
+  "minVolumeSol",
+  "maxVolumeSol",
+  "minAgeSec",
+  "maxAgeSec",
+  "minTxCount",
+  "maxTxCount",
+  "minHolderCount",
+  "maxHolderCount",
+  "minTop25Pct",
+  "maxTop25Pct",
+  "minDevPct",
+  "maxDevPct",
+  "minBondingCurvePct",
+  "maxBondingCurvePct",
+  "minTwitterFollowers",
+  "maxTwitterFollowers",
+] as const satisfies readonly (keyof ScopeFilters)[];
+
+const BOOLEAN_FILTER_KEYS = [
+  "hasTwitter",
+  "hasTelegram",
+  "hasWebsite",
+] as const satisfies readonly (keyof ScopeFilters)[];
+
+// ── Helpers ──
+
+export function isScopeTabId(value: unknown): value is ScopeTabId {
+  return SCOPE_TABS.includes(value as ScopeTabId);
+}
+
+/** Keep only known filter keys with values of the right type — stored data may be stale or hand-edited. */
+export function sanitizeScopeFilters(raw: unknown): ScopeFilters {
+  if (!raw || typeof raw !== "object") return {};
+  const source = raw as Record<string, unknown>;
+  const filters: ScopeFilters = {};
+
+  for (const key of NUMERIC_FILTER_KEYS) {
+    const value = source[key];
+    if (typeof value === "number" && Number.isFinite(value)) filters[key] = value;
+  }
+  for (const key of BOOLEAN_FILTER_KEYS) {
+    if (source[key] === true) filters[key] = true;
+  }
+  if (Array.isArray(source.exchanges)) {
+    filters.exchanges = source.exchanges.filter((code): code is string => typeof code === "string");
+  }
+
+  return filters;
+}
+
+function toPreset(raw: unknown): ScopeFilterPreset | null {
+  if (!raw || typeof raw !== "object") return null;
+  const source = raw as Record<string, unknown>;
+  const name = typeof source.name === "string" ? source.name.trim() : "";
+
+  if (typeof source.id !== "string" || !source.id || !name || !isScopeTabId(source.tab)) {
+    return null;
+  }
+
+  return {
+    id: source.id,
+    name,
+    tab: source.tab,
+    filters: sanitizeScopeFilters(source.filters),
+    updatedAt: typeof source.updatedAt === "number" ? source.updatedAt : 0,
+  };
+}
+
+/** Validate a stored preset list; malformed entries and duplicate ids are dropped. */
+export function parseScopePresets(raw: unknown): ScopeFilterPreset[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const presets: ScopeFilterPreset[] = [];
+  for (const entry of raw) {
+    const preset = toPreset(entry);
+    if (!preset || seen.has(preset.id)) continue;
+    seen.add(preset.id);
+    presets.push(preset);
+  }
+  return presets;
+}
+
+export function presetsFromDashboard(dashboard: DashboardV2 | null | undefined): ScopeFilterPreset[] {
+  return parseScopePresets(dashboard?.settings?.[PRESETS_SETTINGS_KEY]);
+}
+
+/** The dashboard to write for `presets`, keeping the current nonce and any other settings. */
+export function dashboardWithPresets(
+  presets: ScopeFilterPreset[],
+  current?: DashboardV2 | null
+): DashboardV2 {
+  return {
+    ...current,
+    slot: SCOPE_PRESETS_DASHBOARD_SLOT,
+    name: current?.name ?? "Mobile Scope presets",
+    settings: { ...current?.settings, [PRESETS_SETTINGS_KEY]: presets },
+  };
+}
+
+/**
+ * Insert or replace a preset. A preset with the same tab and name (ignoring
+ * case) is overwritten, so re-saving "Fresh pumps" updates it in place.
+ */
+export function upsertScopePreset(
+  presets: ScopeFilterPreset[],
+  preset: ScopeFilterPreset
+): ScopeFilterPreset[] {
+  const name = preset.name.toLowerCase();
+  const index = presets.findIndex(
+    (p) => p.id === preset.id || (p.tab === preset.tab && p.name.toLowerCase() === name)
+  );
+
+  if (index === -1) return [...presets, preset];
+
+  const next = [...presets];
+  next[index] = { ...preset, id: presets[index].id };
+  return next;
+}
+
+export function removeScopePreset(presets: ScopeFilterPreset[], id: string): ScopeFilterPreset[] {
+  return presets.filter((p) => p.id !== id);
+}
@@ -0,0 +1,201 @@
+/**
+ * @jest-environment node
+ */
+import type { RpcTransport } from "../rpc";
+
+import {
+  extractScopeRows,
+  fetchScopeTokens,
+  mergeScopeRows,
+  scopeUpdateSolPrice,
+  type ScopeToken,
+} from "./scopeService";
+
+describe("fetchScopeTokens", () => {
+  it.each([
+    ["new", "mint_ts"],
+    ["graduating", "market_cap_sol"],
+    ["graduated", "pair_creation_ts"],
+    ["scans", "telegram_mentions_1h"],
+  ] as const)("uses expected sort config for %s", async (tab, sortColumn) => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      table: {
+        rows: [],
+      },
+    });
+
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    const result = await fetchScopeTokens(rpcClient, tab);
+
+    expect(call).toHaveBeenCalledWith("public/filterTokensTableMemescope", [
+      expect.objectContaining({
+        filter: expect.objectContaining({
+          sort_column: sortColumn,
+          sort_order: false,
+          row_limit: 20,
+        }),
+      }),
+    ]);
+    expect(result.tab).toBe(tab);
+    expect(result.rows).toEqual([]);
+  });
+
+  it("applies a sort override", async () => {
+    const call = jest.fn().mockResolvedValue({ sol_price_usd: 100, table: { rows: [] } });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await fetchScopeTokens(rpcClient, "new", undefined, undefined, {
+      column: "market_cap_sol",
+      descending: false,
+    });
+
+    expect(call.mock.calls[0][1][0].filter).toMatchObject({
+      sort_column: "market_cap_sol",
+      sort_order: true,
+    });
+  });
+
+  it("requests later pages by offset and reports whether more may follow", async () => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      table: { rows: [{ mint: "a" }, { mint: "a" }] },
+    });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    const result = await fetchScopeTokens(rpcClient, "new", undefined, undefined, undefined, {
+      limit: 2,
+      offset: 20,
+    });
+
+    expect(call.mock.calls[0][1][0].filter).toMatchObject({ row_limit: 2, row_offset: 20 });
+    expect(result.rows).toHaveLength(1);
+    expect(result).toMatchObject({ nextOffset: 22, hasMore: true });
+  });
+
+  it("maps rpc rows into ui-friendly scope tokens", async () => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      table: {
+        rows: [
+          {
+            mint: "So11111111111111111111111111111111111111112",
+            symbol: "SOL",
+            name: "Solana",
+            image_uri: "https://example.com/sol.png",
+            platform: "raydium",
+            exchange: "raydium",
+            mint_ts: 1_770_000_000,
+            market_cap_sol: 1234.5,
+            one_hour_tx_count: 812,
+            one_hour_volume_sol: 45.67,
+            one_hour_change: 0.123,
+            telegram_mentions_1h: 98,
+            decimals: 6,
+          },
+        ],
+      },
+    });
+
+    const rpcClient = { call } as unknown as RpcTransport;
+    const result = await fetchScopeTokens(rpcClient, "graduating");
+
+    expect(result.rows[0]).toEqual({
+      mint: "So11111111111111111111111111111111111111112",
+      symbol: "SOL",
+      name: "Solana",
+      imageUri: "https://example.com/sol.png",
+      platform: "raydium",
+      exchange: "raydium",
+      mintedAtSeconds: 1_770_000_000,
+      marketCapUsd: 123_450,
+      oneHourTxCount: 812,
+      oneHourVolumeUsd: 4567,
+      oneHourChangePercent: 12.3,
+      scanMentionsOneHour: 98,
+      tokenDecimals: 6,
+    });
+  });
+
+  it("drops duplicate and hidden mints", async () => {
+    const call = jest.fn().mockResolvedValue({
+      sol_price_usd: 100,
+      table: {
+        rows: [
+          { mint: "MintA", symbol: "A", name: "A" },
+          { mint: "MintB", symbol: "B", name: "B" },
+          { mint: "MintA", symbol: "A", name: "A" },
+          { mint: "MintC", symbol: "C", name: "C" },
+        ],
+      },
+    });
+
+    const rpcClient = { call } as unknown as RpcTransport;
+    const result = await fetchScopeTokens(rpcClient, "new", undefined, new Set(["MintB"]));
+
+    expect(result.rows.map((row) => row.mint)).toEqual(["MintA", "MintC"]);
+  });
+});
+
+describe("live scope updates", () => {
+  function token(mint: string, marketCapUsd = 0): ScopeToken {
+    return {
+      mint,
+      symbol: mint,
+      name: mint,
+      mintedAtSeconds: 0,
+      marketCapUsd,
+      oneHourTxCount: 0,
+      oneHourVolumeUsd: 0,
+      oneHourChangePercent: 0,
+      scanMentionsOneHour: 0,
+    };
+  }
+
+  it("extracts rows from single, batched and table-shaped payloads", () => {
+    const row = { mint: "MintA", symbol: "A", name: "A", market_cap_sol: 2, sol_price_usd: 0 };
+
+    expect(extractScopeRows(row as never, 100)[0].marketCapUsd).toBe(200);
+    expect(extractScopeRows([row, { symbol: "nomint" }] as never, 100)).toHaveLength(1);
+    expect(
+      extractScopeRows({ sol_price_usd: 50, table: { rows: [row] } } as never)[0].marketCapUsd,
+    ).toBe(100);
+    expect(extractScopeRows(null)).toEqual([]);
+  });
+
+  it("drops rows with no SOL price to value them", () => {
+    const unpriced = { mint: "MintA", market_cap_sol: 2 };
+    const priced = { mint: "MintB", market_cap_sol: 2, sol_price_usd: 150 };
+
+    expect(extractScopeRows([unpriced, priced] as never).map((row) => row.mint)).toEqual(["MintB"]);
+    expect(extractScopeRows([unpriced, priced] as never, 100).map((row) => row.marketCapUsd)).toEqual([
+      200, 300,
+    ]);
+  });
+
+  it("reads the SOL price from the payload, then its rows", () => {
+    expect(scopeUpdateSolPrice({ sol_price_usd: 50, rows: [{ mint: "A", sol_price_usd: 60 }] } as never)).toBe(50);
+    expect(scopeUpdateSolPrice([{ mint: "A" }, { mint: "B", sol_price_usd: 60 }] as never)).toBe(60);
+    expect(scopeUpdateSolPrice({ mint: "A" } as never)).toBe(0);
+    expect(scopeUpdateSolPrice(undefined)).toBe(0);
+  });
+
+  it("updates known mints in place and adds new ones on top", () => {
+    const existing = [token("MintA", 1), token("MintB", 2)];
+    const merged = mergeScopeRows(
+      existing,
+      [token("MintB", 20), token("MintC"), token("MintD"), token("MintE")],
+      4,
+      new Set(["MintE"]),
+    );
+
+    expect(merged.map((row) => row.mint)).toEqual(["MintD", "MintC", "MintA", "MintB"]);
+    expect(merged[3].marketCapUsd).toBe(20);
+  });
+
+  it("returns the same list when nothing arrives", () => {
+    const existing = [token("MintA")];
+    expect(mergeScopeRows(existing, [])).toBe(existing);
+  });
+});
@@ -1,4 +1,5 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
+import { toNumber, toOptionalInteger, type PageParams } from "../utils";
 
 // ── Tab & filter types ──
 
@@ -29,6 +30,25 @@ export type ScopeFilters = {
   hasWebsite?: boolean;
 };
 
+/** A sort override for a tab; tabs sort by their own default column otherwise. */
+export type ScopeSort = {
+  column: string;
+  descending: boolean;
+};
+
+/** Memescope columns the mobile Scope list can sort by. */
+export const SCOPE_SORT_COLUMNS = [
+  "mint_ts",
+  "pair_creation_ts",
+  "market_cap_sol",
+  "one_hour_volume_sol",
+  "one_hour_tx_count",
+  "one_hour_change",
+  "holder_count",
+  "bonding_curve_progress",
+  "telegram_mentions_1h",
+] as const;
+
 // ── Exchange / launchpad constants ──
 
 export const LAUNCHPADS = {
@@ -115,7 +135,7 @@ const tabConfigs: Record<ScopeTabId, TabConfig> = {
 type NumericFilter = { column: string; min?: number; max?: number };
 type StringFilter = { column: string; values: string[] };
 
-type ScopeTokenRow = {
+export type ScopeTokenRow = {
   mint: string;
   symbol: string;
   name: string;
@@ -182,23 +202,16 @@ type ScopeResult = {
   tab: ScopeTabId;
   fetchedAtMs: number;
   rows: ScopeToken[];
+  /** Offset of the page after this one */
+  nextOffset: number;
+  /** The server filled the page, so another may follow */
+  hasMore: boolean;
+  /** Response-level SOL price, 0 when missing — prices live rows that carry none */
+  solPriceUsd: number;
 };
 
 // ── Helpers ──
 
-function toNumber(value: unknown): number {
-  const numeric = Number(value);
-  return Number.isFinite(numeric) ? numeric : 0;
-}
-
-function toOptionalInteger(value: unknown): number | undefined {
-  const numeric = Number(value);
-  if (!Number.isInteger(numeric) || numeric < 0) {
-    return undefined;
-  }
-  return numeric;
-}
-
 export function buildNumericFilters(
   filters?: ScopeFilters,
 ): NumericFilter[] | undefined {
@@ -275,67 +288,174 @@ export function buildStringFilters(
   return result.length > 0 ? result : undefined;
 }
 
-// ── Main fetch ──
+// ── Memescope filter ──
 
-export async function fetchScopeTokens(
-  rpcClient: RpcClient,
+/** Rows per Scope page; live updates keep the list at this size. */
+export const SCOPE_ROW_LIMIT = 20;
+
+/** The memescope filter for a tab — shared by the table query and the live subscription. */
+export function buildMemescopeFilter(
   tab: ScopeTabId,
   filters?: ScopeFilters,
-): Promise<ScopeResult> {
+  sort?: ScopeSort,
+  page?: Partial<PageParams>,
+) {
   const config = tabConfigs[tab];
+  const offset = page?.offset ?? 0;
 
   const numeric_filters = buildNumericFilters(filters);
   const string_filters = buildStringFilters(config.defaultStringFilters, filters);
 
+  return {
+    sort_column: sort?.column ?? config.sortColumn,
+    sort_order: !(sort?.descending ?? config.sortOrderDescending),
+    row_limit: page?.limit ?? SCOPE_ROW_LIMIT,
+    ...(offset > 0 ? { row_offset: offset } : null),
+    ...(numeric_filters ? { numeric_filters } : null),
+    ...(string_filters ? { string_filters } : null),
+  };
+}
+
+/** Map a memescope row; `fallbackSolPrice` covers rows without their own sol_price_usd. */
+export function mapScopeRow(row: ScopeTokenRow, fallbackSolPrice: number): ScopeToken {
+  const tokenDecimals = toOptionalInteger(row.decimals);
+  const solPriceUsd = toNumber(row.sol_price_usd) || fallbackSolPrice;
+
+  return {
+    mint: row.mint,
+    symbol: row.symbol,
+    name: row.name,
+    imageUri: row.image_uri,
+    platform: row.platform,
+    exchange: row.exchange,
+    mintedAtSeconds: toNumber(row.mint_ts),
+    marketCapUsd: toNumber(row.market_cap_sol) * solPriceUsd,
+    oneHourTxCount: toNumber(row.total_tx) || toNumber(row.one_hour_tx_count),
+    oneHourVolumeUsd: (toNumber(row.sol_volume_cumulative) * solPriceUsd) || (toNumber(row.one_hour_volume_sol) * solPriceUsd),
+    oneHourChangePercent: toNumber(row.one_hour_change) * 100,
+    scanMentionsOneHour: toNumber(row.telegram_mentions_1h),
+    ...(tokenDecimals !== undefined ? { tokenDecimals } : null),
+    // Holder analytics from memescope endpoint
+    holderCount: toOptionalInteger(row.holders),
+    devHoldingsPct: row.dev_holdings_proportion != null ? toNumber(row.dev_holdings_proportion) : undefined,
+    top25Pct: row.top_25_holdings_proportion != null ? toNumber(row.top_25_holdings_proportion) : undefined,
+    bondingCurvePct: row.bonding_curve_progress != null ? toNumber(row.bonding_curve_progress) : undefined,
+    botCount: toOptionalInteger(row.bot_holders),
+    insiderCount: toOptionalInteger(row.bundler_holders),
+  };
+}
+
+// ── Main fetch ──
+
+export async function fetchScopeTokens(
+  rpcClient: RpcTransport,
+  tab: ScopeTabId,
+  filters?: ScopeFilters,
+  /** Mints the user has hidden — dropped from the rows */
+  hiddenMints?: ReadonlySet<string>,
+  sort?: ScopeSort,
+  /** Defaults to the first page of SCOPE_ROW_LIMIT rows */
+  page?: Partial<PageParams>,
+): Promise<ScopeResult> {
+  const limit = page?.limit ?? SCOPE_ROW_LIMIT;
+  const offset = page?.offset ?? 0;
   const response = await rpcClient.call<ScopeTableResponse>("public/filterTokensTableMemescope", [
-    {
-      filter: {
-        sort_column: config.sortColumn,
-        sort_order: !config.sortOrderDescending,
-        row_limit: 20,
-        ...(numeric_filters ? { numeric_filters } : null),
-        ...(string_filters ? { string_filters } : null),
-      },
-    },
+    { filter: buildMemescopeFilter(tab, filters, sort, { limit, offset }) },
   ]);
 
   // Memescope endpoint includes sol_price_usd per row; fall back to response-level
   const fallbackSolPrice = toNumber(response.sol_price_usd);
+  const rawRows = response.table?.rows ?? [];
 
   const seen = new Set<string>();
   return {
     tab,
     fetchedAtMs: Date.now(),
-    rows: (response.table?.rows ?? []).filter((row) => {
-      if (seen.has(row.mint)) return false;
+    // Paging follows the raw page, so hidden or duplicate rows don't end the feed early
+    nextOffset: offset + rawRows.length,
+    hasMore: rawRows.length >= limit,
+    solPriceUsd: fallbackSolPrice,
+    rows: rawRows.filter((row) => {
+      if (seen.has(row.mint) || hiddenMints?.has(row.mint)) return false;
       seen.add(row.mint);
       return true;
-    }).map((row) => {
-      const tokenDecimals = toOptionalInteger(row.decimals);
-      const solPriceUsd = toNumber(row.sol_price_usd) || fallbackSolPrice;
-
-      return {
-        mint: row.mint,
-        symbol: row.symbol,
-        name: row.name,
-        imageUri: row.image_uri,
-        platform: row.platform,
-        exchange: row.exchange,
-        mintedAtSeconds: toNumber(row.mint_ts),
-        marketCapUsd: toNumber(row.market_cap_sol) * solPriceUsd,
-        oneHourTxCount: toNumber(row.total_tx) || toNumber(row.one_hour_tx_count),
-        oneHourVolumeUsd: (toNumber(row.sol_volume_cumulative) * solPriceUsd) || (toNumber(row.one_hour_volume_sol) * solPriceUsd),
-        oneHourChangePercent: toNumber(row.one_hour_change) * 100,
-        scanMentionsOneHour: toNumber(row.telegram_mentions_1h),
-        ...(tokenDecimals !== undefined ? { tokenDecimals } : null),
-        // Holder analytics from memescope endpoint
-        holderCount: toOptionalInteger(row.holders),
-        devHoldingsPct: row.dev_holdings_proportion != null ? toNumber(row.dev_holdings_proportion) : undefined,
-        top25Pct: row.top_25_holdings_proportion != null ? toNumber(row.top_25_holdings_proportion) : undefined,
-        bondingCurvePct: row.bonding_curve_progress != null ? toNumber(row.bonding_curve_progress) : undefined,
-        botCount: toOptionalInteger(row.bot_holders),
-        insiderCount: toOptionalInteger(row.bundler_holders),
-      };
-    }),
+    }).map((row) => mapScopeRow(row, fallbackSolPrice)),
   };
 }
+
+// ── Live updates (public/memescopeFilterUpdates) ──
+
+/**
+ * Payload of a `public/memescopeFilterUpdates` message: a single row, a batch,
+ * or a table-shaped snapshot like the query response.
+ */
+export type ScopeRowUpdate =
+  | ScopeTokenRow
+  | ScopeTokenRow[]
+  | { sol_price_usd?: number; rows?: ScopeTokenRow[]; table?: { rows?: ScopeTokenRow[] } };
+
+/** Subscription params for live rows matching a tab and its filters. */
+export function buildScopeSubscriptionParams(
+  tab: ScopeTabId,
+  filters?: ScopeFilters,
+  sort?: ScopeSort,
+): unknown[] {
+  return [{ filter: buildMemescopeFilter(tab, filters, sort) }];
+}
+
+function unpackScopeUpdate(update: ScopeRowUpdate): { rows: ScopeTokenRow[]; solPriceUsd: number } {
+  if (Array.isArray(update)) return { rows: update, solPriceUsd: 0 };
+  if ("mint" in update) return { rows: [update], solPriceUsd: 0 };
+  return { rows: update.rows ?? update.table?.rows ?? [], solPriceUsd: toNumber(update.sol_price_usd) };
+}
+
+/** SOL price carried by an update — payload-level, else from its rows; 0 when it has none. */
+export function scopeUpdateSolPrice(update: ScopeRowUpdate | null | undefined): number {
+  if (!update) return 0;
+  const { rows, solPriceUsd } = unpackScopeUpdate(update);
+  return solPriceUsd || rows.map((row) => toNumber(row?.sol_price_usd)).find((price) => price > 0) || 0;
+}
+
+/**
+ * Map every row in an update. Rows without a mint are dropped, and so are rows
+ * with no SOL price — their own, the payload's or `fallbackSolPrice` — since
+ * they would show as $0.
+ */
+export function extractScopeRows(
+  update: ScopeRowUpdate | null | undefined,
+  fallbackSolPrice = 0,
+): ScopeToken[] {
+  if (!update) return [];
+
+  const { rows, solPriceUsd } = unpackScopeUpdate(update);
+  const solPrice = solPriceUsd || fallbackSolPrice;
+  return rows
+    .filter((row) => Boolean(row?.mint) && (toNumber(row.sol_price_usd) || solPrice) > 0)
+    .map((row) => mapScopeRow(row, solPrice));
+}
+
+/**
+ * Apply live rows to the current list: known mints are updated in place, new
+ * mints are added on top, hidden mints are dropped, and the list is capped at
+ * `limit`.
+ */
+export function mergeScopeRows(
+  existing: ScopeToken[],
+  incoming: ScopeToken[],
+  limit = SCOPE_ROW_LIMIT,
+  hiddenMints?: ReadonlySet<string>,
+): ScopeToken[] {
+  if (incoming.length === 0) return existing;
+
+  const updates = new Map<string, ScopeToken>();
+  for (const row of incoming) {
+    if (!hiddenMints?.has(row.mint)) updates.set(row.mint, row);
+  }
+
+  const known = new Set(existing.map((row) => row.mint));
+  // Newest update first among the additions
+  const added = [...updates.values()].filter((row) => !known.has(row.mint)).reverse();
+  const updated = existing.map((row) => updates.get(row.mint) ?? row);
+
+  return [...added, ...updated].slice(0, limit);
+}
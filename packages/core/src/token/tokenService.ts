@@ -1,4 +1,5 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
+import { toNumber } from "../utils";
 
 export type TokenMetadata = {
   name?: string;
@@ -61,11 +62,6 @@ export type TokenCandlePoint = {
   volume?: number;
 };
 
-function toNumber(value: unknown): number {
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : 0;
-}
-
 function deriveSupplyFromInfo(
   info?: LiveTokenInfo,
   candlesResponse?: TokenCandlesResponse
@@ -90,6 +86,17 @@ function deriveSupplyFromInfo(
   return undefined;
 }
 
+/** Live market cap in USD — price × supply in whole tokens. Undefined when either is missing. */
+export function liveMarketCapUsd(info?: LiveTokenInfo | null): number | undefined {
+  const priceUsd = info?.token_price_info?.price_usd;
+  const supplyInfo = deriveSupplyFromInfo(info ?? undefined);
+  if (priceUsd === undefined || !Number.isFinite(priceUsd) || !supplyInfo) {
+    return undefined;
+  }
+
+  return priceUsd * (supplyInfo.supply / Math.pow(10, supplyInfo.decimals));
+}
+
 export function buildMarketCapSeries({
   candles,
   tokenInfo,
@@ -192,7 +199,7 @@ export function buildPriceCandles(candles: TokenCandle[]): TokenCandlePoint[] {
 }
 
 export async function fetchLiveTokenInfo(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   tokenAddress: string
 ): Promise<LiveTokenInfo | null> {
   if (!tokenAddress) {
@@ -203,7 +210,7 @@ export async function fetchLiveTokenInfo(
 }
 
 export async function fetchLiveTokenInfos(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   tokenAddresses: string[]
 ): Promise<Record<string, LiveTokenInfo>> {
   if (!tokenAddresses || tokenAddresses.length === 0) {
@@ -222,7 +229,7 @@ export async function fetchLiveTokenInfos(
 }
 
 export async function fetchTokenCandles(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   params: {
     tokenAddress: string;
     from: number;
@@ -241,7 +248,7 @@ export async function fetchTokenCandles(
 }
 
 export async function fetchTokenCandlesReverse(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   params: {
     tokenAddress: string;
     before: number;
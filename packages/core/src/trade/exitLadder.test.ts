@@ -0,0 +1,270 @@
+/**
+ * @jest-environment node
+ */
+import type { RpcTransport } from "../rpc";
+import {
+  buildExitLadderOrders,
+  createExitLadder,
+  exitLadderCancellations,
+  exitLadderStopLossResize,
+  groupOrdersByExitLadder,
+  isExitLadderSettled,
+  parseExitLadders,
+  replaceExitLadderStopLoss,
+  resizedStopLossParams,
+  validateExitLadder,
+  type BuildExitLadderParams,
+  type ExitLadder,
+  type ExitLadderLevel,
+} from "./exitLadder";
+import type { TriggerOrder } from "./triggerOrderService";
+
+const PARAMS: BuildExitLadderParams = {
+  walletAddress: "Wallet111",
+  mint: "MintA",
+  tokenDecimals: 6,
+  expiresIn: 604_800,
+  slippageBps: 1500,
+  priorityFeeLamports: 100_000,
+  jitoTipLamports: 0,
+  positionAmountUi: 1_000,
+  entryMarketCapUsd: 100_000,
+  tokenSupply: 1_000_000_000,
+};
+
+const LEVELS: ExitLadderLevel[] = [
+  { kind: "take_profit", sellPercent: 50, target: { type: "multiple", value: 2 } },
+  { kind: "take_profit", sellPercent: 25, target: { type: "market_cap", valueUsd: 500_000 } },
+  { kind: "stop_loss", sellPercent: 100, target: { type: "multiple", value: 0.6 } },
+];
+
+const LADDER: ExitLadder = {
+  id: "tp1",
+  walletAddress: "Wallet111",
+  mint: "MintA",
+  entryMarketCapUsd: 100_000,
+  createdAt: 1_700_000_000,
+  expiresAt: 1_700_604_800,
+  orders: [
+    { uuid: "tp1", kind: "take_profit", sellPercent: 60, triggerMarketCapUsd: 200_000 },
+    { uuid: "tp2", kind: "take_profit", sellPercent: 40, triggerMarketCapUsd: 500_000 },
+    { uuid: "sl", kind: "stop_loss", sellPercent: 100, triggerMarketCapUsd: 60_000 },
+  ],
+  positionAmountUi: 1_000,
+  stopLossParams: {
+    walletAddress: "Wallet111",
+    mint: "MintA",
+    orderType: "stop_loss",
+    tokenDecimals: 6,
+    triggerPriceUSD: 0.00006,
+    slippageBps: 1500,
+    priorityFeeLamports: 100_000,
+    jitoTipLamports: 0,
+  },
+};
+
+function order(uuid: string): TriggerOrder {
+  return {
+    uuid,
+    userAccount: "Wallet111",
+    orderType: "limit_sell",
+    mint: "MintA",
+    inputAmount: "1000000",
+    initialPriceUSD: 0.0001,
+    triggerPriceUSD: 0.0002,
+    expiresAt: 1_700_604_800,
+    createdAt: 1_700_000_000,
+    updatedAt: 1_700_000_000,
+    status: "active",
+    priorityFeeLamports: "0",
+    jitoTipLamports: "0",
+    slippageBps: 1500,
+    signature: null,
+  };
+}
+
+describe("validateExitLadder", () => {
+  it("accepts take-profits above entry and a stop-loss below", () => {
+    expect(validateExitLadder(LEVELS, 100_000)).toBeNull();
+  });
+
+  it("rejects targets on the wrong side of entry", () => {
+    expect(
+      validateExitLadder(
+        [{ kind: "take_profit", sellPercent: 50, target: { type: "multiple", value: 0.9 } }],
+        100_000
+      )
+    ).toMatch(/above the entry/);
+    expect(
+      validateExitLadder(
+        [{ kind: "stop_loss", sellPercent: 100, target: { type: "market_cap", valueUsd: 120_000 } }],
+        100_000
+      )
+    ).toMatch(/below the entry/);
+  });
+
+  it("caps take-profits at the whole position and allows one stop-loss", () => {
+    expect(
+      validateExitLadder(
+        [
+          { kind: "take_profit", sellPercent: 60, target: { type: "multiple", value: 2 } },
+          { kind: "take_profit", sellPercent: 50, target: { type: "multiple", value: 3 } },
+        ],
+        100_000
+      )
+    ).toMatch(/at most 100%/);
+    expect(validateExitLadder([LEVELS[2], LEVELS[2]], 100_000)).toMatch(/only one stop-loss/);
+  });
+});
+
+describe("buildExitLadderOrders", () => {
+  it("maps levels to sized limit-sell and stop-loss orders", () => {
+    const orders = buildExitLadderOrders(LEVELS, { ...PARAMS, positionAmountUi: 1_000.0000019 });
+
+    expect(orders.map((o) => o.orderType)).toEqual(["limit_sell", "limit_sell", "stop_loss"]);
+    expect(orders.map((o) => o.inputAmount)).toEqual([500, 250, 1_000.000001]);
+    expect(orders[0].triggerPriceUSD).toBeCloseTo(0.0002);
+    expect(orders[1].triggerPriceUSD).toBeCloseTo(0.0005);
+    expect(orders[2].triggerPriceUSD).toBeCloseTo(0.00006);
+    expect(orders[0]).toMatchObject({ walletAddress: "Wallet111", mint: "MintA", slippageBps: 1500 });
+  });
+});
+
+describe("createExitLadder", () => {
+  it("places every level and records them as one ladder", async () => {
+    const call = jest
+      .fn()
+      .mockResolvedValueOnce({ uuid: "a" })
+      .mockResolvedValueOnce({ uuid: "b" })
+      .mockResolvedValueOnce({ uuid: "c" });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    const ladder = await createExitLadder(rpcClient, LEVELS, PARAMS);
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(call.mock.calls[2][1][0]).toMatchObject({ order_type: "stop_loss", input_amount: 1_000 });
+    expect(ladder).toMatchObject({ id: "a", mint: "MintA", entryMarketCapUsd: 100_000 });
+    expect(ladder.expiresAt - ladder.createdAt).toBe(604_800);
+    expect(ladder.orders).toEqual([
+      { uuid: "a", kind: "take_profit", sellPercent: 50, triggerMarketCapUsd: 200_000 },
+      { uuid: "b", kind: "take_profit", sellPercent: 25, triggerMarketCapUsd: 500_000 },
+      { uuid: "c", kind: "stop_loss", sellPercent: 100, triggerMarketCapUsd: 60_000 },
+    ]);
+    expect(ladder.positionAmountUi).toBe(1_000);
+    expect(ladder.stopLossParams).toMatchObject({ orderType: "stop_loss", tokenDecimals: 6, slippageBps: 1500 });
+  });
+
+  it("cancels the placed orders when a later level fails", async () => {
+    const call = jest
+      .fn()
+      .mockResolvedValueOnce({ uuid: "a" })
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockResolvedValue(null);
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await expect(createExitLadder(rpcClient, LEVELS, PARAMS)).rejects.toThrow("rate limited");
+    expect(call).toHaveBeenLastCalledWith("tx/cancelTriggerOrder", ["a"]);
+  });
+
+  it("rejects an invalid ladder without placing anything", async () => {
+    const call = jest.fn();
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await expect(createExitLadder(rpcClient, [], PARAMS)).rejects.toThrow("Add at least one");
+    expect(call).not.toHaveBeenCalled();
+  });
+});
+
+describe("exitLadderCancellations", () => {
+  it("cancels open take-profits once the stop-loss fills", () => {
+    expect(exitLadderCancellations(LADDER, { sl: "filled", tp1: "active" })).toEqual(["tp1", "tp2"]);
+    expect(exitLadderCancellations(LADDER, { sl: "filled", tp1: "filled", tp2: "executing" })).toEqual(
+      []
+    );
+  });
+
+  it("cancels the stop-loss once take-profits sold the whole position", () => {
+    expect(exitLadderCancellations(LADDER, { tp1: "filled" })).toEqual([]);
+    expect(exitLadderCancellations(LADDER, { tp1: "filled", tp2: "filled", sl: "active" })).toEqual([
+      "sl",
+    ]);
+  });
+
+  it("does nothing while the stop-loss is merely executing", () => {
+    expect(exitLadderCancellations(LADDER, { sl: "executing" })).toEqual([]);
+  });
+});
+
+describe("exitLadderStopLossResize", () => {
+  it("shrinks the stop-loss to what filled take-profits left", () => {
+    const resized = replaceExitLadderStopLoss(LADDER, { uuid: "sl2", sellPercent: 40 });
+    expect(exitLadderStopLossResize(LADDER, { tp1: "filled" })).toBe(40);
+    expect(exitLadderStopLossResize(resized, { tp1: "filled" })).toBeNull();
+  });
+
+  it("leaves it alone before any fill, once it's executing, or once the position is gone", () => {
+    expect(exitLadderStopLossResize(LADDER, { tp1: "active" })).toBeNull();
+    expect(exitLadderStopLossResize(LADDER, { tp1: "filled", sl: "executing" })).toBeNull();
+    expect(exitLadderStopLossResize(LADDER, { tp1: "filled", tp2: "filled" })).toBeNull();
+  });
+});
+
+describe("resizedStopLossParams", () => {
+  it("sizes the replacement from the position for the ladder's remaining lifetime", () => {
+    expect(resizedStopLossParams(LADDER, 40, 1_700_004_800)).toEqual({
+      ...LADDER.stopLossParams,
+      inputAmount: 400,
+      expiresIn: 600_000,
+    });
+  });
+
+  it("returns null for expired ladders", () => {
+    expect(resizedStopLossParams(LADDER, 40, 1_700_604_800)).toBeNull();
+  });
+});
+
+describe("replaceExitLadderStopLoss", () => {
+  it("swaps only the stop-loss entry", () => {
+    expect(replaceExitLadderStopLoss(LADDER, { uuid: "sl2", sellPercent: 40 }).orders).toEqual([
+      LADDER.orders[0],
+      LADDER.orders[1],
+      { uuid: "sl2", kind: "stop_loss", sellPercent: 40, triggerMarketCapUsd: 60_000 },
+    ]);
+  });
+});
+
+describe("isExitLadderSettled", () => {
+  it("settles when every order is terminal or the ladder expired", () => {
+    expect(isExitLadderSettled(LADDER, { tp1: "filled", sl: "filled" }, 1_700_000_100)).toBe(false);
+    expect(
+      isExitLadderSettled(LADDER, { tp1: "filled", tp2: "cancelled", sl: "filled" }, 1_700_000_100)
+    ).toBe(true);
+    expect(isExitLadderSettled(LADDER, {}, 1_700_604_800)).toBe(true);
+  });
+});
+
+describe("groupOrdersByExitLadder", () => {
+  it("gathers ladder orders by trigger market cap where the first one appears", () => {
+    const groups = groupOrdersByExitLadder(
+      [order("x"), order("sl"), order("y"), order("tp1"), order("tp2")],
+      [LADDER]
+    );
+
+    expect(groups.map((g) => [g.ladder?.id ?? null, g.orders.map((o) => o.uuid)])).toEqual([
+      [null, ["x"]],
+      ["tp1", ["tp2", "tp1", "sl"]],
+      [null, ["y"]],
+    ]);
+  });
+});
+
+describe("parseExitLadders", () => {
+  it("round-trips ladders and drops malformed entries", () => {
+    expect(parseExitLadders(JSON.parse(JSON.stringify([LADDER, { id: 1 }, null])))).toEqual([LADDER]);
+    // A stop-loss can't be re-sized without its placement params; take-profits alone need none
+    const withoutStopLossParams = { ...LADDER, stopLossParams: undefined };
+    const takeProfitsOnly = { ...withoutStopLossParams, orders: LADDER.orders.slice(0, 2) };
+    expect(parseExitLadders([withoutStopLossParams, takeProfitsOnly])).toEqual([takeProfitsOnly]);
+    expect(parseExitLadders("nope")).toEqual([]);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Exit ladders — take-profit / stop-loss trigger orders placed together
+ * after a buy and tracked as one group.
+ *
+ * Each level sells a percentage of the bought position at a target market
+ * cap (absolute, or a multiple of the entry market cap). Take-profits become
+ * `limit_sell` orders and the stop-loss a `stop_loss` order. The group is
+ * one-cancels-the-others: once the stop-loss fills, the open take-profits
+ * are cancelled, and once the take-profits have sold the whole position,
+ * the stop-loss is cancelled. In between, each filled take-profit shrinks
+ * the stop-loss to what's left of the position, so it never tries to sell
+ * more than the wallet still holds.
+ */
+import type { RpcTransport } from "../rpc";
+import {
+  calcTriggerPrice,
+  cancelTriggerOrder,
+  createTriggerOrder,
+  isTerminalOrderStatus,
+  type CreateTriggerOrderParams,
+  type OrderStatus,
+  type TriggerOrder,
+} from "./triggerOrderService";
+
+// ── Types ────────────────────────────────────────
+
+export type ExitLevelKind = "take_profit" | "stop_loss";
+
+export type ExitLevelTarget =
+  | { type: "market_cap"; valueUsd: number }
+  | { type: "multiple"; value: number };
+
+export type ExitLadderLevel = {
+  kind: ExitLevelKind;
+  /** Share of the bought position to sell, 0–100 */
+  sellPercent: number;
+  target: ExitLevelTarget;
+};
+
+/** A placed ladder, persisted on device so its orders can be grouped and cancelled together. */
+export type ExitLadder = {
+  id: string;
+  walletAddress: string;
+  mint: string;
+  entryMarketCapUsd: number;
+  /** Unix seconds */
+  createdAt: number;
+  /** Unix seconds — when the ladder's orders expire */
+  expiresAt: number;
+  orders: {
+    uuid: string;
+    kind: ExitLevelKind;
+    sellPercent: number;
+    triggerMarketCapUsd: number;
+  }[];
+  /** Tokens received by the buy, in UI units — the base for re-sizing the stop-loss */
+  positionAmountUi: number;
+  /** How the stop-loss was placed, minus size and lifetime, so it can be re-placed smaller; absent without one */
+  stopLossParams?: Omit<CreateTriggerOrderParams, "inputAmount" | "expiresIn">;
+};
+
+export type BuildExitLadderParams = Omit<CreateTriggerOrderParams, "orderType" | "inputAmount" | "triggerPriceUSD"> & {
+  /** Tokens received by the buy, in UI units */
+  positionAmountUi: number;
+  entryMarketCapUsd: number;
+  tokenSupply: number;
+};
+
+export const MAX_EXIT_LADDER_LEVELS = 6;
+
+// ── Levels ───────────────────────────────────────
+
+/** The market cap a level triggers at, for a position bought at `entryMarketCapUsd`. */
+export function exitLevelMarketCap(level: ExitLadderLevel, entryMarketCapUsd: number): number {
+  return level.target.type === "market_cap"
+    ? level.target.valueUsd
+    : entryMarketCapUsd * level.target.value;
+}
+
+/** First problem with a ladder, as a user-facing message, or null when it can be placed. */
+export function validateExitLadder(levels: ExitLadderLevel[], entryMarketCapUsd: number): string | null {
+  if (levels.length === 0) return "Add at least one exit level.";
+  if (levels.length > MAX_EXIT_LADDER_LEVELS) {
+    return `A ladder can have at most ${MAX_EXIT_LADDER_LEVELS} levels.`;
+  }
+  if (!(entryMarketCapUsd > 0)) return "Market cap is unavailable for this token.";
+
+  const stopLosses = levels.filter((level) => level.kind === "stop_loss");
+  if (stopLosses.length > 1) return "A ladder can have only one stop-loss.";
+
+  for (const level of levels) {
+    if (!(level.sellPercent > 0) || level.sellPercent > 100) {
+      return "Each level must sell between 0% and 100%.";
+    }
+    const marketCap = exitLevelMarketCap(level, entryMarketCapUsd);
+    if (!(marketCap > 0)) return "Each level needs a target.";
+    if (level.kind === "take_profit" && marketCap <= entryMarketCapUsd) {
+      return "Take-profit targets must be above the entry market cap.";
+    }
+    if (level.kind === "stop_loss" && marketCap >= entryMarketCapUsd) {
+      return "The stop-loss target must be below the entry market cap.";
+    }
+  }
+
+  const takeProfitPercent = levels
+    .filter((level) => level.kind === "take_profit")
+    .reduce((acc, level) => acc + level.sellPercent, 0);
+  if (takeProfitPercent > 100) return "Take-profits can sell at most 100% of the position.";
+
+  return null;
+}
+
+/** Trigger order params for each level, in the order given. Amounts are floored to token decimals. */
+export function buildExitLadderOrders(
+  levels: ExitLadderLevel[],
+  { positionAmountUi, entryMarketCapUsd, tokenSupply, ...order }: BuildExitLadderParams
+): CreateTriggerOrderParams[] {
+  return levels.map((level) => ({
+    ...order,
+    orderType: level.kind === "stop_loss" ? "stop_loss" : "limit_sell",
+    inputAmount: exitLevelAmount(positionAmountUi, level.sellPercent, order.tokenDecimals),
+    triggerPriceUSD: calcTriggerPrice(exitLevelMarketCap(level, entryMarketCapUsd), tokenSupply),
+  }));
+}
+
+function exitLevelAmount(positionAmountUi: number, sellPercent: number, tokenDecimals: number): number {
+  const scale = 10 ** tokenDecimals;
+  return Math.floor(((positionAmountUi * sellPercent) / 100) * scale) / scale;
+}
+
+// ── Placement ────────────────────────────────────
+
+/**
+ * Place every level of a ladder. Orders are created one at a time; if one
+ * fails, the ones already placed are cancelled (best effort) and the error
+ * is rethrown, so a ladder is never left half-built.
+ */
+export async function createExitLadder(
+  rpcClient: RpcTransport,
+  levels: ExitLadderLevel[],
+  params: BuildExitLadderParams
+): Promise<ExitLadder> {
+  const invalid = validateExitLadder(levels, params.entryMarketCapUsd);
+  if (invalid) throw new Error(invalid);
+
+  const orderParams = buildExitLadderOrders(levels, params);
+  if (orderParams.some((order) => !(order.inputAmount > 0) || !(order.triggerPriceUSD > 0))) {
+    throw new Error("Position is too small to split into these levels.");
+  }
+
+  const placed: TriggerOrder[] = [];
+  try {
+    for (const order of orderParams) {
+      placed.push(await createTriggerOrder(rpcClient, order));
+    }
+  } catch (err) {
+    await Promise.allSettled(placed.map((order) => cancelTriggerOrder(rpcClient, order.uuid)));
+    throw err;
+  }
+
+  const createdAt = Math.floor(Date.now() / 1000);
+  const stopLossOrder = orderParams.find((order) => order.orderType === "stop_loss");
+  return {
+    id: placed[0].uuid,
+    walletAddress: params.walletAddress,
+    mint: params.mint,
+    entryMarketCapUsd: params.entryMarketCapUsd,
+    createdAt,
+    expiresAt: createdAt + params.expiresIn,
+    orders: placed.map((order, i) => ({
+      uuid: order.uuid,
+      kind: levels[i].kind,
+      sellPercent: levels[i].sellPercent,
+      triggerMarketCapUsd: exitLevelMarketCap(levels[i], params.entryMarketCapUsd),
+    })),
+    positionAmountUi: params.positionAmountUi,
+    stopLossParams: stopLossOrder && {
+      walletAddress: stopLossOrder.walletAddress,
+      mint: stopLossOrder.mint,
+      orderType: stopLossOrder.orderType,
+      tokenDecimals: stopLossOrder.tokenDecimals,
+      triggerPriceUSD: stopLossOrder.triggerPriceUSD,
+      slippageBps: stopLossOrder.slippageBps,
+      priorityFeeLamports: stopLossOrder.priorityFeeLamports,
+      jitoTipLamports: stopLossOrder.jitoTipLamports,
+    },
+  };
+}
+
+// ── One-cancels-the-others ───────────────────────
+
+/**
+ * Orders of `ladder` that should be cancelled given the latest known
+ * statuses: open take-profits once the stop-loss has filled, and the open
+ * stop-loss once filled take-profits add up to the whole position.
+ */
+export function exitLadderCancellations(
+  ladder: ExitLadder,
+  statusById: Record<string, OrderStatus>
+): string[] {
+  const isOpen = (uuid: string) => statusById[uuid] === undefined || statusById[uuid] === "active";
+  const takeProfits = ladder.orders.filter((order) => order.kind === "take_profit");
+  const stopLoss = ladder.orders.find((order) => order.kind === "stop_loss");
+
+  if (stopLoss && statusById[stopLoss.uuid] === "filled") {
+    return takeProfits.filter((order) => isOpen(order.uuid)).map((order) => order.uuid);
+  }
+
+  const soldPercent = filledTakeProfitPercent(ladder, statusById);
+  if (stopLoss && soldPercent >= 100 && isOpen(stopLoss.uuid)) {
+    return [stopLoss.uuid];
+  }
+
+  return [];
+}
+
+function filledTakeProfitPercent(ladder: ExitLadder, statusById: Record<string, OrderStatus>): number {
+  return ladder.orders
+    .filter((order) => order.kind === "take_profit" && statusById[order.uuid] === "filled")
+    .reduce((acc, order) => acc + order.sellPercent, 0);
+}
+
+/**
+ * The share of the position the open stop-loss should sell now that some
+ * take-profits have filled, or null when it's already no larger than what's
+ * left (or there's nothing to re-size).
+ */
+export function exitLadderStopLossResize(
+  ladder: ExitLadder,
+  statusById: Record<string, OrderStatus>
+): number | null {
+  const stopLoss = ladder.orders.find((order) => order.kind === "stop_loss");
+  if (!stopLoss || (statusById[stopLoss.uuid] ?? "active") !== "active") return null;
+
+  const remaining = 100 - filledTakeProfitPercent(ladder, statusById);
+  if (remaining <= 0 || stopLoss.sellPercent <= remaining) return null;
+  return remaining;
+}
+
+/** Params to re-place the ladder's stop-loss at `sellPercent` for the rest of its lifetime, or null if it can't be. */
+export function resizedStopLossParams(
+  ladder: ExitLadder,
+  sellPercent: number,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): CreateTriggerOrderParams | null {
+  const { stopLossParams, positionAmountUi } = ladder;
+  if (!stopLossParams || !positionAmountUi || nowSeconds >= ladder.expiresAt) return null;
+
+  const inputAmount = exitLevelAmount(positionAmountUi, sellPercent, stopLossParams.tokenDecimals);
+  if (!(inputAmount > 0)) return null;
+  return { ...stopLossParams, inputAmount, expiresIn: ladder.expiresAt - nowSeconds };
+}
+
+/** The ladder with its stop-loss swapped for a re-sized replacement order. */
+export function replaceExitLadderStopLoss(
+  ladder: ExitLadder,
+  replacement: { uuid: string; sellPercent: number }
+): ExitLadder {
+  return {
+    ...ladder,
+    orders: ladder.orders.map((order) =>
+      order.kind === "stop_loss" ? { ...order, ...replacement } : order
+    ),
+  };
+}
+
+/** True once every order in the ladder is known to be done, or the ladder has expired. */
+export function isExitLadderSettled(
+  ladder: ExitLadder,
+  statusById: Record<string, OrderStatus>,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): boolean {
+  if (nowSeconds >= ladder.expiresAt) return true;
+  return ladder.orders.every((order) => {
+    const status = statusById[order.uuid];
+    return status !== undefined && isTerminalOrderStatus(status);
+  });
+}
+
+// ── Grouping ─────────────────────────────────────
+
+export type ExitLadderOrderGroup = {
+  /** Null for orders that aren't part of a ladder */
+  ladder: ExitLadder | null;
+  orders: TriggerOrder[];
+};
+
+/**
+ * Group an order list by ladder, keeping list order: a ladder's orders are
+ * gathered where its first order appears, sorted by trigger market cap.
+ */
+export function groupOrdersByExitLadder(
+  orders: TriggerOrder[],
+  ladders: ExitLadder[]
+): ExitLadderOrderGroup[] {
+  const ladderByOrder = new Map<string, ExitLadder>();
+  const triggerMarketCap = new Map<string, number>();
+  for (const ladder of ladders) {
+    for (const order of ladder.orders) {
+      ladderByOrder.set(order.uuid, ladder);
+      triggerMarketCap.set(order.uuid, order.triggerMarketCapUsd);
+    }
+  }
+
+  const groups: ExitLadderOrderGroup[] = [];
+  const groupByLadder = new Map<string, ExitLadderOrderGroup>();
+  for (const order of orders) {
+    const ladder = ladderByOrder.get(order.uuid);
+    if (!ladder) {
+      groups.push({ ladder: null, orders: [order] });
+      continue;
+    }
+    const group = groupByLadder.get(ladder.id);
+    if (group) {
+      group.orders.push(order);
+    } else {
+      const created = { ladder, orders: [order] };
+      groupByLadder.set(ladder.id, created);
+      groups.push(created);
+    }
+  }
+
+  for (const group of groupByLadder.values()) {
+    group.orders.sort(
+      (a, b) => (triggerMarketCap.get(b.uuid) ?? 0) - (triggerMarketCap.get(a.uuid) ?? 0)
+    );
+  }
+  return groups;
+}
+
+// ── Persistence ──────────────────────────────────
+
+function toExitLadder(entry: unknown): ExitLadder | null {
+  if (!entry || typeof entry !== "object") return null;
+  const candidate = entry as Partial<ExitLadder>;
+  if (
+    typeof candidate.id !== "string" ||
+    typeof candidate.walletAddress !== "string" ||
+    typeof candidate.mint !== "string" ||
+    typeof candidate.createdAt !== "number" ||
+    typeof candidate.expiresAt !== "number" ||
+    !Array.isArray(candidate.orders)
+  ) {
+    return null;
+  }
+
+  const orders = candidate.orders.filter(
+    (order) =>
+      order &&
+      typeof order.uuid === "string" &&
+      (order.kind === "take_profit" || order.kind === "stop_loss") &&
+      typeof order.sellPercent === "number" &&
+      typeof order.triggerMarketCapUsd === "number"
+  );
+  if (orders.length === 0) return null;
+
+  const stopLossParams = candidate.stopLossParams;
+  const hasStopLoss = orders.some((order) => order.kind === "stop_loss");
+  if (
+    typeof candidate.positionAmountUi !== "number" ||
+    (hasStopLoss &&
+      (!stopLossParams ||
+        typeof stopLossParams !== "object" ||
+        typeof stopLossParams.tokenDecimals !== "number" ||
+        typeof stopLossParams.triggerPriceUSD !== "number"))
+  ) {
+    return null;
+  }
+
+  return {
+    id: candidate.id,
+    walletAddress: candidate.walletAddress,
+    mint: candidate.mint,
+    entryMarketCapUsd: typeof candidate.entryMarketCapUsd === "number" ? candidate.entryMarketCapUsd : 0,
+    createdAt: candidate.createdAt,
+    expiresAt: candidate.expiresAt,
+    orders,
+    positionAmountUi: candidate.positionAmountUi,
+    ...(hasStopLoss ? { stopLossParams } : null),
+  };
+}
+
+/** Parse stored ladders, dropping malformed entries. */
+export function parseExitLadders(raw: unknown): ExitLadder[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(toExitLadder).filter((ladder): ladder is ExitLadder => ladder !== null);
+}
@@ -0,0 +1,5 @@
+export * from "./tradeExecutionService";
+export * from "./tradeQuoteService";
+export * from "./triggerOrderService";
+export * from "./exitLadder";
+export * from "./trailingStop";
@@ -1,4 +1,4 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
 
 type TxExecutionResult = {
   id?: number;
@@ -45,7 +45,7 @@ export type SwapByPercentageRequest = {
 };
 
 export async function requestSwapByPercentage(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   input: SwapByPercentageRequest
 ): Promise<SwapExecutionResult> {
   const raw = await rpcClient.call<TxSwapResponse>("tx/swapBalancePercentage", [
@@ -77,7 +77,7 @@ export async function requestSwapByPercentage(
 }
 
 export async function requestSwapExecution(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   input: SwapExecutionRequest
 ): Promise<SwapExecutionResult> {
   const raw = await rpcClient.call<TxSwapResponse>("tx/swap", [
@@ -107,3 +107,59 @@ export async function requestSwapExecution(
     raw,
   };
 }
+
+// ── Confirmation (Solana RPC) ──
+
+export type SwapConfirmation = "confirmed" | "failed" | "timeout";
+
+type SignatureStatusesResponse = {
+  result?: {
+    value?: ({ err: unknown; confirmationStatus?: "processed" | "confirmed" | "finalized" } | null)[];
+  };
+};
+
+export type WaitForConfirmationOptions = {
+  timeoutMs?: number;
+  intervalMs?: number;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+};
+
+/**
+ * Poll a Solana RPC node until a swap's signature reaches "confirmed". A
+ * landed transaction with an error resolves "failed"; RPC errors count as
+ * not yet confirmed and are retried until the timeout.
+ */
+export async function waitForSwapConfirmation(
+  solanaRpcEndpoint: string,
+  signature: string,
+  { timeoutMs = 60_000, intervalMs = 2_000, fetch: fetchImpl = fetch }: WaitForConfirmationOptions = {}
+): Promise<SwapConfirmation> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      const response = await fetchImpl(solanaRpcEndpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "getSignatureStatuses",
+          params: [[signature]],
+        }),
+      });
+      const body = (await response.json()) as SignatureStatusesResponse;
+      const status = body.result?.value?.[0];
+      if (status?.err) return "failed";
+      if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+        return "confirmed";
+      }
+    } catch {
+      // Retried until the deadline
+    }
+
+    if (Date.now() + intervalMs > deadline) return "timeout";
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
@@ -1,5 +1,8 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
-import { requestSwapQuote } from "@/src/features/trade/tradeQuoteService";
+/**
+ * @jest-environment node
+ */
+import type { RpcTransport } from "../rpc";
+import { USDC_MINT, requestSwapQuote, resolveMintDecimals } from "./tradeQuoteService";
 
 describe("requestSwapQuote", () => {
   it("calls tx/getSwapQuote with token-decimal atomic amount and defaults", async () => {
@@ -15,7 +18,7 @@ describe("requestSwapQuote", () => {
       },
       routePlan: [{ hop: 1 }, { hop: 2 }],
     });
-    const rpcClient = { call } as unknown as RpcClient;
+    const rpcClient = { call } as unknown as RpcTransport;
 
     const result = await requestSwapQuote(rpcClient, {
       walletAddress: "ZwBP123",
@@ -52,7 +55,7 @@ describe("requestSwapQuote", () => {
 
   it("requires input decimals when mint is unknown", async () => {
     const call = jest.fn().mockResolvedValue({});
-    const rpcClient = { call } as unknown as RpcClient;
+    const rpcClient = { call } as unknown as RpcTransport;
 
     await expect(
       requestSwapQuote(rpcClient, {
@@ -67,7 +70,7 @@ describe("requestSwapQuote", () => {
 
   it("supports non-SOL input when decimals are supplied", async () => {
     const call = jest.fn().mockResolvedValue({});
-    const rpcClient = { call } as unknown as RpcClient;
+    const rpcClient = { call } as unknown as RpcTransport;
 
     await requestSwapQuote(rpcClient, {
       walletAddress: "ZwBP123",
@@ -90,3 +93,34 @@ describe("requestSwapQuote", () => {
     ]);
   });
 });
+
+describe("resolveMintDecimals", () => {
+  it("prefers caller-supplied decimals, then well-known mints, without a request", async () => {
+    const call = jest.fn();
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await expect(resolveMintDecimals(rpcClient, "TokenMintIn", 0)).resolves.toBe(0);
+    await expect(resolveMintDecimals(rpcClient, USDC_MINT)).resolves.toBe(6);
+    await expect(
+      resolveMintDecimals(rpcClient, "So11111111111111111111111111111111111111112")
+    ).resolves.toBe(9);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("looks up unknown mints through live token info", async () => {
+    const call = jest.fn().mockResolvedValue({ mint_info: { decimals: 5 } });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await expect(resolveMintDecimals(rpcClient, "TokenMintIn")).resolves.toBe(5);
+    expect(call).toHaveBeenCalledWith("public/getLiveTokenInfo", ["TokenMintIn"]);
+  });
+
+  it("throws when live token info has no decimals", async () => {
+    const call = jest.fn().mockResolvedValue({ mint_info: {} });
+    const rpcClient = { call } as unknown as RpcTransport;
+
+    await expect(resolveMintDecimals(rpcClient, "TokenMintIn")).rejects.toThrow(
+      "Token decimals are unavailable for this mint."
+    );
+  });
+});
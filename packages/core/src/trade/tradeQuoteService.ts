@@ -1,7 +1,10 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
-import { SOL_MINT } from "@/src/lib/constants";
-const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD6h7nGQ6GdQ4Yf9sC6pHf";
+import type { RpcTransport } from "../rpc";
+import { SOL_MINT } from "../constants";
+import { fetchLiveTokenInfo } from "../token";
+import { toOptionalNumber } from "../utils";
+
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+export const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
 
 const KNOWN_MINT_DECIMALS: Record<string, number> = {
   [SOL_MINT]: 9,
@@ -60,11 +63,6 @@ export type QuoteResult = {
   raw: TradeSwapQuote;
 };
 
-function toNumber(value: unknown): number | undefined {
-  const numeric = Number(value);
-  return Number.isFinite(numeric) ? numeric : undefined;
-}
-
 function toTokenUnits(atomicAmount: number | undefined, decimals: number | undefined): number | undefined {
   if (atomicAmount === undefined || decimals === undefined) {
     return undefined;
@@ -86,6 +84,38 @@ function inferInputDecimals(inputMint: string, inputTokenDecimals?: number): num
   throw new Error("Input token decimals are unavailable. Use SOL input or provide token decimals.");
 }
 
+function isDecimals(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Decimals for any mint: the caller's value when given, then SOL/USDC/USDT,
+ * then the mint info from public/getLiveTokenInfo. Use it to fill
+ * `inputTokenDecimals` / `outputTokenDecimals` before quoting an arbitrary pair.
+ */
+export async function resolveMintDecimals(
+  rpcClient: RpcTransport,
+  mint: string,
+  knownDecimals?: number
+): Promise<number> {
+  if (isDecimals(knownDecimals)) {
+    return knownDecimals;
+  }
+
+  const fromMintMap = KNOWN_MINT_DECIMALS[mint];
+  if (typeof fromMintMap === "number") {
+    return fromMintMap;
+  }
+
+  const info = await fetchLiveTokenInfo(rpcClient, mint);
+  const decimals = info?.mint_info?.decimals;
+  if (isDecimals(decimals)) {
+    return decimals;
+  }
+
+  throw new Error("Token decimals are unavailable for this mint.");
+}
+
 function priceImpactToPercent(value: number | undefined): number | undefined {
   if (value === undefined) {
     return undefined;
@@ -99,13 +129,13 @@ function priceImpactToPercent(value: number | undefined): number | undefined {
 }
 
 function inferQuoteSummary(raw: TradeSwapQuote, outputTokenDecimals?: number): QuoteSummary {
-  const amountInAtomic = toNumber(raw.amount_in);
-  const amountInMaxAtomic = toNumber(raw.amount_in_max);
-  const outAmountAtomic = toNumber(raw.amount_out ?? raw.outAmount);
-  const minOutAmountAtomic = toNumber(raw.amount_out_min ?? raw.otherAmountThreshold);
-  const priceImpactPercent = priceImpactToPercent(toNumber(raw.priceImpactPct));
-  const feeAmountSol = toNumber(raw.quickscope_fee_info?.fee_amount_sol);
-  const feeRateBps = toNumber(raw.quickscope_fee_info?.user_fee_rate_bps);
+  const amountInAtomic = toOptionalNumber(raw.amount_in);
+  const amountInMaxAtomic = toOptionalNumber(raw.amount_in_max);
+  const outAmountAtomic = toOptionalNumber(raw.amount_out ?? raw.outAmount);
+  const minOutAmountAtomic = toOptionalNumber(raw.amount_out_min ?? raw.otherAmountThreshold);
+  const priceImpactPercent = priceImpactToPercent(toOptionalNumber(raw.priceImpactPct));
+  const feeAmountSol = toOptionalNumber(raw.quickscope_fee_info?.fee_amount_sol);
+  const feeRateBps = toOptionalNumber(raw.quickscope_fee_info?.user_fee_rate_bps);
   const routePlan = raw.routePlan;
   const routeHopCount = Array.isArray(routePlan) ? routePlan.length : undefined;
 
@@ -133,7 +163,7 @@ function toAtomicAmount(amountUi: number, inputTokenDecimals: number): number {
 }
 
 export async function requestSwapQuote(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   input: QuoteRequestInput
 ): Promise<QuoteResult> {
   const amountUi = Number(input.amountUi);
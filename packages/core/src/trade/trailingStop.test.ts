@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import {
+  advanceTrailingStop,
+  initTrailingStop,
+  parseTrailingStopOrders,
+  trailingStopOrderParams,
+  type TrailingStopOrder,
+} from "./trailingStop";
+
+const START = initTrailingStop(1, 10, 5);
+
+describe("initTrailingStop", () => {
+  it("starts with the trigger one trail below the entry price", () => {
+    expect(START).toEqual({ peakPriceUSD: 1, trailPercent: 10, stepPercent: 5, triggerPriceUSD: 0.9 });
+  });
+});
+
+describe("advanceTrailingStop", () => {
+  it("does nothing while the price stays below the peak", () => {
+    const { state, actions } = advanceTrailingStop(START, [0.95, 0.99, 1, 0.92]);
+
+    expect(actions).toEqual([]);
+    expect(state).toBe(START);
+  });
+
+  it("tracks new highs but only reprices past the step threshold", () => {
+    // 1.04 → trigger 0.936, under 0.9 × 1.05 = 0.945: peak moves, order stays
+    const small = advanceTrailingStop(START, [1.04]);
+    expect(small.actions).toEqual([]);
+    expect(small.state).toMatchObject({ peakPriceUSD: 1.04, triggerPriceUSD: 0.9 });
+
+    // 1.06 → trigger 0.954 clears the step
+    const large = advanceTrailingStop(small.state, [1.06]);
+    expect(large.actions).toHaveLength(1);
+    expect(large.actions[0]).toMatchObject({ type: "reprice", index: 0, peakPriceUSD: 1.06 });
+    expect(large.state.triggerPriceUSD).toBeCloseTo(0.954);
+  });
+
+  it("emits one reprice per step cleared, measured from the last reprice", () => {
+    const { state, actions } = advanceTrailingStop(START, [1.1, 1.12, 1.2, 1.19, 1.5]);
+
+    expect(actions.map((a) => a.index)).toEqual([0, 2, 4]);
+    expect(actions.every((a) => a.type === "reprice")).toBe(true);
+    expect(state.peakPriceUSD).toBe(1.5);
+    expect(state.triggerPriceUSD).toBeCloseTo(1.35);
+  });
+
+  it("stops at the first price at or below the trigger", () => {
+    const { state, actions } = advanceTrailingStop(START, [1.2, 1.07, 1.5]);
+
+    expect(actions).toHaveLength(2);
+    expect(actions[0]).toMatchObject({ type: "reprice", index: 0 });
+    expect(actions[1]).toEqual({ type: "triggered", index: 1, priceUSD: 1.07 });
+    // The later high is ignored once triggered
+    expect(state.peakPriceUSD).toBe(1.2);
+    expect(state.triggerPriceUSD).toBeCloseTo(1.08);
+  });
+
+  it("skips missing and non-positive prices", () => {
+    const { actions } = advanceTrailingStop(START, [Number.NaN, 0, -1, Number.POSITIVE_INFINITY]);
+    expect(actions).toEqual([]);
+  });
+
+  it("reprices on every new high with a zero step", () => {
+    const { actions } = advanceTrailingStop(initTrailingStop(1, 20, 0), [1.01, 1.02, 1.015, 1.03]);
+    expect(actions.map((a) => a.index)).toEqual([0, 1, 3]);
+  });
+});
+
+const STORED: TrailingStopOrder = {
+  id: "trail-1",
+  walletAddress: "Wallet111",
+  mint: "MintA",
+  orderId: "order-1",
+  inputAmount: 500,
+  tokenDecimals: 6,
+  slippageBps: 1500,
+  priorityFeeLamports: 100_000,
+  jitoTipLamports: 0,
+  createdAt: 1_700_000_000,
+  expiresAt: 1_700_604_800,
+  state: { peakPriceUSD: 1.2, trailPercent: 10, stepPercent: 5, triggerPriceUSD: 1.08 },
+};
+
+describe("trailingStopOrderParams", () => {
+  it("re-creates the stop-loss at the trailed trigger with the remaining lifetime", () => {
+    expect(trailingStopOrderParams(STORED, 1_700_004_800)).toEqual({
+      walletAddress: "Wallet111",
+      mint: "MintA",
+      orderType: "stop_loss",
+      inputAmount: 500,
+      tokenDecimals: 6,
+      triggerPriceUSD: 1.08,
+      expiresIn: 600_000,
+      slippageBps: 1500,
+      priorityFeeLamports: 100_000,
+      jitoTipLamports: 0,
+    });
+  });
+});
+
+describe("parseTrailingStopOrders", () => {
+  it("round-trips stored orders and drops malformed entries", () => {
+    const pending = { ...STORED, id: "trail-2", orderId: null };
+    expect(
+      parseTrailingStopOrders(JSON.parse(JSON.stringify([STORED, pending, { ...STORED, state: {} }])))
+    ).toEqual([STORED, pending]);
+    expect(parseTrailingStopOrders(null)).toEqual([]);
+  });
+});
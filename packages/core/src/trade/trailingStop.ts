@@ -0,0 +1,163 @@
+/**
+ * Trailing stops — client-managed on top of `stop_loss` trigger orders.
+ *
+ * The server only knows fixed triggers, so the app keeps the trailing state
+ * (peak price, trail %, step %) and, while it runs, cancels and re-creates
+ * the underlying stop-loss as the price makes new highs. The trigger only
+ * moves once it would rise by at least the step, to limit order churn.
+ */
+import type { CreateTriggerOrderParams } from "./triggerOrderService";
+
+// ── Types ────────────────────────────────────────
+
+export type TrailingStopState = {
+  /** Highest price seen since the order was created */
+  peakPriceUSD: number;
+  /** Distance of the trigger below the peak, in percent */
+  trailPercent: number;
+  /** Minimum rise of the trigger, in percent, before the order is re-created */
+  stepPercent: number;
+  /** Trigger of the live stop-loss order */
+  triggerPriceUSD: number;
+};
+
+export type TrailingStopAction =
+  /** Cancel the live stop-loss and re-create it at `triggerPriceUSD` */
+  | { type: "reprice"; index: number; peakPriceUSD: number; triggerPriceUSD: number }
+  /** Price reached the trigger — the stop-loss fires server-side; stop trailing */
+  | { type: "triggered"; index: number; priceUSD: number };
+
+/** A trailing stop persisted on device, pointing at its current stop-loss order. */
+export type TrailingStopOrder = {
+  id: string;
+  walletAddress: string;
+  mint: string;
+  /** Current underlying order; null while a re-create is pending */
+  orderId: string | null;
+  inputAmount: number;
+  tokenDecimals: number;
+  slippageBps: number;
+  priorityFeeLamports: number;
+  jitoTipLamports: number;
+  /** Unix seconds */
+  createdAt: number;
+  /** Unix seconds — re-created orders keep the original expiry */
+  expiresAt: number;
+  state: TrailingStopState;
+};
+
+export const DEFAULT_TRAIL_PERCENT = 15;
+export const DEFAULT_TRAIL_STEP_PERCENT = 2;
+
+// ── Re-pricing ───────────────────────────────────
+
+export function trailingTriggerPrice(peakPriceUSD: number, trailPercent: number): number {
+  return peakPriceUSD * (1 - trailPercent / 100);
+}
+
+export function initTrailingStop(
+  priceUSD: number,
+  trailPercent: number,
+  stepPercent = DEFAULT_TRAIL_STEP_PERCENT
+): TrailingStopState {
+  return {
+    peakPriceUSD: priceUSD,
+    trailPercent,
+    stepPercent,
+    triggerPriceUSD: trailingTriggerPrice(priceUSD, trailPercent),
+  };
+}
+
+/**
+ * Walk a price series (oldest first) and return the updated trailing state
+ * with the order actions it calls for. The peak always follows new highs;
+ * a `reprice` is emitted only when the trailed trigger clears the current one
+ * by `stepPercent`. Once a price falls to the trigger, a `triggered` action
+ * ends the walk and later prices are ignored. Non-positive or non-finite
+ * prices are skipped.
+ */
+export function advanceTrailingStop(
+  state: TrailingStopState,
+  prices: number[]
+): { state: TrailingStopState; actions: TrailingStopAction[] } {
+  let next = state;
+  const actions: TrailingStopAction[] = [];
+
+  for (let index = 0; index < prices.length; index++) {
+    const price = prices[index];
+    if (!Number.isFinite(price) || price <= 0) continue;
+
+    if (price <= next.triggerPriceUSD) {
+      actions.push({ type: "triggered", index, priceUSD: price });
+      break;
+    }
+    if (price <= next.peakPriceUSD) continue;
+
+    next = { ...next, peakPriceUSD: price };
+    const candidate = trailingTriggerPrice(price, next.trailPercent);
+    if (candidate >= next.triggerPriceUSD * (1 + next.stepPercent / 100)) {
+      next = { ...next, triggerPriceUSD: candidate };
+      actions.push({ type: "reprice", index, peakPriceUSD: price, triggerPriceUSD: candidate });
+    }
+  }
+
+  return { state: next, actions };
+}
+
+/** Params to (re-)create the underlying stop-loss at the current trailing trigger. */
+export function trailingStopOrderParams(
+  order: TrailingStopOrder,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): CreateTriggerOrderParams {
+  return {
+    walletAddress: order.walletAddress,
+    mint: order.mint,
+    orderType: "stop_loss",
+    inputAmount: order.inputAmount,
+    tokenDecimals: order.tokenDecimals,
+    triggerPriceUSD: order.state.triggerPriceUSD,
+    expiresIn: Math.max(0, order.expiresAt - nowSeconds),
+    slippageBps: order.slippageBps,
+    priorityFeeLamports: order.priorityFeeLamports,
+    jitoTipLamports: order.jitoTipLamports,
+  };
+}
+
+// ── Persistence ──────────────────────────────────
+
+const NUMERIC_FIELDS = [
+  "inputAmount",
+  "tokenDecimals",
+  "slippageBps",
+  "priorityFeeLamports",
+  "jitoTipLamports",
+  "createdAt",
+  "expiresAt",
+] as const;
+
+const STATE_FIELDS = ["peakPriceUSD", "trailPercent", "stepPercent", "triggerPriceUSD"] as const;
+
+function toTrailingStopOrder(entry: unknown): TrailingStopOrder | null {
+  if (!entry || typeof entry !== "object") return null;
+  const candidate = entry as Partial<TrailingStopOrder>;
+  if (
+    typeof candidate.id !== "string" ||
+    typeof candidate.walletAddress !== "string" ||
+    typeof candidate.mint !== "string" ||
+    (candidate.orderId !== null && typeof candidate.orderId !== "string") ||
+    NUMERIC_FIELDS.some((field) => typeof candidate[field] !== "number") ||
+    !candidate.state ||
+    STATE_FIELDS.some((field) => typeof candidate.state?.[field] !== "number")
+  ) {
+    return null;
+  }
+  return candidate as TrailingStopOrder;
+}
+
+/** Parse stored trailing stops, dropping malformed entries. */
+export function parseTrailingStopOrders(raw: unknown): TrailingStopOrder[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(toTrailingStopOrder)
+    .filter((order): order is TrailingStopOrder => order !== null);
+}
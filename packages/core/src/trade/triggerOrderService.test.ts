@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import {
+  applyOrderStatusUpdate,
+  extractOrderStatusUpdates,
+  isTerminalOrderStatus,
+  type TriggerOrder,
+} from "./triggerOrderService";
+
+function order(overrides: Partial<TriggerOrder> = {}): TriggerOrder {
+  return {
+    uuid: "order-1",
+    userAccount: "Wallet111",
+    orderType: "limit_buy",
+    mint: "MintA",
+    inputAmount: "1000000",
+    initialPriceUSD: 0.001,
+    triggerPriceUSD: 0.0008,
+    expiresAt: 1_700_600_000,
+    createdAt: 1_700_000_000,
+    updatedAt: 1_700_000_000,
+    status: "active",
+    priorityFeeLamports: "0",
+    jitoTipLamports: "0",
+    slippageBps: 100,
+    signature: null,
+    ...overrides,
+  };
+}
+
+describe("extractOrderStatusUpdates", () => {
+  it("accepts a single order or a batch and drops malformed entries", () => {
+    expect(extractOrderStatusUpdates({ uuid: "a", status: "filled" })).toEqual([
+      { uuid: "a", status: "filled" },
+    ]);
+    expect(
+      extractOrderStatusUpdates([
+        { uuid: "a", status: "executing" },
+        { uuid: "b", status: "unknown" },
+        { status: "filled" },
+        null,
+      ])
+    ).toEqual([{ uuid: "a", status: "executing" }]);
+  });
+});
+
+describe("applyOrderStatusUpdate", () => {
+  it("updates the matching order in place with its fill signature", () => {
+    const orders = [order({ uuid: "order-0" }), order()];
+    const next = applyOrderStatusUpdate(orders, {
+      uuid: "order-1",
+      status: "filled",
+      signature: "sig123",
+      updatedAt: 1_700_000_100,
+    });
+
+    expect(next).not.toBe(orders);
+    expect(next[0]).toBe(orders[0]);
+    expect(next[1]).toMatchObject({
+      status: "filled",
+      signature: "sig123",
+      updatedAt: 1_700_000_100,
+    });
+  });
+
+  it("returns the same list when the order is not present", () => {
+    const orders = [order()];
+    expect(applyOrderStatusUpdate(orders, { uuid: "other", status: "filled" })).toBe(orders);
+  });
+
+  it("ignores stale and out-of-order transitions", () => {
+    const filled = [order({ status: "filled", updatedAt: 1_700_000_200 })];
+
+    expect(
+      applyOrderStatusUpdate(filled, { uuid: "order-1", status: "executing" })
+    ).toBe(filled);
+    expect(
+      applyOrderStatusUpdate(filled, {
+        uuid: "order-1",
+        status: "failed",
+        updatedAt: 1_700_000_100,
+      })
+    ).toBe(filled);
+  });
+});
+
+describe("isTerminalOrderStatus", () => {
+  it("treats only active and executing as open", () => {
+    expect(isTerminalOrderStatus("active")).toBe(false);
+    expect(isTerminalOrderStatus("executing")).toBe(false);
+    expect(isTerminalOrderStatus("filled")).toBe(true);
+    expect(isTerminalOrderStatus("expired")).toBe(true);
+  });
+});
@@ -5,8 +5,10 @@
  * - tx/createTriggerOrder
  * - tx/getTriggerOrders
  * - tx/cancelTriggerOrder
+ *
+ * Live status transitions arrive on the authenticated tx/orderStatusChanges stream.
  */
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
 
 // ── Types ────────────────────────────────────────
 
@@ -57,6 +59,15 @@ export type GetTriggerOrdersParams = {
   status?: OrderStatus[];
 };
 
+/**
+ * Payload of a `tx/orderStatusChanges` message — the changed order. The
+ * server sends the full row; only `uuid` and `status` are relied upon.
+ */
+export type TriggerOrderStatusUpdate = Pick<TriggerOrder, "uuid" | "status"> &
+  Partial<Omit<TriggerOrder, "uuid" | "status">>;
+
+export const ORDER_STATUS_CHANNEL = "tx/orderStatusChanges";
+
 // ── Expiration presets (seconds) ─────────────────
 
 export const EXPIRATION_PRESETS = [
@@ -111,10 +122,66 @@ export function formatExpiresIn(expiresAtSeconds: number): string {
   return `${minutes}m`;
 }
 
+// ── Live status updates ──────────────────────────
+
+const ORDER_STATUSES: readonly OrderStatus[] = [
+  "active",
+  "executing",
+  "filled",
+  "cancelled",
+  "expired",
+  "failed",
+];
+
+/** Orders in these states will not change again. */
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return status !== "active" && status !== "executing";
+}
+
+/** Normalize a stream payload (single order or batch) into valid updates. */
+export function extractOrderStatusUpdates(payload: unknown): TriggerOrderStatusUpdate[] {
+  const items = Array.isArray(payload) ? payload : [payload];
+  return items.filter((item): item is TriggerOrderStatusUpdate => {
+    if (!item || typeof item !== "object") return false;
+    const candidate = item as Partial<TriggerOrder>;
+    return (
+      typeof candidate.uuid === "string" &&
+      ORDER_STATUSES.includes(candidate.status as OrderStatus)
+    );
+  });
+}
+
+/**
+ * Apply a status update to an order list in place of the matching row.
+ * Returns the same array when nothing changed (order not listed, or the
+ * update is stale) so callers can bail out of re-rendering.
+ */
+export function applyOrderStatusUpdate(
+  orders: TriggerOrder[],
+  update: TriggerOrderStatusUpdate
+): TriggerOrder[] {
+  const index = orders.findIndex((order) => order.uuid === update.uuid);
+  if (index === -1) return orders;
+
+  const current = orders[index];
+  // Ignore stale or out-of-order messages (e.g. "executing" after "filled")
+  if (update.updatedAt !== undefined && update.updatedAt < current.updatedAt) return orders;
+  if (isTerminalOrderStatus(current.status) && !isTerminalOrderStatus(update.status)) return orders;
+
+  const next: TriggerOrder = {
+    ...current,
+    status: update.status,
+    signature: update.signature ?? current.signature,
+    updatedAt: update.updatedAt ?? current.updatedAt,
+  };
+
+  return [...orders.slice(0, index), next, ...orders.slice(index + 1)];
+}
+
 // ── API calls ────────────────────────────────────
 
 export async function createTriggerOrder(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   params: CreateTriggerOrderParams
 ): Promise<TriggerOrder> {
   return rpcClient.call<TriggerOrder>("tx/createTriggerOrder", [
@@ -134,7 +201,7 @@ export async function createTriggerOrder(
 }
 
 export async function getTriggerOrders(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   params: GetTriggerOrdersParams
 ): Promise<TriggerOrder[]> {
   const result = await rpcClient.call<{ orders?: TriggerOrder[] }>(
@@ -151,7 +218,7 @@ export async function getTriggerOrders(
 }
 
 export async function cancelTriggerOrder(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   orderId: string
 ): Promise<void> {
   await rpcClient.call<unknown>("tx/cancelTriggerOrder", [orderId]);
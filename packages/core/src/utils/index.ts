@@ -0,0 +1,2 @@
+export { toNumber, toOptionalInteger, toOptionalNumber } from "./numbers";
+export { appendUniqueByMint, type PageParams } from "./pagination";
@@ -0,0 +1,20 @@
+/** Coerce an API number (often a numeric string) to a finite number, 0 otherwise. */
+export function toNumber(value: unknown): number {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+/** Like `toNumber`, but non-numeric input stays `undefined` instead of becoming 0. */
+export function toOptionalNumber(value: unknown): number | undefined {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : undefined;
+}
+
+/** Non-negative integers only — used for counts and ids. */
+export function toOptionalInteger(value: unknown): number | undefined {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) {
+    return undefined;
+  }
+  return numeric;
+}
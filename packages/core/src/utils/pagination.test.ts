@@ -0,0 +1,22 @@
+/**
+ * @jest-environment node
+ */
+import { appendUniqueByMint } from "./pagination";
+
+describe("appendUniqueByMint", () => {
+  it("appends only mints not already listed, including duplicates within the page", () => {
+    const existing = [{ mint: "a" }, { mint: "b" }];
+
+    expect(appendUniqueByMint(existing, [{ mint: "b" }, { mint: "c" }, { mint: "c" }])).toEqual([
+      { mint: "a" },
+      { mint: "b" },
+      { mint: "c" },
+    ]);
+  });
+
+  it("returns the existing list when nothing new arrives", () => {
+    const existing = [{ mint: "a" }];
+    expect(appendUniqueByMint(existing, [{ mint: "a" }])).toBe(existing);
+    expect(appendUniqueByMint(existing, [])).toBe(existing);
+  });
+});
@@ -0,0 +1,21 @@
+/** An offset page of a table endpoint, sent as `row_limit` / `row_offset`. */
+export type PageParams = {
+  limit: number;
+  offset: number;
+};
+
+/**
+ * Append a page to a list, skipping rows whose mint is already listed. Tables
+ * re-sort between requests, so the same token can land on two pages.
+ */
+export function appendUniqueByMint<T extends { mint: string }>(existing: T[], page: T[]): T[] {
+  if (page.length === 0) return existing;
+
+  const seen = new Set(existing.map((row) => row.mint));
+  const added = page.filter((row) => {
+    if (seen.has(row.mint)) return false;
+    seen.add(row.mint);
+    return true;
+  });
+  return added.length > 0 ? [...existing, ...added] : existing;
+}
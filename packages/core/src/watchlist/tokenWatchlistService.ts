@@ -1,4 +1,5 @@
-import type { RpcClient } from "@/src/lib/api/rpcClient";
+import type { RpcTransport } from "../rpc";
+import { toNumber } from "../utils";
 
 export type TokenWatchlist = {
   id: number;
@@ -50,13 +51,32 @@ export type EnrichedWatchlistToken = {
   holders: number;
 };
 
-function toNumber(value: unknown): number {
-  const numeric = Number(value);
-  return Number.isFinite(numeric) ? numeric : 0;
+/** Numeric columns a watchlist's tokens can be sorted by. */
+export type WatchlistTokenSortKey =
+  | "marketCapUsd"
+  | "oneHourVolumeUsd"
+  | "oneHourChangePercent"
+  | "oneDayVolumeUsd"
+  | "oneDayChangePercent"
+  | "holders";
+
+export type WatchlistTokenSort = {
+  key: WatchlistTokenSortKey;
+  descending: boolean;
+};
+
+/** Sorted copy of `tokens`; ties keep the list's own order. */
+export function sortWatchlistTokens(
+  tokens: EnrichedWatchlistToken[],
+  sort: WatchlistTokenSort | undefined
+): EnrichedWatchlistToken[] {
+  if (!sort) return tokens;
+  const direction = sort.descending ? -1 : 1;
+  return [...tokens].sort((a, b) => (a[sort.key] - b[sort.key]) * direction);
 }
 
 export async function fetchTokenWatchlists(
-  rpcClient: RpcClient
+  rpcClient: RpcTransport
 ): Promise<TokenWatchlist[]> {
   const lists = await rpcClient.call<TokenWatchlist[]>("private/getAllTokenWatchlists", []);
   return (lists ?? []).map((list) => ({
@@ -66,7 +86,7 @@ export async function fetchTokenWatchlists(
 }
 
 export async function createTokenWatchlist(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   name: string,
   description = ""
 ): Promise<number> {
@@ -75,15 +95,33 @@ export async function createTokenWatchlist(
 }
 
 export async function deleteTokenWatchlist(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   watchlistId: number
 ): Promise<boolean> {
   const params = { watchlistId };
   return rpcClient.call<boolean>("private/deleteTokenWatchlist", Object.values(params));
 }
 
+export async function updateTokenWatchlistName(
+  rpcClient: RpcTransport,
+  watchlistId: number,
+  name: string
+): Promise<boolean> {
+  const params = { watchlistId, name };
+  return rpcClient.call<boolean>("private/updateTokenWatchlistName", Object.values(params));
+}
+
+export async function updateTokenWatchlistDescription(
+  rpcClient: RpcTransport,
+  watchlistId: number,
+  description: string
+): Promise<boolean> {
+  const params = { watchlistId, description };
+  return rpcClient.call<boolean>("private/updateTokenWatchlistDescription", Object.values(params));
+}
+
 export async function fetchWatchlistTokens(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   mints: string[]
 ): Promise<EnrichedWatchlistToken[]> {
   if (mints.length === 0) return [];
@@ -122,7 +160,7 @@ export async function fetchWatchlistTokens(
 }
 
 export async function addTokenToWatchlist(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   watchlistId: number,
   tokenAddress: string
 ): Promise<boolean> {
@@ -131,10 +169,54 @@ export async function addTokenToWatchlist(
 }
 
 export async function removeTokenFromWatchlist(
-  rpcClient: RpcClient,
+  rpcClient: RpcTransport,
   watchlistId: number,
   tokenAddress: string
 ): Promise<boolean> {
   const params = { watchlistId, token: tokenAddress };
   return rpcClient.call<boolean>("private/removeTokenFromWatchlist", Object.values(params));
 }
+
+// ── Publishing ──
+
+/** Publish a list so others can preview and subscribe. Returns the published list id used in share links. */
+export async function publishTokenWatchlist(
+  rpcClient: RpcTransport,
+  watchlistId: number
+): Promise<number> {
+  const params = { watchlistId };
+  return rpcClient.call<number>("private/publishTokenWatchlist", Object.values(params));
+}
+
+export async function unpublishTokenWatchlist(
+  rpcClient: RpcTransport,
+  watchlistId: number
+): Promise<boolean> {
+  const params = { watchlistId };
+  return rpcClient.call<boolean>("private/deletePublishedTokenWatchlist", Object.values(params));
+}
+
+export async function subscribeToTokenWatchlist(
+  rpcClient: RpcTransport,
+  publishedId: number
+): Promise<boolean> {
+  const params = { watchlistId: publishedId };
+  return rpcClient.call<boolean>("private/subscribeToPublishedTokenWatchlist", Object.values(params));
+}
+
+export async function unsubscribeFromTokenWatchlist(
+  rpcClient: RpcTransport,
+  publishedId: number
+): Promise<boolean> {
+  const params = { watchlistId: publishedId };
+  return rpcClient.call<boolean>("private/unsubscribeFromPublishedTokenWatchlist", Object.values(params));
+}
+
+/** Public — readable without a session, so shared links preview before sign-in. */
+export async function fetchPublishedTokenWatchlist(
+  rpcClient: RpcTransport,
+  publishedId: number
+): Promise<TokenWatchlist> {
+  const list = await rpcClient.call<TokenWatchlist>("public/getPublishedTokenWatchlist", [publishedId]);
+  return { ...list, tokens: list?.tokens ?? [] };
+}